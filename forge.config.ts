@@ -108,6 +108,14 @@ const config: ForgeConfig = {
               js: './src/frontend/lib/preload.ts',
             },
           },
+          {
+            html: './src/frontend/assets/index.html',
+            js: './src/frontend/windows/match-centre.tsx',
+            name: 'match_centre_window',
+            preload: {
+              js: './src/frontend/lib/preload.ts',
+            },
+          },
         ],
       },
     }),
@@ -4,6 +4,7 @@
 declare const LANDING_WINDOW_WEBPACK_ENTRY: string;
 declare const MAIN_WINDOW_WEBPACK_ENTRY: string;
 declare const MAIN_WINDOW_PRELOAD_WEBPACK_ENTRY: string;
+declare const MATCH_CENTRE_WINDOW_WEBPACK_ENTRY: string;
 declare const MODAL_WINDOW_WEBPACK_ENTRY: string;
 declare const SPLASH_WINDOW_WEBPACK_ENTRY: string;
 declare const THREADING_WINDOW_WEBPACK_ENTRY: string;
@@ -0,0 +1,66 @@
+/**
+ * Player agents IPC handlers.
+ *
+ * @module
+ */
+import log from 'electron-log';
+import { ipcMain } from 'electron';
+import { Constants } from '@liga/shared';
+import { Agents, DatabaseClient, WindowManager } from '@liga/backend/lib';
+
+/**
+ * Sends the refreshed profile to every window.
+ *
+ * @function
+ */
+async function sendProfile() {
+  const profile = await DatabaseClient.prisma.profile.findFirst({
+    include: { player: true },
+  });
+
+  WindowManager.sendAll(Constants.IPCRoute.PROFILES_CURRENT, profile);
+  return profile;
+}
+
+/**
+ * Register the IPC event handlers.
+ *
+ * @function
+ */
+export default function () {
+  ipcMain.handle(Constants.IPCRoute.AGENTS_ALL, async () => {
+    try {
+      await DatabaseClient.connect();
+      return Agents.findAll();
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+
+  ipcMain.handle(Constants.IPCRoute.AGENTS_SIGN, async (_, agentId: number) => {
+    try {
+      await DatabaseClient.connect();
+      const profile = await DatabaseClient.prisma.profile.findFirst({
+        include: { player: true },
+      });
+      await Agents.sign(profile, agentId);
+      return sendProfile();
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+
+  ipcMain.handle(Constants.IPCRoute.AGENTS_RELEASE, async () => {
+    try {
+      await DatabaseClient.connect();
+      const profile = await DatabaseClient.prisma.profile.findFirst();
+      await Agents.release(profile);
+      return sendProfile();
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+}
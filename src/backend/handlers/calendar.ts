@@ -3,15 +3,28 @@
  */
 
 import { ipcMain } from 'electron';
-import { add, addDays, differenceInDays, endOfDay, format, getISODay, startOfDay } from 'date-fns';
+import {
+  add,
+  addDays,
+  differenceInDays,
+  endOfDay,
+  format,
+  getDate,
+  getISODay,
+  startOfDay,
+} from 'date-fns';
 import { Prisma, Calendar } from '@prisma/client';
 import {
   DatabaseClient,
   cleanupStaleFaceitMatchRooms,
   disconnectActiveDatabaseWithIntegrity,
   Engine,
+  FaceitLadder,
+  FaceitLeaderboard,
+  Finances,
   News,
   sealActiveSaveIntegrity,
+  Training,
   WindowManager,
   Worldgen,
 } from '@liga/backend/lib';
@@ -228,6 +241,9 @@ async function onTickEnd(input: Calendar[], status?: Engine.LoopStatus) {
     return Promise.resolve();
   }
 
+  // the user's player trains before the day is over
+  profile = await Training.runDay(profile);
+
   // Advance day
   profile = await DatabaseClient.prisma.profile.update({
     where: { id: profile.id },
@@ -236,7 +252,26 @@ async function onTickEnd(input: Calendar[], status?: Engine.LoopStatus) {
 
   const isStartOfIsoWeek = getISODay(profile.date) === 1;
   if (isStartOfIsoWeek) {
-    await simulateWeeklyNpcFaceitElo(DatabaseClient.prisma, profile.playerId);
+    const ladder = await FaceitLadder.simulateWeek(profile.playerId);
+    Engine.Runtime.Instance.log.info(
+      'Weekly FACEIT ladder played %d NPC pugs between %d players.',
+      ladder.pugs,
+      ladder.players,
+    );
+    await Worldgen.sendAgentWeeklyReport();
+    await Worldgen.sendNPCLoans();
+  }
+
+  const isStartOfMonth = getDate(profile.date) === 1;
+  if (isStartOfMonth) {
+    const snapshot = await FaceitLeaderboard.saveSnapshot(profile);
+    Engine.Runtime.Instance.log.info(
+      'Saved the %s FACEIT leaderboard snapshot of %d players.',
+      snapshot.season,
+      snapshot.players,
+    );
+    await Worldgen.sendFaceitProLeagueInvites();
+    profile = await Finances.payWages(profile);
   }
 
   const mainWindow = WindowManager.get(Constants.WindowIdentifier.Main, false)?.webContents;
@@ -245,188 +280,6 @@ async function onTickEnd(input: Calendar[], status?: Engine.LoopStatus) {
   return Promise.resolve();
 }
 
-const WEEKLY_NPC_FACEIT_ELO_SAMPLE_MIN = 300;
-const WEEKLY_NPC_FACEIT_ELO_SAMPLE_MAX = 500;
-
-function clampNumber(value: number, min: number, max: number) {
-  return Math.max(min, Math.min(max, value));
-}
-
-function randomInt(min: number, max: number) {
-  return min + Math.floor(Math.random() * (max - min + 1));
-}
-
-function randomSample<T>(items: T[], sampleSize: number) {
-  const copy = [...items];
-
-  for (let i = copy.length - 1; i > 0; i -= 1) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [copy[i], copy[j]] = [copy[j], copy[i]];
-  }
-
-  return copy.slice(0, sampleSize);
-}
-
-function highEloPressure(elo = 0) {
-  if (elo >= 5000) return 0.55;
-  if (elo >= 4750) return 0.48;
-  if (elo >= 4500) return 0.4;
-  if (elo >= 4250) return 0.34;
-  if (elo >= 4000) return 0.28;
-  if (elo >= 3750) return 0.21;
-  if (elo >= 3500) return 0.15;
-  if (elo >= 3250) return 0.1;
-  if (elo >= 3000) return 0.06;
-  if (elo >= 2750) return 0.03;
-
-  return 0;
-}
-
-function highEloGainMultiplier(elo = 0) {
-  if (elo >= 5000) return 0;
-  if (elo >= 4750) return 0.15;
-  if (elo >= 4500) return 0.25;
-  if (elo >= 4250) return 0.35;
-  if (elo >= 4000) return 0.45;
-  if (elo >= 3750) return 0.55;
-  if (elo >= 3500) return 0.65;
-  if (elo >= 3250) return 0.75;
-  if (elo >= 3000) return 0.85;
-  if (elo >= 2750) return 0.92;
-
-  return 1;
-}
-
-function highEloLossMultiplier(elo = 0, xp = 0) {
-  const lowXpMultiplier = xp < 35 ? 1.45 : xp < 50 ? 1.25 : 1;
-
-  if (elo >= 5000) return 2.2 * lowXpMultiplier;
-  if (elo >= 4750) return 1.9 * lowXpMultiplier;
-  if (elo >= 4500) return 1.65 * lowXpMultiplier;
-  if (elo >= 4250) return 1.45 * lowXpMultiplier;
-  if (elo >= 4000) return 1.3 * lowXpMultiplier;
-  if (elo >= 3750) return 1.18;
-  if (elo >= 3500) return 1.1;
-
-  return 1;
-}
-
-function randomWeeklyFaceitDelta() {
-  // Max weekly movement is +/-50, biased toward +/-25 and +/-30.
-  const weightedDeltas: Array<{ delta: number; weight: number }> = [
-    { delta: -50, weight: 4 },
-    { delta: -40, weight: 6 },
-    { delta: -30, weight: 15 },
-    { delta: -25, weight: 18 },
-    { delta: -20, weight: 8 },
-    { delta: -10, weight: 6 },
-    { delta: 0, weight: 4 },
-    { delta: 10, weight: 6 },
-    { delta: 20, weight: 8 },
-    { delta: 25, weight: 18 },
-    { delta: 30, weight: 15 },
-    { delta: 40, weight: 6 },
-    { delta: 50, weight: 4 },
-  ];
-
-  const totalWeight = weightedDeltas.reduce((sum, entry) => sum + entry.weight, 0);
-  let roll = Math.random() * totalWeight;
-
-  for (const entry of weightedDeltas) {
-    roll -= entry.weight;
-    if (roll <= 0) {
-      return entry.delta;
-    }
-  }
-
-  return 0;
-}
-
-function randomWeeklyFaceitDeltaForXp(xp = 0, elo = 0) {
-  const rawDelta = randomWeeklyFaceitDelta();
-
-  if (rawDelta === 0) {
-    return 0;
-  }
-
-  const magnitude = Math.abs(rawDelta);
-  const xpGainBias = xp >= 80 ? 0.16 : xp >= 65 ? 0.1 : xp >= 50 ? 0.06 : 0;
-  const lowXpHighEloPressure = xp < 50 && elo >= 4000 ? 0.12 : 0;
-  const gainChance = clampNumber(
-    0.5 + xpGainBias - highEloPressure(elo) - lowXpHighEloPressure,
-    0.08,
-    0.72,
-  );
-  const gainRoll = Math.random() < gainChance;
-
-  if (gainRoll) {
-    const gainMultiplier = highEloGainMultiplier(elo) * (xp < 50 && elo >= 4000 ? 0.5 : 1);
-    return Math.round(magnitude * gainMultiplier);
-  }
-
-  return -Math.round(magnitude * highEloLossMultiplier(elo, xp));
-}
-
-async function simulateWeeklyNpcFaceitElo(
-  prisma: typeof DatabaseClient.prisma,
-  userPlayerId?: number | null,
-) {
-  const eligiblePlayers = await prisma.player.findMany({
-    where: userPlayerId ? { id: { not: userPlayerId } } : {},
-    select: {
-      id: true,
-      xp: true,
-      elo: true,
-    },
-  });
-  const sampleSize = Math.min(
-    eligiblePlayers.length,
-    randomInt(WEEKLY_NPC_FACEIT_ELO_SAMPLE_MIN, WEEKLY_NPC_FACEIT_ELO_SAMPLE_MAX),
-  );
-  const players = randomSample(eligiblePlayers, sampleSize);
-
-  const chunkSize = 500;
-  for (let i = 0; i < players.length; i += chunkSize) {
-    const chunk = players.slice(i, i + chunkSize);
-
-    await prisma.$transaction(
-      chunk.map((player) => {
-        const delta = randomWeeklyFaceitDeltaForXp(player.xp, player.elo);
-
-        return prisma.player.update({
-          where: { id: player.id },
-          data: {
-            // Increment from the player's CURRENT Elo in DB at write time.
-            elo: { increment: delta },
-          },
-        });
-      }),
-    );
-
-    await prisma.player.updateMany({
-      where: {
-        id: { in: chunk.map((player) => player.id) },
-        elo: { gt: 5000 },
-      },
-      data: { elo: 5000 },
-    });
-
-    await prisma.player.updateMany({
-      where: {
-        id: { in: chunk.map((player) => player.id) },
-        elo: { lt: 100 },
-      },
-      data: { elo: 100 },
-    });
-  }
-
-  Engine.Runtime.Instance.log.info(
-    'Weekly FACEIT Elo simulation applied to %d of %d eligible NPC players.',
-    players.length,
-    eligiblePlayers.length,
-  );
-}
-
 /**
  * Engine middleware: end of loop cycle.
  *
@@ -498,6 +351,18 @@ export default function () {
     Constants.CalendarEntry.PLAYER_CONTRACT_EXTENSION_EVAL,
     Worldgen.onPlayerContractExtensionEval,
   );
+  Engine.Runtime.Instance.register(
+    Constants.CalendarEntry.PLAYER_ROLE_SWITCH_REVIEW,
+    Worldgen.onPlayerRoleSwitchReview,
+  );
+  Engine.Runtime.Instance.register(
+    Constants.CalendarEntry.PLAYER_ROLE_TRANSITION_END,
+    Worldgen.onPlayerRoleTransitionEnd,
+  );
+  Engine.Runtime.Instance.register(
+    Constants.CalendarEntry.PLAYER_LOAN_RECALL,
+    Worldgen.onPlayerLoanRecall,
+  );
   Engine.Runtime.Instance.register(
     Constants.CalendarEntry.TRANSFER_OFFER_EXPIRY_CHECK,
     Worldgen.onTransferOfferExpiryCheck,
@@ -506,6 +371,10 @@ export default function () {
     Constants.CalendarEntry.TRANSFER_PARSE,
     Worldgen.onTransferParse,
   );
+  Engine.Runtime.Instance.register(
+    Constants.CalendarEntry.TRANSFER_COUNTER_RESPONSE,
+    Worldgen.onTransferCounterResponse,
+  );
 
   // IPC: create calendar entry.
   ipcMain.handle(Constants.IPCRoute.CALENDAR_CREATE, (_, data: Prisma.CalendarCreateInput) =>
@@ -0,0 +1,40 @@
+/**
+ * Demo library IPC handlers.
+ *
+ * @module
+ */
+import { ipcMain } from 'electron';
+import { Constants, Util } from '@liga/shared';
+import { DatabaseClient, Demos, Game } from '@liga/backend/lib';
+
+/**
+ * Loads the settings of the active save.
+ *
+ * @function
+ */
+async function loadSettings() {
+  const profile = await DatabaseClient.prisma.profile.findFirst();
+  return Util.loadSettings(profile.settings);
+}
+
+/**
+ * Register the IPC event handlers.
+ *
+ * @function
+ */
+export default function () {
+  ipcMain.handle(Constants.IPCRoute.DEMOS_ALL, async () => {
+    const settings = await loadSettings();
+    await Demos.prune(settings);
+    return Demos.findAll(settings);
+  });
+  ipcMain.handle(Constants.IPCRoute.DEMOS_DELETE, async (_, file: string) =>
+    Demos.remove(await loadSettings(), file),
+  );
+  ipcMain.handle(Constants.IPCRoute.DEMOS_PLAY, async (_, file: string) => {
+    // playback goes through the regular client launch but is not
+    // tracked as the match client so it never ends a live match
+    const settings = await loadSettings();
+    await Game.launchClient(settings, ['+playdemo', Demos.getPlaybackPath(file)]);
+  });
+}
@@ -1,20 +1,29 @@
 import { ipcMain } from 'electron';
-import { cleanupStaleFaceitMatchRooms, DatabaseClient, Worldgen } from '@liga/backend/lib';
+import { Prisma } from '@prisma/client';
+import {
+  cleanupStaleFaceitMatchRooms,
+  DatabaseClient,
+  Engine,
+  FaceitLeaderboard,
+  FaceitPenalty,
+  FaceitProLeague,
+  FaceitVeto,
+  Finances,
+  MapVeto,
+  Worldgen,
+} from '@liga/backend/lib';
 import log from 'electron-log';
 import { levelFromElo } from '@liga/backend/lib/levels';
-import { FaceitMatchmaker } from '@liga/backend/lib/matchmaker';
+import { FaceitEncounter, FaceitMatchmaker } from '@liga/backend/lib/matchmaker';
 import { Server as Game } from '@liga/backend/lib/game';
-import { Constants } from '@liga/shared';
+import { Constants, Eagers, Util } from '@liga/shared';
 import { saveFaceitResult } from '@liga/backend/lib/save-result';
 import {
   computeLifetimeStats,
   getRecentMatches,
   isFaceitKillEvent,
 } from '@liga/backend/lib/faceitstats';
-import { Eagers } from '@liga/shared';
-import { sample } from 'lodash';
-import { Engine } from '@liga/backend/lib';
-import { Util } from '@liga/shared';
+import { sample, shuffle } from 'lodash';
 
 // ------------------------------
 // Types sent to frontend
@@ -33,6 +42,14 @@ type MatchPlayer = {
   queueType?: 'COUNTRY' | 'TEAM' | 'BOTH';
 };
 
+type FaceitLeaderboardArgs = {
+  perPage?: number;
+  region?: 'ALL' | 'EUROPE' | 'AMERICAS' | 'ASIA' | 'OCEANIA';
+  countryCode?: string;
+  after?: FaceitLeaderboard.FaceitLeaderboardCursor | null;
+  before?: FaceitLeaderboard.FaceitLeaderboardCursor | null;
+};
+
 export type MatchRoom = {
   matchId: string;
   teamA: MatchPlayer[];
@@ -43,6 +60,9 @@ export type MatchRoom = {
   eloLoss: number;
   selectedMap?: string;
   persistedMatchId?: number;
+  veto?: FaceitVeto.FaceitVeto;
+  proLeague?: FaceitProLeague.FaceitProLeagueDivision;
+  encounter?: FaceitEncounter;
 };
 
 function getLocalDayRange(d: Date) {
@@ -108,6 +128,8 @@ async function getFaceitDailyState(prisma: any, profile: any) {
     hasLiveUserMatchday,
     playedToday,
     maxToday,
+    cooldownEnds: FaceitPenalty.getCooldownEnds(profile),
+    reliability: profile.faceitReliability,
   };
 }
 
@@ -118,72 +140,6 @@ async function advanceOneDayFromFaceit(prisma: any, profileId: number) {
   await Engine.Runtime.Instance.start(1);
 }
 
-async function getFaceitLeaderboard(
-  prisma: any,
-  baseProfile: any,
-  options?: {
-    federationId?: number;
-    countryCode?: string;
-    limit?: number;
-  },
-) {
-  const players = await prisma.player.findMany({
-    include: {
-      country: {
-        include: {
-          continent: {
-            include: {
-              federation: true,
-            },
-          },
-        },
-      },
-      team: {
-        include: {
-          competitionFederation: true,
-        },
-      },
-    },
-  });
-
-  const rankedEntries = players
-    .map((player: any) => {
-      const playerElo = player.id === baseProfile.playerId ? baseProfile.faceitElo : player.elo;
-
-      return {
-        playerId: player.id,
-        nickname: player.name || 'Unknown',
-        countryCode: player.country?.code?.toLowerCase() || null,
-        countryName: player.country?.name || null,
-        federationId:
-          player.team?.competitionFederationId ?? player.country?.continent?.federation?.id ?? null,
-        federationSlug:
-          player.team?.competitionFederation?.slug ||
-          player.country?.continent?.federation?.slug ||
-          null,
-        faceitElo: playerElo,
-        faceitLevel: levelFromElo(playerElo),
-      };
-    })
-    .filter((entry: any) => {
-      if (options?.federationId == null) return true;
-      return entry.federationId === options.federationId;
-    })
-    .filter((entry: any) => {
-      if (!options?.countryCode) return true;
-      return entry.countryCode?.toUpperCase() === options.countryCode.toUpperCase();
-    })
-    .sort((a: any, b: any) => b.faceitElo - a.faceitElo);
-
-  const limited =
-    typeof options?.limit === 'number' ? rankedEntries.slice(0, options.limit) : rankedEntries;
-
-  return limited.map((entry: any, index: number) => ({
-    rank: index + 1,
-    ...entry,
-  }));
-}
-
 // ------------------------------------------------------
 // Build minimal pseudo-match for Game(Server)
 // ------------------------------------------------------
@@ -378,6 +334,96 @@ async function createPendingFaceitMatchRoom(prisma: any, profile: any, room: Mat
   };
 }
 
+/**
+ * Puts the players of a stored team in the order the
+ * renderer shows them in, which also names the team
+ * in-game, as long as it sent back the same players.
+ *
+ * @param team  The stored team.
+ * @param order The team as the renderer shows it.
+ * @function
+ */
+function orderFaceitTeam(team: Array<MatchPlayer>, order?: Array<{ id: number }>) {
+  const ids = (order || []).map((player) => Number(player?.id));
+
+  if (ids.length !== team.length || team.some((player) => !ids.includes(player.id))) {
+    return team;
+  }
+
+  return ids.map((id) => team.find((player) => player.id === id));
+}
+
+/**
+ * Gets the players the user can invite to their party.
+ *
+ * Only former teammates and players on their
+ * team's shortlist are ones the user has met.
+ *
+ * @param prisma  The prisma client.
+ * @param profile The user's profile.
+ * @function
+ */
+async function getFaceitPartyCandidates(
+  prisma: typeof DatabaseClient.prisma,
+  profile: Prisma.ProfileGetPayload<unknown>,
+) {
+  const stints = await prisma.careerStint.findMany({
+    where: { playerId: profile.playerId, teamId: { not: null } },
+  });
+
+  // former teammates are the players whose stints overlap with the user's
+  const formerTeammates = stints.length
+    ? await prisma.careerStint.findMany({
+        where: {
+          playerId: { not: profile.playerId },
+          OR: stints.map((stint) => ({
+            teamId: stint.teamId,
+            startedAt: { lte: stint.endedAt ?? profile.date },
+            OR: [{ endedAt: null }, { endedAt: { gte: stint.startedAt } }],
+          })),
+        },
+        select: { playerId: true },
+      })
+    : [];
+
+  const shortlist = profile.teamId
+    ? await prisma.shortlist.findMany({
+        where: { teamId: profile.teamId },
+        select: { playerId: true },
+      })
+    : [];
+
+  const sourceByPlayerId = new Map<number, 'TEAMMATE' | 'SHORTLIST'>();
+  formerTeammates.forEach((stint) => sourceByPlayerId.set(stint.playerId, 'TEAMMATE'));
+  shortlist.forEach((entry) => {
+    if (!sourceByPlayerId.has(entry.playerId)) {
+      sourceByPlayerId.set(entry.playerId, 'SHORTLIST');
+    }
+  });
+
+  if (!sourceByPlayerId.size) {
+    return [];
+  }
+
+  const players = await prisma.player.findMany({
+    where: { id: { in: Array.from(sourceByPlayerId.keys()) }, userControlled: false },
+    include: { team: true },
+    orderBy: { elo: 'desc' },
+  });
+
+  return players.map((player) => ({
+    id: player.id,
+    name: player.name,
+    elo: player.elo,
+    level: levelFromElo(player.elo),
+    role: player.role,
+    countryId: player.countryId,
+    teamId: player.teamId,
+    teamCountryId: player.team?.countryId ?? null,
+    source: sourceByPlayerId.get(player.id),
+  }));
+}
+
 async function getDetailedFaceitStats(prisma: any, profile: any) {
   const playerId = profile.playerId;
   const matches = await prisma.match.findMany({
@@ -528,6 +574,99 @@ async function getDetailedFaceitStats(prisma: any, profile: any) {
   };
 }
 
+/**
+ * Resolves the region and country the leaderboard is filtered by.
+ *
+ * @param prisma  The prisma client.
+ * @param args    The filters sent by the frontend.
+ * @function
+ */
+async function getFaceitLeaderboardFilters(
+  prisma: typeof DatabaseClient.prisma,
+  args?: FaceitLeaderboardArgs,
+) {
+  const regionToFederationSlug: Record<string, string | null> = {
+    ALL: null,
+    EUROPE: Constants.FederationSlug.ESPORTS_EUROPA,
+    AMERICAS: Constants.FederationSlug.ESPORTS_AMERICAS,
+    ASIA: Constants.FederationSlug.ESPORTS_ASIA,
+    OCEANIA: Constants.FederationSlug.ESPORTS_OCE,
+  };
+
+  const rawRegion = String(args?.region || 'ALL').toUpperCase();
+  const region = Object.keys(regionToFederationSlug).includes(rawRegion) ? rawRegion : 'ALL';
+  const federationSlug = regionToFederationSlug[region];
+
+  let federationId: number | undefined;
+  if (federationSlug) {
+    const federation = await prisma.federation.findFirst({ where: { slug: federationSlug } });
+    federationId = federation?.id;
+  }
+
+  const countryCode = args?.countryCode ? String(args.countryCode).toUpperCase() : undefined;
+
+  return { region, filters: { federationId, countryCode } };
+}
+
+/**
+ * Loads a page of the leaderboard along with the
+ * cursors of the pages before and after it.
+ *
+ * @param prisma          The prisma client.
+ * @param profile         The user's profile.
+ * @param args            The filters sent by the frontend.
+ * @param cursor          Where the page starts or ends.
+ * @param cursor.after    The entry the page starts after.
+ * @param cursor.before   The entry the page ends before.
+ * @param cursor.fromRank The rank the page starts from.
+ * @function
+ */
+async function getFaceitLeaderboardPage(
+  prisma: typeof DatabaseClient.prisma,
+  profile: Prisma.ProfileGetPayload<unknown>,
+  args: FaceitLeaderboardArgs | undefined,
+  cursor: {
+    after?: FaceitLeaderboard.FaceitLeaderboardCursor | null;
+    before?: FaceitLeaderboard.FaceitLeaderboardCursor | null;
+    fromRank?: number;
+  },
+) {
+  const { region, filters } = await getFaceitLeaderboardFilters(prisma, args);
+  const perPage = Math.max(1, Math.floor(Number(args?.perPage) || 50));
+  const {
+    entries,
+    total,
+    countries: availableCountries,
+  } = await FaceitLeaderboard.findFaceitLeaderboardPage(prisma, profile, {
+    ...filters,
+    ...cursor,
+    limit: perPage,
+  });
+  const peakLevels = await FaceitLeaderboard.findPeakLevels(entries.map((entry) => entry.playerId));
+  const first = entries[0];
+  const last = entries[entries.length - 1];
+  const toCursor = (entry: FaceitLeaderboard.FaceitLeaderboardEntry) => ({
+    elo: entry.faceitElo,
+    playerId: entry.playerId,
+  });
+
+  return {
+    entries: entries.map((entry) => ({
+      ...entry,
+      peakLevel: Math.max(entry.faceitLevel, peakLevels.get(entry.playerId) || 0),
+    })),
+    page: first ? Math.ceil(first.rank / perPage) : 1,
+    perPage,
+    total,
+    totalPages: total === 0 ? 0 : Math.ceil(total / perPage),
+    previousCursor: first && first.rank > 1 ? toCursor(first) : null,
+    nextCursor: last && last.rank < total ? toCursor(last) : null,
+    region,
+    countryCode: filters.countryCode || null,
+    availableCountries,
+  };
+}
+
 export default function registerFaceitHandlers() {
   // ------------------------------------------------------
   // GET FACEIT PROFILE
@@ -561,19 +700,21 @@ export default function registerFaceitHandlers() {
       const lifetime = await computeLifetimeStats(profile.id, profile.playerId);
       const daily = await getFaceitDailyState(prisma, profile);
       const leaderboard = fullPlayer
-        ? await getFaceitLeaderboard(prisma, profile, {
+        ? await FaceitLeaderboard.getFaceitLeaderboard(prisma, profile, {
             federationId:
               fullPlayer?.team?.competitionFederationId ??
               fullPlayer?.country?.continent?.federationId,
             limit: 10,
           })
         : [];
+      const proLeague = await FaceitProLeague.getStanding(profile);
       return {
         faceitElo: profile.faceitElo,
         faceitLevel: levelFromElo(profile.faceitElo),
         recent,
         lifetime,
         leaderboard,
+        proLeague,
 
         daily: {
           playedToday: daily.playedToday,
@@ -581,6 +722,8 @@ export default function registerFaceitHandlers() {
           hasPendingUserMatchday: daily.hasPendingUserMatchday,
           hasLiveUserMatchday: daily.hasLiveUserMatchday,
           date: daily.inGameDateIso,
+          cooldownEnds: daily.cooldownEnds ? daily.cooldownEnds.toISOString() : null,
+          reliability: daily.reliability,
         },
       };
     } catch (err) {
@@ -589,79 +732,78 @@ export default function registerFaceitHandlers() {
     }
   });
 
-  ipcMain.handle(
-    'faceit:getLeaderboard',
-    async (
-      _event,
-      args?: {
-        page?: number;
-        perPage?: number;
-        region?: 'ALL' | 'EUROPE' | 'AMERICAS' | 'ASIA' | 'OCEANIA';
-        countryCode?: string;
-      },
-    ) => {
+  ipcMain.handle('faceit:getLeaderboard', async (_event, args?: FaceitLeaderboardArgs) => {
+    try {
       const prisma = await DatabaseClient.connect();
       const profile = await prisma.profile.findFirst();
       if (!profile) throw new Error('No active profile found');
 
-      const regionToFederationSlug: Record<string, string | null> = {
-        ALL: null,
-        EUROPE: Constants.FederationSlug.ESPORTS_EUROPA,
-        AMERICAS: Constants.FederationSlug.ESPORTS_AMERICAS,
-        ASIA: Constants.FederationSlug.ESPORTS_ASIA,
-        OCEANIA: Constants.FederationSlug.ESPORTS_OCE,
-      };
-
-      const rawRegion = String(args?.region || 'ALL').toUpperCase();
-      const region = Object.keys(regionToFederationSlug).includes(rawRegion) ? rawRegion : 'ALL';
-      const federationSlug = regionToFederationSlug[region];
+      return getFaceitLeaderboardPage(prisma, profile, args, {
+        after: args?.after,
+        before: args?.before,
+      });
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
 
-      let federationId: number | undefined;
-      if (federationSlug) {
-        const federation = await prisma.federation.findFirst({ where: { slug: federationSlug } });
-        federationId = federation?.id;
-      }
+  // ------------------------------------------------------
+  // JUMP TO MY RANK
+  // ------------------------------------------------------
+  ipcMain.handle('faceit:getLeaderboardMyRank', async (_event, args?: FaceitLeaderboardArgs) => {
+    try {
+      const prisma = await DatabaseClient.connect();
+      const profile = await prisma.profile.findFirst();
+      if (!profile) throw new Error('No active profile found');
 
-      const countryCode = args?.countryCode ? String(args.countryCode).toUpperCase() : undefined;
-      const page = Math.max(1, Math.floor(Number(args?.page) || 1));
+      const { filters } = await getFaceitLeaderboardFilters(prisma, args);
       const perPage = Math.max(1, Math.floor(Number(args?.perPage) || 50));
+      const myRank = profile.playerId
+        ? await FaceitLeaderboard.findFaceitLeaderboardRank(
+            prisma,
+            profile,
+            profile.playerId,
+            filters,
+          )
+        : null;
 
-      const regionEntries = await getFaceitLeaderboard(prisma, profile, {
-        federationId,
-      });
-
-      const allEntries = countryCode
-        ? regionEntries.filter((entry: any) => entry.countryCode?.toUpperCase() === countryCode)
-        : regionEntries;
+      return {
+        ...(await getFaceitLeaderboardPage(prisma, profile, args, {
+          fromRank: myRank ? Math.floor((myRank - 1) / perPage) * perPage + 1 : 1,
+        })),
+        myRank,
+      };
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
 
-      const countriesByCode = new Map<string, string>();
-      regionEntries.forEach((entry: any) => {
-        if (entry.countryCode) {
-          countriesByCode.set(
-            entry.countryCode.toUpperCase(),
-            entry.countryName || entry.countryCode.toUpperCase(),
-          );
-        }
-      });
+  // ------------------------------------------------------
+  // GET RANKING HISTORY
+  // ------------------------------------------------------
+  ipcMain.handle('faceit:getRankingHistory', async () => {
+    try {
+      const prisma = await DatabaseClient.connect();
+      const profile = await prisma.profile.findFirst();
+      if (!profile) throw new Error('No active profile found');
 
-      const total = allEntries.length;
-      const totalPages = total === 0 ? 0 : Math.ceil(total / perPage);
-      const offset = (page - 1) * perPage;
+      const history = await FaceitLeaderboard.findPlayerHistory(profile.playerId);
 
       return {
-        entries: allEntries.slice(offset, offset + perPage),
-        page,
-        perPage,
-        total,
-        totalPages,
-        region,
-        countryCode: countryCode || null,
-        availableCountries: Array.from(countriesByCode.entries())
-          .map(([code, name]) => ({ code, name }))
-          .sort((a, b) => a.name.localeCompare(b.name)),
+        history,
+        peakLevel: Math.max(
+          levelFromElo(profile.faceitElo),
+          ...history.map((snapshot) => snapshot.level),
+        ),
+        peakRank: history.length ? Math.min(...history.map((snapshot) => snapshot.rank)) : null,
       };
-    },
-  );
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
 
   // ------------------------------------------------------
   // GET RECENT MATCHES
@@ -703,7 +845,15 @@ export default function registerFaceitHandlers() {
   // ------------------------------------------------------
   ipcMain.handle(
     'faceit:queuePug',
-    async (_, payload?: { queueElo?: number; maxPartyEloDelta?: number }) => {
+    async (
+      _,
+      payload?: {
+        queueElo?: number;
+        maxPartyEloDelta?: number;
+        partyIds?: Array<number>;
+        proLeague?: boolean;
+      },
+    ) => {
       try {
         await DatabaseClient.connect();
         const prisma = DatabaseClient.prisma;
@@ -741,6 +891,10 @@ export default function registerFaceitHandlers() {
           throw new Error('FACEIT_BLOCKED_ACTIVE_MATCH');
         }
 
+        if (daily.cooldownEnds) {
+          throw new Error('FACEIT_BLOCKED_COOLDOWN');
+        }
+
         if (daily.playedToday >= daily.maxToday) {
           throw new Error(
             daily.hasPendingUserMatchday
@@ -759,17 +913,49 @@ export default function registerFaceitHandlers() {
           ? Math.max(0, Math.min(5000, Math.round(requestedMaxPartyDelta)))
           : undefined;
 
+        // only players the user has actually met can be invited
+        const requestedPartyIds = (payload?.partyIds ?? []).map(Number);
+        const candidateIds = new Set<number>(
+          requestedPartyIds.length
+            ? (await getFaceitPartyCandidates(prisma, profile)).map((candidate) => candidate.id)
+            : [],
+        );
+        const partyIds = requestedPartyIds.filter((id) => candidateIds.has(id));
+
+        // pro league pugs are only played against the rest of the division
+        let proLeague:
+          | { division: FaceitProLeague.FaceitProLeagueDivision; playerIds: Array<number> }
+          | undefined;
+        if (payload?.proLeague) {
+          const member = await FaceitProLeague.findMember(profile.player.id, profile.date);
+          if (!member) throw new Error('FACEIT_PRO_LEAGUE_NOT_INVITED');
+
+          proLeague = {
+            division: member.division,
+            playerIds: await FaceitProLeague.findRosterIds(member),
+          };
+        }
+
         const user = {
           id: profile.player.id,
           name: profile.player.name,
           elo: profile.faceitElo,
           queueElo,
           maxPartyEloDelta,
+          partyIds,
+          proLeague,
         };
 
         const room = await FaceitMatchmaker.createMatchRoom(prisma, user);
 
-        return { room, matchId: null };
+        // the room is kept on this side so whatever the renderer
+        // sends back later cannot swap players or plant encounters
+        return createPendingFaceitMatchRoom(prisma, profile, {
+          ...room,
+          proLeague: proLeague?.division,
+          teamA: shuffle(room.teamA),
+          teamB: shuffle(room.teamB),
+        });
       } catch (err) {
         log.error(err);
         throw err;
@@ -777,6 +963,20 @@ export default function registerFaceitHandlers() {
     },
   );
 
+  ipcMain.handle('faceit:getPartyCandidates', async () => {
+    try {
+      await DatabaseClient.connect();
+      const prisma = DatabaseClient.prisma;
+      const profile = await prisma.profile.findFirst();
+      if (!profile) throw new Error('No active profile found');
+
+      return getFaceitPartyCandidates(prisma, profile);
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+
   ipcMain.handle('faceit:getPendingMatchRoom', async () => {
     try {
       await DatabaseClient.connect();
@@ -809,16 +1009,148 @@ export default function registerFaceitHandlers() {
     }
   });
 
-  ipcMain.handle('faceit:persistMatchRoom', async (_, room: MatchRoom) => {
+  ipcMain.handle('faceit:veto', async (_, room: MatchRoom, map?: string) => {
     try {
       await DatabaseClient.connect();
       const prisma = DatabaseClient.prisma;
       const profile = await prisma.profile.findFirst();
       if (!profile) throw new Error('No active profile found');
 
-      await cleanupStaleFaceitMatchRooms(prisma, profile);
+      // the veto always moves on from the room stored on this side
+      const pending = await findPendingFaceitMatchRoom(prisma, profile.id);
+      if (!pending || pending.matchId !== Number(room?.persistedMatchId)) {
+        throw new Error('FACEIT_MATCH_NOT_FOUND');
+      }
+
+      const next = await FaceitVeto.advance(pending.room, map);
+      const persisted = await createPendingFaceitMatchRoom(prisma, profile, next);
+      await MapVeto.saveVetoList(persisted.matchId, FaceitVeto.toMatchVetoes(next.veto));
+
+      return persisted;
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+
+  // ------------------------------------------------------
+  // LEAVE MATCH
+  // ------------------------------------------------------
+  ipcMain.handle('faceit:leaveMatch', async (_, matchId: number) => {
+    try {
+      await DatabaseClient.connect();
+      const prisma = DatabaseClient.prisma;
+      const profile = await prisma.profile.findFirst();
+      if (!profile) throw new Error('No active profile found');
+
+      const match = await prisma.match.findFirst({
+        where: {
+          id: Number(matchId),
+          profileId: profile.id,
+          matchType: 'FACEIT_PUG',
+          status: {
+            in: [
+              Constants.MatchStatus.READY,
+              Constants.MatchStatus.WAITING,
+              Constants.MatchStatus.PLAYING,
+            ],
+          },
+        },
+        include: {
+          checkpoint: true,
+          _count: { select: { events: true } },
+        },
+      });
+
+      if (!match) throw new Error('FACEIT_MATCH_NOT_FOUND');
+
+      // backing out of the matchroom throws the room away
+      // while leaving a started match forfeits it
+      const started =
+        match.status === Constants.MatchStatus.PLAYING ||
+        match._count.events > 0 ||
+        !!match.checkpoint;
+
+      if (!started) {
+        await MapVeto.saveVetoList(match.id, []);
+        await prisma.$transaction([
+          prisma.gameToTeam.deleteMany({ where: { game: { matchId: match.id } } }),
+          prisma.game.deleteMany({ where: { matchId: match.id } }),
+          prisma.matchToTeam.deleteMany({ where: { matchId: match.id } }),
+          prisma.match.delete({ where: { id: match.id } }),
+        ]);
+
+        const penalized = await FaceitPenalty.penalize(profile, 'DODGE');
+
+        return {
+          type: 'DODGE',
+          eloDelta: 0,
+          cooldownEnds: penalized.faceitCooldownEnds.toISOString(),
+          reliability: penalized.faceitReliability,
+        };
+      }
+
+      const room = JSON.parse(match.payload || '{}') as MatchRoom;
+      const teammates = (room.teamA || []).map((player) => ({ id: player.id, name: player.name }));
+      const opponents = (room.teamB || []).map((player) => ({ id: player.id, name: player.name }));
+      const eloLoss = room.eloLoss ?? 0;
+
+      await prisma.profile.update({
+        where: { id: profile.id },
+        data: { faceitElo: profile.faceitElo - eloLoss },
+      });
+      await prisma.player.updateMany({
+        where: { id: { in: opponents.map((player) => player.id) } },
+        data: { elo: { increment: eloLoss } },
+      });
+
+      // the teammates that were left behind lose the match too
+      await prisma.player.updateMany({
+        where: {
+          id: {
+            in: teammates.map((player) => player.id).filter((id) => id !== profile.playerId),
+          },
+        },
+        data: { elo: { decrement: eloLoss } },
+      });
+      await prisma.match.update({
+        where: { id: match.id },
+        data: {
+          status: Constants.MatchStatus.COMPLETED,
+          faceitIsWin: false,
+          faceitTeammates: JSON.stringify(teammates),
+          faceitOpponents: JSON.stringify(opponents),
+          faceitEloDelta: -(eloLoss + FaceitPenalty.ABANDON_ELO_PENALTY),
+          games: {
+            updateMany: {
+              where: {},
+              data: { status: Constants.MatchStatus.COMPLETED },
+            },
+          },
+          competitors: {
+            updateMany: [
+              { where: { teamId: 1 }, data: { result: Constants.MatchResult.LOSS } },
+              { where: { teamId: 2 }, data: { result: Constants.MatchResult.WIN } },
+            ],
+          },
+        },
+      });
 
-      return createPendingFaceitMatchRoom(prisma, profile, room);
+      const penalized = await FaceitPenalty.penalize(
+        await prisma.profile.findFirst(),
+        'ABANDON',
+        match.id,
+      );
+
+      // teams do not take kindly to their players rage quitting in public
+      await Finances.fine(penalized, 'Abandoned a FACEIT match');
+
+      return {
+        type: 'ABANDON',
+        eloDelta: -(eloLoss + FaceitPenalty.ABANDON_ELO_PENALTY),
+        cooldownEnds: penalized.faceitCooldownEnds.toISOString(),
+        reliability: penalized.faceitReliability,
+      };
     } catch (err) {
       log.error(err);
       throw err;
@@ -828,7 +1160,7 @@ export default function registerFaceitHandlers() {
   // ------------------------------------------------------
   // START FACEIT MATCH
   // ------------------------------------------------------
-  ipcMain.handle('faceit:startMatch', async (event, room: MatchRoom) => {
+  ipcMain.handle('faceit:startMatch', async (event, requested: MatchRoom) => {
     try {
       await DatabaseClient.connect();
       const prisma = DatabaseClient.prisma;
@@ -850,15 +1182,7 @@ export default function registerFaceitHandlers() {
         include: Eagers.mapPool.include,
       });
 
-      const selectedMapFromUi = room.selectedMap;
-
-      const selectedMap =
-        selectedMapFromUi || (mapPool.length > 0 ? mapPool[0].gameMap.name : 'de_inferno');
-
-      settings.matchRules.mapOverride = selectedMap;
-      profile.settings = JSON.stringify(settings);
-
-      const requestedMatchId = Number(room.persistedMatchId);
+      const requestedMatchId = Number(requested?.persistedMatchId);
       const activeMatch = await findActiveFaceitMatch(prisma, profile.id);
       if (
         activeMatch &&
@@ -871,7 +1195,7 @@ export default function registerFaceitHandlers() {
         throw new Error('FACEIT_BLOCKED_ACTIVE_MATCH');
       }
 
-      const pendingMatch = Number.isInteger(requestedMatchId)
+      const dbMatch = Number.isInteger(requestedMatchId)
         ? await prisma.match.findFirst({
             where: {
               id: requestedMatchId,
@@ -883,37 +1207,31 @@ export default function registerFaceitHandlers() {
           })
         : null;
 
+      if (!dbMatch?.payload) {
+        throw new Error('FACEIT_MATCH_NOT_FOUND');
+      }
+
       const daily = await getFaceitDailyState(prisma, profile);
       if (daily.hasLiveUserMatchday) {
         throw new Error('FACEIT_BLOCKED_LIVE_MATCHDAY_USER');
       }
 
-      if (!pendingMatch && daily.playedToday >= daily.maxToday) {
-        throw new Error(
-          daily.hasPendingUserMatchday
-            ? 'FACEIT_BLOCKED_MATCHDAY_USER_TODAY'
-            : 'FACEIT_BLOCKED_DAILY_LIMIT',
-        );
-      }
+      // only the order the players are shown in comes from the
+      // renderer while the rest is the room the matchmaker stored
+      const stored: MatchRoom = JSON.parse(dbMatch.payload);
+      const room: MatchRoom = {
+        ...stored,
+        teamA: orderFaceitTeam(stored.teamA, requested?.teamA),
+        teamB: orderFaceitTeam(stored.teamB, requested?.teamB),
+      };
 
-      const dbMatch =
-        pendingMatch ||
-        (await prisma.match.create({
-          data: {
-            matchType: 'FACEIT_PUG',
-            payload: JSON.stringify(room),
-            profileId: profile.id,
-            date: profile.date.toISOString(),
-            status: Constants.MatchStatus.READY,
-            competitors: {
-              create: [
-                { teamId: 1, seed: 0, score: 0, result: null },
-                { teamId: 2, seed: 1, score: 0, result: null },
-              ],
-            },
-          },
-          include: { games: true },
-        }));
+      const selectedMap =
+        room.selectedMap ||
+        mapPool.find((entry) => entry.gameMap.name === requested?.selectedMap)?.gameMap.name ||
+        (mapPool.length > 0 ? mapPool[0].gameMap.name : 'de_inferno');
+
+      settings.matchRules.mapOverride = selectedMap;
+      profile.settings = JSON.stringify(settings);
 
       const realMatchId = dbMatch.id;
 
@@ -955,6 +1273,7 @@ export default function registerFaceitHandlers() {
       match.games[0].map = selectedMap;
 
       const game = new Game(profile, match, null, false);
+      game.recordDemo = Util.loadSettings(profile.settings).general.recordDemos;
       game.onProgress((status) => {
         event.sender.send(Constants.IPCRoute.PLAY_PROGRESS, { status });
       });
@@ -1024,7 +1343,7 @@ export default function registerFaceitHandlers() {
 
     if (!Number.isInteger(numericId) || numericId <= 0) {
       log.warn(`faceit:getMatchData called with invalid match id: ${String(matchId)}`);
-      return { match: null, players: [], events: [] };
+      return { match: null, players: [], events: [], vetoes: [] };
     }
 
     const match = await prisma.match.findFirst({
@@ -1039,11 +1358,12 @@ export default function registerFaceitHandlers() {
       },
     });
 
-    if (!match) return { match: null, players: [], events: [] };
+    if (!match) return { match: null, players: [], events: [], vetoes: [] };
 
     return {
       match,
       players: match.players,
+      vetoes: await MapVeto.findVetoList(match.id),
       events: match.events.map((e) => ({
         id: e.id,
         type: JSON.parse(e.payload).type,
@@ -1055,4 +1375,67 @@ export default function registerFaceitHandlers() {
       })),
     };
   });
+
+  // ------------------------------------------------------
+  // REPORT PLAYER
+  // ------------------------------------------------------
+  ipcMain.handle('faceit:reportPlayer', async (_, matchId: number, playerId: number) => {
+    try {
+      const prisma = await DatabaseClient.connect();
+      const profile = await prisma.profile.findFirst();
+      if (!profile) throw new Error('No active profile found');
+
+      const match = await prisma.match.findFirst({
+        where: {
+          id: Number(matchId),
+          profileId: profile.id,
+          matchType: 'FACEIT_PUG',
+          status: Constants.MatchStatus.COMPLETED,
+        },
+      });
+
+      if (!match) throw new Error('FACEIT_MATCH_NOT_FOUND');
+      if (match.faceitReportedPlayerId) throw new Error('FACEIT_MATCH_ALREADY_REPORTED');
+
+      // only a report against the smurf or cheater of the lobby
+      // holds up and it takes back the elo the user lost to them
+      const confirmed = !!match.faceitEncounter && match.faceitEncounterPlayerId === playerId;
+      const refund = confirmed && match.faceitEloDelta < 0 ? -match.faceitEloDelta : 0;
+
+      if (refund) {
+        const teammates: Array<{ id: number }> = JSON.parse(match.faceitTeammates || '[]');
+
+        await prisma.profile.update({
+          where: { id: profile.id },
+          data: { faceitElo: profile.faceitElo + refund },
+        });
+        await prisma.player.updateMany({
+          where: {
+            id: {
+              in: teammates.map((teammate) => teammate.id).filter((id) => id !== profile.playerId),
+            },
+          },
+          data: { elo: { increment: refund } },
+        });
+      }
+
+      await prisma.match.update({
+        where: { id: match.id },
+        data: {
+          faceitReportedPlayerId: playerId,
+          faceitEloDelta: match.faceitEloDelta + refund,
+          faceitEloRefund: refund || null,
+        },
+      });
+
+      return {
+        confirmed,
+        encounter: confirmed ? match.faceitEncounter : null,
+        refund,
+      };
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
 }
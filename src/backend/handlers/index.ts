@@ -24,6 +24,7 @@ export { default as IPCWindowHandler } from './window';
 export { default as IPCBlazonryHandler } from './blazonry';
 export { default as IPCUpdaterHandler } from './updater';
 export { default as IPCCalendarHandler } from './calendar';
+export { default as IPCDemosHandler } from './demos';
 export { default as IPCMatchHandler } from './match';
 export { default as IPCPlayHandler } from './play';
 export { default as IPCProfileHandler } from './profile';
@@ -35,6 +36,7 @@ export { default as IPCNewsHandler } from './news';
 export { default as IPCMapPool } from './map-pool';
 export { default as IPCShortlist } from './shortlist';
 export { default as IPCFaceitHandler } from './faceit';
+export { default as IPCAgentsHandler } from './agents';
 
 /**
  * Gets application information such as name and
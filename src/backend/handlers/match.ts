@@ -6,8 +6,14 @@
 import Tournament from '@liga/shared/tournament';
 import { ipcMain } from 'electron';
 import { differenceBy } from 'lodash';
-import { Constants, Eagers, Util } from '@liga/shared';
-import { CompetitionMvps, DatabaseClient } from '@liga/backend/lib';
+import { Constants, Eagers } from '@liga/shared';
+import {
+  CompetitionMvps,
+  DatabaseClient,
+  MapProficiency,
+  MapVeto,
+  MatchPlayerGameDetailStats,
+} from '@liga/backend/lib';
 import { Prisma } from '@prisma/client';
 
 type MatchVetoInput = {
@@ -24,7 +30,7 @@ type GlobalPlayerStatsParams = {
   name?: string;
   page?: number;
   pageSize?: number;
-  sort?: 'rating' | 'kills' | 'deaths' | 'maps' | 'name' | 'team';
+  sort?: 'rating' | 'kills' | 'deaths' | 'maps' | 'adr' | 'kast' | 'name' | 'team';
   teamId?: number;
   tierId?: number;
   year?: string;
@@ -41,6 +47,11 @@ type GlobalPlayerStatsRow = {
   deaths: number;
   assists: number;
   maps: number;
+  adr: number | null;
+  kast: number | null;
+  utilityDamage: number | null;
+  openingKills: number;
+  openingDeaths: number;
   mvp?: {
     score: number;
     rating: number;
@@ -55,6 +66,15 @@ const globalPlayerStatsCache = new Map<
   { createdAt: number; players: GlobalPlayerStatsRow[] }
 >();
 
+type GlobalPlayerStatsTotals = {
+  ratingMaps: number;
+  ratingSum: number;
+  damage: number;
+  damageRounds: number;
+  detailRounds: number;
+  kastRounds: number;
+};
+
 function getGlobalPlayerStatsCacheKey(params: GlobalPlayerStatsParams) {
   return JSON.stringify({
     competitionId: params.competitionId || 0,
@@ -91,20 +111,6 @@ function sortGlobalPlayerStats(
   return sorted;
 }
 
-async function ensureMatchVetoTable() {
-  await DatabaseClient.prisma.$executeRawUnsafe(`
-    CREATE TABLE IF NOT EXISTS "MatchVeto" (
-      "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
-      "type" TEXT NOT NULL,
-      "map" TEXT NOT NULL,
-      "matchId" INTEGER NOT NULL,
-      "teamId" INTEGER,
-      CONSTRAINT "MatchVeto_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
-      CONSTRAINT "MatchVeto_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE SET NULL ON UPDATE CASCADE
-    )
-  `);
-}
-
 async function ensureMatchPlayerGameStatTable() {
   await DatabaseClient.prisma.$executeRawUnsafe(`
     CREATE TABLE IF NOT EXISTS "MatchPlayerGameStat" (
@@ -224,13 +230,51 @@ export default function () {
   ipcMain.handle(Constants.IPCRoute.MATCH_FIND, (_, query: Prisma.MatchFindFirstArgs) =>
     DatabaseClient.prisma.match.findFirst(query),
   );
-  ipcMain.handle(Constants.IPCRoute.MATCH_FIND_VETO_LIST, async (_, id: number) => {
-    await ensureMatchVetoTable();
-
-    return DatabaseClient.prisma.$queryRaw<
-      Array<{ id: number; type: string; map: string; teamId: number | null }>
-    >`SELECT "id", "type", "map", "teamId" FROM "MatchVeto" WHERE "matchId" = ${id} ORDER BY "id" ASC`;
+  ipcMain.handle(Constants.IPCRoute.MATCH_FIND_MAP_PROFICIENCY, async (_, id: number) => {
+    const competitors = await DatabaseClient.prisma.matchToTeam.findMany({
+      where: { matchId: id },
+      select: { teamId: true },
+    });
+
+    return MapProficiency.findByTeams(
+      competitors.map((competitor) => competitor.teamId).filter((teamId) => teamId != null),
+    );
   });
+  ipcMain.handle(Constants.IPCRoute.MATCH_FIND_PLAYER_GAME_DETAILS, (_, id: number) =>
+    MatchPlayerGameDetailStats.findByMatch(id),
+  );
+  ipcMain.handle(Constants.IPCRoute.MATCH_FIND_VETO_LIST, (_, id: number) =>
+    MapVeto.findVetoList(id),
+  );
+  ipcMain.handle(
+    Constants.IPCRoute.MATCH_FIND_VETO_SELECTION,
+    async (_, id: number, data: Array<MatchVetoInput>, teamId?: number, type?: string) => {
+      const competitors = await DatabaseClient.prisma.matchToTeam.findMany({
+        where: { matchId: id },
+        orderBy: { id: 'asc' },
+      });
+      const [home, away] = competitors.map((competitor) => competitor.teamId);
+      const context = await MapVeto.loadContext([home, away]);
+      const history = data
+        .filter((item) => !!item.type && !!item.map)
+        .map(
+          (item): MapVeto.MapVetoEntry => ({
+            type: item.type as Constants.MapVetoAction,
+            map: item.map,
+            teamId: item.teamId,
+          }),
+        );
+
+      return teamId == null
+        ? MapVeto.selectMap(context, history)
+        : MapVeto.selectMap(
+            context,
+            history,
+            context.teamIds.indexOf(teamId),
+            type as Constants.MapVetoAction,
+          );
+    },
+  );
   ipcMain.handle(
     Constants.IPCRoute.MATCH_UPDATE_MAP_LIST,
     async (_, id: number, maps: Array<string>) => {
@@ -281,20 +325,7 @@ export default function () {
   ipcMain.handle(
     Constants.IPCRoute.MATCH_UPDATE_VETO_LIST,
     async (_, id: number, data: Array<MatchVetoInput>) => {
-      const vetoes = data.filter((item) => !!item.type && !!item.map);
-      await ensureMatchVetoTable();
-
-      await DatabaseClient.prisma.$transaction(async (tx) => {
-        await tx.$executeRaw`DELETE FROM "MatchVeto" WHERE "matchId" = ${id}`;
-
-        for (const item of vetoes) {
-          await tx.$executeRaw`
-            INSERT INTO "MatchVeto" ("type", "map", "matchId", "teamId")
-            VALUES (${item.type}, ${item.map}, ${id}, ${item.teamId ?? null})
-          `;
-        }
-      });
-
+      await MapVeto.saveVetoList(id, data);
       return true;
     },
   );
@@ -317,6 +348,7 @@ export default function () {
           ? cached.players
           : await (async () => {
               await backfillMissingMatchPlayerGameStats();
+              await MatchPlayerGameDetailStats.ensureMatchPlayerGameDetailStatTable();
 
               const matchWhere = [
                 '"Match"."status" = ?',
@@ -417,13 +449,7 @@ export default function () {
                 ...playerParams,
               );
 
-              const byPlayer = new Map<
-                number,
-                GlobalPlayerStatsRow & {
-                  ratingMaps: number;
-                  ratingSum: number;
-                }
-              >();
+              const byPlayer = new Map<number, GlobalPlayerStatsRow & GlobalPlayerStatsTotals>();
               const playerById = new Map(playerCandidates.map((player) => [player.id, player]));
               const playerIds = playerCandidates.map((player) => player.id);
               const batchSize = 100;
@@ -438,6 +464,14 @@ export default function () {
                     kills: bigint | number;
                     assists: bigint | number;
                     deaths: bigint | number;
+                    ratingVersion: bigint | number | null;
+                    rounds: bigint | number | null;
+                    kastRounds: bigint | number | null;
+                    openingKills: bigint | number | null;
+                    openingDeaths: bigint | number | null;
+                    multiKillRounds: bigint | number | null;
+                    damage: bigint | number | null;
+                    utilityDamage: bigint | number | null;
                   }>
                 >(
                   `
@@ -446,9 +480,21 @@ export default function () {
                       "MatchPlayerGameStat"."matchId" AS "matchId",
                       "MatchPlayerGameStat"."kills" AS "kills",
                       "MatchPlayerGameStat"."assists" AS "assists",
-                      "MatchPlayerGameStat"."deaths" AS "deaths"
+                      "MatchPlayerGameStat"."deaths" AS "deaths",
+                      "MatchPlayerGameDetailStat"."ratingVersion" AS "ratingVersion",
+                      "MatchPlayerGameDetailStat"."rounds" AS "rounds",
+                      "MatchPlayerGameDetailStat"."kastRounds" AS "kastRounds",
+                      "MatchPlayerGameDetailStat"."openingKills" AS "openingKills",
+                      "MatchPlayerGameDetailStat"."openingDeaths" AS "openingDeaths",
+                      "MatchPlayerGameDetailStat"."multiKillRounds" AS "multiKillRounds",
+                      "MatchPlayerGameDetailStat"."damage" AS "damage",
+                      "MatchPlayerGameDetailStat"."utilityDamage" AS "utilityDamage"
                     FROM "MatchPlayerGameStat"
                     INNER JOIN "Match" ON "Match"."id" = "MatchPlayerGameStat"."matchId"
+                    LEFT JOIN "MatchPlayerGameDetailStat"
+                      ON "MatchPlayerGameDetailStat"."playerId" = "MatchPlayerGameStat"."playerId"
+                      AND "MatchPlayerGameDetailStat"."matchId" = "MatchPlayerGameStat"."matchId"
+                      AND "MatchPlayerGameDetailStat"."gameKey" = "MatchPlayerGameStat"."gameKey"
                     WHERE ${matchWhere.join(' AND ')}
                       AND "MatchPlayerGameStat"."playerId" IN (${placeholders})
                   `,
@@ -485,17 +531,23 @@ export default function () {
                       deaths: 0,
                       assists: 0,
                       maps: 0,
+                      adr: null,
+                      kast: null,
+                      utilityDamage: null,
+                      openingKills: 0,
+                      openingDeaths: 0,
                       ratingMaps: 0,
                       ratingSum: 0,
-                    } as GlobalPlayerStatsRow & {
-                      ratingMaps: number;
-                      ratingSum: number;
-                    });
+                      damage: 0,
+                      damageRounds: 0,
+                      detailRounds: 0,
+                      kastRounds: 0,
+                    } as GlobalPlayerStatsRow & GlobalPlayerStatsTotals);
 
                   const kills = Number(row.kills);
                   const assists = Number(row.assists);
                   const deaths = Number(row.deaths);
-                  const rating = Util.getPlayerRating(kills, deaths, assists);
+                  const rating = MatchPlayerGameDetailStats.getGameRating(row);
 
                   player.kills += kills;
                   player.assists += assists;
@@ -507,16 +559,43 @@ export default function () {
                     player.ratingSum += rating;
                   }
 
+                  // detail stats are missing for matches
+                  // played before they were tracked
+                  if (row.rounds !== null) {
+                    player.detailRounds += Number(row.rounds);
+                    player.kastRounds += Number(row.kastRounds);
+                    player.openingKills += Number(row.openingKills);
+                    player.openingDeaths += Number(row.openingDeaths);
+                  }
+
+                  if (row.damage !== null) {
+                    player.damage += Number(row.damage);
+                    player.damageRounds += Number(row.rounds);
+                    player.utilityDamage = (player.utilityDamage || 0) + Number(row.utilityDamage);
+                  }
+
                   byPlayer.set(row.playerId, player);
                 });
               }
 
-              const players = [...byPlayer.values()].map(({ ratingMaps, ratingSum, ...player }) => {
-                return {
-                  ...player,
-                  rating: ratingMaps ? ratingSum / ratingMaps : 0,
-                };
-              });
+              const players = [...byPlayer.values()].map(
+                ({
+                  ratingMaps,
+                  ratingSum,
+                  damage,
+                  damageRounds,
+                  detailRounds,
+                  kastRounds,
+                  ...player
+                }) => {
+                  return {
+                    ...player,
+                    rating: ratingMaps ? ratingSum / ratingMaps : 0,
+                    adr: damageRounds ? damage / damageRounds : null,
+                    kast: detailRounds ? kastRounds / detailRounds : null,
+                  };
+                },
+              );
 
               if (competitionIds.length && players.length) {
                 const playerIds = players.map((player) => player.id);
@@ -630,15 +709,15 @@ export default function () {
     }
 
     await backfillMissingMatchPlayerGameStats();
+    await MatchPlayerGameDetailStats.ensureMatchPlayerGameDetailStatTable();
 
     const rows = await DatabaseClient.prisma.$queryRaw<
-      Array<{
-        date: Date | string;
-        teamIds: string | null;
-        kills: bigint | number;
-        assists: bigint | number;
-        deaths: bigint | number;
-      }>
+      Array<
+        {
+          date: Date | string;
+          teamIds: string | null;
+        } & MatchPlayerGameDetailStats.PlayerGameRatingRow
+      >
     >`
       SELECT
         "Match"."date" AS "date",
@@ -648,10 +727,9 @@ export default function () {
           WHERE "MatchToTeam"."matchId" = "MatchPlayerGameStat"."matchId"
             AND "MatchToTeam"."teamId" IS NOT NULL
         ) AS "teamIds",
-        "MatchPlayerGameStat"."kills" AS "kills",
-        "MatchPlayerGameStat"."assists" AS "assists",
-        "MatchPlayerGameStat"."deaths" AS "deaths"
+        ${Prisma.raw(MatchPlayerGameDetailStats.RATING_COLUMNS_SQL)}
       FROM "MatchPlayerGameStat"
+      ${Prisma.raw(MatchPlayerGameDetailStats.RATING_JOIN_SQL)}
       INNER JOIN "Match" ON "Match"."id" = "MatchPlayerGameStat"."matchId"
       WHERE "Match"."status" = ${Constants.MatchStatus.COMPLETED}
         AND "Match"."competitionId" IS NOT NULL
@@ -662,11 +740,7 @@ export default function () {
 
     return rows
       .map((row) => {
-        const rating = Util.getPlayerRating(
-          Number(row.kills),
-          Number(row.deaths),
-          Number(row.assists),
-        );
+        const rating = MatchPlayerGameDetailStats.getGameRating(row);
 
         if (!Number.isFinite(rating)) {
           return null;
@@ -689,19 +763,17 @@ export default function () {
     }
 
     await backfillMissingMatchPlayerGameStats();
+    await MatchPlayerGameDetailStats.ensureMatchPlayerGameDetailStatTable();
 
     const rows = await DatabaseClient.prisma.$queryRaw<
-      Array<{
-        assists: bigint | number;
-        deaths: bigint | number;
-        kills: bigint | number;
-        rounds: bigint | number | null;
-      }>
+      Array<
+        {
+          playedRounds: bigint | number | null;
+        } & MatchPlayerGameDetailStats.PlayerGameRatingRow
+      >
     >`
         SELECT
-          "MatchPlayerGameStat"."kills" AS "kills",
-          "MatchPlayerGameStat"."assists" AS "assists",
-          "MatchPlayerGameStat"."deaths" AS "deaths",
+          ${Prisma.raw(MatchPlayerGameDetailStats.RATING_COLUMNS_SQL)},
           COALESCE(
             (
               SELECT SUM("GameToTeam"."score")
@@ -709,8 +781,9 @@ export default function () {
               WHERE "GameToTeam"."gameId" = "Game"."id"
             ),
             "Match"."totalRounds"
-          ) AS "rounds"
+          ) AS "playedRounds"
         FROM "MatchPlayerGameStat"
+        ${Prisma.raw(MatchPlayerGameDetailStats.RATING_JOIN_SQL)}
         INNER JOIN "Match" ON "Match"."id" = "MatchPlayerGameStat"."matchId"
         LEFT JOIN "Game" ON "Game"."id" = "MatchPlayerGameStat"."gameKey"
         WHERE "Match"."status" = ${Constants.MatchStatus.COMPLETED}
@@ -735,8 +808,8 @@ export default function () {
         const assists = Number(row.assists);
         const deaths = Number(row.deaths);
         const kills = Number(row.kills);
-        const rounds = Number(row.rounds || 0);
-        const rating = Util.getPlayerRating(kills, deaths, assists);
+        const rounds = Number(row.playedRounds || 0);
+        const rating = MatchPlayerGameDetailStats.getGameRating(row);
 
         acc.assists += assists;
         acc.deaths += deaths;
@@ -782,14 +855,15 @@ export default function () {
         return {};
       }
 
+      await MatchPlayerGameDetailStats.ensureMatchPlayerGameDetailStatTable();
+
       const rows = await DatabaseClient.prisma.$queryRaw<
-        Array<{
-          playerId: number;
-          gameKey: number;
-          kills: bigint | number;
-          assists: bigint | number;
-          deaths: bigint | number;
-        }>
+        Array<
+          {
+            playerId: number;
+            gameKey: number;
+          } & MatchPlayerGameDetailStats.PlayerGameRatingRow
+        >
       >`
         WITH "candidateEvents" AS (
           SELECT
@@ -835,18 +909,24 @@ export default function () {
           "playerGames"."gameKey",
           SUM(CASE WHEN "candidateEvents"."attackerId" = "playerGames"."playerId" THEN 1 ELSE 0 END) AS "kills",
           SUM(CASE WHEN "candidateEvents"."assistId" = "playerGames"."playerId" THEN 1 ELSE 0 END) AS "assists",
-          SUM(CASE WHEN "candidateEvents"."victimId" = "playerGames"."playerId" AND "candidateEvents"."assistId" IS NULL THEN 1 ELSE 0 END) AS "deaths"
+          SUM(CASE WHEN "candidateEvents"."victimId" = "playerGames"."playerId" AND "candidateEvents"."assistId" IS NULL THEN 1 ELSE 0 END) AS "deaths",
+          "MatchPlayerGameDetailStat"."ratingVersion" AS "ratingVersion",
+          "MatchPlayerGameDetailStat"."rounds" AS "rounds",
+          "MatchPlayerGameDetailStat"."kastRounds" AS "kastRounds",
+          "MatchPlayerGameDetailStat"."damage" AS "damage",
+          "MatchPlayerGameDetailStat"."multiKillRounds" AS "multiKillRounds",
+          "MatchPlayerGameDetailStat"."openingKills" AS "openingKills"
         FROM "playerGames"
         INNER JOIN "candidateEvents" ON "candidateEvents"."gameKey" = "playerGames"."gameKey"
+        LEFT JOIN "MatchPlayerGameDetailStat"
+          ON "MatchPlayerGameDetailStat"."playerId" = "playerGames"."playerId"
+          AND "MatchPlayerGameDetailStat"."gameKey" = "playerGames"."gameKey"
         GROUP BY "playerGames"."playerId", "playerGames"."gameKey"
       `;
 
       const ratingRows: Record<number, { maps: number; ratingSum: number }> = {};
       rows.forEach((row) => {
-        const kills = Number(row.kills);
-        const assists = Number(row.assists);
-        const deaths = Number(row.deaths);
-        const rating = Util.getPlayerRating(kills, deaths, assists);
+        const rating = MatchPlayerGameDetailStats.getGameRating(row);
 
         if (!Number.isFinite(rating)) {
           return;
@@ -8,7 +8,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import log from 'electron-log';
 import { ipcMain } from 'electron';
-import { flatten, merge, sample } from 'lodash';
+import { flatten, merge, sample, sampleSize } from 'lodash';
 import { Constants, Eagers, Util } from '@liga/shared';
 import { saveFaceitResult } from '@liga/backend/lib/save-result';
 import * as XpEconomy from '@liga/backend/lib/xp-economy';
@@ -16,13 +16,44 @@ import {
   DatabaseClient,
   ArenaMode,
   Game,
+  MapProficiency,
+  MatchCentre,
+  MatchCheckpoint,
+  MatchPlayerGameDetailStats,
   Scorebot,
   sealActiveSaveIntegrity,
   Simulator,
+  TacticalCalls,
+  Training,
   WindowManager,
   Worldgen,
 } from '@liga/backend/lib';
 
+/**
+ * Gets the user's match for the current day.
+ *
+ * @function
+ */
+async function findUserMatchday() {
+  const profile = await DatabaseClient.prisma.profile.findFirst(Eagers.profile);
+  const entry = await DatabaseClient.prisma.calendar.findFirst({
+    where: {
+      date: profile.date,
+      type: Constants.CalendarEntry.MATCHDAY_USER,
+    },
+  });
+  const match = entry
+    ? await DatabaseClient.prisma.match.findFirst({
+        where: {
+          id: Number(entry.payload),
+        },
+        include: Eagers.match.include,
+      })
+    : null;
+
+  return { profile, match };
+}
+
 async function withExhibitionRootPrisma<T>(callback: (prisma: PrismaClient) => Promise<T>) {
   const rootSavePath = path.join(DatabaseClient.localBasePath, Util.getSaveFileName(0));
   const prisma = new PrismaClient({
@@ -46,6 +77,8 @@ async function withExhibitionRootPrisma<T>(callback: (prisma: PrismaClient) => P
  * @function
  */
 export default function () {
+  ipcMain.handle(Constants.IPCRoute.MATCH_CENTRE_FIND, () => MatchCentre.getSnapshot());
+
   ipcMain.handle(Constants.IPCRoute.PLAY_EXHIBITION_FEDERATIONS, async () =>
     withExhibitionRootPrisma((prisma) => prisma.federation.findMany()),
   );
@@ -382,21 +415,131 @@ export default function () {
       }
     },
   );
-  ipcMain.handle(Constants.IPCRoute.PLAY_START, async (event, spectating?: boolean) => {
-    // grab today's match
+  ipcMain.handle(Constants.IPCRoute.PROFILES_TRAIN, async (event) => {
     const profile = await DatabaseClient.prisma.profile.findFirst(Eagers.profile);
-    const entry = await DatabaseClient.prisma.calendar.findFirst({
+    await Training.assertCanTrainLive(profile);
+
+    const mainWindow = WindowManager.get(Constants.WindowIdentifier.Main);
+    let minimizedForClientLaunch = false;
+    const sendProgress = (status: string) => {
+      if (status === 'STARTING_CLIENT' && !minimizedForClientLaunch) {
+        minimizedForClientLaunch = true;
+        mainWindow.minimize();
+      }
+
+      event.sender.send(Constants.IPCRoute.PLAY_PROGRESS, { status });
+    };
+
+    sendProgress('PREPARING_MATCH');
+
+    // teamless players warm up with a random team
+    // and face another one in both cases
+    const settings = Util.loadSettings(profile.settings);
+    const teamIds = await DatabaseClient.prisma.team.findMany({
+      where: { id: { not: profile.teamId ?? undefined } },
+      select: { id: true },
+    });
+    const sampledIds = sampleSize(teamIds, 2).map((team) => team.id);
+    const [home, away] = await Promise.all(
+      [profile.teamId ?? sampledIds[1], sampledIds[0]].map((id) =>
+        DatabaseClient.prisma.team.findFirst({
+          where: { id },
+          include: Eagers.team.include,
+        }),
+      ),
+    );
+    const mapPool = await DatabaseClient.prisma.mapPool.findMany({
       where: {
-        date: profile.date,
-        type: Constants.CalendarEntry.MATCHDAY_USER,
+        gameVersion: { slug: settings.general.game },
       },
+      include: Eagers.mapPool.include,
     });
-    const match = await DatabaseClient.prisma.match.findFirst({
+    const federation = await DatabaseClient.prisma.federation.findFirst({
       where: {
-        id: Number(entry.payload),
+        slug: Constants.FederationSlug.ESPORTS_WORLD,
       },
-      include: Eagers.match.include,
     });
+
+    // deathmatch sessions are custom games so
+    // they never count as a match of the career
+    const match = {
+      customGameOptions: {
+        mode: 'deathmatch',
+        deathmatch: Constants.PlayerTrainingSettings.LIVE_SESSION_OPTIONS,
+      },
+      games: [
+        {
+          status: Constants.MatchStatus.READY,
+          num: 1,
+          map: sample(mapPool)?.gameMap.name || 'de_dust2',
+          teams: [home, away].map((team, seed) => ({
+            seed: seed + 1,
+            teamId: team.id,
+            team,
+          })),
+        },
+      ],
+      competitors: [home, away].map((team) => ({
+        teamId: team.id,
+        team,
+      })),
+      competition: {
+        federation,
+        tier: {
+          name: 'Training',
+          slug: Constants.TierSlug.EXHIBITION_FRIENDLY,
+          groupSize: 0,
+          league: {
+            name: 'Training',
+          },
+        },
+        competitors: [home, away].map((team) => ({
+          teamId: team.id,
+          team,
+        })),
+      },
+    } as unknown as Prisma.MatchGetPayload<typeof Eagers.match>;
+
+    const gameServer = new Game.Server({ ...profile, teamId: home.id }, match);
+    gameServer.onProgress(sendProgress);
+
+    // bring the app back even if the session never got going
+    try {
+      await gameServer.start();
+    } catch (error) {
+      log.error(error);
+      throw error;
+    } finally {
+      mainWindow.restore();
+    }
+
+    const updated = await Training.train(
+      profile,
+      Constants.TrainingSession.DEATHMATCH,
+      Constants.PlayerTrainingSettings.LIVE_SESSION_MULT,
+    );
+    await sealActiveSaveIntegrity();
+
+    mainWindow.webContents.send(Constants.IPCRoute.PROFILES_CURRENT, {
+      ...profile,
+      ...updated,
+    });
+    return Training.getStatus(updated);
+  });
+
+  ipcMain.handle(Constants.IPCRoute.PLAY_CHECKPOINT, async () => {
+    const { match } = await findUserMatchday();
+    const checkpoint = match ? await MatchCheckpoint.find(match.id) : null;
+
+    if (!checkpoint || match.status === Constants.MatchStatus.COMPLETED) {
+      return null;
+    }
+
+    return { matchId: checkpoint.matchId, round: checkpoint.round };
+  });
+  ipcMain.handle(Constants.IPCRoute.PLAY_START, async (e, spectating?: boolean, resume = false) => {
+    // grab today's match
+    const { profile, match } = await findUserMatchday();
     const activeFaceitMatch = await DatabaseClient.prisma.match.findFirst({
       where: {
         profileId: profile.id,
@@ -424,7 +567,7 @@ export default function () {
         mainWindow.minimize();
       }
 
-      event.sender.send(Constants.IPCRoute.PLAY_PROGRESS, { status });
+      e.sender.send(Constants.IPCRoute.PLAY_PROGRESS, { status });
     };
 
     sendProgress('PREPARING_MATCH');
@@ -450,12 +593,32 @@ export default function () {
 
     // start the server and play the match
     const gameServer = new Game.Server(profile, match, null, spectating);
+    gameServer.recordDemo = settings.general.recordDemos;
+    gameServer.resumeFrom = resume ? await MatchCheckpoint.find(match.id) : null;
     gameServer.onProgress(sendProgress);
     gameServer.onCleanup(() => ArenaMode.disable(settings));
     gameServer.onClientConnected(async () => {
       await ArenaMode.startCrowdLoop(settings);
     });
-    await ArenaMode.runForMatch(settings, match, () => gameServer.start());
+
+    // keep the finished rounds around if the match gets
+    // interrupted so it can be resumed where it left off
+    try {
+      await ArenaMode.runForMatch(settings, match, () => gameServer.start());
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException)?.code === Constants.ErrorCode.EABANDONED) {
+        await MatchCheckpoint.save(
+          match.id,
+          gameServer.matchGame.id,
+          gameServer.getSideTeamIds(),
+          gameServer.scorebotEvents,
+        ).catch((checkpointError) => log.warn(checkpointError));
+      }
+
+      throw error;
+    }
+
+    await MatchCheckpoint.remove(match.id);
     sendProgress('SAVING_RESULTS');
     const [home, away] = match.competitors;
     const sideTeamIds = gameServer.getSideTeamIds();
@@ -490,6 +653,34 @@ export default function () {
     const players = flatten(gameServer.competitors.map((competitor) => competitor.team.players));
     players.push(profile.player);
 
+    // the played map counts towards both teams' map proficiency
+    await MapProficiency.recordGames([
+      { map: gameServer.matchGame.map, teamIds: [home.teamId, away.teamId] },
+    ]);
+
+    // economy, damage and utility events are summarized
+    // per player instead of being stored as match events
+    await MatchPlayerGameDetailStats.saveGame(
+      match.id,
+      gameServer.matchGame.id,
+      MatchPlayerGameDetailStats.fromScorebotEvents(
+        gameServer.scorebotEvents,
+        (name) => players.find((player) => player.name === name)?.id || profile.playerId,
+      ),
+    );
+
+    // the user's igl calls are logged along with the outcome of their
+    // round and since bots never call they are the only caller left
+    if (gameServer.tacticalCallsEnabled) {
+      await TacticalCalls.saveGame(
+        match.id,
+        gameServer.matchGame.id,
+        TacticalCalls.fromScorebotEvents(gameServer.scorebotEvents, (caller) =>
+          caller.steamId !== 'BOT' ? profile.playerId : null,
+        ),
+      );
+    }
+
     // update the match record and create the match events database entries
     await DatabaseClient.prisma.match.update({
       where: { id: match.id },
@@ -536,6 +727,13 @@ export default function () {
             let rounds = 1;
 
             return gameServer.scorebotEvents
+              .filter((event) =>
+                [
+                  Scorebot.EventIdentifier.PLAYER_ASSISTED,
+                  Scorebot.EventIdentifier.PLAYER_KILLED,
+                  Scorebot.EventIdentifier.ROUND_OVER,
+                ].includes(event.type),
+              )
               .sort((a, b) => a.payload.timestamp.getTime() - b.payload.timestamp.getTime())
               .map((event) => {
                 switch (event.type) {
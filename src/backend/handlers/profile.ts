@@ -11,7 +11,16 @@ import { ipcMain } from 'electron';
 import { glob } from 'glob';
 import { Prisma, PrismaClient } from '@prisma/client';
 import { Constants, Util } from '@liga/shared';
-import { DatabaseClient, DiscordPresence, Game, WindowManager, Worldgen } from '@liga/backend/lib';
+import {
+  DatabaseClient,
+  DiscordPresence,
+  Finances,
+  Game,
+  TacticalCalls,
+  Training,
+  WindowManager,
+  Worldgen,
+} from '@liga/backend/lib';
 import { removeSaveIntegrity } from '@liga/backend/lib/save-integrity';
 
 export default function registerProfileHandlers() {
@@ -115,6 +124,29 @@ export default function registerProfileHandlers() {
     return updated;
   });
 
+  ipcMain.handle(Constants.IPCRoute.PROFILES_FINANCES, async () => {
+    try {
+      await DatabaseClient.connect();
+      const profile = await DatabaseClient.prisma.profile.findFirst();
+      return Finances.getSummary(profile);
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+
+  ipcMain.handle(Constants.IPCRoute.PROFILES_LOAN, async () => {
+    const status = await Worldgen.requestUserLoan();
+    const updated = await DatabaseClient.prisma.profile.findFirst({
+      include: { player: true },
+    });
+
+    WindowManager.sendAll(Constants.IPCRoute.PROFILES_CURRENT, updated);
+    return status;
+  });
+
+  ipcMain.handle(Constants.IPCRoute.PROFILES_LOAN_STATUS, () => Worldgen.getUserLoanStatus());
+
   ipcMain.handle(Constants.IPCRoute.PROFILES_NPC_MATCH_STATS_BACKFILL, async (event) => {
     const result = await Worldgen.legacyBackfillNpcMatchStats((progress) => {
       event.sender.send(Constants.IPCRoute.PROFILES_NPC_MATCH_STATS_BACKFILL_PROGRESS, progress);
@@ -127,6 +159,68 @@ export default function registerProfileHandlers() {
     return { ...result, profile: updated };
   });
 
+  ipcMain.handle(Constants.IPCRoute.PROFILES_ROLE_SWITCH, async (_, role: Constants.UserRole) => {
+    const status = await Worldgen.requestUserRoleSwitch(role);
+    const updated = await DatabaseClient.prisma.profile.findFirst({
+      include: { player: true },
+    });
+
+    WindowManager.sendAll(Constants.IPCRoute.PROFILES_CURRENT, updated);
+    return status;
+  });
+
+  ipcMain.handle(Constants.IPCRoute.PROFILES_ROLE_SWITCH_STATUS, () =>
+    Worldgen.getUserRoleSwitchStatus(),
+  );
+
+  ipcMain.handle(Constants.IPCRoute.PROFILES_TACTICAL_CALLS, async () => {
+    try {
+      await DatabaseClient.connect();
+      const profile = await DatabaseClient.prisma.profile.findFirst();
+
+      if (!profile?.playerId) {
+        return [];
+      }
+
+      return TacticalCalls.getSummary(profile.playerId);
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+
+  ipcMain.handle(Constants.IPCRoute.PROFILES_TRAINING_STATUS, async () => {
+    try {
+      await DatabaseClient.connect();
+      const profile = await DatabaseClient.prisma.profile.findFirst();
+      return Training.getStatus(profile);
+    } catch (err) {
+      log.error(err);
+      throw err;
+    }
+  });
+
+  ipcMain.handle(
+    Constants.IPCRoute.PROFILES_TRAINING_SCHEDULE,
+    async (_, schedule: Array<Constants.TrainingSession>) => {
+      try {
+        await DatabaseClient.connect();
+        const profile = await DatabaseClient.prisma.profile.findFirst();
+        await Training.saveSchedule(profile, schedule);
+
+        const updated = await DatabaseClient.prisma.profile.findFirst({
+          include: { player: true },
+        });
+
+        WindowManager.sendAll(Constants.IPCRoute.PROFILES_CURRENT, updated);
+        return Training.getStatus(updated);
+      } catch (err) {
+        log.error(err);
+        throw err;
+      }
+    },
+  );
+
   ipcMain.handle(Constants.IPCRoute.SAVES_ALL, async () => {
     const saves = [];
     const files = await glob('save_*.db', {
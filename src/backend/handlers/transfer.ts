@@ -6,7 +6,13 @@
 import { ipcMain } from 'electron';
 import { Prisma } from '@prisma/client';
 import { Constants } from '@liga/shared';
-import { DatabaseClient, News, WindowManager, Worldgen } from '@liga/backend/lib';
+import {
+  ContractNegotiation,
+  DatabaseClient,
+  News,
+  WindowManager,
+  Worldgen,
+} from '@liga/backend/lib';
 
 /**
  * Register the IPC event handlers.
@@ -38,6 +44,16 @@ export default function () {
     return Promise.resolve();
   });
 
+  ipcMain.handle(
+    Constants.IPCRoute.TRANSFER_COUNTER,
+    async (_, id: string, terms: ContractNegotiation.ContractTerms) => {
+      await Worldgen.counterTransferOffer(Number(id), terms);
+
+      WindowManager.sendAll(Constants.IPCRoute.TRANSFER_UPDATE);
+      return Promise.resolve();
+    },
+  );
+
   ipcMain.handle(
     Constants.IPCRoute.TRANSFER_CREATE,
     async (
@@ -0,0 +1,365 @@
+/**
+ * Player agents.
+ *
+ * An agent represents the user's player in contract talks.
+ * Teams inside their network hear about the user more often,
+ * the wages of every signed contract are pushed up according
+ * to the agent's reputation and the agency takes its fee in
+ * return. Agents only take on players they think are worth it.
+ *
+ * @module
+ */
+import { Prisma } from '@prisma/client';
+import { Chance, Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+
+export type AgentWithNetwork = Prisma.AgentGetPayload<{
+  include: { federation: true; country: true };
+}>;
+
+/**
+ * The agencies that represent players along with
+ * the federation and country their network reaches.
+ *
+ * @constant
+ */
+const AGENCIES: Array<{
+  name: string;
+  reputation: number;
+  feePercent: number;
+  federation: Constants.FederationSlug;
+  country?: string;
+}> = [
+  {
+    name: 'Eleven Esports Management',
+    reputation: 90,
+    feePercent: 15,
+    federation: Constants.FederationSlug.ESPORTS_WORLD,
+  },
+  {
+    name: 'Nordic Talent Group',
+    reputation: 80,
+    feePercent: 12,
+    federation: Constants.FederationSlug.ESPORTS_EUROPA,
+    country: 'DK',
+  },
+  {
+    name: 'Baltic Line Agency',
+    reputation: 65,
+    feePercent: 10,
+    federation: Constants.FederationSlug.ESPORTS_EUROPA,
+  },
+  {
+    name: 'Lone Star Representation',
+    reputation: 75,
+    feePercent: 12,
+    federation: Constants.FederationSlug.ESPORTS_AMERICAS,
+    country: 'US',
+  },
+  {
+    name: 'Canarinho Gaming',
+    reputation: 60,
+    feePercent: 8,
+    federation: Constants.FederationSlug.ESPORTS_AMERICAS,
+    country: 'BR',
+  },
+  {
+    name: 'Eastern Dragon Partners',
+    reputation: 60,
+    feePercent: 8,
+    federation: Constants.FederationSlug.ESPORTS_ASIA,
+    country: 'CN',
+  },
+  {
+    name: 'Southern Cross Agency',
+    reputation: 50,
+    feePercent: 6,
+    federation: Constants.FederationSlug.ESPORTS_OCE,
+    country: 'AU',
+  },
+  {
+    name: 'Grassroots Player Services',
+    reputation: 40,
+    feePercent: 5,
+    federation: Constants.FederationSlug.ESPORTS_WORLD,
+  },
+];
+
+/**
+ * How far below an agent's reputation a player's
+ * experience can be before they turn the player down.
+ *
+ * @constant
+ */
+const REPUTATION_XP_MARGIN = 40;
+
+/**
+ * How much more often teams in the network make an
+ * offer when the agent's reputation is maxed out.
+ *
+ * @constant
+ */
+const MAX_OFFER_BOOST = 0.5;
+
+/**
+ * How much the wages go up when the agent's reputation is maxed out.
+ *
+ * @constant
+ */
+const MAX_WAGE_BOOST = 0.2;
+
+/** @constant */
+const MAX_REPUTATION = 100;
+
+/**
+ * Creates the agent table for saves made before
+ * it existed and keeps the agencies up to date.
+ *
+ * @function
+ */
+export async function ensureAgentTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "Agent" (
+      "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+      "name" TEXT NOT NULL,
+      "reputation" INTEGER NOT NULL,
+      "feePercent" INTEGER NOT NULL,
+      "federationId" INTEGER NOT NULL,
+      "countryId" INTEGER,
+      CONSTRAINT "Agent_federationId_fkey" FOREIGN KEY ("federationId") REFERENCES "Federation" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+      CONSTRAINT "Agent_countryId_fkey" FOREIGN KEY ("countryId") REFERENCES "Country" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+    )
+  `);
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS "Agent_name_key" ON "Agent"("name")
+  `);
+
+  const [federations, countries] = await Promise.all([
+    DatabaseClient.prisma.federation.findMany(),
+    DatabaseClient.prisma.country.findMany({
+      where: { code: { in: AGENCIES.map((agency) => agency.country).filter(Boolean) } },
+    }),
+  ]);
+
+  for (const agency of AGENCIES) {
+    const federation = federations.find((entry) => entry.slug === agency.federation);
+
+    if (!federation) {
+      continue;
+    }
+
+    const data = {
+      reputation: agency.reputation,
+      feePercent: agency.feePercent,
+      federationId: federation.id,
+      countryId: countries.find((country) => country.code === agency.country)?.id ?? null,
+    };
+
+    await DatabaseClient.prisma.agent.upsert({
+      where: { name: agency.name },
+      update: data,
+      create: { name: agency.name, ...data },
+    });
+  }
+}
+
+/**
+ * Gets every agent, most reputable first.
+ *
+ * @function
+ */
+export async function findAll(): Promise<Array<AgentWithNetwork>> {
+  await ensureAgentTable();
+
+  return DatabaseClient.prisma.agent.findMany({
+    include: { federation: true, country: true },
+    orderBy: [{ reputation: 'desc' }, { name: 'asc' }],
+  });
+}
+
+/**
+ * Gets the agent the user signed with or `null` when they have none.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function getSigned(
+  profile: Prisma.ProfileGetPayload<unknown>,
+): Promise<AgentWithNetwork | null> {
+  if (!profile?.agentId) {
+    return null;
+  }
+
+  return DatabaseClient.prisma.agent.findFirst({
+    where: { id: profile.agentId },
+    include: { federation: true, country: true },
+  });
+}
+
+/**
+ * Checks whether an agent's network reaches a federation.
+ *
+ * @param agent         The agent.
+ * @param federationId  The federation id.
+ * @function
+ */
+export function coversFederation(agent: AgentWithNetwork, federationId: number) {
+  return (
+    agent.federation.slug === Constants.FederationSlug.ESPORTS_WORLD ||
+    agent.federationId === federationId
+  );
+}
+
+/**
+ * Checks whether a team is inside an agent's network.
+ *
+ * @param agent                        The agent.
+ * @param team                         The team.
+ * @param team.competitionFederationId The federation the team competes in.
+ * @param team.countryId               The country the team is based in.
+ * @function
+ */
+export function isInNetwork(
+  agent: AgentWithNetwork,
+  team: { competitionFederationId?: number | null; countryId?: number | null },
+) {
+  if (agent.countryId) {
+    return team.countryId === agent.countryId;
+  }
+
+  return coversFederation(agent, team.competitionFederationId);
+}
+
+/**
+ * Gets how much more often teams make an offer when
+ * the user's agent has contacts in their federation.
+ *
+ * @param agent         The user's agent.
+ * @param federationId  The federation of the user.
+ * @function
+ */
+export function getOfferWeight(agent: AgentWithNetwork | null, federationId: number) {
+  if (!agent || !coversFederation(agent, federationId)) {
+    return 1;
+  }
+
+  return 1 + MAX_OFFER_BOOST * (agent.reputation / MAX_REPUTATION);
+}
+
+/**
+ * Narrows a pool of teams down to the agent's network
+ * as often as the agent's reputation allows it.
+ *
+ * @param agent The user's agent.
+ * @param pool  The teams that could make an offer.
+ * @function
+ */
+export function pickNetworkPool<
+  T extends { competitionFederationId?: number | null; countryId?: number | null },
+>(agent: AgentWithNetwork | null, pool: Array<T>) {
+  if (!agent) {
+    return pool;
+  }
+
+  const network = pool.filter((team) => isInNetwork(agent, team));
+
+  if (!network.length || !Chance.rollD2(agent.reputation)) {
+    return pool;
+  }
+
+  return network;
+}
+
+/**
+ * Gets the wages the agent talks a team up to.
+ *
+ * @param agent The user's agent.
+ * @param wages The wages the team offered.
+ * @function
+ */
+export function negotiateWages(agent: AgentWithNetwork | null, wages: number) {
+  if (!agent) {
+    return wages;
+  }
+
+  return Math.round(wages * (1 + MAX_WAGE_BOOST * (agent.reputation / MAX_REPUTATION)));
+}
+
+/**
+ * Gets the cut the agency takes from the wages.
+ *
+ * @param agent The user's agent.
+ * @param wages The wages.
+ * @function
+ */
+export function getFee(agent: AgentWithNetwork | null, wages: number) {
+  if (!agent) {
+    return 0;
+  }
+
+  return Math.round((wages * agent.feePercent) / 100);
+}
+
+/**
+ * Gets the persona the agent sends their e-mails as.
+ *
+ * @param agent The agent.
+ * @function
+ */
+export function getPersona(agent: AgentWithNetwork) {
+  return DatabaseClient.prisma.persona.upsert({
+    where: { name: agent.name },
+    update: {},
+    create: { name: agent.name, role: Constants.PersonaRole.AGENT },
+  });
+}
+
+/**
+ * Signs the user's player with an agent.
+ *
+ * @param profile The user's profile.
+ * @param agentId The agent id.
+ * @function
+ */
+export async function sign(
+  profile: Prisma.ProfileGetPayload<{ include: { player: true } }>,
+  agentId: number,
+) {
+  if (!profile.player) {
+    throw new Error('AGENT_NO_PLAYER');
+  }
+
+  if (profile.agentId) {
+    throw new Error('AGENT_ALREADY_SIGNED');
+  }
+
+  await ensureAgentTable();
+
+  const agent = await DatabaseClient.prisma.agent.findFirst({ where: { id: agentId } });
+
+  if (!agent) {
+    throw new Error('AGENT_NOT_FOUND');
+  }
+
+  if (profile.player.xp < agent.reputation - REPUTATION_XP_MARGIN) {
+    throw new Error('AGENT_UNINTERESTED');
+  }
+
+  return DatabaseClient.prisma.profile.update({
+    where: { id: profile.id },
+    data: { agentId: agent.id, agentSignedAt: profile.date },
+  });
+}
+
+/**
+ * Ends the user's deal with their agent.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export function release(profile: Prisma.ProfileGetPayload<unknown>) {
+  return DatabaseClient.prisma.profile.update({
+    where: { id: profile.id },
+    data: { agentId: null, agentSignedAt: null },
+  });
+}
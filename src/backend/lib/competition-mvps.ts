@@ -1,6 +1,7 @@
-import { Constants, Util } from '@liga/shared';
+import { Constants } from '@liga/shared';
 import { Prisma } from '@prisma/client';
 import DatabaseClient from './database-client';
+import * as MatchPlayerGameDetailStats from './match-player-game-detail-stats';
 import { backfillMissingMatchPlayerGameStats } from './match-player-game-stats';
 
 export type CompetitionMvpRecord = {
@@ -41,15 +42,12 @@ type CompetitionCandidate = {
   tierSlug: string;
 };
 
-type CompetitionPlayerGameRow = {
+type CompetitionPlayerGameRow = MatchPlayerGameDetailStats.PlayerGameRatingRow & {
   competitionId: number;
   playerId: number;
   teamId: number | null;
   matchId: number;
   gameKey: number;
-  kills: bigint | number;
-  assists: bigint | number;
-  deaths: bigint | number;
   opponentElo: bigint | number | null;
 };
 
@@ -333,6 +331,7 @@ export async function calculateCompetitionMvp(competitionId: number) {
   }
 
   await backfillMissingMatchPlayerGameStats();
+  await MatchPlayerGameDetailStats.ensureMatchPlayerGameDetailStatTable();
 
   const competition = await DatabaseClient.prisma.competition.findFirst({
     where: { id: competitionId },
@@ -381,11 +380,10 @@ export async function calculateCompetitionMvp(competitionId: number) {
       "OwnTeam"."teamId" AS "teamId",
       "MatchPlayerGameStat"."matchId" AS "matchId",
       "MatchPlayerGameStat"."gameKey" AS "gameKey",
-      "MatchPlayerGameStat"."kills" AS "kills",
-      "MatchPlayerGameStat"."assists" AS "assists",
-      "MatchPlayerGameStat"."deaths" AS "deaths",
+      ${Prisma.raw(MatchPlayerGameDetailStats.RATING_COLUMNS_SQL)},
       AVG("OpponentTeam"."elo") AS "opponentElo"
     FROM "MatchPlayerGameStat"
+    ${Prisma.raw(MatchPlayerGameDetailStats.RATING_JOIN_SQL)}
     INNER JOIN "Match"
       ON "Match"."id" = "MatchPlayerGameStat"."matchId"
     INNER JOIN "Competition"
@@ -431,7 +429,7 @@ export async function calculateCompetitionMvp(competitionId: number) {
       return;
     }
 
-    const rating = Util.getPlayerRating(Number(row.kills), Number(row.deaths), Number(row.assists));
+    const rating = MatchPlayerGameDetailStats.getGameRating(row);
 
     if (!Number.isFinite(rating)) {
       return;
@@ -0,0 +1,99 @@
+import assert from 'node:assert/strict';
+import {
+  ContractTerms,
+  MAX_ROUNDS,
+  evaluate,
+  meetsReleaseClause,
+  rollReleaseClause,
+} from './contract-negotiation';
+
+const offer: ContractTerms = {
+  wages: 10_000,
+  contractYears: 2,
+  starterGuarantee: false,
+  releaseClause: null,
+};
+const budget = 20_000;
+const perfectFit = 250;
+
+for (let idx = 0; idx < 200; idx++) {
+  assert.equal(
+    evaluate(offer, { ...offer }, budget, perfectFit, 1).decision,
+    'ACCEPT',
+    'teams accept their own terms',
+  );
+
+  const small = { ...offer, wages: 11_000 };
+  assert.deepEqual(
+    evaluate(offer, small, budget, perfectFit, 1),
+    { decision: 'ACCEPT', terms: small },
+    'teams accept a small raise from a player they really want',
+  );
+
+  const moderate = evaluate(offer, { ...offer, wages: 15_000 }, budget, perfectFit, 1);
+  assert.equal(moderate.decision, 'MEET_HALFWAY', 'teams split the difference on bigger asks');
+  assert.equal(moderate.terms.wages, 12_500, 'halfway wages sit between offer and counter');
+
+  assert.equal(
+    evaluate(offer, { ...offer, wages: 15_000 }, budget, perfectFit, MAX_ROUNDS).decision,
+    'WALK_AWAY',
+    'teams stop meeting halfway on the last round',
+  );
+
+  assert.deepEqual(
+    evaluate(offer, { ...offer, wages: 40_000 }, budget, perfectFit, 1),
+    { decision: 'WALK_AWAY', terms: null },
+    'teams walk away from outrageous demands',
+  );
+
+  const overBudget = evaluate(offer, small, 10_500, perfectFit, 1);
+  assert.equal(overBudget.decision, 'MEET_HALFWAY', 'teams never accept wages over budget');
+  assert.ok(overBudget.terms.wages <= 10_500, 'halfway wages never go over budget');
+}
+
+// the starter guarantee is only given away to players the team really wants
+const guarantee = { ...offer, wages: 14_000, starterGuarantee: true };
+
+for (let idx = 0; idx < 200; idx++) {
+  assert.equal(
+    evaluate(offer, guarantee, budget, perfectFit, 1).terms.starterGuarantee,
+    true,
+    'great fits get their starter guarantee when meeting halfway',
+  );
+  assert.equal(
+    evaluate(offer, guarantee, budget, 0, 1).decision,
+    'WALK_AWAY',
+    'poor fits get nothing for a guarantee and a raise',
+  );
+}
+
+// release clauses are rolled on some contracts only and always sit well over the value
+const cost = 100_000;
+const clauses = Array.from({ length: 500 }).map(() => rollReleaseClause(cost));
+
+assert.ok(
+  clauses.some((clause) => clause == null),
+  'not every contract has a release clause',
+);
+assert.ok(
+  clauses.some((clause) => clause != null),
+  'some contracts have a release clause',
+);
+assert.ok(
+  clauses.every((clause) => clause == null || (clause >= cost * 1.5 && clause <= cost * 3)),
+  'release clauses are set between one and a half and three times the value',
+);
+assert.equal(rollReleaseClause(0), null, 'players without a value get no release clause');
+
+assert.equal(
+  meetsReleaseClause(null, cost),
+  false,
+  'players without a clause cannot be bought out',
+);
+assert.equal(meetsReleaseClause(cost * 1.3, cost), true, 'buyers stretch to meet a clause');
+assert.equal(meetsReleaseClause(cost * 1.5, cost), false, 'buyers only stretch so far');
+assert.equal(
+  meetsReleaseClause(cost * 1.5, cost * 1.2),
+  true,
+  'buyers that value the player higher meet bigger clauses',
+);
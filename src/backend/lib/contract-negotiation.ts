@@ -0,0 +1,311 @@
+/**
+ * Contract negotiation.
+ *
+ * The user can answer a pending offer with counter terms
+ * instead of taking it or leaving it. The team weighs how
+ * much more is being asked for against how well the player
+ * fits their squad and what they can afford, then accepts,
+ * meets the user halfway or walks away from the table.
+ *
+ * Contracts can also carry a release clause which lets any
+ * buyer willing to pay it take the player without the
+ * selling team having a say in the matter.
+ *
+ * @module
+ */
+import { random } from 'lodash';
+import { Prisma } from '@prisma/client';
+import { Chance, Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+
+export type ContractTerms = {
+  wages: number;
+  contractYears: number;
+  starterGuarantee: boolean;
+  releaseClause: number | null;
+};
+
+export type CounterDecision = 'ACCEPT' | 'MEET_HALFWAY' | 'WALK_AWAY';
+
+/**
+ * How many times the user can counter a single offer.
+ *
+ * @constant
+ */
+export const MAX_ROUNDS = 3;
+
+/** @constant */
+export const MAX_CONTRACT_YEARS = 5;
+
+/**
+ * How much every part of a counter weighs on the team.
+ *
+ * A wage raise counts for its percentage over the offered
+ * wages while the rest are flat amounts per term asked for.
+ *
+ * @constant
+ */
+const DEMAND_WEIGHTS = {
+  WAGES: 100,
+  YEAR: 10,
+  STARTER_GUARANTEE: 20,
+  RELEASE_CLAUSE: 15,
+};
+
+/**
+ * Wages offered below this are treated as this
+ * much so raises on tiny wages do not explode.
+ *
+ * @constant
+ */
+const MIN_WAGE_REFERENCE = 1_000;
+
+/**
+ * How much of its earnings a team puts towards wages.
+ *
+ * @constant
+ */
+const EARNINGS_BUDGET_SHARE = 0.05;
+
+/**
+ * How much patience a team loses with every extra round.
+ *
+ * @constant
+ */
+const ROUND_PATIENCE_COST = 10;
+
+/**
+ * How often a new contract comes with a release clause.
+ *
+ * @constant
+ */
+const RELEASE_CLAUSE_PBX = 35;
+
+/**
+ * How far over a player's value a release clause is set.
+ *
+ * @constant
+ */
+const RELEASE_CLAUSE_RANGE = [150, 300];
+
+/**
+ * How far over a player's value a buyer
+ * stretches to meet their release clause.
+ *
+ * @constant
+ */
+const BUYOUT_STRETCH = 1.3;
+
+/**
+ * Gets the most a team is willing to pay the user.
+ *
+ * @param team          The team.
+ * @param team.tier     The team's tier.
+ * @param team.earnings The team's earnings.
+ * @param offered       The wages the team offered.
+ * @function
+ */
+export function getWageBudget(
+  team: { tier?: number | null; earnings?: number | null },
+  offered: number,
+) {
+  const tierSlug = Constants.Prestige[team.tier] as keyof typeof Constants.PlayerWages;
+  const ceiling = Math.max(
+    0,
+    ...(Constants.PlayerWages[tierSlug] || []).map((config) => config.high),
+  );
+
+  return (
+    Math.max(Math.round(offered * 1.5), ceiling) +
+    Math.round((team.earnings || 0) * EARNINGS_BUDGET_SHARE)
+  );
+}
+
+/**
+ * Scores how much more a counter asks for than the team offered.
+ *
+ * @param offer   The team's offer.
+ * @param counter The user's counter.
+ * @function
+ */
+export function getDemand(offer: ContractTerms, counter: ContractTerms) {
+  const raise = (counter.wages - offer.wages) / Math.max(offer.wages, MIN_WAGE_REFERENCE);
+  let demand = Math.max(0, raise) * DEMAND_WEIGHTS.WAGES;
+  demand += Math.abs(counter.contractYears - offer.contractYears) * DEMAND_WEIGHTS.YEAR;
+
+  if (counter.starterGuarantee && !offer.starterGuarantee) {
+    demand += DEMAND_WEIGHTS.STARTER_GUARANTEE;
+  }
+
+  // a lower clause makes it easier to leave which the team dislikes
+  if (
+    counter.releaseClause != null &&
+    (offer.releaseClause == null || counter.releaseClause < offer.releaseClause)
+  ) {
+    demand += DEMAND_WEIGHTS.RELEASE_CLAUSE;
+  }
+
+  return demand;
+}
+
+/**
+ * Gets how much a team is willing to give in
+ * based on how well the player fits their squad.
+ *
+ * @param fitScore  The user offer fit score.
+ * @param round     The negotiation round.
+ * @function
+ */
+export function getWillingness(fitScore: number, round: number) {
+  if (!Number.isFinite(fitScore)) {
+    return 0;
+  }
+
+  const fit = Math.max(0, Math.min(250, fitScore)) / 250;
+  return Math.max(0, 20 + fit * 60 - (round - 1) * ROUND_PATIENCE_COST);
+}
+
+/**
+ * Splits the difference between the team's offer and the counter.
+ *
+ * The starter guarantee is only given away to players
+ * the team really wants and the wages never go over
+ * what the team can afford.
+ *
+ * @param offer       The team's offer.
+ * @param counter     The user's counter.
+ * @param budget      The team's wage budget.
+ * @param willingness How willing the team is to give in.
+ * @function
+ */
+export function meetHalfway(
+  offer: ContractTerms,
+  counter: ContractTerms,
+  budget: number,
+  willingness: number,
+): ContractTerms {
+  const releaseClause =
+    counter.releaseClause == null
+      ? offer.releaseClause
+      : Math.round(
+          offer.releaseClause == null
+            ? counter.releaseClause * 1.5
+            : (offer.releaseClause + counter.releaseClause) / 2,
+        );
+
+  return {
+    wages: Math.min(budget, Math.round((offer.wages + counter.wages) / 2)),
+    contractYears: Math.round((offer.contractYears + counter.contractYears) / 2),
+    starterGuarantee: offer.starterGuarantee || (counter.starterGuarantee && willingness >= 60),
+    releaseClause,
+  };
+}
+
+/**
+ * Decides how a team answers a counter.
+ *
+ * @param offer     The team's offer.
+ * @param counter   The user's counter.
+ * @param budget    The team's wage budget.
+ * @param fitScore  The user offer fit score.
+ * @param round     The negotiation round.
+ * @function
+ */
+export function evaluate(
+  offer: ContractTerms,
+  counter: ContractTerms,
+  budget: number,
+  fitScore: number,
+  round: number,
+): { decision: CounterDecision; terms: ContractTerms | null } {
+  const demand = getDemand(offer, counter);
+  const willingness = getWillingness(fitScore, round) * (random(85, 115) / 100);
+
+  if (demand <= willingness / 2 && counter.wages <= budget) {
+    return { decision: 'ACCEPT', terms: counter };
+  }
+
+  if (demand <= willingness * 1.5 && round < MAX_ROUNDS) {
+    return { decision: 'MEET_HALFWAY', terms: meetHalfway(offer, counter, budget, willingness) };
+  }
+
+  return { decision: 'WALK_AWAY', terms: null };
+}
+
+/**
+ * Checks that counter terms are something a team can answer.
+ *
+ * @param terms The counter terms.
+ * @function
+ */
+export function isValidCounter(terms: Partial<ContractTerms>): terms is ContractTerms {
+  return (
+    !!terms &&
+    Number.isInteger(terms.wages) &&
+    terms.wages >= 0 &&
+    Number.isInteger(terms.contractYears) &&
+    terms.contractYears >= 1 &&
+    terms.contractYears <= MAX_CONTRACT_YEARS &&
+    typeof terms.starterGuarantee === 'boolean' &&
+    (terms.releaseClause == null ||
+      (Number.isInteger(terms.releaseClause) && terms.releaseClause > 0))
+  );
+}
+
+/**
+ * Gets the terms written into an offer.
+ *
+ * @param offer The offer.
+ * @function
+ */
+export function toTerms(offer: Prisma.OfferGetPayload<unknown>): ContractTerms {
+  return {
+    wages: offer.wages ?? 0,
+    contractYears: offer.contractYears ?? 1,
+    starterGuarantee: offer.starterGuarantee,
+    releaseClause: offer.releaseClause,
+  };
+}
+
+/**
+ * Gets the offer behind the contract a player
+ * is currently signed to with their team.
+ *
+ * @param playerId  The player id.
+ * @param teamId    The team id.
+ * @function
+ */
+export function getActiveContract(playerId: number, teamId: number) {
+  return DatabaseClient.prisma.offer.findFirst({
+    where: {
+      status: Constants.TransferStatus.PLAYER_ACCEPTED,
+      transfer: { playerId, teamIdFrom: teamId },
+    },
+    orderBy: { id: 'desc' },
+  });
+}
+
+/**
+ * Rolls whether a new contract comes with a release clause.
+ *
+ * @param cost The player's value.
+ * @function
+ */
+export function rollReleaseClause(cost: number) {
+  if (!cost || !Chance.rollD2(RELEASE_CLAUSE_PBX)) {
+    return null;
+  }
+
+  return Math.round((cost * random(RELEASE_CLAUSE_RANGE[0], RELEASE_CLAUSE_RANGE[1])) / 100);
+}
+
+/**
+ * Checks whether a buyer meets a player's release clause.
+ *
+ * @param releaseClause The release clause.
+ * @param cost          What the buyer values the player at.
+ * @function
+ */
+export function meetsReleaseClause(releaseClause: number | null, cost: number) {
+  return releaseClause != null && releaseClause <= cost * BUYOUT_STRETCH;
+}
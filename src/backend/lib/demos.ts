@@ -0,0 +1,235 @@
+/**
+ * GOTV demo library.
+ *
+ * Demos are recorded by the dedicated server and moved into the
+ * game client's folder once the match is over so that they can
+ * be replayed with `playdemo`. Every save gets its own folder
+ * since match ids are only unique within a save.
+ *
+ * @module
+ */
+import path from 'node:path';
+import fs from 'node:fs';
+import log from 'electron-log';
+import { Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+
+export type DemoRecord = {
+  file: string;
+  matchId: number;
+  gameId: number | null;
+  size: number;
+  createdAt: Date;
+  match: {
+    date: Date;
+    matchType: string;
+    competition: string | null;
+    teams: Array<string>;
+    map: string | null;
+  } | null;
+};
+
+/**
+ * The folder inside the client's game directory that holds the demos.
+ *
+ * @constant
+ */
+export const DEMOS_DIR = 'liga-demos';
+
+/** @constant */
+const DEMO_EXTENSION = '.dem';
+
+/** @constant */
+const DEMO_NAME_PATTERN = /^liga-(\d+)(?:-(\d+))?\.dem$/;
+
+/**
+ * Gets the name of the demo for a match and game without
+ * its extension as `tv_record` and `playdemo` expect it.
+ *
+ * @param matchId The match id.
+ * @param gameId  The game id.
+ * @function
+ */
+export function getDemoName(matchId: number, gameId?: number | null) {
+  return gameId ? `liga-${matchId}-${gameId}` : `liga-${matchId}`;
+}
+
+/**
+ * Gets the demo folder of the active save.
+ *
+ * @param settings The application settings.
+ * @function
+ */
+export function getLibraryPath(settings: typeof Constants.Settings) {
+  return path.join(
+    settings.general.gamePath || '',
+    Constants.GameSettings.CSGO_BASEDIR,
+    Constants.GameSettings.CSGO_GAMEDIR,
+    DEMOS_DIR,
+    String(DatabaseClient.id),
+  );
+}
+
+/**
+ * Gets the path `playdemo` needs which is
+ * relative to the client's game directory.
+ *
+ * @param file The demo file name.
+ * @function
+ */
+export function getPlaybackPath(file: string) {
+  return [DEMOS_DIR, String(DatabaseClient.id), path.basename(file, DEMO_EXTENSION)].join('/');
+}
+
+/**
+ * Moves a demo the dedicated server just finished
+ * recording into the library of the active save.
+ *
+ * @param settings      The application settings.
+ * @param serverGameDir The dedicated server's game directory.
+ * @param name          The demo name.
+ * @function
+ */
+export async function importDemo(
+  settings: typeof Constants.Settings,
+  serverGameDir: string,
+  name: string,
+) {
+  const from = path.join(serverGameDir, name + DEMO_EXTENSION);
+  const libraryPath = getLibraryPath(settings);
+  const to = path.join(libraryPath, name + DEMO_EXTENSION);
+
+  await fs.promises.mkdir(libraryPath, { recursive: true });
+
+  // the server and client can live on different
+  // drives which makes renaming the file fail
+  try {
+    await fs.promises.rename(from, to);
+  } catch (_) {
+    await fs.promises.copyFile(from, to);
+    await fs.promises.unlink(from);
+  }
+
+  log.info('Imported demo %s into %s', name, libraryPath);
+  return to;
+}
+
+/**
+ * Lists the demo files of the active save.
+ *
+ * @param settings The application settings.
+ * @function
+ */
+async function readLibrary(settings: typeof Constants.Settings) {
+  const libraryPath = getLibraryPath(settings);
+  let files: Array<string> = [];
+
+  try {
+    files = await fs.promises.readdir(libraryPath);
+  } catch (_) {
+    return [] as Array<DemoRecord>;
+  }
+
+  return Promise.all(
+    files
+      .filter((file) => DEMO_NAME_PATTERN.test(file))
+      .map(async (file) => {
+        const [, matchId, gameId] = file.match(DEMO_NAME_PATTERN);
+        const stats = await fs.promises.stat(path.join(libraryPath, file));
+
+        return {
+          file,
+          matchId: Number(matchId),
+          gameId: gameId ? Number(gameId) : null,
+          size: stats.size,
+          createdAt: stats.mtime,
+          match: null,
+        } as DemoRecord;
+      }),
+  );
+}
+
+/**
+ * Lists the demos of the active save along
+ * with the match and game they belong to.
+ *
+ * @param settings The application settings.
+ * @function
+ */
+export async function findAll(settings: typeof Constants.Settings) {
+  const demos = await readLibrary(settings);
+  const matches = await DatabaseClient.prisma.match.findMany({
+    where: { id: { in: demos.map((demo) => demo.matchId) } },
+    include: {
+      competition: { include: { tier: true } },
+      competitors: { include: { team: true } },
+      games: true,
+    },
+  });
+
+  return demos
+    .map((demo) => {
+      const match = matches.find((item) => item.id === demo.matchId);
+
+      if (!match) {
+        return demo;
+      }
+
+      return {
+        ...demo,
+        match: {
+          date: match.date,
+          matchType: match.matchType,
+          competition: match.competition?.tier.name || null,
+          teams: match.competitors.map((competitor) => competitor.team?.name).filter(Boolean),
+          map:
+            match.games.find((game) => game.id === demo.gameId)?.map ||
+            (match.games.length === 1 ? match.games[0].map : null),
+        },
+      };
+    })
+    .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+/**
+ * Deletes a demo from the library of the active save.
+ *
+ * @param settings  The application settings.
+ * @param file      The demo file name.
+ * @function
+ */
+export async function remove(settings: typeof Constants.Settings, file: string) {
+  if (!DEMO_NAME_PATTERN.test(path.basename(file))) {
+    return;
+  }
+
+  return fs.promises.unlink(path.join(getLibraryPath(settings), path.basename(file)));
+}
+
+/**
+ * Deletes the demos that are older than the retention setting.
+ *
+ * A retention of zero days keeps demos forever.
+ *
+ * @param settings The application settings.
+ * @function
+ */
+export async function prune(settings: typeof Constants.Settings) {
+  const retentionDays = Number(settings.general.demoRetentionDays);
+
+  if (!Number.isFinite(retentionDays) || retentionDays <= 0) {
+    return;
+  }
+
+  const cutoff = Date.now() - retentionDays * 24 * 60 * 60 * 1000;
+  const demos = await readLibrary(settings);
+
+  for (const demo of demos.filter((item) => item.createdAt.getTime() < cutoff)) {
+    try {
+      await remove(settings, demo.file);
+      log.info('Pruned demo %s', demo.file);
+    } catch (error) {
+      log.warn('Could not prune demo %s: %s', demo.file, error);
+    }
+  }
+}
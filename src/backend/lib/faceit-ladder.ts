@@ -0,0 +1,158 @@
+/**
+ * NPC FACEIT ladder.
+ *
+ * Plays a week of NPC-only pugs in every region so player Elo
+ * follows form instead of noise. Lobbies are paired by the
+ * matchmaker, the winner is rolled from the players' XP and
+ * Elo moves against the expected score of both sides.
+ *
+ * @module
+ */
+import { sampleSize } from 'lodash';
+import { Util } from '@liga/shared';
+import DatabaseClient from './database-client';
+import { FaceitMatchmaker } from './matchmaker';
+
+type LadderPlayer = {
+  id: number;
+  xp: number;
+  elo: number;
+  role: string | null;
+  pugs: number;
+};
+
+/**
+ * Share of each region's players that queue up in a week.
+ *
+ * @constant
+ */
+const WEEKLY_PARTICIPATION = 0.35;
+
+/**
+ * How many pugs every participant can play in a week.
+ *
+ * @constant
+ */
+const WEEKLY_ROUNDS = 3;
+
+/**
+ * How many XP points of average difference make one
+ * side ten times as likely to win as the other.
+ *
+ * @constant
+ */
+const XP_SCALING = 40;
+
+/** @constant */
+const K_FACTOR = 50;
+
+/** @constant */
+const MIN_ELO = 100;
+
+/** @constant */
+const MAX_ELO = 5000;
+
+/** @constant */
+const UPDATE_BATCH_SIZE = 500;
+
+/**
+ * Gets the average of a stat across a side.
+ *
+ * @param team  The players on the side.
+ * @param stat  The stat to average.
+ * @function
+ */
+function getAverage(team: Array<LadderPlayer>, stat: 'xp' | 'elo') {
+  return team.reduce((total, player) => total + player[stat], 0) / team.length;
+}
+
+/**
+ * Plays a pug and applies the Elo delta to both sides.
+ *
+ * @param teamA The first side.
+ * @param teamB The second side.
+ * @function
+ */
+function playPug(teamA: Array<LadderPlayer>, teamB: Array<LadderPlayer>) {
+  const winChanceA = Util.getEloWinProbability(
+    getAverage(teamA, 'xp'),
+    getAverage(teamB, 'xp'),
+    XP_SCALING,
+  );
+  const expectedA = Util.getEloWinProbability(getAverage(teamA, 'elo'), getAverage(teamB, 'elo'));
+  const deltaA = Util.getEloRatingDelta(Math.random() < winChanceA ? 1 : 0, expectedA, K_FACTOR);
+
+  teamA.forEach((player) => {
+    player.elo = Math.max(MIN_ELO, Math.min(MAX_ELO, player.elo + deltaA));
+    player.pugs++;
+  });
+  teamB.forEach((player) => {
+    player.elo = Math.max(MIN_ELO, Math.min(MAX_ELO, player.elo - deltaA));
+    player.pugs++;
+  });
+}
+
+/**
+ * Simulates a week of NPC pugs in every region.
+ *
+ * @param userPlayerId The user's player id which never takes part.
+ * @function
+ */
+export async function simulateWeek(userPlayerId?: number | null) {
+  const players = await DatabaseClient.prisma.player.findMany({
+    where: {
+      userControlled: false,
+      ...(userPlayerId ? { id: { not: userPlayerId } } : {}),
+    },
+    select: {
+      id: true,
+      xp: true,
+      elo: true,
+      role: true,
+      team: { select: { competitionFederationId: true } },
+      country: { select: { continent: { select: { federationId: true } } } },
+    },
+  });
+
+  // players queue in the region of their team or else their country
+  const regions = new Map<number, Array<LadderPlayer>>();
+
+  players.forEach((player) => {
+    const federationId =
+      player.team?.competitionFederationId ?? player.country.continent.federationId;
+    const region = regions.get(federationId) || [];
+
+    region.push({ id: player.id, xp: player.xp, elo: player.elo, role: player.role, pugs: 0 });
+    regions.set(federationId, region);
+  });
+
+  const participants: Array<LadderPlayer> = [];
+  let pugs = 0;
+
+  regions.forEach((region) => {
+    const queue = sampleSize(region, Math.round(region.length * WEEKLY_PARTICIPATION));
+    participants.push(...queue);
+
+    for (let round = 0; round < WEEKLY_ROUNDS; round++) {
+      FaceitMatchmaker.createNpcLobbies(queue).forEach((lobby) => {
+        playPug(lobby.teamA, lobby.teamB);
+        pugs++;
+      });
+    }
+  });
+
+  const played = participants.filter((player) => player.pugs > 0);
+
+  for (let idx = 0; idx < played.length; idx += UPDATE_BATCH_SIZE) {
+    await DatabaseClient.prisma.$transaction(
+      played.slice(idx, idx + UPDATE_BATCH_SIZE).map((player) =>
+        DatabaseClient.prisma.player.update({
+          where: { id: player.id },
+          data: { elo: player.elo, faceitMatches: { increment: player.pugs } },
+        }),
+      ),
+    );
+  }
+
+  return { pugs, players: played.length };
+}
@@ -0,0 +1,515 @@
+/**
+ * FACEIT leaderboard.
+ *
+ * Ranks every player by their FACEIT Elo within the region
+ * they queue in, which is the federation of their team or
+ * else the federation of their country. The ranking is done
+ * by the database so only the requested page is loaded.
+ *
+ * The final standings of every month are kept as a snapshot
+ * so rankings can be followed over time.
+ *
+ * @module
+ */
+import { format, subDays } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import { Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+import { levelFromElo } from './levels';
+
+export type FaceitLeaderboardSnapshot = {
+  season: string;
+  playerId: number;
+  federationId: number;
+  rank: number;
+  elo: number;
+  level: number;
+  matchesPlayed: number;
+};
+
+export type FaceitLeaderboardFilters = {
+  federationId?: number;
+  countryCode?: string;
+};
+
+export type FaceitLeaderboardCursor = {
+  elo: number;
+  playerId: number;
+};
+
+export type FaceitLeaderboardEntry = {
+  rank: number;
+  playerId: number;
+  nickname: string;
+  countryCode: string | null;
+  countryName: string | null;
+  federationId: number | null;
+  federationSlug: string | null;
+  faceitElo: number;
+  faceitLevel: number;
+};
+
+type FaceitLeaderboardRow = Omit<FaceitLeaderboardEntry, 'faceitLevel'>;
+
+/** @constant */
+const SNAPSHOT_BATCH_SIZE = 100;
+
+/**
+ * Gets the season a date falls in, which is its month.
+ *
+ * @param date The date.
+ * @function
+ */
+export function getSeason(date: Date) {
+  return format(date, 'yyyy-MM');
+}
+
+/**
+ * Converts the numeric columns of a raw snapshot row.
+ *
+ * @param row The raw row.
+ * @function
+ */
+function toSnapshot(row: FaceitLeaderboardSnapshot): FaceitLeaderboardSnapshot {
+  return {
+    season: row.season,
+    playerId: Number(row.playerId),
+    federationId: Number(row.federationId),
+    rank: Number(row.rank),
+    elo: Number(row.elo),
+    level: Number(row.level),
+    matchesPlayed: Number(row.matchesPlayed),
+  };
+}
+
+/**
+ * Builds the query that lists every player with the region they
+ * queue in and their FACEIT Elo, narrowed down by the filters.
+ *
+ * The user's Elo is read from their profile since
+ * their player record does not follow their pugs.
+ *
+ * @param baseProfile The user's profile.
+ * @param options     Narrows the leaderboard down to a region or country.
+ * @function
+ */
+function getEntriesQuery(
+  baseProfile: Prisma.ProfileGetPayload<unknown>,
+  options?: FaceitLeaderboardFilters,
+) {
+  const filters = [
+    options?.federationId != null
+      ? Prisma.sql`COALESCE("Team"."competitionFederationId", "Continent"."federationId") = ${options.federationId}`
+      : null,
+    options?.countryCode
+      ? Prisma.sql`UPPER("Country"."code") = ${options.countryCode.toUpperCase()}`
+      : null,
+  ].filter(Boolean);
+
+  return Prisma.sql`
+    SELECT
+      "Player"."id" AS "playerId",
+      COALESCE(NULLIF("Player"."name", ''), 'Unknown') AS "nickname",
+      LOWER("Country"."code") AS "countryCode",
+      "Country"."name" AS "countryName",
+      "Federation"."id" AS "federationId",
+      "Federation"."slug" AS "federationSlug",
+      CASE
+        WHEN "Player"."id" = ${baseProfile.playerId ?? null} THEN ${baseProfile.faceitElo}
+        ELSE "Player"."elo"
+      END AS "faceitElo"
+    FROM "Player"
+    INNER JOIN "Country" ON "Country"."id" = "Player"."countryId"
+    INNER JOIN "Continent" ON "Continent"."id" = "Country"."continentId"
+    LEFT JOIN "Team" ON "Team"."id" = "Player"."teamId"
+    INNER JOIN "Federation"
+      ON "Federation"."id" = COALESCE("Team"."competitionFederationId", "Continent"."federationId")
+    ${filters.length ? Prisma.sql`WHERE ${Prisma.join(filters, ' AND ')}` : Prisma.empty}
+  `;
+}
+
+/**
+ * Builds the query that ranks the filtered players
+ * using SQLite's window functions.
+ *
+ * @param baseProfile The user's profile.
+ * @param options     Narrows the leaderboard down to a region or country.
+ * @function
+ */
+function getRankedQuery(
+  baseProfile: Prisma.ProfileGetPayload<unknown>,
+  options?: FaceitLeaderboardFilters,
+) {
+  return Prisma.sql`
+    SELECT
+      *,
+      ROW_NUMBER() OVER (ORDER BY "faceitElo" DESC, "playerId" ASC) AS "rank"
+    FROM (${getEntriesQuery(baseProfile, options)})
+  `;
+}
+
+/**
+ * Converts the numeric columns of a raw leaderboard row.
+ *
+ * @param row The raw row.
+ * @function
+ */
+function toEntry(row: FaceitLeaderboardRow) {
+  const faceitElo = Number(row.faceitElo);
+
+  return {
+    rank: Number(row.rank),
+    playerId: Number(row.playerId),
+    nickname: row.nickname,
+    countryCode: row.countryCode || null,
+    countryName: row.countryName || null,
+    federationId: row.federationId == null ? null : Number(row.federationId),
+    federationSlug: row.federationSlug || null,
+    faceitElo,
+    faceitLevel: levelFromElo(faceitElo),
+  };
+}
+
+/**
+ * Options for walking the leaderboard a page at a time.
+ *
+ * Pages are walked with the Elo and id of the last entry
+ * of the previous page, or of the first entry of the next
+ * page when walking backwards, so a page does not skip or
+ * repeat players whose Elo changed in between.
+ */
+type FaceitLeaderboardPageOptions = {
+  limit?: number;
+  after?: FaceitLeaderboardCursor | null;
+  before?: FaceitLeaderboardCursor | null;
+  fromRank?: number;
+};
+
+/**
+ * Builds the query that narrows the ranked players
+ * down to a page and sorts them in walking order.
+ *
+ * The cursors are applied after the players are ranked
+ * because the user's Elo comes from their profile, so
+ * every page still ranks all of the filtered players.
+ *
+ * @param ranked  The ranked players.
+ * @param options Where the page starts or ends and how long it is.
+ * @function
+ */
+function getPageQuery(ranked: Prisma.Sql, options?: FaceitLeaderboardPageOptions) {
+  const filters = [
+    options?.after
+      ? Prisma.sql`(
+          "faceitElo" < ${options.after.elo}
+          OR ("faceitElo" = ${options.after.elo} AND "playerId" > ${options.after.playerId})
+        )`
+      : null,
+    options?.before
+      ? Prisma.sql`(
+          "faceitElo" > ${options.before.elo}
+          OR ("faceitElo" = ${options.before.elo} AND "playerId" < ${options.before.playerId})
+        )`
+      : null,
+    options?.fromRank ? Prisma.sql`"rank" >= ${options.fromRank}` : null,
+  ].filter(Boolean);
+
+  // walking backwards takes the closest entries first
+  return Prisma.sql`
+    SELECT * FROM ${ranked}
+    ${filters.length ? Prisma.sql`WHERE ${Prisma.join(filters, ' AND ')}` : Prisma.empty}
+    ORDER BY "rank" ${options?.before ? Prisma.sql`DESC` : Prisma.sql`ASC`}
+    LIMIT ${typeof options?.limit === 'number' ? options.limit : -1}
+  `;
+}
+
+/**
+ * Builds the ranked FACEIT leaderboard.
+ *
+ * @param prisma      The prisma client.
+ * @param baseProfile The user's profile.
+ * @param options     Narrows the leaderboard down to a region, country or page.
+ * @function
+ */
+export async function getFaceitLeaderboard(
+  prisma: typeof DatabaseClient.prisma,
+  baseProfile: Prisma.ProfileGetPayload<unknown>,
+  options?: FaceitLeaderboardFilters & FaceitLeaderboardPageOptions,
+): Promise<Array<FaceitLeaderboardEntry>> {
+  const rows = await prisma.$queryRaw<Array<FaceitLeaderboardRow>>(
+    getPageQuery(Prisma.sql`(${getRankedQuery(baseProfile, options)})`, options),
+  );
+  const entries = rows.map(toEntry);
+
+  return options?.before ? entries.reverse() : entries;
+}
+
+/**
+ * Loads a page of the leaderboard along with how many players
+ * it holds and the countries it can be narrowed down to.
+ *
+ * Everything comes out of a single query where the players
+ * are only ranked once, since SQLite keeps the result of a
+ * common table expression that a query reads more than once.
+ *
+ * @param prisma      The prisma client.
+ * @param baseProfile The user's profile.
+ * @param options     Narrows the leaderboard down to a region, country or page.
+ * @function
+ */
+export async function findFaceitLeaderboardPage(
+  prisma: typeof DatabaseClient.prisma,
+  baseProfile: Prisma.ProfileGetPayload<unknown>,
+  options: FaceitLeaderboardFilters & FaceitLeaderboardPageOptions,
+) {
+  const rows = await prisma.$queryRaw<
+    Array<FaceitLeaderboardRow & { kind: 'ENTRY' | 'TOTAL' | 'COUNTRY'; total: number | null }>
+  >`
+    WITH
+      "Regional" AS (
+        ${getEntriesQuery(baseProfile, { federationId: options.federationId })}
+      ),
+      "Ranked" AS (
+        SELECT
+          *,
+          ROW_NUMBER() OVER (ORDER BY "faceitElo" DESC, "playerId" ASC) AS "rank"
+        FROM "Regional"
+        ${
+          options.countryCode
+            ? Prisma.sql`WHERE "countryCode" = ${options.countryCode.toLowerCase()}`
+            : Prisma.empty
+        }
+      )
+    SELECT 'ENTRY' AS "kind", NULL AS "total", * FROM (${getPageQuery(Prisma.sql`"Ranked"`, options)})
+    UNION ALL
+    SELECT 'TOTAL', COUNT(*), NULL, NULL, NULL, NULL, NULL, NULL, NULL, NULL FROM "Ranked"
+    UNION ALL
+    SELECT DISTINCT 'COUNTRY', NULL, NULL, NULL, "countryCode", "countryName", NULL, NULL, NULL, NULL
+    FROM "Regional"
+    WHERE "countryCode" IS NOT NULL
+  `;
+  const entries = rows
+    .filter((row) => row.kind === 'ENTRY')
+    .map(toEntry)
+    .sort((a, b) => a.rank - b.rank);
+  const total = rows.find((row) => row.kind === 'TOTAL')?.total;
+  const countries = rows
+    .filter((row) => row.kind === 'COUNTRY')
+    .map((row) => ({
+      code: row.countryCode.toUpperCase(),
+      name: row.countryName || row.countryCode.toUpperCase(),
+    }))
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    entries,
+    total: Number(total ?? 0),
+    countries,
+  };
+}
+
+/**
+ * Gets where a player ranks on the leaderboard.
+ *
+ * @param prisma      The prisma client.
+ * @param baseProfile The user's profile.
+ * @param playerId    The player id.
+ * @param options     Narrows the leaderboard down to a region or country.
+ * @function
+ */
+export async function findFaceitLeaderboardRank(
+  prisma: typeof DatabaseClient.prisma,
+  baseProfile: Prisma.ProfileGetPayload<unknown>,
+  playerId: number,
+  options?: FaceitLeaderboardFilters,
+) {
+  const [row] = await prisma.$queryRaw<Array<{ rank: number }>>`
+    SELECT "rank" FROM (${getRankedQuery(baseProfile, options)})
+    WHERE "playerId" = ${playerId}
+  `;
+
+  return row ? Number(row.rank) : null;
+}
+
+/**
+ * Creates the leaderboard snapshot table for
+ * saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureFaceitLeaderboardSnapshotTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "FaceitLeaderboardSnapshot" (
+      "season" TEXT NOT NULL,
+      "playerId" INTEGER NOT NULL,
+      "federationId" INTEGER NOT NULL,
+      "rank" INTEGER NOT NULL,
+      "elo" INTEGER NOT NULL,
+      "level" INTEGER NOT NULL,
+      "matchesPlayed" INTEGER NOT NULL DEFAULT 0,
+      PRIMARY KEY ("season", "playerId"),
+      CONSTRAINT "FaceitLeaderboardSnapshot_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "FaceitLeaderboardSnapshot_federationId_fkey" FOREIGN KEY ("federationId") REFERENCES "Federation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+}
+
+/**
+ * Stores the final standings of the month that just ended.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function saveSnapshot(profile: Prisma.ProfileGetPayload<unknown>) {
+  const season = getSeason(subDays(profile.date, 1));
+  const federations = await DatabaseClient.prisma.federation.findMany();
+  const userMatches = await DatabaseClient.prisma.match.count({
+    where: {
+      profileId: profile.id,
+      matchType: 'FACEIT_PUG',
+      status: Constants.MatchStatus.COMPLETED,
+    },
+  });
+  const snapshots: Array<FaceitLeaderboardSnapshot> = [];
+
+  for (const federation of federations) {
+    const leaderboard = await getFaceitLeaderboard(DatabaseClient.prisma, profile, {
+      federationId: federation.id,
+    });
+
+    leaderboard.forEach(
+      (entry: { rank: number; playerId: number; faceitElo: number; faceitLevel: number }) =>
+        snapshots.push({
+          season,
+          playerId: entry.playerId,
+          federationId: federation.id,
+          rank: entry.rank,
+          elo: entry.faceitElo,
+          level: entry.faceitLevel,
+          matchesPlayed: 0,
+        }),
+    );
+  }
+
+  // the user's pugs are stored as matches while npc pugs are only counted
+  const players = await DatabaseClient.prisma.player.findMany({
+    where: { id: { in: snapshots.map((snapshot) => snapshot.playerId) } },
+    select: { id: true, faceitMatches: true },
+  });
+  const matchesByPlayerId = new Map(players.map((player) => [player.id, player.faceitMatches]));
+
+  snapshots.forEach((snapshot) => {
+    snapshot.matchesPlayed =
+      snapshot.playerId === profile.playerId
+        ? userMatches
+        : matchesByPlayerId.get(snapshot.playerId) || 0;
+  });
+
+  await ensureFaceitLeaderboardSnapshotTable();
+  await DatabaseClient.prisma.$executeRaw`
+    DELETE FROM "FaceitLeaderboardSnapshot" WHERE "season" = ${season}
+  `;
+
+  for (let idx = 0; idx < snapshots.length; idx += SNAPSHOT_BATCH_SIZE) {
+    const values = snapshots
+      .slice(idx, idx + SNAPSHOT_BATCH_SIZE)
+      .map(
+        (snapshot) =>
+          Prisma.sql`(${snapshot.season}, ${snapshot.playerId}, ${snapshot.federationId}, ${snapshot.rank}, ${snapshot.elo}, ${snapshot.level}, ${snapshot.matchesPlayed})`,
+      );
+
+    await DatabaseClient.prisma.$executeRaw`
+      INSERT INTO "FaceitLeaderboardSnapshot" (
+        "season",
+        "playerId",
+        "federationId",
+        "rank",
+        "elo",
+        "level",
+        "matchesPlayed"
+      )
+      VALUES ${Prisma.join(values)}
+    `;
+  }
+
+  return { season, players: snapshots.length };
+}
+
+/**
+ * Gets the monthly snapshots of a player, oldest first.
+ *
+ * @param playerId The player id.
+ * @function
+ */
+export async function findPlayerHistory(playerId: number) {
+  await ensureFaceitLeaderboardSnapshotTable();
+
+  const rows = await DatabaseClient.prisma.$queryRaw<Array<FaceitLeaderboardSnapshot>>`
+    SELECT * FROM "FaceitLeaderboardSnapshot"
+    WHERE "playerId" = ${playerId}
+    ORDER BY "season" ASC
+  `;
+
+  return rows.map(toSnapshot);
+}
+
+/**
+ * Gets the highest level each player has finished a month on.
+ *
+ * @param playerIds The player ids.
+ * @function
+ */
+export async function findPeakLevels(playerIds: Array<number>) {
+  if (!playerIds.length) {
+    return new Map<number, number>();
+  }
+
+  await ensureFaceitLeaderboardSnapshotTable();
+
+  const rows = await DatabaseClient.prisma.$queryRaw<Array<{ playerId: number; level: number }>>`
+    SELECT "playerId", MAX("level") AS "level" FROM "FaceitLeaderboardSnapshot"
+    WHERE "playerId" IN (${Prisma.join(playerIds)})
+    GROUP BY "playerId"
+  `;
+
+  return new Map(rows.map((row) => [Number(row.playerId), Number(row.level)]));
+}
+
+/**
+ * Gets the players that gained the most Elo over a month.
+ *
+ * Only players that were ranked at the end of
+ * both the month and the one before it count.
+ *
+ * @param season  The season.
+ * @param limit   How many climbers to get.
+ * @function
+ */
+export async function findClimbers(season: string, limit: number) {
+  await ensureFaceitLeaderboardSnapshotTable();
+
+  const rows = await DatabaseClient.prisma.$queryRaw<
+    Array<FaceitLeaderboardSnapshot & { previousRank: number; previousElo: number }>
+  >`
+    SELECT
+      "current".*,
+      "previous"."rank" AS "previousRank",
+      "previous"."elo" AS "previousElo"
+    FROM "FaceitLeaderboardSnapshot" AS "current"
+    INNER JOIN "FaceitLeaderboardSnapshot" AS "previous"
+      ON "previous"."playerId" = "current"."playerId"
+      AND "previous"."season" = (
+        SELECT MAX("season") FROM "FaceitLeaderboardSnapshot" WHERE "season" < ${season}
+      )
+    WHERE "current"."season" = ${season}
+      AND "current"."elo" > "previous"."elo"
+    ORDER BY "current"."elo" - "previous"."elo" DESC, "current"."rank" ASC
+    LIMIT ${limit}
+  `;
+
+  return rows.map((row) => ({
+    ...toSnapshot(row),
+    previousRank: Number(row.previousRank),
+    previousElo: Number(row.previousElo),
+  }));
+}
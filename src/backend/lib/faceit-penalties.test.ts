@@ -0,0 +1,48 @@
+import assert from 'node:assert/strict';
+import { addDays, differenceInCalendarDays, startOfDay } from 'date-fns';
+import { getOffenseCooldownEnds, getScoutingWeight } from './faceit-penalties';
+
+const date = new Date(2026, 4, 12, 18, 30);
+const ladders = {
+  DODGE: [1, 2, 4, 8],
+  ABANDON: [2, 4, 8, 15],
+} as const;
+
+for (const type of ['DODGE', 'ABANDON'] as const) {
+  const days = ladders[type];
+
+  days.forEach((expected, offenses) => {
+    const cooldownEnds = getOffenseCooldownEnds(type, offenses, date);
+
+    assert.equal(
+      differenceInCalendarDays(cooldownEnds, date),
+      expected,
+      `${type} #${offenses + 1} locks the queue for ${expected} days`,
+    );
+    assert.equal(
+      cooldownEnds.getTime(),
+      startOfDay(cooldownEnds).getTime(),
+      'cooldowns end at the start of a day',
+    );
+  });
+
+  assert.deepEqual(
+    getOffenseCooldownEnds(type, 10, date),
+    addDays(startOfDay(date), days[days.length - 1]),
+    `${type} cooldowns top out at the end of the ladder`,
+  );
+}
+
+// abandons always weigh more than dodges with the same record
+for (let offenses = 0; offenses < 6; offenses++) {
+  assert.ok(
+    getOffenseCooldownEnds('ABANDON', offenses, date) >
+      getOffenseCooldownEnds('DODGE', offenses, date),
+    'abandons lock the queue for longer than dodges',
+  );
+}
+
+assert.equal(getScoutingWeight(100), 1, 'reliable players are scouted as usual');
+assert.equal(getScoutingWeight(0), 0.4, 'unreliable players are still scouted a little');
+assert.equal(getScoutingWeight(250), 1, 'reliability is capped');
+assert.equal(getScoutingWeight(-10), 0.4, 'reliability never goes negative');
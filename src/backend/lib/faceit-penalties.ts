@@ -0,0 +1,207 @@
+/**
+ * FACEIT penalties.
+ *
+ * Backing out of an accepted matchroom is a dodge and leaving
+ * a match that has already started is an abandon. Both lock
+ * the queue for longer with every recent offense, abandons
+ * also cost Elo and every offense lowers the reliability
+ * score that scouts look at. Completed pugs earn it back.
+ *
+ * @module
+ */
+import { addDays, startOfDay, subDays } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import DatabaseClient from './database-client';
+
+export type FaceitPenaltyType = 'DODGE' | 'ABANDON';
+
+/**
+ * How many days the queue stays locked on top of the rest
+ * of the day for every offense within the offense window.
+ *
+ * @constant
+ */
+const COOLDOWN_DAYS: Record<FaceitPenaltyType, Array<number>> = {
+  DODGE: [0, 1, 3, 7],
+  ABANDON: [1, 3, 7, 14],
+};
+
+/**
+ * How far back offenses count towards the next cooldown.
+ *
+ * @constant
+ */
+const OFFENSE_WINDOW_DAYS = 30;
+
+/**
+ * The Elo taken on top of the lost match when abandoning.
+ *
+ * @constant
+ */
+export const ABANDON_ELO_PENALTY = 25;
+
+/**
+ * How much reliability every offense costs.
+ *
+ * @constant
+ */
+const RELIABILITY_COST: Record<FaceitPenaltyType, number> = {
+  DODGE: 5,
+  ABANDON: 15,
+};
+
+/** @constant */
+const RELIABILITY_RECOVERY = 1;
+
+/** @constant */
+const MAX_RELIABILITY = 100;
+
+/**
+ * Creates the penalty table for saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureFaceitPenaltyTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "FaceitPenalty" (
+      "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+      "type" TEXT NOT NULL,
+      "date" DATETIME NOT NULL,
+      "cooldownEnds" DATETIME NOT NULL,
+      "eloPenalty" INTEGER NOT NULL DEFAULT 0,
+      "matchId" INTEGER,
+      "profileId" INTEGER NOT NULL,
+      CONSTRAINT "FaceitPenalty_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+}
+
+/**
+ * Gets when the user's queue cooldown ends
+ * or `null` when they are free to queue.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export function getCooldownEnds(profile: Prisma.ProfileGetPayload<unknown>) {
+  if (!profile.faceitCooldownEnds || profile.date >= profile.faceitCooldownEnds) {
+    return null;
+  }
+
+  return profile.faceitCooldownEnds;
+}
+
+/**
+ * Gets when the queue unlocks again after an offense.
+ *
+ * Every earlier offense within the offense window moves
+ * one step up the ladder until it tops out.
+ *
+ * @param type      The offense.
+ * @param offenses  How many offenses came before it.
+ * @param date      The current date.
+ * @function
+ */
+export function getOffenseCooldownEnds(type: FaceitPenaltyType, offenses: number, date: Date) {
+  const ladder = COOLDOWN_DAYS[type];
+  return addDays(startOfDay(date), ladder[Math.min(offenses, ladder.length - 1)] + 1);
+}
+
+/**
+ * Records an offense and hands out its penalties.
+ *
+ * @param profile The user's profile.
+ * @param type    The offense.
+ * @param matchId The match the offense happened in.
+ * @function
+ */
+export async function penalize(
+  profile: Prisma.ProfileGetPayload<unknown>,
+  type: FaceitPenaltyType,
+  matchId?: number,
+) {
+  await ensureFaceitPenaltyTable();
+
+  const offenses = await DatabaseClient.prisma.faceitPenalty.count({
+    where: {
+      profileId: profile.id,
+      date: { gte: subDays(profile.date, OFFENSE_WINDOW_DAYS) },
+    },
+  });
+  const cooldownEnds = getOffenseCooldownEnds(type, offenses, profile.date);
+  const eloPenalty = type === 'ABANDON' ? ABANDON_ELO_PENALTY : 0;
+
+  await DatabaseClient.prisma.faceitPenalty.create({
+    data: {
+      type,
+      date: profile.date,
+      cooldownEnds,
+      eloPenalty,
+      matchId,
+      profileId: profile.id,
+    },
+  });
+
+  // a milder offense never shortens a running cooldown
+  const current = getCooldownEnds(profile);
+
+  return DatabaseClient.prisma.profile.update({
+    where: { id: profile.id },
+    data: {
+      faceitElo: profile.faceitElo - eloPenalty,
+      faceitCooldownEnds: current && current > cooldownEnds ? current : cooldownEnds,
+      faceitReliability: Math.max(0, profile.faceitReliability - RELIABILITY_COST[type]),
+    },
+  });
+}
+
+/**
+ * Earns back some reliability after a completed pug.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export function recover(profile: Prisma.ProfileGetPayload<unknown>) {
+  if (profile.faceitReliability >= MAX_RELIABILITY) {
+    return Promise.resolve(profile);
+  }
+
+  return DatabaseClient.prisma.profile.update({
+    where: { id: profile.id },
+    data: {
+      faceitReliability: Math.min(
+        MAX_RELIABILITY,
+        profile.faceitReliability + RELIABILITY_RECOVERY,
+      ),
+    },
+  });
+}
+
+/**
+ * Gets the user's recent offenses, latest first.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function findRecent(profile: Prisma.ProfileGetPayload<unknown>) {
+  await ensureFaceitPenaltyTable();
+
+  return DatabaseClient.prisma.faceitPenalty.findMany({
+    where: {
+      profileId: profile.id,
+      date: { gte: subDays(profile.date, OFFENSE_WINDOW_DAYS) },
+    },
+    orderBy: { date: 'desc' },
+  });
+}
+
+/**
+ * Gets how much a reliability score scares off
+ * the teams that are scouting the user.
+ *
+ * @param reliability The reliability score.
+ * @function
+ */
+export function getScoutingWeight(reliability: number) {
+  return 0.4 + 0.6 * (Math.max(0, Math.min(MAX_RELIABILITY, reliability)) / MAX_RELIABILITY);
+}
@@ -0,0 +1,285 @@
+/**
+ * FACEIT Pro League.
+ *
+ * Every month the top of each regional FACEIT leaderboard is
+ * invited to the FPL and the players right below them to
+ * FPL Challenger. Members queue against the other members of
+ * their division only and their standing is one of the
+ * strongest scouting signals a teamless player can send.
+ *
+ * @module
+ */
+import { startOfMonth } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import { Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+import { getFaceitLeaderboard, getSeason } from './faceit-leaderboard';
+
+export type FaceitProLeagueDivision = 'FPL' | 'FPL_CHALLENGER';
+
+export type FaceitProLeagueMember = {
+  season: string;
+  playerId: number;
+  federationId: number;
+  division: FaceitProLeagueDivision;
+  rank: number;
+  elo: number;
+};
+
+export type FaceitProLeagueStanding = FaceitProLeagueMember & {
+  divisionName: string;
+  standing: number;
+  rosterSize: number;
+  played: number;
+  wins: number;
+};
+
+/**
+ * How many players of each region make the FPL.
+ *
+ * @constant
+ */
+const FPL_SLOTS = 50;
+
+/**
+ * How many players of each region make FPL Challenger
+ * on top of the ones that made the FPL.
+ *
+ * @constant
+ */
+const CHALLENGER_SLOTS = 100;
+
+/**
+ * The persona that sends out the invites.
+ *
+ * @constant
+ */
+const PERSONA_NAME = 'FPL Admin';
+
+/**
+ * The display names of the divisions.
+ *
+ * @constant
+ */
+export const DivisionName: Record<FaceitProLeagueDivision, string> = {
+  FPL: 'FACEIT Pro League',
+  FPL_CHALLENGER: 'FPL Challenger',
+};
+
+/**
+ * Creates the pro league member table for
+ * saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureFaceitProLeagueTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "FaceitProLeagueMember" (
+      "season" TEXT NOT NULL,
+      "playerId" INTEGER NOT NULL,
+      "federationId" INTEGER NOT NULL,
+      "division" TEXT NOT NULL,
+      "rank" INTEGER NOT NULL,
+      "elo" INTEGER NOT NULL,
+      PRIMARY KEY ("season", "playerId"),
+      CONSTRAINT "FaceitProLeagueMember_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "FaceitProLeagueMember_federationId_fkey" FOREIGN KEY ("federationId") REFERENCES "Federation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+}
+
+/**
+ * Gets the persona that runs the league
+ * and creates them on first use.
+ *
+ * @function
+ */
+export function getPersona() {
+  return DatabaseClient.prisma.persona.upsert({
+    where: { name: PERSONA_NAME },
+    update: {},
+    create: { name: PERSONA_NAME, role: Constants.PersonaRole.LEAGUE_ADMIN },
+  });
+}
+
+/**
+ * Invites the top of every regional leaderboard
+ * to the divisions of the current season.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function updateRosters(profile: Prisma.ProfileGetPayload<unknown>) {
+  const season = getSeason(profile.date);
+  const federations = await DatabaseClient.prisma.federation.findMany();
+  const members: Array<FaceitProLeagueMember> = [];
+
+  for (const federation of federations) {
+    const leaderboard = await getFaceitLeaderboard(DatabaseClient.prisma, profile, {
+      federationId: federation.id,
+      limit: FPL_SLOTS + CHALLENGER_SLOTS,
+    });
+
+    leaderboard.forEach((entry: { rank: number; playerId: number; faceitElo: number }) =>
+      members.push({
+        season,
+        playerId: entry.playerId,
+        federationId: federation.id,
+        division: entry.rank <= FPL_SLOTS ? 'FPL' : 'FPL_CHALLENGER',
+        rank: entry.rank,
+        elo: entry.faceitElo,
+      }),
+    );
+  }
+
+  await ensureFaceitProLeagueTable();
+  await DatabaseClient.prisma.$transaction([
+    DatabaseClient.prisma.$executeRaw`
+      DELETE FROM "FaceitProLeagueMember" WHERE "season" = ${season}
+    `,
+    ...members.map(
+      (member) => DatabaseClient.prisma.$executeRaw`
+        INSERT INTO "FaceitProLeagueMember" (
+          "season",
+          "playerId",
+          "federationId",
+          "division",
+          "rank",
+          "elo"
+        )
+        VALUES (
+          ${member.season},
+          ${member.playerId},
+          ${member.federationId},
+          ${member.division},
+          ${member.rank},
+          ${member.elo}
+        )
+      `,
+    ),
+  ]);
+
+  return members;
+}
+
+/**
+ * Gets the division a player was invited to this season.
+ *
+ * @param playerId  The player id.
+ * @param date      The current date.
+ * @function
+ */
+export async function findMember(
+  playerId: number,
+  date: Date,
+): Promise<FaceitProLeagueMember | null> {
+  await ensureFaceitProLeagueTable();
+
+  const [member] = await DatabaseClient.prisma.$queryRaw<Array<FaceitProLeagueMember>>`
+    SELECT * FROM "FaceitProLeagueMember"
+    WHERE "season" = ${getSeason(date)} AND "playerId" = ${playerId}
+  `;
+
+  if (!member) {
+    return null;
+  }
+
+  return {
+    ...member,
+    playerId: Number(member.playerId),
+    federationId: Number(member.federationId),
+    rank: Number(member.rank),
+    elo: Number(member.elo),
+  };
+}
+
+/**
+ * Gets the ids of every player in the same division as a member.
+ *
+ * @param member The member.
+ * @function
+ */
+export async function findRosterIds(member: FaceitProLeagueMember) {
+  await ensureFaceitProLeagueTable();
+
+  const rows = await DatabaseClient.prisma.$queryRaw<Array<{ playerId: number }>>`
+    SELECT "playerId" FROM "FaceitProLeagueMember"
+    WHERE "season" = ${member.season}
+      AND "federationId" = ${member.federationId}
+      AND "division" = ${member.division}
+  `;
+
+  return rows.map((row) => Number(row.playerId));
+}
+
+/**
+ * Gets where the user stands in their division this season.
+ *
+ * The standing follows the live Elo of the division
+ * while the record only counts the division's pugs.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function getStanding(
+  profile: Prisma.ProfileGetPayload<unknown>,
+): Promise<FaceitProLeagueStanding | null> {
+  if (!profile.playerId) {
+    return null;
+  }
+
+  const member = await findMember(profile.playerId, profile.date);
+
+  if (!member) {
+    return null;
+  }
+
+  const rosterIds = await findRosterIds(member);
+  const rivals = await DatabaseClient.prisma.player.count({
+    where: {
+      id: { in: rosterIds.filter((id) => id !== profile.playerId) },
+      elo: { gt: profile.faceitElo },
+    },
+  });
+  const matches = await DatabaseClient.prisma.match.findMany({
+    where: {
+      profileId: profile.id,
+      matchType: 'FACEIT_PUG',
+      status: Constants.MatchStatus.COMPLETED,
+      date: { gte: startOfMonth(profile.date) },
+    },
+    select: { payload: true, faceitIsWin: true },
+  });
+  const divisionMatches = matches.filter((match) => {
+    try {
+      return JSON.parse(match.payload || '{}').proLeague === member.division;
+    } catch {
+      return false;
+    }
+  });
+
+  return {
+    ...member,
+    divisionName: DivisionName[member.division],
+    standing: rivals + 1,
+    rosterSize: rosterIds.length,
+    played: divisionMatches.length,
+    wins: divisionMatches.filter((match) => match.faceitIsWin === true).length,
+  };
+}
+
+/**
+ * Gets how much more a standing is worth to scouts
+ * than an ordinary ladder record of the same quality.
+ *
+ * @param standing The standing.
+ * @function
+ */
+export function getScoutingWeight(standing: FaceitProLeagueStanding) {
+  const base = standing.division === 'FPL' ? 3 : 1.75;
+  const placement = 1 - (standing.standing - 1) / Math.max(1, standing.rosterSize);
+  const winRate = standing.played ? standing.wins / standing.played : 0.5;
+  const confidence = Math.min(1, standing.played / 10);
+
+  return base * (0.75 + placement * 0.5) * (1 + (winRate - 0.5) * confidence);
+}
@@ -0,0 +1,186 @@
+/**
+ * FACEIT matchroom veto.
+ *
+ * The highest rated player of each side captains the veto and
+ * both captains take turns banning maps until one is left.
+ * Bot captains ban the maps their team is least comfortable
+ * on and idle captains get the same treatment once their turn runs out.
+ *
+ * @module
+ */
+import { Constants } from '@liga/shared';
+import * as MapVeto from './map-veto';
+
+export type FaceitVetoSide = 'TEAM_A' | 'TEAM_B';
+
+export type FaceitVetoAction = {
+  map: string;
+  by: FaceitVetoSide | 'SYSTEM';
+  kind: 'BAN' | 'DECIDER';
+  timedOut?: boolean;
+};
+
+export type FaceitVeto = {
+  captains: Record<FaceitVetoSide, number | null>;
+  history: Array<FaceitVetoAction>;
+  completed: boolean;
+  deciderMap: string | null;
+  turnEndsAt: number | null;
+};
+
+type FaceitVetoPlayer = {
+  id: number;
+  elo: number;
+  teamId?: number | null;
+  userControlled?: boolean;
+};
+
+type FaceitVetoRoom = {
+  teamA: Array<FaceitVetoPlayer>;
+  teamB: Array<FaceitVetoPlayer>;
+  selectedMap?: string;
+  veto?: Partial<FaceitVeto>;
+};
+
+/**
+ * How long a captain has to make their ban.
+ *
+ * @constant
+ */
+const TURN_TIMEOUT = 20_000;
+
+/**
+ * The pseudo team ids FACEIT matches are stored under.
+ *
+ * @constant
+ */
+const SIDE_TEAM_IDS: Record<FaceitVetoSide, number> = {
+  TEAM_A: 1,
+  TEAM_B: 2,
+};
+
+/**
+ * Picks the highest rated player as the captain of a side.
+ *
+ * @param team The players on the side.
+ * @function
+ */
+export function getCaptain<T extends FaceitVetoPlayer>(team: Array<T>) {
+  return [...team].sort((a, b) => b.elo - a.elo || a.id - b.id)[0];
+}
+
+/**
+ * Gets the side whose captain has to ban next.
+ *
+ * @param veto The veto.
+ * @param pool The maps in the active map pool.
+ * @function
+ */
+export function getTurn(veto: FaceitVeto, pool: Array<string>): FaceitVetoSide | null {
+  const remaining = pool.filter((map) => veto.history.every((action) => action.map !== map));
+
+  if (veto.completed || remaining.length <= 1) {
+    return null;
+  }
+
+  return veto.history.filter((action) => action.kind === 'BAN').length % 2 === 0
+    ? 'TEAM_A'
+    : 'TEAM_B';
+}
+
+/**
+ * Converts the veto into the rows stored on the match.
+ *
+ * @param veto The veto.
+ * @function
+ */
+export function toMatchVetoes(veto: FaceitVeto) {
+  return veto.history.map((action) => ({
+    type: action.kind === 'BAN' ? Constants.MapVetoAction.BAN : Constants.MapVetoAction.DECIDER,
+    map: action.map,
+    teamId: action.by === 'SYSTEM' ? null : SIDE_TEAM_IDS[action.by],
+  }));
+}
+
+/**
+ * Makes the next move in the veto.
+ *
+ * Without a map the current turn is only played out
+ * when it belongs to a bot or when it has timed out.
+ *
+ * @param room  The matchroom.
+ * @param map   The map banned by the user.
+ * @function
+ */
+export async function advance<T extends FaceitVetoRoom>(room: T, map?: string) {
+  const captainA = getCaptain(room.teamA);
+  const captainB = getCaptain(room.teamB);
+
+  // start the clock the first time the veto is loaded
+  if (!room.veto?.captains) {
+    return {
+      ...room,
+      veto: {
+        captains: { TEAM_A: captainA?.id ?? null, TEAM_B: captainB?.id ?? null },
+        history: room.veto?.history || [],
+        completed: !!room.veto?.completed,
+        deciderMap: room.veto?.deciderMap ?? null,
+        turnEndsAt: Date.now() + TURN_TIMEOUT,
+      } as FaceitVeto,
+    };
+  }
+
+  const veto = { ...room.veto, history: [...room.veto.history] } as FaceitVeto;
+  const context = await MapVeto.loadContext([captainA?.teamId ?? 0, captainB?.teamId ?? 0]);
+  const turn = getTurn(veto, context.pool);
+
+  if (turn) {
+    const moves = veto.history.length;
+    const captain = turn === 'TEAM_A' ? captainA : captainB;
+    const timedOut = Date.now() >= (veto.turnEndsAt ?? 0);
+    const history = veto.history.map((action) => ({
+      type: Constants.MapVetoAction.BAN,
+      map: action.map,
+    }));
+
+    if (captain?.userControlled && map) {
+      if (context.pool.includes(map) && history.every((entry) => entry.map !== map)) {
+        veto.history.push({ map, by: turn, kind: 'BAN' });
+      }
+    } else if (!captain?.userControlled || timedOut) {
+      veto.history.push({
+        map: MapVeto.selectMap(
+          context,
+          history,
+          turn === 'TEAM_A' ? 0 : 1,
+          Constants.MapVetoAction.BAN,
+        ),
+        by: turn,
+        kind: 'BAN',
+        ...(captain?.userControlled ? { timedOut: true } : {}),
+      });
+    }
+
+    if (veto.history.length > moves) {
+      veto.turnEndsAt = Date.now() + TURN_TIMEOUT;
+    }
+  }
+
+  // the last map standing is the one that gets played
+  const remaining = context.pool.filter((name) =>
+    veto.history.every((action) => action.map !== name),
+  );
+
+  if (!veto.completed && remaining.length === 1) {
+    veto.history.push({ map: remaining[0], by: 'SYSTEM', kind: 'DECIDER' });
+    veto.completed = true;
+    veto.deciderMap = remaining[0];
+    veto.turnEndsAt = null;
+  }
+
+  return {
+    ...room,
+    selectedMap: veto.deciderMap ?? room.selectedMap,
+    veto,
+  };
+}
@@ -0,0 +1,24 @@
+import assert from 'node:assert/strict';
+import { Prisma } from '@prisma/client';
+import { fine, getFine, getPrizeShare, getSigningBonus } from './finances';
+
+assert.equal(getSigningBonus(10_000), 10_000, 'new teams pay a month of wages up front');
+assert.equal(getSigningBonus(1_234.4), 1_234, 'signing bonuses are whole amounts');
+
+assert.equal(getPrizeShare(100_000, 5), 16_000, 'the players split their cut of the prize');
+assert.equal(getPrizeShare(100_000, 8), 10_000, 'bigger squads get a smaller share each');
+assert.equal(
+  getPrizeShare(100_000, 3),
+  16_000,
+  'the prize is never split between fewer than five players',
+);
+assert.equal(getPrizeShare(0, 5), 0, 'no prize means no share');
+
+assert.equal(getFine(10_000), 2_500, 'fines take a quarter of the monthly wages');
+assert.equal(getFine(500), 250, 'fines never go below the minimum');
+assert.equal(getFine(0), 250, 'players without wages still pay the minimum');
+
+(async () => {
+  const teamless = { id: 1, teamId: null, playerId: 1 } as Prisma.ProfileGetPayload<unknown>;
+  assert.equal(await fine(teamless, 'Abandon'), teamless, 'teamless users are never fined');
+})();
@@ -0,0 +1,261 @@
+/**
+ * Personal finances.
+ *
+ * Every profile keeps a bank balance backed by a ledger.
+ * Wages are paid on the first of every month with the
+ * agent taking their cut straight away. The user also gets
+ * a share of the prize money their team wins and a bonus
+ * for signing with a new team, while their team fines them
+ * for unprofessional behavior like abandoning matches.
+ *
+ * While out on loan the wages are split between the
+ * parent club and the loan club.
+ *
+ * @module
+ */
+import { format, startOfMonth, subMonths } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import DatabaseClient from './database-client';
+import * as Agents from './agents';
+import * as Loans from './loans';
+
+export type LedgerEntryType = 'WAGES' | 'PRIZE_MONEY' | 'SIGNING_BONUS' | 'AGENT_FEE' | 'FINE';
+
+export type MonthlySummary = {
+  month: string;
+  income: number;
+  expenses: number;
+};
+
+/**
+ * How much of the prize money is split between the players
+ * when working out the user's cut. Only the user's share is
+ * paid out so team earnings still count the full prize.
+ *
+ * @constant
+ */
+const PRIZE_PLAYERS_CUT = 0.8;
+
+/**
+ * The prize money is never split between fewer players than this.
+ *
+ * @constant
+ */
+const MIN_PRIZE_SPLIT = 5;
+
+/**
+ * How many months of wages a new team pays up front.
+ *
+ * @constant
+ */
+const SIGNING_BONUS_MONTHS = 1;
+
+/**
+ * How much of a month's wages a fine takes.
+ *
+ * @constant
+ */
+const FINE_WAGE_SHARE = 0.25;
+
+/** @constant */
+const MIN_FINE = 250;
+
+/** @constant */
+const SUMMARY_MONTHS = 12;
+
+/** @constant */
+const RECENT_ENTRIES = 50;
+
+/**
+ * Creates the ledger entry table for
+ * saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureLedgerEntryTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "LedgerEntry" (
+      "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+      "type" TEXT NOT NULL,
+      "amount" INTEGER NOT NULL,
+      "date" DATETIME NOT NULL,
+      "description" TEXT,
+      "profileId" INTEGER NOT NULL,
+      CONSTRAINT "LedgerEntry_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+}
+
+/**
+ * Writes an entry into the ledger and moves the balance with it.
+ *
+ * Incoming money is positive and outgoing money is negative.
+ *
+ * @param profile     The user's profile.
+ * @param type        The kind of entry.
+ * @param amount      The amount.
+ * @param description What the entry was for.
+ * @function
+ */
+export async function record(
+  profile: Prisma.ProfileGetPayload<unknown>,
+  type: LedgerEntryType,
+  amount: number,
+  description?: string,
+) {
+  amount = Math.round(amount);
+
+  if (!amount) {
+    return profile;
+  }
+
+  await ensureLedgerEntryTable();
+  await DatabaseClient.prisma.ledgerEntry.create({
+    data: {
+      type,
+      amount,
+      date: profile.date,
+      description,
+      profileId: profile.id,
+    },
+  });
+
+  return DatabaseClient.prisma.profile.update({
+    where: { id: profile.id },
+    data: { balance: { increment: amount } },
+  });
+}
+
+/**
+ * Pays the user their monthly wages and hands
+ * the agent their fee out of the payment.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function payWages(profile: Prisma.ProfileGetPayload<unknown>) {
+  if (!profile.teamId || !profile.playerId) {
+    return profile;
+  }
+
+  const [player, team, agent] = await Promise.all([
+    DatabaseClient.prisma.player.findFirst({ where: { id: profile.playerId } }),
+    DatabaseClient.prisma.team.findFirst({ where: { id: profile.teamId } }),
+    Agents.getSigned(profile),
+  ]);
+  const wages = player?.wages ?? 0;
+
+  if (!wages) {
+    return profile;
+  }
+
+  if (player?.loanedFromId != null) {
+    const parent = await DatabaseClient.prisma.team.findFirst({
+      where: { id: player.loanedFromId },
+    });
+    const split = Loans.splitWages(wages, parent?.tier ?? null, team?.tier ?? null);
+    profile = await record(profile, 'WAGES', split.parentClub, parent?.name);
+    profile = await record(profile, 'WAGES', split.loanClub, `${team?.name} (loan)`);
+  } else {
+    profile = await record(profile, 'WAGES', wages, team?.name);
+  }
+
+  if (agent) {
+    profile = await record(profile, 'AGENT_FEE', -Agents.getFee(agent, wages), agent.name);
+  }
+
+  return profile;
+}
+
+/**
+ * Gets the bonus a new team pays on signing.
+ *
+ * @param wages The signed wages.
+ * @function
+ */
+export function getSigningBonus(wages: number) {
+  return Math.round(wages * SIGNING_BONUS_MONTHS);
+}
+
+/**
+ * Gets the user's cut of the prize money their team won.
+ *
+ * @param prizeMoney  The prize money the team won.
+ * @param squadSize   How many players are on the team.
+ * @function
+ */
+export function getPrizeShare(prizeMoney: number, squadSize: number) {
+  return Math.round((prizeMoney * PRIZE_PLAYERS_CUT) / Math.max(MIN_PRIZE_SPLIT, squadSize));
+}
+
+/**
+ * Gets how much a fine takes out of the given wages.
+ *
+ * @param wages The user's monthly wages.
+ * @function
+ */
+export function getFine(wages: number) {
+  return Math.max(MIN_FINE, wages * FINE_WAGE_SHARE);
+}
+
+/**
+ * Fines the user when they are under contract.
+ *
+ * @param profile The user's profile.
+ * @param reason  What the fine is for.
+ * @function
+ */
+export async function fine(profile: Prisma.ProfileGetPayload<unknown>, reason: string) {
+  if (!profile.teamId || !profile.playerId) {
+    return profile;
+  }
+
+  const player = await DatabaseClient.prisma.player.findFirst({
+    where: { id: profile.playerId },
+  });
+
+  return record(profile, 'FINE', -getFine(player?.wages ?? 0), reason);
+}
+
+/**
+ * Gets the user's balance along with their latest
+ * entries and how much came in and went out every
+ * month over the past year.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function getSummary(profile: Prisma.ProfileGetPayload<unknown>) {
+  await ensureLedgerEntryTable();
+
+  const since = startOfMonth(subMonths(profile.date, SUMMARY_MONTHS - 1));
+  const entries = await DatabaseClient.prisma.ledgerEntry.findMany({
+    where: { profileId: profile.id, date: { gte: since } },
+    orderBy: [{ date: 'desc' }, { id: 'desc' }],
+  });
+  const months: Array<MonthlySummary> = [...Array(SUMMARY_MONTHS)].map((_, idx) => ({
+    month: format(subMonths(profile.date, SUMMARY_MONTHS - 1 - idx), 'yyyy-MM'),
+    income: 0,
+    expenses: 0,
+  }));
+
+  for (const entry of entries) {
+    const summary = months.find((month) => month.month === format(entry.date, 'yyyy-MM'));
+
+    if (!summary) {
+      continue;
+    }
+
+    if (entry.amount > 0) {
+      summary.income += entry.amount;
+    } else {
+      summary.expenses -= entry.amount;
+    }
+  }
+
+  return {
+    balance: profile.balance,
+    entries: entries.slice(0, RECENT_ENTRIES),
+    months,
+  };
+}
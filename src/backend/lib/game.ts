@@ -3,7 +3,10 @@
  *
  * @module
  */
+import * as Demos from './demos';
 import * as FileManager from './file-manager';
+import * as MatchCentre from './match-centre';
+import * as MatchCheckpoint from './match-checkpoint';
 import * as DiscordPresence from './discord-presence';
 import * as PluginManager from './plugins';
 import * as RCON from './rcon';
@@ -62,6 +65,21 @@ const LAN_TIER_SLUGS = new Set<string>([
   Constants.TierSlug.MAJOR_LEGENDS_STAGE,
 ]);
 
+/**
+ * How long to wait for the server to finish
+ * writing a demo after it stops recording.
+ *
+ * @constant
+ */
+const DEMO_FLUSH_DELAY = 2000;
+
+/**
+ * How much faster than a legit bot a FACEIT cheater aims.
+ *
+ * @constant
+ */
+const CHEATER_LOOK_ANGLE_BOOST = 1.5;
+
 const CSGO_TEAM_LOGOS_DIR = 'materials/panorama/images/tournaments/teams';
 const CSGO_BOT_STUFF_PLUGIN = 'addons/sourcemod/plugins/bot_stuff.smx';
 const CSGO_BOT_STUFF_DM_PLUGIN = 'addons/sourcemod/plugins/dm/bot_stuff.smx';
@@ -410,6 +428,98 @@ export async function isRunningAndThrow(name: string) {
   }
 }
 
+/**
+ * Launches the CSGO game client.
+ *
+ * Falls back to launching through Steam
+ * if the game executable cannot be found.
+ *
+ * On macOS the game is always started through a Steam
+ * URL which carries the extra arguments along as well.
+ *
+ * @param settings  The application settings.
+ * @param extraArgs Launch arguments added after the default ones.
+ * @function
+ */
+export async function launchClient(
+  settings: typeof Constants.Settings,
+  extraArgs: Array<string> = [],
+) {
+  let clientProcess: ChildProcessWithoutNullStreams;
+  let launchedViaSteam = false;
+
+  const defaultArgs = [
+    '-insecure',
+    '-novid',
+    '-tickrate 128',
+    '+rate',
+    '786432',
+    '+cl_updaterate',
+    '128',
+    '+cl_cmdrate',
+    '128',
+  ];
+
+  const launchArgs = [...defaultArgs, ...extraArgs];
+
+  if (is.osx()) {
+    launchedViaSteam = true;
+    clientProcess = spawn(
+      'open',
+      [`steam://rungameid/${Constants.GameSettings.CSGO_APPID}//'${launchArgs.join(' ')}'`],
+      { shell: true },
+    );
+  } else {
+    const resolvedSteamPath = settings.general.steamPath || (await discoverSteamPath());
+    let gameLibrary = settings.general.gamePath;
+
+    if (!gameLibrary) {
+      try {
+        gameLibrary = await discoverGamePath(settings.general.game, resolvedSteamPath || undefined);
+        settings.general.gamePath = gameLibrary;
+      } catch (_) {
+        // fallback to Steam launch below
+      }
+    }
+    if (gameLibrary) {
+      const gameInstallPath = path.join(gameLibrary, Constants.GameSettings.CSGO_BASEDIR);
+      const gameExecutable = path.join(gameInstallPath, Constants.GameSettings.CSGO_EXE);
+
+      try {
+        await fs.promises.access(gameExecutable, fs.constants.F_OK);
+        clientProcess = spawn(gameExecutable, launchArgs, { cwd: gameInstallPath });
+      } catch (_) {
+        log.warn(`CS:GO executable not found at: ${gameExecutable}`);
+      }
+    }
+
+    if (!clientProcess) {
+      const steamExecutable = resolvedSteamPath
+        ? path.join(resolvedSteamPath, Constants.GameSettings.STEAM_EXE)
+        : null;
+      const steamArgs = ['-applaunch', Constants.GameSettings.CSGO_APPID.toString(), ...launchArgs];
+
+      if (steamExecutable) {
+        try {
+          await fs.promises.access(steamExecutable, fs.constants.F_OK);
+          launchedViaSteam = true;
+          clientProcess = spawn(steamExecutable, steamArgs);
+        } catch (_) {
+          log.warn(`Steam executable not found at: ${steamExecutable}`);
+        }
+      }
+    }
+
+    if (!clientProcess) {
+      throw new Error(
+        'Unable to launch CS:GO client. Neither csgo.exe nor steam.exe could be started.',
+      );
+    }
+  }
+
+  return { process: clientProcess, launchedViaSteam };
+}
+
 /**
  * The game server.
  *
@@ -446,6 +556,9 @@ export class Server {
   private sideTeamIds?: { t: number; ct: number };
   private clientLaunchedViaSteam: boolean;
   public faceitUserServerId: string | null;
+  public recordDemo: boolean;
+  public tacticalCallsEnabled: boolean;
+  public resumeFrom: MatchCheckpoint.MatchCheckpoint | null;
 
   public getFaceitSides() {
     return this.faceitSides;
@@ -471,8 +584,15 @@ export class Server {
   public scorebotEvents: Array<{
     type: Scorebot.EventIdentifier;
     payload:
+      | Scorebot.EventPayloadBomb
       | Scorebot.EventPayloadPlayerAssisted
+      | Scorebot.EventPayloadPlayerAttacked
+      | Scorebot.EventPayloadPlayerCalled
+      | Scorebot.EventPayloadPlayerClutch
       | Scorebot.EventPayloadPlayerKilled
+      | Scorebot.EventPayloadPlayerMoneyChanged
+      | Scorebot.EventPayloadPlayerPurchased
+      | Scorebot.EventPayloadPlayerThrew
       | Scorebot.EventPayloadRoundOver;
   }>;
 
@@ -519,6 +639,8 @@ export class Server {
     this.clientConnected = false;
     this.clientProcessSeen = false;
     this.faceitUserServerId = null;
+    this.recordDemo = false;
+    this.resumeFrom = null;
     this.livePresenceHalf = 0;
     this.livePresenceRounds = 1;
     this.livePresenceScoreByTeamId = {};
@@ -843,6 +965,45 @@ export class Server {
     this.updateLiveDiscordPresence();
   }
 
+  /**
+   * Starts streaming the match to the match centre window.
+   *
+   * @function
+   */
+  private async startMatchCentre() {
+    try {
+      // the user is left out of their squad so they are added back in
+      const userTeamId = this.presenceUserTeamId;
+      const user = userTeamId
+        ? await DatabaseClient.prisma.player.findUnique({
+            where: { id: this.profile.playerId },
+            select: { id: true, name: true },
+          })
+        : null;
+
+      await MatchCentre.start(
+        this.match.id,
+        this.map,
+        this.livePresenceOrderedTeamIds.map((teamId) => {
+          const competitor = this.competitors.find((item) => item.teamId === teamId);
+          const players = (competitor?.team?.players ?? []).map((player) => ({
+            id: player.id,
+            name: player.name,
+          }));
+
+          return {
+            id: teamId,
+            name: competitor?.team?.name ?? `Team ${teamId}`,
+            players: user && teamId === userTeamId ? [...players, user] : players,
+          };
+        }),
+        user?.id ?? null,
+      );
+    } catch (error) {
+      this.log.warn('Could not start the match centre: %s', error);
+    }
+  }
+
   /**
    * Determines whether overtime is allowed.
    *
@@ -912,6 +1073,7 @@ export class Server {
     DiscordPresence.restoreNonLive().catch((error) =>
       this.log.debug('Discord Rich Presence restore failed', error),
     );
+    MatchCentre.stop();
 
     await Promise.all(
       this.cleanupCallbacks.map(async (callback) => {
@@ -1094,7 +1256,19 @@ export class Server {
       },
     };
 
-    const look = lookAngleMap[difficulty] || lookAngleMap[Constants.BotDifficulty.ABYSMAL];
+    const templateLook = lookAngleMap[difficulty] || lookAngleMap[Constants.BotDifficulty.ABYSMAL];
+
+    // faceit cheaters snap onto targets faster than even the best template
+    const star = lookAngleMap[Constants.BotDifficulty.STAR];
+    const look =
+      (player as { encounter?: string }).encounter === 'CHEATER'
+        ? {
+            normal: templateLook.normal * CHEATER_LOOK_ANGLE_BOOST,
+            attack: Math.max(templateLook.attack, star.attack) * CHEATER_LOOK_ANGLE_BOOST,
+            stiff: Math.max(templateLook.stiff, star.stiff) * CHEATER_LOOK_ANGLE_BOOST,
+            damp: star.damp,
+          }
+        : templateLook;
 
     // Build bot profile string (with dynamic LookAngle values)
     return Dedent.dedent`
@@ -1263,6 +1437,7 @@ End\n
     const userIsIGL = !this.spectating && user?.role === Constants.UserRole.IGL;
     const isIGL = !this.isFaceit && (userIsIGL || isCustomGameIglMode) ? 1 : 0;
     const bot_defer_to_human_items = isIGL;
+    this.tacticalCallsEnabled = !!isIGL;
     const isLan = this.getIsLanMatch() ? 1 : 0;
     const deathmatchSettings = this.deathmatchServerSettings;
     const isChaos = !this.isFaceit && this.isChaosCustomGame ? 1 : 0;
@@ -1355,6 +1530,19 @@ End\n
       }
     }
 
+    // a restored round backup expects the
+    // teams to start on their original sides
+    if (this.resumeFrom) {
+      tTeam =
+        this.competitors.find(
+          (competitor) => competitor.teamId === this.resumeFrom.sideTeamIds.t,
+        ) || tTeam;
+      ctTeam =
+        this.competitors.find(
+          (competitor) => competitor.teamId === this.resumeFrom.sideTeamIds.ct,
+        ) || ctTeam;
+    }
+
     this.sideTeamIds = {
       t: tTeam.teamId,
       ct: ctTeam.teamId,
@@ -1575,6 +1763,20 @@ End\n
     serverCfgRendered = upsertConVar(serverCfgRendered, 'mp_overtime_enable', overtimeEnable);
     serverCfgRendered = upsertConVar(serverCfgRendered, 'sv_cheats', svCheats);
 
+    // back up every round so an interrupted match can be resumed
+    if (this.match?.id && this.matchGame?.id) {
+      serverCfgRendered = upsertConVar(
+        serverCfgRendered,
+        'mp_backup_round_file',
+        this.backupPrefix,
+      );
+      serverCfgRendered = upsertConVar(
+        serverCfgRendered,
+        'mp_backup_round_file_pattern',
+        '%prefix%_round%round%.txt',
+      );
+    }
+
     await fs.promises.writeFile(serverCfgPath, serverCfgRendered, 'utf8');
     this.log.info(`Generated server.cfg at: ${serverCfgPath}`);
 
@@ -1833,84 +2035,10 @@ End\n
    * @function
    */
   private async launchClientCSGO() {
-    this.clientLaunchedViaSteam = false;
-
-    const defaultArgs = [
-      '-insecure',
-      '-novid',
-      '-tickrate 128',
-      '+rate',
-      '786432',
-      '+cl_updaterate',
-      '128',
-      '+cl_cmdrate',
-      '128',
-    ];
-
-    const launchArgs = [...defaultArgs, ...this.userArgs];
-
-    if (is.osx()) {
-      this.clientLaunchedViaSteam = true;
-      gameClientProcess = spawn(
-        'open',
-        [`steam://rungameid/${Constants.GameSettings.CSGO_APPID}//'${defaultArgs.join(' ')}'`],
-        { shell: true },
-      );
-    } else {
-      const resolvedSteamPath = this.settings.general.steamPath || (await discoverSteamPath());
-      let gameLibrary = this.settings.general.gamePath;
-
-      if (!gameLibrary) {
-        try {
-          gameLibrary = await discoverGamePath(
-            this.settings.general.game,
-            resolvedSteamPath || undefined,
-          );
-          this.settings.general.gamePath = gameLibrary;
-        } catch (_) {
-          // fallback to Steam launch below
-        }
-      }
-      if (gameLibrary) {
-        const gameInstallPath = path.join(gameLibrary, Constants.GameSettings.CSGO_BASEDIR);
-        const gameExecutable = path.join(gameInstallPath, Constants.GameSettings.CSGO_EXE);
-
-        try {
-          await fs.promises.access(gameExecutable, fs.constants.F_OK);
-          gameClientProcess = spawn(gameExecutable, launchArgs, { cwd: gameInstallPath });
-        } catch (_) {
-          this.log.warn(`CS:GO executable not found at: ${gameExecutable}`);
-        }
-      }
-
-      if (!gameClientProcess) {
-        const steamExecutable = resolvedSteamPath
-          ? path.join(resolvedSteamPath, Constants.GameSettings.STEAM_EXE)
-          : null;
-        const steamArgs = [
-          '-applaunch',
-          Constants.GameSettings.CSGO_APPID.toString(),
-          ...launchArgs,
-        ];
-
-        if (steamExecutable) {
-          try {
-            await fs.promises.access(steamExecutable, fs.constants.F_OK);
-            this.clientLaunchedViaSteam = true;
-            gameClientProcess = spawn(steamExecutable, steamArgs);
-          } catch (_) {
-            this.log.warn(`Steam executable not found at: ${steamExecutable}`);
-          }
-        }
-      }
-
-      if (!gameClientProcess) {
-        throw new Error(
-          'Unable to launch CS:GO client. Neither csgo.exe nor steam.exe could be started.',
-        );
-      }
-    }
+    const client = await launchClient(this.settings, this.userArgs);
 
+    this.clientLaunchedViaSteam = client.launchedViaSteam;
+    gameClientProcess = client.process;
     this.log.debug(gameClientProcess.spawnargs);
     return Promise.resolve();
   }
@@ -2016,7 +2144,8 @@ End\n
       '+sv_maxrate',
       '0',
       '-maxplayers_override',
-      this.deathmatchServerSettings.playerLimit.toString(),
+      // gotv takes up a player slot
+      (this.deathmatchServerSettings.playerLimit + (this.recordDemo ? 1 : 0)).toString(),
       '-game',
       'csgo',
       '+game_type',
@@ -2031,6 +2160,7 @@ End\n
       Util.convertMapPool(this.map, this.settings.general.game),
       '+rcon_password',
       Constants.GameSettings.RCON_PASSWORD,
+      ...(this.recordDemo ? ['+tv_enable', '1', '+tv_delay', '0'] : []),
     ];
 
     const srcdsCommand = `"${serverExe}" ${args.join(' ')}`;
@@ -2048,6 +2178,119 @@ End\n
     });
   }
 
+  /**
+   * Gets the prefix of the round backup files for this match.
+   *
+   * @function
+   */
+  private get backupPrefix() {
+    return MatchCheckpoint.getBackupPrefix(this.match.id, this.matchGame.id);
+  }
+
+  /**
+   * Drops the checkpoint to resume from if it belongs to another
+   * game or the server no longer has its round backup file.
+   *
+   * @function
+   */
+  private async validateResumeFrom() {
+    if (!this.resumeFrom) {
+      return;
+    }
+
+    const backupFile = path.join(
+      this.getDedicatedServerRoot(),
+      this.gameDir,
+      MatchCheckpoint.getBackupFile(this.backupPrefix, this.resumeFrom.round),
+    );
+
+    try {
+      if (this.resumeFrom.gameId !== this.matchGame?.id) {
+        throw new Error('checkpoint belongs to another game');
+      }
+
+      await fs.promises.access(backupFile, fs.constants.F_OK);
+    } catch (error) {
+      this.log.warn('Cannot resume from round %d: %s', this.resumeFrom.round, error);
+      this.resumeFrom = null;
+    }
+  }
+
+  /**
+   * Loads the round backup of the checkpoint once the user has joined.
+   *
+   * @function
+   */
+  private async restoreCheckpoint() {
+    const backupFile = MatchCheckpoint.getBackupFile(this.backupPrefix, this.resumeFrom.round);
+    await this.rcon.send(`mp_backup_restore_load_file "${backupFile}"`);
+    this.log.info('Restored round backup %s.', backupFile);
+  }
+
+  /**
+   * Carries the events of the restored rounds over
+   * to the match stats, live presence and match centre.
+   *
+   * @function
+   */
+  private replayCheckpointEvents() {
+    for (const event of this.resumeFrom.events) {
+      this.scorebotEvents.push(event as (typeof this.scorebotEvents)[number]);
+
+      switch (event.type) {
+        case Scorebot.EventIdentifier.PLAYER_ASSISTED:
+          MatchCentre.recordAssist(event.payload as Scorebot.EventPayloadPlayerAssisted);
+          break;
+        case Scorebot.EventIdentifier.PLAYER_KILLED:
+          MatchCentre.recordKill(event.payload as Scorebot.EventPayloadPlayerKilled);
+          break;
+        case Scorebot.EventIdentifier.ROUND_OVER:
+          this.recordLivePresenceRound(event.payload as Scorebot.EventPayloadRoundOver);
+          MatchCentre.recordRound(this.livePresenceScoreByTeamId);
+          break;
+      }
+    }
+  }
+
+  /**
+   * Gets the name of the demo recorded for this match.
+   *
+   * @function
+   */
+  private get demoName() {
+    return Demos.getDemoName(this.match.id, this.matchGame?.id);
+  }
+
+  /**
+   * Starts recording the GOTV demo.
+   *
+   * @function
+   */
+  private async startDemoRecording() {
+    await this.rcon.send(`tv_record "${this.demoName}"`);
+    this.log.info('Recording demo %s.', this.demoName);
+  }
+
+  /**
+   * Stops recording the GOTV demo and moves it into the demo library.
+   *
+   * @function
+   */
+  private async stopDemoRecording() {
+    try {
+      await this.rcon.send('tv_stoprecord');
+      await Util.sleep(DEMO_FLUSH_DELAY);
+      await Demos.importDemo(
+        this.settings,
+        path.join(this.getDedicatedServerRoot(), this.gameDir),
+        this.demoName,
+      );
+      await Demos.prune(this.settings);
+    } catch (error) {
+      this.log.warn('Could not save demo %s: %s', this.demoName, error);
+    }
+  }
+
   /**
    * Sets up and configures the files that are
    * necessary for the game server to run.
@@ -2288,6 +2531,7 @@ End\n
 
     // 1) Prepare files / plugins / cfgs
     await this.notifyProgress('COPYING_FILES');
+    await this.validateResumeFrom();
     await this.prepare();
 
     // 2) Launch server
@@ -2358,6 +2602,16 @@ End\n
       this.notifyClientConnected().catch((error) => this.log.warn(error));
     };
 
+    // gotv only starts once the map is loaded so
+    // the demo is recorded after the user has joined
+    if (this.recordDemo) {
+      this.onClientConnected(() => this.startDemoRecording());
+    }
+
+    if (this.resumeFrom) {
+      this.onClientConnected(() => this.restoreCheckpoint());
+    }
+
     this.scorebot.once(Scorebot.EventIdentifier.PLAYER_CONNECTED, handleClientConnected);
     this.scorebot.once(Scorebot.EventIdentifier.PLAYER_ENTERED, handleClientConnected);
     this.scorebot.on(Scorebot.EventIdentifier.PLAYER_ENTERED, (payload) => {
@@ -2381,18 +2635,60 @@ End\n
       this.competitors.map((competitor) => [competitor.teamId, 0]),
     );
     this.updateLiveDiscordPresence();
+    await this.startMatchCentre();
+
+    if (this.resumeFrom) {
+      this.replayCheckpointEvents();
+    }
 
     // 8) Push events into in-memory buffer
-    this.scorebot.on(Scorebot.EventIdentifier.PLAYER_ASSISTED, (payload) =>
-      this.scorebotEvents.push({ type: Scorebot.EventIdentifier.PLAYER_ASSISTED, payload }),
-    );
-    this.scorebot.on(Scorebot.EventIdentifier.PLAYER_KILLED, (payload) =>
-      this.scorebotEvents.push({ type: Scorebot.EventIdentifier.PLAYER_KILLED, payload }),
-    );
+    this.scorebot.on(Scorebot.EventIdentifier.PLAYER_ASSISTED, (payload) => {
+      this.scorebotEvents.push({ type: Scorebot.EventIdentifier.PLAYER_ASSISTED, payload });
+      MatchCentre.recordAssist(payload);
+    });
+    this.scorebot.on(Scorebot.EventIdentifier.PLAYER_KILLED, (payload) => {
+      this.scorebotEvents.push({ type: Scorebot.EventIdentifier.PLAYER_KILLED, payload });
+      MatchCentre.recordKill(payload);
+    });
     this.scorebot.on(Scorebot.EventIdentifier.ROUND_OVER, (payload) => {
       this.scorebotEvents.push({ type: Scorebot.EventIdentifier.ROUND_OVER, payload });
       this.recordLivePresenceRound(payload);
+      MatchCentre.recordRound(this.livePresenceScoreByTeamId);
     });
+    this.scorebot.on(Scorebot.EventIdentifier.PLAYER_CALLED, async (payload) => {
+      if (payload.player.steamId === 'BOT') {
+        return;
+      }
+
+      this.scorebotEvents.push({ type: Scorebot.EventIdentifier.PLAYER_CALLED, payload });
+
+      // tactical calls are only logged since the
+      // stock bots have no per-team commands for them
+      if (!Scorebot.TimeoutCalls.includes(payload.call)) {
+        return;
+      }
+
+      try {
+        await this.rcon.send(
+          payload.player.team === 'CT' ? 'timeout_ct_start' : 'timeout_terrorist_start',
+        );
+      } catch (error) {
+        this.log.warn(error);
+      }
+    });
+    [
+      Scorebot.EventIdentifier.BOMB_DEFUSED,
+      Scorebot.EventIdentifier.BOMB_PLANTED,
+      Scorebot.EventIdentifier.PLAYER_ATTACKED,
+      Scorebot.EventIdentifier.PLAYER_CLUTCH,
+      Scorebot.EventIdentifier.PLAYER_MONEY_CHANGED,
+      Scorebot.EventIdentifier.PLAYER_PURCHASED,
+      Scorebot.EventIdentifier.PLAYER_THREW,
+    ].forEach((type) =>
+      this.scorebot.on(type, (payload: (typeof this.scorebotEvents)[number]['payload']) =>
+        this.scorebotEvents.push({ type, payload }),
+      ),
+    );
 
     // 9) Resolve when GAME_OVER fires, reject if cleanup happens first.
     return new Promise((resolve, reject) => {
@@ -2445,6 +2741,10 @@ End\n
             }
           }
         }
+        if (this.recordDemo) {
+          await this.stopDemoRecording();
+        }
+
         if (gameClientProcess && !gameClientProcess.killed) {
           try {
             gameClientProcess.kill();
@@ -2452,6 +2752,7 @@ End\n
         }
         this.log.info('Final result: %O', payload);
         this.result = payload;
+        MatchCentre.stop();
         DiscordPresence.restoreNonLive().catch((error) =>
           this.log.debug('Discord Rich Presence restore failed', error),
         );
@@ -1,7 +1,13 @@
 export * as Autofill from './autofill';
 export * as ArenaMode from './arena-mode';
 export * as CachedFetch from './cached-fetch';
+export * as Demos from './demos';
 export * as Engine from './engine';
+export * as FaceitLadder from './faceit-ladder';
+export * as FaceitLeaderboard from './faceit-leaderboard';
+export * as FaceitPenalty from './faceit-penalties';
+export * as FaceitProLeague from './faceit-pro-league';
+export * as FaceitVeto from './faceit-veto';
 export * as FileManager from './file-manager';
 export * as Firebase from './firebase';
 export * as Game from './game';
@@ -20,6 +26,17 @@ export * as WindowManager from './window-manager';
 export * as Worldgen from './worldgen';
 export * as DiscordPresence from './discord-presence';
 export * as CompetitionMvps from './competition-mvps';
+export * as MapProficiency from './map-proficiency';
+export * as MapVeto from './map-veto';
+export * as MatchCentre from './match-centre';
+export * as MatchCheckpoint from './match-checkpoint';
+export * as MatchPlayerGameDetailStats from './match-player-game-detail-stats';
+export * as TacticalCalls from './tactical-calls';
+export * as Training from './training';
+export * as Agents from './agents';
+export * as ContractNegotiation from './contract-negotiation';
+export * as Finances from './finances';
+export * as Loans from './loans';
 export { cleanupStaleFaceitMatchRooms } from './faceit-matchrooms';
 export {
   disconnectActiveDatabaseWithIntegrity,
@@ -1,4 +1,6 @@
 import DatabaseClient from "./database-client";
+import * as MatchPlayerGameDetailStats from "./match-player-game-detail-stats";
+import { Prisma } from "@prisma/client";
 import { Constants } from "@liga/shared";
 
 /**
@@ -122,6 +124,115 @@ export async function computeLeagueLifetimeStats(
   };
 }
 
+/**
+ * Computes the role-specific league/tournament stats for a player
+ * over the same matches as `computeLeagueLifetimeStats`.
+ *
+ * - AWPers: AWP kills and opening picks per round
+ * - IGLs: rounds won after a call or a tactical timeout
+ *
+ * Rounds and opening picks come from the detail stats which older
+ * games lack and calls are only known for games the user played.
+ *
+ * @param teamId    The team the player played for.
+ * @param playerId  The player id.
+ * @param limit     How many of the latest matches to look at.
+ * @param since     Only matches played after this date count.
+ * @function
+ */
+export async function computeLeagueRoleStats(
+  teamId: number,
+  playerId: number,
+  limit?: number,
+  since?: Date,
+) {
+  const prisma = DatabaseClient.prisma;
+  const empty = {
+    rounds: 0,
+    awpKills: 0,
+    awpKillsPerRound: 0,
+    openingKills: 0,
+    openingKillsPerRound: 0,
+    calledRounds: 0,
+    calledRoundsWon: 0,
+    calledRoundWinRate: 0,
+  };
+
+  if (!teamId || !playerId) {
+    return empty;
+  }
+
+  const matches = await prisma.match.findMany({
+    where: {
+      status: Constants.MatchStatus.COMPLETED,
+      competitionId: { not: null },
+      ...(since ? { date: { gte: since.toISOString() } } : {}),
+      competitors: { some: { teamId } },
+    },
+    select: { id: true },
+    orderBy: { date: "desc" },
+    take: limit ?? undefined,
+  });
+
+  if (!matches.length) {
+    return empty;
+  }
+
+  await MatchPlayerGameDetailStats.ensureMatchPlayerGameDetailStatTable();
+  const rows = await prisma.$queryRaw<
+    Array<{
+      matchId: bigint | number;
+      rounds: bigint | number;
+      openingKills: bigint | number;
+      calledRounds: bigint | number | null;
+      calledRoundsWon: bigint | number | null;
+    }>
+  >`
+    SELECT
+      "matchId",
+      SUM("rounds") AS "rounds",
+      SUM("openingKills") AS "openingKills",
+      SUM("calledRounds") AS "calledRounds",
+      SUM("calledRoundsWon") AS "calledRoundsWon"
+    FROM "MatchPlayerGameDetailStat"
+    WHERE "playerId" = ${playerId}
+      AND "matchId" IN (${Prisma.join(matches.map((m) => m.id))})
+    GROUP BY "matchId"
+  `;
+
+  if (!rows.length) {
+    return empty;
+  }
+
+  // only count AWP kills where the rounds are known
+  const awpKills = await prisma.matchEvent.count({
+    where: {
+      matchId: { in: rows.map((row) => Number(row.matchId)) },
+      attackerId: playerId,
+      weapon: "awp",
+    },
+  });
+
+  const sum = (
+    key: "rounds" | "openingKills" | "calledRounds" | "calledRoundsWon",
+  ) => rows.reduce((total, row) => total + Number(row[key] ?? 0), 0);
+  const rounds = sum("rounds");
+  const openingKills = sum("openingKills");
+  const calledRounds = sum("calledRounds");
+  const calledRoundsWon = sum("calledRoundsWon");
+
+  return {
+    rounds,
+    awpKills,
+    awpKillsPerRound: rounds ? awpKills / rounds : 0,
+    openingKills,
+    openingKillsPerRound: rounds ? openingKills / rounds : 0,
+    calledRounds,
+    calledRoundsWon,
+    calledRoundWinRate: calledRounds ? calledRoundsWon / calledRounds : 0,
+  };
+}
+
 /**
  * Recent league matches list for UI/debugging.
  */
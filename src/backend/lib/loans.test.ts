@@ -0,0 +1,72 @@
+import assert from 'node:assert/strict';
+import { pickLoanClub, splitWages } from './loans';
+
+const EUROPE = { continentId: 1 };
+const AMERICAS = { continentId: 2 };
+
+/**
+ * Builds a club.
+ *
+ * @param id      The club id.
+ * @param tier    The club tier.
+ * @param country The club country.
+ * @param players How many players are on the roster.
+ * @function
+ */
+function club(id: number, tier: number | null, country = EUROPE, players = 5) {
+  return { id, tier, country, players: Array.from({ length: players }) };
+}
+
+assert.deepEqual(splitWages(10_000, 4, 3), { parentClub: 4_000, loanClub: 6_000 });
+assert.deepEqual(
+  splitWages(10_000, 4, 2),
+  { parentClub: 6_000, loanClub: 4_000 },
+  'every extra tier lowers the loan club share',
+);
+assert.deepEqual(
+  splitWages(10_000, 4, 0),
+  { parentClub: 7_500, loanClub: 2_500 },
+  'the loan club always covers a minimum share',
+);
+assert.deepEqual(
+  splitWages(10_000, null, null),
+  { parentClub: 4_000, loanClub: 6_000 },
+  'unknown tiers count as a one tier drop',
+);
+assert.equal(
+  Object.values(splitWages(9_999, 4, 2)).reduce((total, wages) => total + wages),
+  9_999,
+  'the split always adds up to the wages',
+);
+
+const parent = club(1, 4);
+
+for (let idx = 0; idx < 50; idx++) {
+  assert.equal(
+    pickLoanClub(parent, [parent, club(2, 4), club(3, 5), club(4, 1), club(5, null)]),
+    null,
+    'only clubs up to two tiers below qualify',
+  );
+  assert.equal(
+    pickLoanClub(parent, [club(2, 3, EUROPE, 7)]),
+    null,
+    'full clubs have no room for a loanee',
+  );
+  assert.equal(
+    pickLoanClub(parent, [club(2, 3, AMERICAS, 3), club(3, 2, EUROPE, 6)])?.id,
+    3,
+    'clubs from the same continent are preferred',
+  );
+  assert.equal(
+    pickLoanClub(parent, [club(2, 3, AMERICAS, 4), club(3, 2, AMERICAS, 3)])?.id,
+    3,
+    'other continents are used when no local club qualifies',
+  );
+  assert.ok(
+    [2, 3].includes(
+      pickLoanClub(parent, [club(2, 3, EUROPE, 4), club(3, 2, EUROPE, 4), club(4, 3, EUROPE, 6)])
+        ?.id,
+    ),
+    'the clubs with the fewest players are picked',
+  );
+}
@@ -0,0 +1,203 @@
+/**
+ * Loan moves.
+ *
+ * A team can send a benched or surplus player to a lower
+ * tier team for a fixed period so they get to play instead
+ * of collecting dust on the bench. The loan club covers a
+ * share of the player's wages while the parent club pays
+ * the rest and recalls the player once the loan is over.
+ *
+ * @module
+ */
+import { addWeeks, differenceInDays } from 'date-fns';
+import { sample } from 'lodash';
+import { Chance, Constants } from '@liga/shared';
+
+/**
+ * How long a loan lasts.
+ *
+ * @constant
+ */
+export const LOAN_WEEKS = 12;
+
+/**
+ * How many tiers below the parent club a loan club can be.
+ *
+ * @constant
+ */
+const MAX_TIER_DROP = 2;
+
+/**
+ * How long an NPC has to sit on the bench before their team
+ * looks for a loan and how often it finds one every week.
+ *
+ * @constant
+ */
+const NPC_MIN_BENCH_DAYS = 21;
+
+/** @constant */
+const NPC_LOAN_PBX = 20;
+
+/**
+ * How many NPC loans are arranged at most every week.
+ *
+ * @constant
+ */
+export const NPC_MAX_WEEKLY_LOANS = 8;
+
+/**
+ * Clubs with this many players have no room for a loanee.
+ *
+ * @constant
+ */
+const MAX_SQUAD_SIZE = 7;
+
+/**
+ * How much of the wages the loan club covers when it sits one
+ * tier below the parent club. Every extra tier lowers it further.
+ *
+ * @constant
+ */
+const BASE_WAGE_SHARE = 0.6;
+
+/** @constant */
+const WAGE_SHARE_TIER_STEP = 0.2;
+
+/** @constant */
+const MIN_WAGE_SHARE = 0.25;
+
+/**
+ * Gets when a loan starting today ends.
+ *
+ * @param date The current date.
+ * @function
+ */
+export function getLoanEnd(date: Date) {
+  return addWeeks(date, LOAN_WEEKS);
+}
+
+/**
+ * Gets how much of the wages the loan club covers.
+ *
+ * @param parentTier  The parent club's tier.
+ * @param loanTier    The loan club's tier.
+ * @function
+ */
+export function getWageShare(parentTier: number | null, loanTier: number | null) {
+  const drop = Math.max(1, (parentTier ?? 0) - (loanTier ?? 0));
+  return Math.max(MIN_WAGE_SHARE, BASE_WAGE_SHARE - (drop - 1) * WAGE_SHARE_TIER_STEP);
+}
+
+/**
+ * Splits the wages between the parent and loan clubs.
+ *
+ * @param wages       The player's wages.
+ * @param parentTier  The parent club's tier.
+ * @param loanTier    The loan club's tier.
+ * @function
+ */
+export function splitWages(wages: number, parentTier: number | null, loanTier: number | null) {
+  const loanClub = Math.round(wages * getWageShare(parentTier, loanTier));
+  return { parentClub: wages - loanClub, loanClub };
+}
+
+/**
+ * Checks whether a player can be sent out on loan.
+ *
+ * Only benched players and players their team has put
+ * on the transfer list qualify and their contract must
+ * run long enough for extension talks to start after
+ * they are back with their parent club.
+ *
+ * @param player                The player.
+ * @param player.teamId         The player's team.
+ * @param player.starter        Whether the player is a starter.
+ * @param player.transferListed Whether the player is on the transfer list.
+ * @param player.contractEnd    When the player's contract ends.
+ * @param player.loanedFromId   The parent club when the player is already on loan.
+ * @param date                  The current date.
+ * @function
+ */
+export function isLoanable(
+  player: {
+    teamId?: number | null;
+    starter?: boolean;
+    transferListed?: boolean;
+    contractEnd?: Date | null;
+    loanedFromId?: number | null;
+  },
+  date: Date,
+) {
+  if (!player.teamId || player.loanedFromId != null) {
+    return false;
+  }
+
+  if (player.starter && !player.transferListed) {
+    return false;
+  }
+
+  return (
+    !!player.contractEnd &&
+    differenceInDays(player.contractEnd, getLoanEnd(date)) >
+      Constants.PlayerContractSettings.EXTENSION_EVAL_DAYS_BEFORE_END
+  );
+}
+
+/**
+ * Checks whether a benched NPC has waited long enough
+ * and rolls whether their team finds a loan this week.
+ *
+ * @param benchedSince  When the player was benched.
+ * @param date          The current date.
+ * @function
+ */
+export function rollNPCLoan(benchedSince: Date, date: Date) {
+  return differenceInDays(date, benchedSince) >= NPC_MIN_BENCH_DAYS && Chance.rollD2(NPC_LOAN_PBX);
+}
+
+/**
+ * Picks a lower tier club to take the player on loan.
+ *
+ * Clubs from the same continent are preferred and
+ * then the ones with the fewest players on their roster.
+ *
+ * @param parent         The parent club.
+ * @param parent.id      The parent club's id.
+ * @param parent.tier    The parent club's tier.
+ * @param parent.country The parent club's country.
+ * @param candidates     The clubs that could take the player.
+ * @function
+ */
+export function pickLoanClub<
+  T extends {
+    id: number;
+    tier: number | null;
+    country?: { continentId?: number | null } | null;
+    players: Array<unknown>;
+  },
+>(
+  parent: { id: number; tier: number | null; country?: { continentId?: number | null } | null },
+  candidates: Array<T>,
+) {
+  const tier = parent.tier ?? 0;
+  const eligible = candidates.filter(
+    (team) =>
+      team.id !== parent.id &&
+      team.tier != null &&
+      team.tier < tier &&
+      team.tier >= tier - MAX_TIER_DROP &&
+      team.players.length < MAX_SQUAD_SIZE,
+  );
+
+  if (!eligible.length) {
+    return null;
+  }
+
+  const local = eligible.filter(
+    (team) => team.country?.continentId === parent.country?.continentId,
+  );
+  const pool = local.length ? local : eligible;
+  const smallest = Math.min(...pool.map((team) => team.players.length));
+
+  return sample(pool.filter((team) => team.players.length === smallest));
+}
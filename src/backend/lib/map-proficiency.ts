@@ -0,0 +1,249 @@
+/**
+ * Tracks how comfortable each team is on every map.
+ *
+ * Proficiency grows with every game a team plays on a map
+ * and decays once the map leaves the active map pool.
+ *
+ * @module
+ */
+import { Prisma } from '@prisma/client';
+import { Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+
+export type TeamMapProficiencyRecord = {
+  teamId: number;
+  map: string;
+  rating: number;
+  games: number;
+};
+
+export type TeamMapProficiencyGame = {
+  map?: string | null;
+  teamIds: Array<number | null | undefined>;
+};
+
+type TeamMapGameCountRow = {
+  teamId: number;
+  gameMapId: number;
+  games: bigint | number;
+};
+
+/**
+ * How much of the remaining proficiency gap
+ * is closed after every game on a map.
+ *
+ * @constant
+ */
+export const MAP_PROFICIENCY_GROWTH = 0.08;
+
+/**
+ * How much proficiency is kept every season
+ * a map spends outside of the active map pool.
+ *
+ * @constant
+ */
+export const MAP_PROFICIENCY_DECAY = 0.5;
+
+/** @constant */
+const BACKFILL_BATCH_SIZE = 500;
+
+/**
+ * Gets the proficiency rating after playing
+ * the provided number of games on a map.
+ *
+ * @param rating  The current rating.
+ * @param games   The number of games played.
+ * @function
+ */
+export function getRatingAfterGames(rating: number, games: number) {
+  return 1 - (1 - rating) * Math.pow(1 - MAP_PROFICIENCY_GROWTH, games);
+}
+
+/**
+ * Creates the team map proficiency table
+ * for saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureTeamMapProficiencyTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "TeamMapProficiency" (
+      "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+      "rating" REAL NOT NULL DEFAULT 0,
+      "games" INTEGER NOT NULL DEFAULT 0,
+      "teamId" INTEGER NOT NULL,
+      "gameMapId" INTEGER NOT NULL,
+      CONSTRAINT "TeamMapProficiency_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+      CONSTRAINT "TeamMapProficiency_gameMapId_fkey" FOREIGN KEY ("gameMapId") REFERENCES "GameMap" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE UNIQUE INDEX IF NOT EXISTS "TeamMapProficiency_teamId_gameMapId_key"
+    ON "TeamMapProficiency"("teamId", "gameMapId")
+  `);
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE INDEX IF NOT EXISTS "TeamMapProficiency_gameMapId_idx"
+    ON "TeamMapProficiency"("gameMapId")
+  `);
+}
+
+/**
+ * Seeds the proficiency table from the `Game.map` history
+ * of completed matches for saves that predate it.
+ *
+ * Only runs while the table is still empty so it must be
+ * called before the current match is flagged as completed.
+ *
+ * @function
+ */
+async function backfillTeamMapProficiency() {
+  await ensureTeamMapProficiencyTable();
+
+  const [{ total }] = await DatabaseClient.prisma.$queryRaw<Array<{ total: bigint | number }>>`
+    SELECT COUNT(*) AS "total" FROM "TeamMapProficiency"
+  `;
+
+  if (Number(total) > 0) {
+    return;
+  }
+
+  // bo3/bo5 maps that were never played have no result
+  // recorded so only single-map matches are counted blindly
+  const rows = await DatabaseClient.prisma.$queryRaw<Array<TeamMapGameCountRow>>`
+    SELECT
+      "GameToTeam"."teamId" AS "teamId",
+      "GameMap"."id" AS "gameMapId",
+      COUNT(*) AS "games"
+    FROM "GameToTeam"
+    INNER JOIN "Game" ON "Game"."id" = "GameToTeam"."gameId"
+    INNER JOIN "Match" ON "Match"."id" = "Game"."matchId"
+    INNER JOIN "GameMap" ON "GameMap"."name" = "Game"."map"
+    WHERE "GameToTeam"."teamId" IS NOT NULL
+      AND "Match"."matchType" <> 'FACEIT_PUG'
+      AND "Match"."status" = ${Constants.MatchStatus.COMPLETED}
+      AND (
+        "GameToTeam"."result" IS NOT NULL
+        OR (SELECT COUNT(*) FROM "Game" AS "sibling" WHERE "sibling"."matchId" = "Match"."id") = 1
+      )
+    GROUP BY "GameToTeam"."teamId", "GameMap"."id"
+  `;
+
+  for (let idx = 0; idx < rows.length; idx += BACKFILL_BATCH_SIZE) {
+    const values = rows
+      .slice(idx, idx + BACKFILL_BATCH_SIZE)
+      .map(
+        (row) =>
+          Prisma.sql`(${row.teamId}, ${row.gameMapId}, ${getRatingAfterGames(0, Number(row.games))}, ${Number(row.games)})`,
+      );
+
+    await DatabaseClient.prisma.$executeRaw`
+      INSERT OR IGNORE INTO "TeamMapProficiency" ("teamId", "gameMapId", "rating", "games")
+      VALUES ${Prisma.join(values)}
+    `;
+  }
+}
+
+/**
+ * Gets the map proficiency records for the provided teams.
+ *
+ * @param teamIds The team ids.
+ * @function
+ */
+export async function findByTeams(teamIds: Array<number>) {
+  await backfillTeamMapProficiency();
+
+  if (!teamIds.length) {
+    return [] as Array<TeamMapProficiencyRecord>;
+  }
+
+  const rows = await DatabaseClient.prisma.$queryRaw<Array<TeamMapProficiencyRecord>>`
+    SELECT
+      "TeamMapProficiency"."teamId" AS "teamId",
+      "GameMap"."name" AS "map",
+      "TeamMapProficiency"."rating" AS "rating",
+      "TeamMapProficiency"."games" AS "games"
+    FROM "TeamMapProficiency"
+    INNER JOIN "GameMap" ON "GameMap"."id" = "TeamMapProficiency"."gameMapId"
+    WHERE "TeamMapProficiency"."teamId" IN (${Prisma.join(teamIds)})
+  `;
+
+  return rows.map((row) => ({
+    ...row,
+    rating: Number(row.rating),
+    games: Number(row.games),
+  }));
+}
+
+/**
+ * Gets the map proficiency ratings for the provided teams
+ * keyed by team id and map name as the simulator expects.
+ *
+ * @param teamIds The team ids.
+ * @function
+ */
+export async function getLookup(teamIds: Array<number>) {
+  const rows = await findByTeams(teamIds);
+
+  return rows.reduce(
+    (lookup, row) => {
+      lookup[row.teamId] = { ...(lookup[row.teamId] || {}), [row.map]: row.rating };
+      return lookup;
+    },
+    {} as Record<number, Record<string, number>>,
+  );
+}
+
+/**
+ * Grows the map proficiency of every team that took part in the provided games.
+ *
+ * @param games The games that were played.
+ * @function
+ */
+export async function recordGames(games: Array<TeamMapProficiencyGame>) {
+  await backfillTeamMapProficiency();
+
+  for (const game of games) {
+    if (!game.map) {
+      continue;
+    }
+
+    for (const teamId of game.teamIds) {
+      if (teamId == null) {
+        continue;
+      }
+
+      await DatabaseClient.prisma.$executeRaw`
+        INSERT INTO "TeamMapProficiency" ("teamId", "gameMapId", "rating", "games")
+        SELECT ${teamId}, "GameMap"."id", ${MAP_PROFICIENCY_GROWTH}, 1
+        FROM "GameMap"
+        WHERE "GameMap"."name" = ${game.map}
+        ON CONFLICT ("teamId", "gameMapId") DO UPDATE SET
+          "rating" = "rating" + (1 - "rating") * ${MAP_PROFICIENCY_GROWTH},
+          "games" = "games" + 1
+      `;
+    }
+  }
+}
+
+/**
+ * Decays the proficiency of maps that are
+ * currently out of the active map pool.
+ *
+ * @param gameVersionSlug The game version whose map pool is checked.
+ * @function
+ */
+export async function decayInactiveMaps(gameVersionSlug: string) {
+  await backfillTeamMapProficiency();
+
+  return DatabaseClient.prisma.$executeRaw`
+    UPDATE "TeamMapProficiency"
+    SET "rating" = "rating" * ${MAP_PROFICIENCY_DECAY}
+    WHERE "gameMapId" IN (
+      SELECT "MapPool"."gameMapId"
+      FROM "MapPool"
+      INNER JOIN "GameVersion" ON "GameVersion"."id" = "MapPool"."gameVersionId"
+      WHERE "GameVersion"."slug" = ${gameVersionSlug}
+        AND "MapPool"."position" IS NULL
+    )
+  `;
+}
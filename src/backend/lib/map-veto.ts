@@ -0,0 +1,409 @@
+/**
+ * Map veto engine.
+ *
+ * Bans and picks follow `Constants.MapVetoConfig` and are scored from
+ * each team's past map results, their opponent's weaknesses and
+ * how proficient both teams are on the remaining maps.
+ *
+ * @module
+ */
+import { Prisma } from '@prisma/client';
+import { Constants, Util } from '@liga/shared';
+import DatabaseClient from './database-client';
+import * as MapProficiency from './map-proficiency';
+
+export type MapVetoEntry = {
+  type: Constants.MapVetoAction;
+  map: string;
+  teamId?: number | null;
+};
+
+export type MapVetoContext = {
+  pool: Array<string>;
+  teamIds: [number, number];
+  performance: Record<number, Record<string, MapPerformance>>;
+  proficiency: Record<number, Record<string, number>>;
+};
+
+type MapPerformance = {
+  played: number;
+  wins: number;
+};
+
+type MapPerformanceRow = {
+  teamId: number;
+  map: string;
+  played: bigint | number;
+  wins: number | null;
+};
+
+/** @constant */
+const MAP_WINRATE_PRIOR_GAMES = 4;
+
+/** @constant */
+const MAP_RANDOMNESS = 0.35;
+
+/**
+ * How much each factor weighs in when scoring a map.
+ *
+ * @constant
+ */
+const MapScoreWeights = {
+  STRENGTH: 0.35,
+  OPPONENT_WEAKNESS: 0.35,
+  PROFICIENCY_EDGE: 0.3,
+};
+
+/**
+ * Gets a team's strength on a map from its results
+ * with a prior that pulls small samples to 50%.
+ *
+ * @param performance The team's results on the map.
+ * @function
+ */
+function getMapStrength(performance?: MapPerformance) {
+  const played = performance?.played || 0;
+  const wins = performance?.wins || 0;
+  const adjustedWinRate =
+    (wins + MAP_WINRATE_PRIOR_GAMES * 0.5) / (played + MAP_WINRATE_PRIOR_GAMES);
+  const confidence = 1 - Math.exp(-played / 4);
+
+  return adjustedWinRate * 0.78 + confidence * 0.22;
+}
+
+/**
+ * Gets a team's weakness on a map which also
+ * accounts for maps they have barely played.
+ *
+ * @param performance The team's results on the map.
+ * @function
+ */
+function getMapWeakness(performance?: MapPerformance) {
+  const played = performance?.played || 0;
+  const lowSampleBonus = Math.exp(-played / 3);
+
+  return (1 - getMapStrength(performance)) * 0.8 + lowSampleBonus * 0.2;
+}
+
+/**
+ * Scores how much a team wants to play a map against its opponent.
+ *
+ * @param context     The veto context.
+ * @param map         The map.
+ * @param teamId      The team.
+ * @param opponentId  The opponent.
+ * @function
+ */
+export function getMapScore(
+  context: MapVetoContext,
+  map: string,
+  teamId: number,
+  opponentId: number,
+) {
+  const strength = getMapStrength(context.performance[teamId]?.[map]);
+  const opponentWeakness = getMapWeakness(context.performance[opponentId]?.[map]);
+  const proficiencyEdge =
+    0.5 +
+    ((context.proficiency[teamId]?.[map] || 0) - (context.proficiency[opponentId]?.[map] || 0)) / 2;
+
+  return (
+    strength * MapScoreWeights.STRENGTH +
+    opponentWeakness * MapScoreWeights.OPPONENT_WEAKNESS +
+    proficiencyEdge * MapScoreWeights.PROFICIENCY_EDGE
+  );
+}
+
+/**
+ * Picks a map using its weight as the probability
+ * with some noise so vetoes are not fully predictable.
+ *
+ * @param maps      The maps to pick from.
+ * @param getWeight Gets the weight of a map.
+ * @function
+ */
+function weightedMapSample(maps: Array<string>, getWeight: (map: string) => number) {
+  const weights = maps.map(
+    (map) =>
+      Math.max(0.01, getWeight(map)) * (1 - MAP_RANDOMNESS + Math.random() * MAP_RANDOMNESS * 2),
+  );
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let cursor = Math.random() * total;
+
+  for (let idx = 0; idx < maps.length; idx++) {
+    cursor -= weights[idx];
+
+    if (cursor <= 0) {
+      return maps[idx];
+    }
+  }
+
+  return maps[maps.length - 1];
+}
+
+/**
+ * Gets the veto sequence for a series.
+ *
+ * Best-of-one vetoes run as alternating bans until one map is left.
+ *
+ * @param bestOf    The series length.
+ * @param poolSize  The number of maps in the active map pool.
+ * @function
+ */
+export function getVetoSequence(bestOf: number, poolSize: number) {
+  if (bestOf === 1) {
+    return Array.from({ length: Math.max(0, poolSize - 1) }, (_, idx) => ({
+      team: idx % 2,
+      type: Constants.MapVetoAction.BAN,
+    }));
+  }
+
+  return Constants.MapVetoConfig[bestOf] || [];
+}
+
+/**
+ * Selects the next map in the veto.
+ *
+ * Omitting the team index selects the decider.
+ *
+ * @param context The veto context.
+ * @param history The vetoes made so far.
+ * @param teamIdx The index of the team making the veto.
+ * @param type    The veto action.
+ * @function
+ */
+export function selectMap(
+  context: MapVetoContext,
+  history: Array<MapVetoEntry>,
+  teamIdx?: number,
+  type?: Constants.MapVetoAction,
+) {
+  const available = context.pool.filter((map) => history.every((entry) => entry.map !== map));
+
+  if (teamIdx == null || !type || available.length <= 1) {
+    return weightedMapSample(available, () => 1);
+  }
+
+  const teamId = context.teamIds[teamIdx];
+  const opponentId = context.teamIds[1 - teamIdx];
+
+  return type === Constants.MapVetoAction.BAN
+    ? weightedMapSample(available, (map) => getMapScore(context, map, opponentId, teamId))
+    : weightedMapSample(available, (map) => getMapScore(context, map, teamId, opponentId));
+}
+
+/**
+ * Runs the rest of the veto starting from the provided history.
+ *
+ * @param context The veto context.
+ * @param bestOf  The series length.
+ * @param history The vetoes made so far.
+ * @function
+ */
+export function completeVeto(
+  context: MapVetoContext,
+  bestOf: number,
+  history: Array<MapVetoEntry> = [],
+) {
+  const sequence = getVetoSequence(bestOf, context.pool.length);
+  const vetoes = [...history];
+  const isDecided = () =>
+    vetoes.filter((entry) => entry.type !== Constants.MapVetoAction.BAN).length >= bestOf;
+
+  while (!isDecided() && vetoes.length < context.pool.length) {
+    const step = sequence[vetoes.length];
+    const map = step
+      ? selectMap(context, vetoes, step.team, step.type)
+      : selectMap(context, vetoes);
+
+    vetoes.push(
+      step
+        ? { type: step.type, map, teamId: context.teamIds[step.team] }
+        : { type: Constants.MapVetoAction.DECIDER, map },
+    );
+  }
+
+  return vetoes;
+}
+
+/**
+ * Loads the map results of the provided teams.
+ *
+ * @param teamIds The team ids.
+ * @function
+ */
+async function getMapPerformance(teamIds: Array<number>) {
+  const rows = await DatabaseClient.prisma.$queryRaw<Array<MapPerformanceRow>>`
+    SELECT
+      "GameToTeam"."teamId" AS "teamId",
+      "Game"."map" AS "map",
+      COUNT(*) AS "played",
+      SUM(
+        CASE "GameToTeam"."result"
+          WHEN ${Constants.MatchResult.WIN} THEN 1.0
+          WHEN ${Constants.MatchResult.DRAW} THEN 0.5
+          ELSE 0
+        END
+      ) AS "wins"
+    FROM "GameToTeam"
+    INNER JOIN "Game" ON "Game"."id" = "GameToTeam"."gameId"
+    INNER JOIN "Match" ON "Match"."id" = "Game"."matchId"
+    WHERE "GameToTeam"."teamId" IN (${Prisma.join(teamIds)})
+      AND "GameToTeam"."result" IS NOT NULL
+      AND "Match"."matchType" <> 'FACEIT_PUG'
+    GROUP BY "GameToTeam"."teamId", "Game"."map"
+  `;
+
+  return rows.reduce(
+    (performance, row) => {
+      performance[row.teamId] = {
+        ...(performance[row.teamId] || {}),
+        [row.map]: { played: Number(row.played), wins: Number(row.wins || 0) },
+      };
+      return performance;
+    },
+    {} as MapVetoContext['performance'],
+  );
+}
+
+/**
+ * Loads everything the veto engine needs to know about the two teams.
+ *
+ * @param teamIds The home and away team ids.
+ * @function
+ */
+export async function loadContext(teamIds: [number, number]): Promise<MapVetoContext> {
+  const profile = await DatabaseClient.prisma.profile.findFirst();
+  const mapPool = await DatabaseClient.prisma.mapPool.findMany({
+    where: {
+      gameVersion: {
+        slug: Util.loadSettings(profile?.settings ?? null).general.game,
+      },
+      position: {
+        not: null,
+      },
+    },
+    orderBy: {
+      position: 'asc',
+    },
+    include: {
+      gameMap: true,
+    },
+  });
+
+  return {
+    pool: mapPool.map((entry) => entry.gameMap.name),
+    teamIds,
+    performance: await getMapPerformance(teamIds),
+    proficiency: await MapProficiency.getLookup(teamIds),
+  };
+}
+
+/**
+ * Creates the match veto table for
+ * saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureMatchVetoTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "MatchVeto" (
+      "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+      "type" TEXT NOT NULL,
+      "map" TEXT NOT NULL,
+      "matchId" INTEGER NOT NULL,
+      "teamId" INTEGER,
+      CONSTRAINT "MatchVeto_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+      CONSTRAINT "MatchVeto_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+    )
+  `);
+}
+
+/**
+ * Gets the vetoes recorded for a match.
+ *
+ * @param matchId The match id.
+ * @function
+ */
+export async function findVetoList(matchId: number) {
+  await ensureMatchVetoTable();
+
+  return DatabaseClient.prisma.$queryRaw<
+    Array<{ id: number; type: string; map: string; teamId: number | null }>
+  >`SELECT "id", "type", "map", "teamId" FROM "MatchVeto" WHERE "matchId" = ${matchId} ORDER BY "id" ASC`;
+}
+
+/**
+ * Replaces the vetoes recorded for a match.
+ *
+ * @param matchId The match id.
+ * @param vetoes  The vetoes in the order they were made.
+ * @function
+ */
+export async function saveVetoList(
+  matchId: number,
+  vetoes: Array<{ type?: string; map?: string; teamId?: number | null }>,
+) {
+  await ensureMatchVetoTable();
+
+  return DatabaseClient.prisma.$transaction(async (tx) => {
+    await tx.$executeRaw`DELETE FROM "MatchVeto" WHERE "matchId" = ${matchId}`;
+
+    for (const item of vetoes.filter((entry) => !!entry.type && !!entry.map)) {
+      await tx.$executeRaw`
+        INSERT INTO "MatchVeto" ("type", "map", "matchId", "teamId")
+        VALUES (${item.type}, ${item.map}, ${matchId}, ${item.teamId ?? null})
+      `;
+    }
+  });
+}
+
+/**
+ * Finishes the veto for a match that is about to be simulated
+ * and assigns the decided maps to the match's games.
+ *
+ * Vetoes already made by the user in the pregame modal are kept.
+ *
+ * @param match             The match.
+ * @param match.id          The match id.
+ * @param match.competitors The teams playing the match.
+ * @param match.games       The match's games.
+ * @function
+ */
+export async function runForMatch(match: {
+  id: number;
+  competitors: Array<{ teamId: number | null }>;
+  games: Array<{ id: number; map: string }>;
+}) {
+  const [home, away] = match.competitors;
+
+  if (home?.teamId == null || away?.teamId == null || !match.games.length) {
+    return match.games.map((game) => game.map);
+  }
+
+  const context = await loadContext([home.teamId, away.teamId]);
+
+  if (context.pool.length < match.games.length) {
+    return match.games.map((game) => game.map);
+  }
+
+  const history = (await findVetoList(match.id)).map((entry) => ({
+    ...entry,
+    type: entry.type as Constants.MapVetoAction,
+  }));
+  const vetoes = completeVeto(context, match.games.length, history);
+  const maps = vetoes
+    .filter((entry) => entry.type !== Constants.MapVetoAction.BAN)
+    .map((entry) => entry.map);
+
+  await saveVetoList(match.id, vetoes);
+  await DatabaseClient.prisma.$transaction(
+    match.games.map((game, idx) =>
+      DatabaseClient.prisma.game.update({
+        where: { id: game.id },
+        data: { map: maps[idx] ?? game.map },
+      }),
+    ),
+  );
+
+  return match.games.map((game, idx) => maps[idx] ?? game.map);
+}
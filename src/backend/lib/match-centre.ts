@@ -0,0 +1,297 @@
+/**
+ * Live match centre.
+ *
+ * Keeps a running scoreboard of the match being played from
+ * the scorebot events and streams it to the match centre window.
+ *
+ * @module
+ */
+import { Prisma } from '@prisma/client';
+import { Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+import * as Scorebot from './scorebot';
+import * as WindowManager from './window-manager';
+
+export type PlayerLine = {
+  id: number;
+  name: string;
+  teamId: number;
+  kills: number;
+  deaths: number;
+  assists: number;
+  seasonAverage: {
+    kills: number;
+    deaths: number;
+    assists: number;
+    games: number;
+  } | null;
+};
+
+export type KillFeedEntry = {
+  round: number;
+  attacker: string;
+  attackerTeamId: number | null;
+  victim: string;
+  victimTeamId: number | null;
+  assist: string | null;
+  weapon: string;
+  headshot: boolean;
+};
+
+export type Snapshot = {
+  matchId: number;
+  map: string;
+  live: boolean;
+  round: number;
+  teams: Array<{ id: number; name: string; score: number }>;
+  killFeed: Array<KillFeedEntry>;
+  players: Array<PlayerLine>;
+};
+
+/**
+ * How many kills the kill feed keeps.
+ *
+ * @constant
+ */
+const KILL_FEED_LENGTH = 12;
+
+/**
+ * The scoreboard of the match being played.
+ *
+ * @constant
+ */
+let snapshot: Snapshot | null = null;
+
+/**
+ * The user's player id when they are playing the match.
+ *
+ * @constant
+ */
+let userPlayerId: number | null = null;
+
+/**
+ * Sends the latest scoreboard to the match centre window if it is open.
+ *
+ * @function
+ */
+function broadcast() {
+  const window = WindowManager.get(Constants.WindowIdentifier.MatchCentre, false);
+
+  if (!window || window.isDestroyed()) {
+    return;
+  }
+
+  window.webContents.send(Constants.IPCRoute.MATCH_CENTRE_UPDATE, snapshot);
+}
+
+/**
+ * Gets the per-map kills, deaths and assists
+ * averages of the players in the current season.
+ *
+ * @param playerIds The player ids.
+ * @function
+ */
+async function getSeasonAverages(playerIds: Array<number>) {
+  if (!playerIds.length) {
+    return [];
+  }
+
+  const profile = await DatabaseClient.prisma.profile.findFirst();
+
+  return DatabaseClient.prisma.$queryRaw<
+    Array<{ playerId: number; kills: number; deaths: number; assists: number; games: number }>
+  >`
+    SELECT
+      "MatchPlayerGameStat"."playerId" AS "playerId",
+      AVG("MatchPlayerGameStat"."kills") AS "kills",
+      AVG("MatchPlayerGameStat"."deaths") AS "deaths",
+      AVG("MatchPlayerGameStat"."assists") AS "assists",
+      COUNT(*) AS "games"
+    FROM "MatchPlayerGameStat"
+    INNER JOIN "Match" ON "Match"."id" = "MatchPlayerGameStat"."matchId"
+    INNER JOIN "Competition" ON "Competition"."id" = "Match"."competitionId"
+    WHERE "Match"."status" = ${Constants.MatchStatus.COMPLETED}
+      AND "Competition"."season" = ${profile?.season || 0}
+      AND "MatchPlayerGameStat"."playerId" IN (${Prisma.join(playerIds)})
+    GROUP BY "MatchPlayerGameStat"."playerId"
+  `;
+}
+
+/**
+ * Finds a player on the scoreboard.
+ *
+ * Bots go by their player name while the user's in-game name
+ * can be anything, but they are the only human in the server.
+ *
+ * @param player The in-game player.
+ * @function
+ */
+function findPlayer(player: Pick<Scorebot.EventPlayer, 'name' | 'steamId'>) {
+  if (player.steamId !== 'BOT') {
+    return snapshot?.players.find((line) => line.id === userPlayerId);
+  }
+
+  return snapshot?.players.find((line) => line.name === player.name);
+}
+
+/**
+ * Starts tracking a new match.
+ *
+ * @param matchId The match id.
+ * @param map     The map being played.
+ * @param teams   The teams and their players.
+ * @param userId  The user's player id when they are playing.
+ * @function
+ */
+export async function start(
+  matchId: number,
+  map: string,
+  teams: Array<{ id: number; name: string; players: Array<{ id: number; name: string }> }>,
+  userId: number | null = null,
+) {
+  const players = teams.flatMap((team) =>
+    team.players.map((player) => ({ ...player, teamId: team.id })),
+  );
+  const averages = await getSeasonAverages(players.map((player) => player.id));
+
+  userPlayerId = userId;
+  snapshot = {
+    matchId,
+    map,
+    live: true,
+    round: 1,
+    teams: teams.map((team) => ({ id: team.id, name: team.name, score: 0 })),
+    killFeed: [],
+    players: players.map((player) => {
+      const average = averages.find((item) => item.playerId === player.id);
+
+      return {
+        ...player,
+        kills: 0,
+        deaths: 0,
+        assists: 0,
+        seasonAverage: average
+          ? {
+              kills: Number(average.kills),
+              deaths: Number(average.deaths),
+              assists: Number(average.assists),
+              games: Number(average.games),
+            }
+          : null,
+      };
+    }),
+  };
+
+  broadcast();
+}
+
+/**
+ * Adds a kill to the scoreboard and kill feed.
+ *
+ * @param payload The scorebot payload.
+ * @function
+ */
+export function recordKill(payload: Scorebot.EventPayloadPlayerKilled) {
+  if (!snapshot) {
+    return;
+  }
+
+  const attacker = findPlayer(payload.attacker);
+  const victim = findPlayer(payload.victim);
+
+  // team kills do not count towards the scoreboard
+  if (attacker && payload.attacker.team !== payload.victim.team) {
+    attacker.kills += 1;
+  }
+
+  if (victim) {
+    victim.deaths += 1;
+  }
+
+  snapshot.killFeed = [
+    {
+      round: snapshot.round,
+      attacker: payload.attacker.name,
+      attackerTeamId: attacker?.teamId ?? null,
+      victim: payload.victim.name,
+      victimTeamId: victim?.teamId ?? null,
+      assist: null,
+      weapon: payload.weapon,
+      headshot: payload.headshot,
+    },
+    ...snapshot.killFeed,
+  ].slice(0, KILL_FEED_LENGTH);
+
+  broadcast();
+}
+
+/**
+ * Adds an assist to the scoreboard and credits it on the kill feed.
+ *
+ * @param payload The scorebot payload.
+ * @function
+ */
+export function recordAssist(payload: Scorebot.EventPayloadPlayerAssisted) {
+  if (!snapshot) {
+    return;
+  }
+
+  const assister = findPlayer(payload.assist);
+
+  if (assister) {
+    assister.assists += 1;
+  }
+
+  // the assist is logged after the kill it belongs to
+  const kill = snapshot.killFeed.find(
+    (entry) => entry.victim === payload.victim.name && !entry.assist,
+  );
+
+  if (kill) {
+    kill.assist = payload.assist.name;
+  }
+
+  broadcast();
+}
+
+/**
+ * Updates the score once a round is over.
+ *
+ * @param scoreByTeamId The score of each team.
+ * @function
+ */
+export function recordRound(scoreByTeamId: Record<number, number>) {
+  if (!snapshot) {
+    return;
+  }
+
+  snapshot.teams.forEach((team) => {
+    team.score = scoreByTeamId[team.id] ?? team.score;
+  });
+  snapshot.round += 1;
+  broadcast();
+}
+
+/**
+ * Marks the match as no longer live while
+ * keeping its final scoreboard around.
+ *
+ * @function
+ */
+export function stop() {
+  if (!snapshot) {
+    return;
+  }
+
+  snapshot.live = false;
+  broadcast();
+}
+
+/**
+ * Gets the scoreboard of the match being played.
+ *
+ * @function
+ */
+export function getSnapshot() {
+  return snapshot;
+}
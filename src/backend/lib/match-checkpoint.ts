@@ -0,0 +1,178 @@
+/**
+ * Checkpoints of interrupted matches.
+ *
+ * The dedicated server backs up every round it starts so a
+ * crashed match can be restored at the last finished round.
+ * The scorebot events up to that round are stored alongside
+ * so the stats of the restored rounds carry over.
+ *
+ * @module
+ */
+import DatabaseClient from './database-client';
+import * as Scorebot from './scorebot';
+
+export type MatchCheckpointEvent = {
+  type: Scorebot.EventIdentifier;
+  payload: unknown;
+};
+
+export type MatchCheckpoint = {
+  matchId: number;
+  gameId: number;
+  round: number;
+  sideTeamIds: { t: number; ct: number };
+  events: Array<MatchCheckpointEvent>;
+};
+
+type MatchCheckpointRow = {
+  matchId: number;
+  gameId: number;
+  round: number;
+  tTeamId: number;
+  ctTeamId: number;
+  events: string;
+};
+
+/**
+ * Gets the prefix the server uses for
+ * the round backup files of a game.
+ *
+ * @param matchId The match id.
+ * @param gameId  The game id.
+ * @function
+ */
+export function getBackupPrefix(matchId: number, gameId: number) {
+  return `liga-backup-${matchId}-${gameId}`;
+}
+
+/**
+ * Gets the backup file the server wrote at the start of a round.
+ *
+ * @param prefix The backup file prefix.
+ * @param round  The number of rounds finished when the backup was written.
+ * @function
+ */
+export function getBackupFile(prefix: string, round: number) {
+  return `${prefix}_round${String(round).padStart(2, '0')}.txt`;
+}
+
+/**
+ * Drops the events of the round that was being
+ * played when the match got interrupted.
+ *
+ * @param events The scorebot events.
+ * @function
+ */
+export function getFinishedRoundEvents<T extends MatchCheckpointEvent>(events: Array<T>) {
+  const roundsOver = events.map((event) => event.type === Scorebot.EventIdentifier.ROUND_OVER);
+  return events.slice(0, roundsOver.lastIndexOf(true) + 1);
+}
+
+/**
+ * Creates the match checkpoint table for
+ * saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureMatchCheckpointTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "MatchCheckpoint" (
+      "matchId" INTEGER NOT NULL PRIMARY KEY,
+      "gameId" INTEGER NOT NULL,
+      "round" INTEGER NOT NULL,
+      "tTeamId" INTEGER NOT NULL,
+      "ctTeamId" INTEGER NOT NULL,
+      "events" TEXT NOT NULL,
+      "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "MatchCheckpoint_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+    )
+  `);
+}
+
+/**
+ * Stores the checkpoint of an interrupted game.
+ *
+ * Games interrupted before their first round
+ * finished are simply replayed from the start.
+ *
+ * @param matchId     The match id.
+ * @param gameId      The game id.
+ * @param sideTeamIds The teams that started on each side.
+ * @param events      The scorebot events recorded so far.
+ * @function
+ */
+export async function save(
+  matchId: number,
+  gameId: number,
+  sideTeamIds: MatchCheckpoint['sideTeamIds'],
+  events: Array<MatchCheckpointEvent>,
+) {
+  const finished = getFinishedRoundEvents(events);
+  const round = finished.filter(
+    (event) => event.type === Scorebot.EventIdentifier.ROUND_OVER,
+  ).length;
+
+  if (!round || !sideTeamIds) {
+    return remove(matchId);
+  }
+
+  await ensureMatchCheckpointTable();
+  return DatabaseClient.prisma.$executeRaw`
+    INSERT OR REPLACE INTO "MatchCheckpoint" (
+      "matchId",
+      "gameId",
+      "round",
+      "tTeamId",
+      "ctTeamId",
+      "events"
+    )
+    VALUES (
+      ${matchId},
+      ${gameId},
+      ${round},
+      ${sideTeamIds.t},
+      ${sideTeamIds.ct},
+      ${JSON.stringify(finished)}
+    )
+  `;
+}
+
+/**
+ * Gets the checkpoint of an interrupted match.
+ *
+ * @param matchId The match id.
+ * @function
+ */
+export async function find(matchId: number): Promise<MatchCheckpoint | null> {
+  await ensureMatchCheckpointTable();
+
+  const [row] = await DatabaseClient.prisma.$queryRaw<Array<MatchCheckpointRow>>`
+    SELECT * FROM "MatchCheckpoint" WHERE "matchId" = ${matchId}
+  `;
+
+  if (!row) {
+    return null;
+  }
+
+  return {
+    matchId: Number(row.matchId),
+    gameId: Number(row.gameId),
+    round: Number(row.round),
+    sideTeamIds: { t: Number(row.tTeamId), ct: Number(row.ctTeamId) },
+    events: JSON.parse(row.events),
+  };
+}
+
+/**
+ * Removes the checkpoint of a match once it
+ * was finished or started over from scratch.
+ *
+ * @param matchId The match id.
+ * @function
+ */
+export async function remove(matchId: number) {
+  await ensureMatchCheckpointTable();
+  return DatabaseClient.prisma.$executeRaw`
+    DELETE FROM "MatchCheckpoint" WHERE "matchId" = ${matchId}
+  `;
+}
@@ -0,0 +1,594 @@
+/**
+ * Round, economy, utility and calling statistics per player per game.
+ *
+ * Lives next to `MatchPlayerGameStat` and shares its keys. Played
+ * matches are summarized from the scorebot log while simulated
+ * matches only carry what the round simulator knows about, which
+ * leaves damage, economy, utility and calling columns empty.
+ *
+ * @module
+ */
+import { Prisma } from '@prisma/client';
+import { Constants, Util } from '@liga/shared';
+import DatabaseClient from './database-client';
+import * as Scorebot from './scorebot';
+import type { MapSimulation } from './simulator';
+
+export type MatchPlayerGameDetailStat = {
+  playerId: number;
+  rounds: number;
+  kastRounds: number;
+  openingKills: number;
+  openingDeaths: number;
+  clutchesPlayed: number;
+  clutchesWon: number;
+  multiKillRounds: number;
+  damage: number | null;
+  utilityDamage: number | null;
+  moneySpent: number | null;
+  grenadesThrown: number | null;
+  bombPlants: number | null;
+  bombDefuses: number | null;
+  calledRounds: number | null;
+  calledRoundsWon: number | null;
+};
+
+export type MatchPlayerGameDetailRecord = MatchPlayerGameDetailStat & {
+  matchId: number;
+  gameKey: number;
+  ratingVersion: number;
+};
+
+export type PlayerGameRatingRow = {
+  kills: bigint | number;
+  deaths: bigint | number;
+  assists: bigint | number;
+  ratingVersion: bigint | number | null;
+  rounds: bigint | number | null;
+  kastRounds: bigint | number | null;
+  damage: bigint | number | null;
+  multiKillRounds: bigint | number | null;
+  openingKills: bigint | number | null;
+};
+
+type ScorebotEvent = {
+  type: Scorebot.EventIdentifier;
+  payload: Scorebot.EventPayload;
+};
+
+type RoundKill = {
+  attackerId: number;
+  victimId: number;
+  assistIds: Array<number>;
+  time: number;
+  teamKill: boolean;
+};
+
+/**
+ * How long a teammate has to avenge a death
+ * for it to still count as traded.
+ *
+ * @constant
+ */
+const TRADE_WINDOW_MS = 5000;
+
+/**
+ * Simulated rounds carry no timings so their kills are spaced
+ * out evenly which only lets the very next kill count as a trade.
+ *
+ * @constant
+ */
+const SIMULATED_KILL_INTERVAL_MS = 4000;
+
+/**
+ * The rating model new games are stamped with.
+ *
+ * Bump it whenever `Util.getPlayerGameRating` learns a new
+ * model so games played before the change keep their ratings.
+ *
+ * @constant
+ */
+export const PLAYER_RATING_FORMULA_VERSION = Constants.PlayerRatingFormula.ROUNDS;
+
+/**
+ * Selects the columns `getGameRating` needs from a
+ * `MatchPlayerGameStat` row and its joined detail stats.
+ *
+ * @constant
+ */
+export const RATING_COLUMNS_SQL = `
+  "MatchPlayerGameStat"."kills" AS "kills",
+  "MatchPlayerGameStat"."assists" AS "assists",
+  "MatchPlayerGameStat"."deaths" AS "deaths",
+  "MatchPlayerGameDetailStat"."ratingVersion" AS "ratingVersion",
+  "MatchPlayerGameDetailStat"."rounds" AS "rounds",
+  "MatchPlayerGameDetailStat"."kastRounds" AS "kastRounds",
+  "MatchPlayerGameDetailStat"."damage" AS "damage",
+  "MatchPlayerGameDetailStat"."multiKillRounds" AS "multiKillRounds",
+  "MatchPlayerGameDetailStat"."openingKills" AS "openingKills"
+`;
+
+/**
+ * Joins the detail stats of a `MatchPlayerGameStat` row which
+ * are missing for games played before they were tracked.
+ *
+ * @constant
+ */
+export const RATING_JOIN_SQL = `
+  LEFT JOIN "MatchPlayerGameDetailStat"
+    ON "MatchPlayerGameDetailStat"."playerId" = "MatchPlayerGameStat"."playerId"
+    AND "MatchPlayerGameDetailStat"."matchId" = "MatchPlayerGameStat"."matchId"
+    AND "MatchPlayerGameDetailStat"."gameKey" = "MatchPlayerGameStat"."gameKey"
+`;
+
+/** @constant */
+const UTILITY_WEAPONS = ['hegrenade', 'inferno', 'molotov', 'incgrenade'];
+
+/** @constant */
+const DEFAULT_HEALTH = 100;
+
+/**
+ * Creates an empty stat line.
+ *
+ * @param playerId  The player id.
+ * @param detailed  Whether the scorebot-only columns are tracked.
+ * @function
+ */
+function createStat(playerId: number, detailed: boolean): MatchPlayerGameDetailStat {
+  return {
+    playerId,
+    rounds: 0,
+    kastRounds: 0,
+    openingKills: 0,
+    openingDeaths: 0,
+    clutchesPlayed: 0,
+    clutchesWon: 0,
+    multiKillRounds: 0,
+    damage: detailed ? 0 : null,
+    utilityDamage: detailed ? 0 : null,
+    moneySpent: detailed ? 0 : null,
+    grenadesThrown: detailed ? 0 : null,
+    bombPlants: detailed ? 0 : null,
+    bombDefuses: detailed ? 0 : null,
+    calledRounds: detailed ? 0 : null,
+    calledRoundsWon: detailed ? 0 : null,
+  };
+}
+
+/**
+ * Adds the KAST, multi-kill and opening duel numbers
+ * of a single round to the provided stat lines.
+ *
+ * KAST counts the rounds in which a player got a kill,
+ * an assist, survived or had their death traded.
+ *
+ * @param stats The stat lines keyed by player id.
+ * @param kills The kills of the round in the order they happened.
+ * @function
+ */
+function addRound(stats: Map<number, MatchPlayerGameDetailStat>, kills: Array<RoundKill>) {
+  const opening = kills.find((kill) => !kill.teamKill);
+
+  if (opening && stats.has(opening.attackerId) && stats.has(opening.victimId)) {
+    stats.get(opening.attackerId).openingKills++;
+    stats.get(opening.victimId).openingDeaths++;
+  }
+
+  stats.forEach((stat, playerId) => {
+    const death = kills.find((kill) => kill.victimId === playerId);
+    const contributed = kills.some(
+      (kill) =>
+        !kill.teamKill && (kill.attackerId === playerId || kill.assistIds.includes(playerId)),
+    );
+    const traded =
+      !!death &&
+      kills.some(
+        (kill) =>
+          kill.victimId === death.attackerId &&
+          kill.time >= death.time &&
+          kill.time - death.time <= TRADE_WINDOW_MS,
+      );
+
+    stat.rounds++;
+
+    if (contributed || !death || traded) {
+      stat.kastRounds++;
+    }
+
+    if (kills.filter((kill) => !kill.teamKill && kill.attackerId === playerId).length > 1) {
+      stat.multiKillRounds++;
+    }
+  });
+}
+
+/**
+ * Summarizes the scorebot events of a single game.
+ *
+ * Rounds are split on the round over events which means
+ * the events must be in the order they were logged.
+ *
+ * @param events          The scorebot events of the game.
+ * @param resolvePlayerId Maps an in-game player name to its player id.
+ * @function
+ */
+export function fromScorebotEvents(
+  events: Array<ScorebotEvent>,
+  resolvePlayerId: (name: string) => number | null | undefined,
+) {
+  const stats = new Map<number, MatchPlayerGameDetailStat>();
+  const getStat = (name: string) => {
+    const playerId = resolvePlayerId(name);
+
+    if (playerId == null) {
+      return null;
+    }
+
+    if (!stats.has(playerId)) {
+      stats.set(playerId, createStat(playerId, true));
+    }
+
+    return stats.get(playerId);
+  };
+  const rounds: Array<Array<RoundKill>> = [];
+  let kills: Array<RoundKill> = [];
+  let health = new Map<string, number>();
+
+  // callers of the current round along with their side while
+  // timeouts only kick in during the next round's freeze time
+  let callers = new Map<string, string>();
+  let timeouts = new Map<string, string>();
+
+  events.forEach((event) => {
+    switch (event.type) {
+      case Scorebot.EventIdentifier.PLAYER_ATTACKED: {
+        const payload = event.payload as Scorebot.EventPayloadPlayerAttacked;
+        const attacker = getStat(payload.attacker.name);
+        getStat(payload.victim.name);
+
+        // the log reports raw damage so it is capped
+        // by how much health the victim had left
+        const damage = Math.max(
+          0,
+          (health.get(payload.victim.name) ?? DEFAULT_HEALTH) - payload.health,
+        );
+        health.set(payload.victim.name, payload.health);
+
+        if (!attacker || payload.attacker.team === payload.victim.team) {
+          break;
+        }
+
+        attacker.damage += damage;
+
+        if (UTILITY_WEAPONS.includes(payload.weapon)) {
+          attacker.utilityDamage += damage;
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.PLAYER_KILLED: {
+        const payload = event.payload as Scorebot.EventPayloadPlayerKilled;
+        const attacker = getStat(payload.attacker.name);
+        const victim = getStat(payload.victim.name);
+
+        if (attacker && victim) {
+          kills.push({
+            attackerId: attacker.playerId,
+            victimId: victim.playerId,
+            assistIds: [],
+            time: payload.timestamp.getTime(),
+            teamKill: payload.attacker.team === payload.victim.team,
+          });
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.PLAYER_ASSISTED: {
+        const payload = event.payload as Scorebot.EventPayloadPlayerAssisted;
+        const assist = getStat(payload.assist.name);
+        const victim = resolvePlayerId(payload.victim.name);
+        const kill = [...kills].reverse().find((item) => item.victimId === victim);
+
+        if (assist && kill) {
+          kill.assistIds.push(assist.playerId);
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.PLAYER_MONEY_CHANGED: {
+        const payload = event.payload as Scorebot.EventPayloadPlayerMoneyChanged;
+        const player = getStat(payload.player.name);
+
+        if (player && payload.purchase && payload.delta < 0) {
+          player.moneySpent -= payload.delta;
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.PLAYER_PURCHASED: {
+        getStat((event.payload as Scorebot.EventPayloadPlayerPurchased).player.name);
+        break;
+      }
+      case Scorebot.EventIdentifier.PLAYER_THREW: {
+        const player = getStat((event.payload as Scorebot.EventPayloadPlayerThrew).player.name);
+
+        if (player) {
+          player.grenadesThrown++;
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.BOMB_PLANTED:
+      case Scorebot.EventIdentifier.BOMB_DEFUSED: {
+        const player = getStat((event.payload as Scorebot.EventPayloadBomb).player.name);
+
+        if (player && event.type === Scorebot.EventIdentifier.BOMB_PLANTED) {
+          player.bombPlants++;
+        } else if (player) {
+          player.bombDefuses++;
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.PLAYER_CLUTCH: {
+        const payload = event.payload as Scorebot.EventPayloadPlayerClutch;
+        const player = getStat(payload.player.name);
+
+        if (player) {
+          player.clutchesPlayed++;
+          player.clutchesWon += payload.won ? 1 : 0;
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.PLAYER_CALLED: {
+        const payload = event.payload as Scorebot.EventPayloadPlayerCalled;
+
+        if (Scorebot.TimeoutCalls.includes(payload.call)) {
+          timeouts.set(payload.player.name, payload.player.team);
+        } else {
+          callers.set(payload.player.name, payload.player.team);
+        }
+        break;
+      }
+      case Scorebot.EventIdentifier.ROUND_OVER: {
+        const payload = event.payload as Scorebot.EventPayloadRoundOver;
+
+        callers.forEach((team, name) => {
+          const player = getStat(name);
+
+          if (player) {
+            player.calledRounds++;
+            player.calledRoundsWon += Scorebot.TeamIdentifier[team] === payload.winner ? 1 : 0;
+          }
+        });
+
+        rounds.push(kills);
+        kills = [];
+        health = new Map();
+        callers = timeouts;
+        timeouts = new Map();
+        break;
+      }
+    }
+  });
+
+  // every player seen during the game is
+  // considered to have played all of its rounds
+  rounds.forEach((roundKills) => addRound(stats, roundKills));
+
+  return [...stats.values()];
+}
+
+/**
+ * Summarizes a map produced by the round-by-round simulator.
+ *
+ * @param simulation The simulated map.
+ * @function
+ */
+export function fromSimulation(simulation: MapSimulation) {
+  const stats = new Map<number, MatchPlayerGameDetailStat>();
+  const [homeLineup, awayLineup] = Object.values(simulation.lineups);
+
+  [...homeLineup, ...awayLineup].forEach((playerId) =>
+    stats.set(playerId, createStat(playerId, false)),
+  );
+
+  simulation.rounds.forEach((round) => {
+    const deaths = new Set<number>();
+    let clutch: { playerId: number; teamIdx: number } | null = null;
+
+    addRound(
+      stats,
+      round.kills.map((kill, killIdx) => ({
+        attackerId: kill.attackerId,
+        victimId: kill.victimId,
+        assistIds: kill.assistId ? [kill.assistId] : [],
+        time: killIdx * SIMULATED_KILL_INTERVAL_MS,
+        teamKill: false,
+      })),
+    );
+
+    for (const kill of round.kills) {
+      deaths.add(kill.victimId);
+
+      if (clutch) {
+        continue;
+      }
+
+      const alive = [homeLineup, awayLineup].map((lineup) =>
+        lineup.filter((playerId) => !deaths.has(playerId)),
+      );
+      const teamIdx = alive.findIndex(
+        (lineup, idx) => lineup.length === 1 && !!alive[1 - idx].length,
+      );
+
+      if (teamIdx > -1) {
+        clutch = { playerId: alive[teamIdx][0], teamIdx };
+      }
+    }
+
+    if (clutch && stats.has(clutch.playerId)) {
+      const winnerLineup = simulation.lineups[round.winnerTeamId] || [];
+      stats.get(clutch.playerId).clutchesPlayed++;
+      stats.get(clutch.playerId).clutchesWon += winnerLineup.includes(clutch.playerId) ? 1 : 0;
+    }
+  });
+
+  return [...stats.values()];
+}
+
+/**
+ * Creates the per-game detailed player stats
+ * table for saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureMatchPlayerGameDetailStatTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "MatchPlayerGameDetailStat" (
+      "playerId" INTEGER NOT NULL,
+      "matchId" INTEGER NOT NULL,
+      "gameKey" INTEGER NOT NULL,
+      "rounds" INTEGER NOT NULL DEFAULT 0,
+      "kastRounds" INTEGER NOT NULL DEFAULT 0,
+      "openingKills" INTEGER NOT NULL DEFAULT 0,
+      "openingDeaths" INTEGER NOT NULL DEFAULT 0,
+      "clutchesPlayed" INTEGER NOT NULL DEFAULT 0,
+      "clutchesWon" INTEGER NOT NULL DEFAULT 0,
+      "multiKillRounds" INTEGER NOT NULL DEFAULT 0,
+      "damage" INTEGER,
+      "utilityDamage" INTEGER,
+      "moneySpent" INTEGER,
+      "grenadesThrown" INTEGER,
+      "bombPlants" INTEGER,
+      "bombDefuses" INTEGER,
+      "calledRounds" INTEGER,
+      "calledRoundsWon" INTEGER,
+      "ratingVersion" INTEGER NOT NULL DEFAULT ${Constants.PlayerRatingFormula.KD},
+      PRIMARY KEY ("playerId", "matchId", "gameKey")
+    )
+  `);
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE INDEX IF NOT EXISTS "MatchPlayerGameDetailStat_matchId_idx"
+    ON "MatchPlayerGameDetailStat"("matchId")
+  `);
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE INDEX IF NOT EXISTS "MatchPlayerGameDetailStat_playerId_idx"
+    ON "MatchPlayerGameDetailStat"("playerId")
+  `);
+
+  // tables created before ratings were
+  // versioned lack the rating columns
+  const columns = await DatabaseClient.prisma.$queryRawUnsafe<Array<{ name: string }>>(
+    `PRAGMA table_info("MatchPlayerGameDetailStat")`,
+  );
+
+  if (!columns.some((column) => column.name === 'multiKillRounds')) {
+    await DatabaseClient.prisma.$executeRawUnsafe(
+      `ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "multiKillRounds" INTEGER NOT NULL DEFAULT 0`,
+    );
+  }
+
+  if (!columns.some((column) => column.name === 'ratingVersion')) {
+    await DatabaseClient.prisma.$executeRawUnsafe(
+      `ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "ratingVersion" INTEGER NOT NULL DEFAULT ${Constants.PlayerRatingFormula.KD}`,
+    );
+  }
+
+  // as do tables created before role stats were tracked
+  if (!columns.some((column) => column.name === 'calledRounds')) {
+    await DatabaseClient.prisma.$executeRawUnsafe(
+      `ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "calledRounds" INTEGER`,
+    );
+    await DatabaseClient.prisma.$executeRawUnsafe(
+      `ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "calledRoundsWon" INTEGER`,
+    );
+  }
+}
+
+/**
+ * Rates a game with the model it was stamped with.
+ *
+ * @param row A `MatchPlayerGameStat` row along with its detail stats.
+ * @function
+ */
+export function getGameRating(row: PlayerGameRatingRow) {
+  const toNumber = (value: bigint | number | null) => (value === null ? null : Number(value));
+
+  return Util.getPlayerGameRating({
+    kills: Number(row.kills),
+    deaths: Number(row.deaths),
+    assists: Number(row.assists),
+    ratingVersion: toNumber(row.ratingVersion),
+    rounds: toNumber(row.rounds),
+    kastRounds: toNumber(row.kastRounds),
+    damage: toNumber(row.damage),
+    multiKillRounds: toNumber(row.multiKillRounds),
+    openingKills: toNumber(row.openingKills),
+  });
+}
+
+/**
+ * Replaces the detail stats recorded for a game
+ * and stamps them with the current rating model.
+ *
+ * @param matchId The match id.
+ * @param gameKey The game id.
+ * @param stats   The stat lines of every player in the game.
+ * @function
+ */
+export async function saveGame(
+  matchId: number,
+  gameKey: number,
+  stats: Array<MatchPlayerGameDetailStat>,
+) {
+  await ensureMatchPlayerGameDetailStatTable();
+
+  if (!stats.length) {
+    return;
+  }
+
+  const values = stats.map(
+    (stat) =>
+      Prisma.sql`(${stat.playerId}, ${matchId}, ${gameKey}, ${stat.rounds}, ${stat.kastRounds}, ${stat.openingKills}, ${stat.openingDeaths}, ${stat.clutchesPlayed}, ${stat.clutchesWon}, ${stat.multiKillRounds}, ${stat.damage}, ${stat.utilityDamage}, ${stat.moneySpent}, ${stat.grenadesThrown}, ${stat.bombPlants}, ${stat.bombDefuses}, ${stat.calledRounds}, ${stat.calledRoundsWon}, ${PLAYER_RATING_FORMULA_VERSION})`,
+  );
+
+  return DatabaseClient.prisma.$executeRaw`
+    INSERT OR REPLACE INTO "MatchPlayerGameDetailStat" (
+      "playerId",
+      "matchId",
+      "gameKey",
+      "rounds",
+      "kastRounds",
+      "openingKills",
+      "openingDeaths",
+      "clutchesPlayed",
+      "clutchesWon",
+      "multiKillRounds",
+      "damage",
+      "utilityDamage",
+      "moneySpent",
+      "grenadesThrown",
+      "bombPlants",
+      "bombDefuses",
+      "calledRounds",
+      "calledRoundsWon",
+      "ratingVersion"
+    )
+    VALUES ${Prisma.join(values)}
+  `;
+}
+
+/**
+ * Gets the detail stats recorded for a match.
+ *
+ * @param matchId The match id.
+ * @function
+ */
+export async function findByMatch(matchId: number) {
+  await ensureMatchPlayerGameDetailStatTable();
+
+  const rows = await DatabaseClient.prisma.$queryRaw<Array<MatchPlayerGameDetailRecord>>`
+    SELECT * FROM "MatchPlayerGameDetailStat" WHERE "matchId" = ${matchId}
+  `;
+
+  return rows.map(
+    (row) =>
+      Object.fromEntries(
+        Object.entries(row).map(([key, value]) => [key, value === null ? null : Number(value)]),
+      ) as MatchPlayerGameDetailRecord,
+  );
+}
@@ -0,0 +1,140 @@
+import assert from 'node:assert/strict';
+import { FaceitMatchmaker, MatchPlayer } from './matchmaker';
+
+const USER_ID = 1;
+const RIFLER = 'RIFLER';
+const AWPER = 'AWPER';
+
+/**
+ * Builds an NPC in the user's region.
+ *
+ * @param id    The player id.
+ * @param role  The player role.
+ * @param elo   The player elo.
+ * @function
+ */
+function npc(id: number, role: string, elo = 1000) {
+  return {
+    id,
+    name: `player${id}`,
+    xp: 50,
+    elo,
+    role,
+    personality: null as string | null,
+    userControlled: false,
+    countryId: 1,
+    teamId: null as number | null,
+    team: null as null,
+    country: { code: 'dk', continent: { federationId: 1, federation: { id: 1 } } },
+  };
+}
+
+// every fifth npc is an awper and party members come from the front
+const npcs = Array.from({ length: 60 }).map((_, idx) =>
+  npc(100 + idx, idx % 5 === 4 ? AWPER : RIFLER, 950 + idx * 2),
+);
+
+/**
+ * Builds just enough of the database client for the matchmaker.
+ *
+ * @param userRole The user's role.
+ * @function
+ */
+function prisma(userRole: string) {
+  const user = { ...npc(USER_ID, userRole), userControlled: true };
+
+  return {
+    profile: {
+      findFirst: () => Promise.resolve({ playerId: USER_ID, faceitElo: 1000 }),
+    },
+    player: {
+      findFirst: (query: { where: { id?: number } }) =>
+        Promise.resolve(query.where.id ? user : { elo: 1000 }),
+      findMany: (query: {
+        select?: unknown;
+        where?: { id?: { in?: number[]; notIn?: number[] } };
+      }) => {
+        if (query.select) {
+          return Promise.resolve([user, ...npcs]);
+        }
+
+        if (query.where?.id?.in) {
+          return Promise.resolve(npcs.filter((player) => query.where.id.in.includes(player.id)));
+        }
+
+        // no smurfs are around so encounters stay predictable
+        return Promise.resolve(query.where?.id?.notIn ? [] : npcs);
+      },
+    },
+  };
+}
+
+/**
+ * Counts the awpers in a team.
+ *
+ * @param team The team.
+ * @function
+ */
+function awpers(team: Array<MatchPlayer>) {
+  return team.filter((player) => player.role === AWPER).length;
+}
+
+// party members are seated first and count against the sniper slot
+assert.deepEqual(FaceitMatchmaker.getUserTeamSlots([RIFLER]), {
+  awpers: 0,
+  snipers: 1,
+  riflers: 3,
+});
+assert.deepEqual(FaceitMatchmaker.getUserTeamSlots([AWPER]), { awpers: 1, snipers: 0, riflers: 4 });
+assert.deepEqual(FaceitMatchmaker.getUserTeamSlots([RIFLER, RIFLER, AWPER]), {
+  awpers: 1,
+  snipers: 0,
+  riflers: 2,
+});
+assert.deepEqual(FaceitMatchmaker.getUserTeamSlots([RIFLER, RIFLER, RIFLER, RIFLER]), {
+  awpers: 0,
+  snipers: 1,
+  riflers: 0,
+});
+assert.deepEqual(
+  FaceitMatchmaker.getUserTeamSlots([RIFLER, RIFLER, RIFLER, RIFLER, RIFLER]),
+  { awpers: 0, snipers: 0, riflers: 0 },
+  'a full party without an awper gets no forced sniper',
+);
+assert.deepEqual(
+  FaceitMatchmaker.getUserTeamSlots([RIFLER, RIFLER, RIFLER, RIFLER, RIFLER, RIFLER]),
+  { awpers: 0, snipers: 0, riflers: 0 },
+  'open slots never go below zero',
+);
+
+const parties = [
+  { userRole: RIFLER, partyIds: [] as number[], awpersA: 1 },
+  { userRole: AWPER, partyIds: [], awpersA: 1 },
+  { userRole: RIFLER, partyIds: [100, 101], awpersA: 1 },
+  { userRole: RIFLER, partyIds: [100, 104], awpersA: 1 },
+  { userRole: RIFLER, partyIds: [100, 101, 102, 103], awpersA: 0 },
+  { userRole: RIFLER, partyIds: [100, 101, 102, 104], awpersA: 1 },
+  { userRole: AWPER, partyIds: [100, 101, 102, 104], awpersA: 2 },
+];
+
+(async () => {
+  for (const party of parties) {
+    for (let idx = 0; idx < 50; idx++) {
+      const room = await FaceitMatchmaker.createMatchRoom(prisma(party.userRole), {
+        id: USER_ID,
+        partyIds: party.partyIds,
+      });
+      const ids = [...room.teamA, ...room.teamB].map((player) => player.id);
+
+      assert.equal(room.teamA.length, 5, 'the user side always fields five players');
+      assert.equal(room.teamB.length, 5, 'the enemy side always fields five players');
+      assert.equal(new Set(ids).size, 10, 'nobody is seated twice');
+      assert.ok(
+        party.partyIds.every((id) => room.teamA.some((player) => player.id === id)),
+        'the whole party plays on the user side',
+      );
+      assert.equal(awpers(room.teamA), party.awpersA, 'the user side only adds missing snipers');
+      assert.equal(awpers(room.teamB), 1, 'the enemy side always gets one awper');
+    }
+  }
+})();
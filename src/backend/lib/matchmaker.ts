@@ -1,5 +1,5 @@
 import type { PrismaClient, Player, Prisma } from "@prisma/client";
-import { shuffle } from "lodash";
+import { sample, shuffle } from "lodash";
 import { levelFromElo } from "@liga/backend/lib/levels";
 
 type BotCandidate = Player & {
@@ -26,6 +26,15 @@ export interface MatchPlayer {
   queueId?: string;
   queueType?: "COUNTRY" | "TEAM" | "BOTH";
   teamCountryId?: number | null;
+  encounter?: FaceitEncounterType;
+}
+
+export type FaceitEncounterType = "SMURF" | "CHEATER";
+
+export interface FaceitEncounter {
+  type: FaceitEncounterType;
+  playerId: number;
+  side: "A" | "B";
 }
 
 export interface MatchRoom {
@@ -36,21 +45,27 @@ export interface MatchRoom {
   expectedWinB: number;
   eloGain: number;
   eloLoss: number;
+  proLeague?: string;
+  encounter?: FaceitEncounter;
 }
 
 export class FaceitMatchmaker {
   static BASE_ELO_RANGE = 250;
   static MAX_ELO_RANGE = 700;
   static ELO_RANGE_STEP = 100;
-
-  private static async getBotsNearElo(
-    prisma: PrismaClient,
-    targetElo: number,
-    needed: number,
-    federationId: number
-  ): Promise<BotCandidate[]> {
-
-    const regionalWhere: Prisma.PlayerWhereInput = {
+  static MAX_PARTY_SIZE = 4;
+  static PREMADE_PENALTY = 2;
+  static PRO_LEAGUE_BASE_ELO_RANGE = 100;
+  static PRO_LEAGUE_MAX_ELO_RANGE = 300;
+  static PRO_LEAGUE_ELO_RANGE_STEP = 50;
+  static SMURF_CHANCE = 0.04;
+  static CHEATER_CHANCE = 0.015;
+  static ENCOUNTER_ENEMY_CHANCE = 0.75;
+  static SMURF_MIN_ELO_GAP = 600;
+  static SMURF_CANDIDATES = 25;
+
+  private static getRegionalWhere(federationId: number): Prisma.PlayerWhereInput {
+    return {
       OR: [
         {
           team: {
@@ -67,6 +82,25 @@ export class FaceitMatchmaker {
         },
       ],
     };
+  }
+
+  private static async getBotsNearElo(
+    prisma: PrismaClient,
+    targetElo: number,
+    needed: number,
+    federationId: number,
+    poolIds?: number[]
+  ): Promise<BotCandidate[]> {
+
+    // pro league pools are already regional and their members
+    // are matched in a tighter range than the open ladder
+    const baseRange = poolIds ? this.PRO_LEAGUE_BASE_ELO_RANGE : this.BASE_ELO_RANGE;
+    const maxRange = poolIds ? this.PRO_LEAGUE_MAX_ELO_RANGE : this.MAX_ELO_RANGE;
+    const rangeStep = poolIds ? this.PRO_LEAGUE_ELO_RANGE_STEP : this.ELO_RANGE_STEP;
+
+    const regionalWhere: Prisma.PlayerWhereInput = poolIds
+      ? { id: { in: poolIds } }
+      : this.getRegionalWhere(federationId);
 
     const [lowestEloBot, highestEloBot] = await Promise.all([
       prisma.player.findFirst({
@@ -94,7 +128,7 @@ export class FaceitMatchmaker {
       Math.abs(highestEloBot.elo - targetElo)
     );
 
-    let range = this.BASE_ELO_RANGE;
+    let range = baseRange;
     let bots: BotCandidate[] = [];
 
     while (bots.length < needed) {
@@ -134,9 +168,9 @@ export class FaceitMatchmaker {
       if (range >= maxNeededRange) break;
 
       const nextRange =
-        range < this.MAX_ELO_RANGE
-          ? Math.min(range + this.ELO_RANGE_STEP, this.MAX_ELO_RANGE)
-          : range + this.ELO_RANGE_STEP;
+        range < maxRange
+          ? Math.min(range + rangeStep, maxRange)
+          : range + rangeStep;
 
       range = Math.min(nextRange, maxNeededRange);
     }
@@ -153,15 +187,14 @@ export class FaceitMatchmaker {
     return normalizedRole === "AWPER" || normalizedRole === "SNIPER";
   }
 
-  private static calcEloAdjustment(expWin: number, maxPartyEloDelta?: number) {
-    if (Number.isFinite(maxPartyEloDelta) && (maxPartyEloDelta as number) >= 1500) {
-      return { gain: 15, loss: 35 };
-    }
-
+  private static calcEloAdjustment(expWin: number, maxPartyEloDelta?: number, partySize = 0) {
     let gain = 25;
     let loss = 25;
 
-    if (expWin > 0.8) {
+    if (Number.isFinite(maxPartyEloDelta) && (maxPartyEloDelta as number) >= 1500) {
+      gain = 15;
+      loss = 35;
+    } else if (expWin > 0.8) {
       gain = 10;
       loss = 40;
     } else if (expWin > 0.7) {
@@ -175,13 +208,26 @@ export class FaceitMatchmaker {
       loss = 20;
     }
 
-    return { gain, loss };
+    // premades coordinate better than solo players so every
+    // party member shaves off some gain and adds to the loss
+    const penalty = Math.min(partySize, this.MAX_PARTY_SIZE) * this.PREMADE_PENALTY;
+
+    return { gain: Math.max(5, gain - penalty), loss: loss + penalty };
   }
 
-  private static annotateStacks(team: MatchPlayer[], teamTag: "A" | "B") {
+  private static annotateStacks(team: MatchPlayer[], teamTag: "A" | "B", partyIds: number[] = []) {
     const queueByPlayer = new Map<number, { id: string; type: "COUNTRY" | "TEAM" | "BOTH" }>();
     const used = new Set<number>();
 
+    // the user's party always queues together
+    if (partyIds.length) {
+      for (const player of team) {
+        if (!player.userControlled && !partyIds.includes(player.id)) continue;
+        used.add(player.id);
+        queueByPlayer.set(player.id, { id: `${teamTag}-PARTY`, type: "TEAM" });
+      }
+    }
+
     const findGroups = (
       keyFn: (p: MatchPlayer) => string | null,
       type: "COUNTRY" | "TEAM" | "BOTH"
@@ -238,9 +284,144 @@ export class FaceitMatchmaker {
     });
   }
 
+  // Once in a while a lobby gets a smurf, a much stronger player on an
+  // account with the Elo of the slot they take, or a cheater whose aim
+  // is boosted in the bot profile. Most of them end up on the enemy side.
+  private static async rollEncounter(
+    prisma: PrismaClient,
+    teamA: MatchPlayer[],
+    teamB: MatchPlayer[],
+    queueElo: number,
+    federationId: number,
+    partyIds: number[],
+    convert: (bot: BotCandidate) => MatchPlayer
+  ): Promise<FaceitEncounter | undefined> {
+    const roll = Math.random();
+
+    if (roll >= this.SMURF_CHANCE + this.CHEATER_CHANCE) return undefined;
+
+    const type: FaceitEncounterType = roll < this.SMURF_CHANCE ? "SMURF" : "CHEATER";
+    const side = Math.random() < this.ENCOUNTER_ENEMY_CHANCE ? "B" : "A";
+    const team = side === "A" ? teamA : teamB;
+
+    // awpers keep their slot so the sniper constraint still holds
+    const slot = sample(
+      team
+        .map((player, idx) => ({ player, idx }))
+        .filter(
+          ({ player }) =>
+            !player.userControlled &&
+            !partyIds.includes(player.id) &&
+            !this.isAwperRole(player.role)
+        )
+    );
+
+    if (!slot) return undefined;
+
+    if (type === "CHEATER") {
+      team[slot.idx] = { ...slot.player, encounter: type };
+      return { type, playerId: slot.player.id, side };
+    }
+
+    const smurfs: BotCandidate[] = await prisma.player.findMany({
+      where: {
+        userControlled: false,
+        ...this.getRegionalWhere(federationId),
+        id: { notIn: [...teamA, ...teamB].map((player) => player.id) },
+        elo: { gte: queueElo + this.SMURF_MIN_ELO_GAP },
+      },
+      include: {
+        country: { include: { continent: true } },
+        team: { include: { country: { include: { continent: true } } } },
+      },
+      orderBy: { xp: "desc" },
+      take: this.SMURF_CANDIDATES,
+    });
+    const smurf = sample(smurfs.filter((bot) => !this.isAwperRole(bot.role)));
+
+    if (!smurf) return undefined;
+
+    team[slot.idx] = {
+      ...convert(smurf),
+      elo: slot.player.elo,
+      rank: slot.player.rank,
+      level: slot.player.level,
+      encounter: type,
+    };
+
+    return { type, playerId: smurf.id, side };
+  }
+
+  // Works out which bots the user's side still needs. The user and their
+  // party are seated first and count against the sniper slot, so a party
+  // that brings its own AWPer or fills the side gets no forced sniper.
+  static getUserTeamSlots(roles: Array<string | null>) {
+    const openSlots = Math.max(0, 5 - roles.length);
+    const awpers = roles.filter((role) => this.isAwperRole(role)).length;
+    const snipers = !awpers && openSlots > 0 ? 1 : 0;
+
+    return { awpers, snipers, riflers: openSlots - snipers };
+  }
+
+  // Groups NPC players of a single region into pug lobbies with the same
+  // rules as user pugs: a widening Elo range and one AWPer per side.
+  // Players that cannot be placed sit the round out.
+  static createNpcLobbies<T extends { id: number; elo: number; role: string | null }>(
+    players: T[]
+  ): Array<{ teamA: T[]; teamB: T[] }> {
+    const available = [...players].sort((a, b) => a.elo - b.elo);
+    const lobbies: Array<{ teamA: T[]; teamB: T[] }> = [];
+
+    while (available.length >= 10) {
+      const anchor = available[0];
+      let range = this.BASE_ELO_RANGE;
+      let lobby: T[] | null = null;
+
+      while (!lobby && range <= this.MAX_ELO_RANGE) {
+        const nearby = available.filter((player) => player.elo - anchor.elo <= range);
+        const awpers = shuffle(nearby.filter((player) => this.isAwperRole(player.role)));
+        const riflers = shuffle(nearby.filter((player) => !this.isAwperRole(player.role)));
+
+        if (awpers.length >= 2 && riflers.length >= 8) {
+          lobby = [...awpers.slice(0, 2), ...riflers.slice(0, 8)];
+        }
+
+        range += this.ELO_RANGE_STEP;
+      }
+
+      if (!lobby) {
+        available.shift();
+        continue;
+      }
+
+      for (const player of lobby) {
+        available.splice(available.indexOf(player), 1);
+      }
+
+      // one awper each and the riflers snake-drafted by elo
+      const [awperA, awperB, ...riflers] = lobby;
+      const teamA = [awperA];
+      const teamB = [awperB];
+
+      riflers
+        .sort((a, b) => b.elo - a.elo)
+        .forEach((player, idx) => (idx % 4 === 0 || idx % 4 === 3 ? teamA : teamB).push(player));
+
+      lobbies.push({ teamA, teamB });
+    }
+
+    return lobbies;
+  }
+
   static async createMatchRoom(
     prisma: any,
-    user: { id: number; queueElo?: number; maxPartyEloDelta?: number }
+    user: {
+      id: number;
+      queueElo?: number;
+      maxPartyEloDelta?: number;
+      partyIds?: number[];
+      proLeague?: { division: string; playerIds: number[] };
+    }
   ): Promise<MatchRoom> {
 
     // -------------------------------------------------
@@ -305,11 +486,39 @@ export class FaceitMatchmaker {
 
     const userDb = fullPlayer;
     const userElo = baseProfile.faceitElo;
-    const queueElo = Number.isFinite(user.queueElo) ? Math.round(user.queueElo as number) : userElo;
     const federationId =
       userDb.team?.competitionFederationId ??
       userDb.country.continent.federation.id;
 
+    // -------------------------------------------------
+    // 2b. Load the user's party
+    // -------------------------------------------------
+    const party: BotCandidate[] = (user.partyIds ?? []).length
+      ? await prisma.player.findMany({
+          where: {
+            id: { in: (user.partyIds as number[]).slice(0, this.MAX_PARTY_SIZE) },
+            userControlled: false,
+          },
+          include: {
+            country: { include: { continent: true } },
+            team: { include: { country: { include: { continent: true } } } },
+          },
+        })
+      : [];
+    const partyIds = party.map((member) => member.id);
+
+    // opponents are balanced against the whole party
+    const queueElo = party.length
+      ? Math.round(
+          (userElo + party.reduce((sum, member) => sum + member.elo, 0)) / (party.length + 1)
+        )
+      : Number.isFinite(user.queueElo)
+        ? Math.round(user.queueElo as number)
+        : userElo;
+    const maxPartyEloDelta = party.length
+      ? Math.max(0, ...party.map((member) => Math.round(member.elo - userElo)))
+      : user.maxPartyEloDelta;
+
     const rankingByPlayerId = new Map<number, number>();
     const rankedPlayers = allPlayersForRank
       .map((player: {
@@ -334,7 +543,15 @@ export class FaceitMatchmaker {
     // -------------------------------------------------
     // 3. Get bots in region & Elo range
     // -------------------------------------------------
-    const bots = await this.getBotsNearElo(prisma, queueElo, 100, federationId);
+    const bots = (
+      await this.getBotsNearElo(
+        prisma,
+        queueElo,
+        100,
+        federationId,
+        user.proLeague?.playerIds.filter((id) => id !== userDb.id)
+      )
+    ).filter((bot) => !partyIds.includes(bot.id));
 
     if (bots.length < 10) {
       throw new Error("FACEIT_NOT_ENOUGH_SIMILAR_SKILL_PLAYERS");
@@ -349,17 +566,12 @@ export class FaceitMatchmaker {
     // -------------------------------------------------
     // 5. Determine sniper requirements based on player role
     // -------------------------------------------------
-    const userIsAwper = this.isAwperRole(userDb.role);
-    let snipersForUserTeam = 0;
-    let snipersForEnemyTeam = 1;
-
-    if (userIsAwper) {
-      snipersForUserTeam = 0;
-      snipersForEnemyTeam = 1;
-    } else {
-      snipersForUserTeam = 1;
-      snipersForEnemyTeam = 1;
-    }
+    const userTeamSlots = this.getUserTeamSlots([
+      userDb.role,
+      ...party.map((member) => member.role),
+    ]);
+    const snipersForUserTeam = userTeamSlots.snipers;
+    const snipersForEnemyTeam = 1;
 
     const totalSnipersNeeded = snipersForUserTeam + snipersForEnemyTeam;
 
@@ -380,7 +592,7 @@ export class FaceitMatchmaker {
     // -------------------------------------------------
     // 7. Fill remaining slots with riflers
     // -------------------------------------------------
-    const remainingUserSlots = 4 - userTeamSnipers.length;
+    const remainingUserSlots = userTeamSlots.riflers;
     const remainingEnemySlots = 5 - enemyTeamSnipers.length;
 
     const shuffledRiflers = shuffle(riflers);
@@ -428,6 +640,7 @@ export class FaceitMatchmaker {
 
     const rawTeamA: MatchPlayer[] = [
       userPlayer,
+      ...party.map(convert),
       ...userTeamSnipers.map(convert),
       ...userTeamRiflers.map(convert),
     ];
@@ -437,13 +650,26 @@ export class FaceitMatchmaker {
       ...enemyTeamRiflers.map(convert),
     ];
 
-    const teamA = this.annotateStacks(rawTeamA, "A");
+    // pro league lobbies are held to a stricter anti-cheat
+    const encounter = user.proLeague
+      ? undefined
+      : await this.rollEncounter(
+          prisma,
+          rawTeamA,
+          rawTeamB,
+          queueElo,
+          federationId,
+          partyIds,
+          convert
+        );
+
+    const teamA = this.annotateStacks(rawTeamA, "A", partyIds);
     const teamB = this.annotateStacks(rawTeamB, "B");
 
     const awpersInTeamA = teamA.filter((player) => this.isAwperRole(player.role)).length;
     const awpersInTeamB = teamB.filter((player) => this.isAwperRole(player.role)).length;
 
-    if (awpersInTeamA !== 1 || awpersInTeamB !== 1) {
+    if (awpersInTeamA !== userTeamSlots.awpers + snipersForUserTeam || awpersInTeamB !== 1) {
       throw new Error(
         `FACEIT_AWPER_CONSTRAINT_FAILED (teamA=${awpersInTeamA}, teamB=${awpersInTeamB})`
       );
@@ -462,7 +688,7 @@ export class FaceitMatchmaker {
 
     const userExpected = userIsTeamA ? expectedA : expectedB;
 
-    const { gain, loss } = this.calcEloAdjustment(userExpected, user.maxPartyEloDelta);
+    const { gain, loss } = this.calcEloAdjustment(userExpected, maxPartyEloDelta, party.length);
 
     return {
       matchId: `${Date.now()}`,
@@ -473,6 +699,8 @@ export class FaceitMatchmaker {
 
       eloGain: gain,
       eloLoss: loss,
+      ...(user.proLeague ? { proLeague: user.proLeague.division } : {}),
+      ...(encounter ? { encounter } : {}),
     };
   }
 }
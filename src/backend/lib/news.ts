@@ -1,8 +1,10 @@
-import { endOfDay, format, startOfDay } from 'date-fns';
+import { endOfDay, format, startOfDay, subMonths } from 'date-fns';
 import { Prisma } from '@prisma/client';
 import { Constants, Util } from '@liga/shared';
 import DatabaseClient from './database-client';
+import { findClimbers, getSeason } from './faceit-leaderboard';
 import { findCompetitionMvps, getCompetitionMvpStageCompetitionIds } from './competition-mvps';
+import * as MatchPlayerGameDetailStats from './match-player-game-detail-stats';
 import { backfillMissingMatchPlayerGameStats } from './match-player-game-stats';
 import { getThankYouGraphic, getWelcomeGraphic } from './news-welcome-graphics';
 import { CIS_COUNTRY_CODES } from './npc-transfer-identity';
@@ -22,6 +24,8 @@ const PLAYER_HONOR_TIER_SLUGS = [
 const TOP_PLAYERS_OF_YEAR_SIZE = 20;
 const TOP_PLAYERS_OF_YEAR_MIN_MAPS = 12;
 const TOP_PLAYERS_OF_YEAR_MIN_BIG_EVENT_MAPS = 8;
+const FACEIT_CLIMBERS_SIZE = 5;
+const FACEIT_CLIMBERS_WINDOW_DAYS = 7;
 
 type NewsDraft = {
   type: 'ARTICLE' | 'SHORT';
@@ -47,14 +51,11 @@ type MvpContender = {
   rating: number;
   maps: number;
 };
-type MvpContenderGameRow = {
+type MvpContenderGameRow = MatchPlayerGameDetailStats.PlayerGameRatingRow & {
   playerId: number;
   playerName: string;
-  kills: bigint | number;
-  assists: bigint | number;
-  deaths: bigint | number;
 };
-type TopPlayerOfYearGameRow = {
+type TopPlayerOfYearGameRow = MatchPlayerGameDetailStats.PlayerGameRatingRow & {
   playerId: number;
   playerName: string;
   playerAvatar: string | null;
@@ -81,9 +82,6 @@ type TopPlayerOfYearGameRow = {
   opponentTeamId: number | null;
   opponentTeamName: string | null;
   opponentScore: number | null;
-  kills: bigint | number;
-  assists: bigint | number;
-  deaths: bigint | number;
   opponentElo: bigint | number | null;
 };
 type TopPlayerOfYearTrophyRow = {
@@ -191,6 +189,14 @@ type TopPlayerOfYearComparison = {
   above?: TopPlayerOfYearCandidate | null;
   below?: TopPlayerOfYearCandidate | null;
 };
+type MapPickRow = {
+  matchId: number;
+  teamId: number;
+  map: string;
+  ownResult: number;
+  ownScore: number | null;
+  opponentScore: number | null;
+};
 type MapPoolNewsEntry = {
   id: number;
   position: number | null;
@@ -1895,11 +1901,10 @@ async function getTopPlayersOfYearCandidates(
       "Opponent"."teamId" AS "opponentTeamId",
       "OpponentTeam"."name" AS "opponentTeamName",
       "Opponent"."score" AS "opponentScore",
-      "MatchPlayerGameStat"."kills" AS "kills",
-      "MatchPlayerGameStat"."assists" AS "assists",
-      "MatchPlayerGameStat"."deaths" AS "deaths",
+      ${Prisma.raw(MatchPlayerGameDetailStats.RATING_COLUMNS_SQL)},
       AVG("OpponentTeam"."elo") AS "opponentElo"
     FROM "MatchPlayerGameStat"
+    ${Prisma.raw(MatchPlayerGameDetailStats.RATING_JOIN_SQL)}
     INNER JOIN "Match"
       ON "Match"."id" = "MatchPlayerGameStat"."matchId"
     INNER JOIN "Competition"
@@ -2054,7 +2059,7 @@ async function getTopPlayersOfYearCandidates(
 
   rows.forEach((row) => {
     const impact = getTopPlayersOfYearEventWeight(row.tierSlug, row.federationSlug);
-    const rating = Util.getPlayerRating(Number(row.kills), Number(row.deaths), Number(row.assists));
+    const rating = MatchPlayerGameDetailStats.getGameRating(row);
 
     if (!Number.isFinite(rating)) {
       return;
@@ -3758,6 +3763,94 @@ async function buildTopPlayersOfYearDraft(
   };
 }
 
+/**
+ * Builds the article about last month's biggest FACEIT climbers.
+ *
+ * It only runs during the first days of a month and
+ * returns `null` when nobody climbed last month.
+ *
+ * @param publishedAt When the article is published.
+ * @function
+ */
+async function buildFaceitClimbersDraft(publishedAt: Date): Promise<NewsDraft | null> {
+  if (publishedAt.getDate() > FACEIT_CLIMBERS_WINDOW_DAYS) {
+    return null;
+  }
+
+  const season = getSeason(subMonths(publishedAt, 1));
+  const climbers = await findClimbers(season, FACEIT_CLIMBERS_SIZE);
+
+  if (!climbers.length) {
+    return null;
+  }
+
+  const players = await DatabaseClient.prisma.player.findMany({
+    where: { id: { in: climbers.map((climber) => climber.playerId) } },
+    select: {
+      id: true,
+      name: true,
+      avatar: true,
+      country: { select: { code: true } },
+      team: { select: { blazon: true } },
+    },
+  });
+  const playersById = new Map(players.map((player) => [player.id, player]));
+  const entries = climbers
+    .map((climber) => ({ ...climber, player: playersById.get(climber.playerId) }))
+    .filter((entry) => entry.player);
+
+  if (!entries.length) {
+    return null;
+  }
+
+  const leader = entries[0];
+  const leaderName = playerName(leader.player);
+  const month = format(new Date(`${season}-01T00:00:00`), 'MMMM');
+  const seed = Number(season.replace('-', ''));
+
+  return {
+    type: entries.length >= 3 ? 'ARTICLE' : 'SHORT',
+    topic: 'RANKINGS',
+    headline: pickVariant(
+      [
+        `FACEIT climbers of ${month}`,
+        `${leaderName} leads the FACEIT climbers of ${month}`,
+        `The biggest FACEIT risers of ${month}`,
+      ],
+      seed,
+    ),
+    summary: `${leaderName} gained ${leader.elo - leader.previousElo} Elo in ${month} to climb to #${leader.rank} of their region.`,
+    body: [
+      `# FACEIT climbers of ${month}`,
+      '',
+      pickVariant(
+        [
+          `The month-end FACEIT leaderboards are in and these are the players that gained the most Elo in ${month}.`,
+          `${month} is in the books and a handful of players made big moves up the FACEIT ladder.`,
+          `These are the players that climbed the hardest on the FACEIT ladder during ${month}.`,
+        ],
+        seed + 7,
+      ),
+      '',
+      ...entries.map(
+        (entry, index) =>
+          `${index + 1}. ${playerLink(entry.player)}: ${entry.previousElo} → ${entry.elo} Elo (+${
+            entry.elo - entry.previousElo
+          }), #${entry.previousRank} → #${entry.rank} in their region, level ${entry.level}.`,
+      ),
+    ].join('\n'),
+    image: playerImage(leader.player, leader.player.team || undefined),
+    priority: 60,
+    eventKey: `${AUTO_EVENT_PREFIX}:faceit-climbers:${season}`,
+    payload: {
+      flagCode: 'other',
+      season,
+      relatedPlayers: entries.map((entry) => toRelatedPlayer(entry.player)).filter(Boolean),
+    },
+    publishedAt,
+  };
+}
+
 async function getCompetitionMvpStoryDate(competitionId: number, fallback: Date) {
   const match = await DatabaseClient.prisma.match.findFirst({
     orderBy: [{ date: 'desc' }, { id: 'desc' }],
@@ -3779,10 +3872,9 @@ async function getCompetitionMvpContenders(competitionId: number, mvpPlayerId: n
     SELECT
       "MatchPlayerGameStat"."playerId" AS "playerId",
       "Player"."name" AS "playerName",
-      "MatchPlayerGameStat"."kills" AS "kills",
-      "MatchPlayerGameStat"."assists" AS "assists",
-      "MatchPlayerGameStat"."deaths" AS "deaths"
+      ${Prisma.raw(MatchPlayerGameDetailStats.RATING_COLUMNS_SQL)}
     FROM "MatchPlayerGameStat"
+    ${Prisma.raw(MatchPlayerGameDetailStats.RATING_JOIN_SQL)}
     INNER JOIN "Player"
       ON "Player"."id" = "MatchPlayerGameStat"."playerId"
     INNER JOIN "Match"
@@ -3810,7 +3902,7 @@ async function getCompetitionMvpContenders(competitionId: number, mvpPlayerId: n
   const contenders = new Map<number, MvpContender & { ratingSum: number }>();
 
   rows.forEach((row) => {
-    const rating = Util.getPlayerRating(Number(row.kills), Number(row.deaths), Number(row.assists));
+    const rating = MatchPlayerGameDetailStats.getGameRating(row);
 
     if (!Number.isFinite(rating)) {
       return;
@@ -3935,17 +4027,12 @@ async function getPlayerAggregateStats(
   beforeDate?: Date | null,
 ) {
   const rows = await DatabaseClient.prisma.$queryRaw<
-    Array<{
-      assists: bigint | number | null;
-      deaths: bigint | number | null;
-      kills: bigint | number | null;
-    }>
+    Array<MatchPlayerGameDetailStats.PlayerGameRatingRow>
   >`
     SELECT
-      "MatchPlayerGameStat"."kills" AS "kills",
-      "MatchPlayerGameStat"."assists" AS "assists",
-      "MatchPlayerGameStat"."deaths" AS "deaths"
+      ${Prisma.raw(MatchPlayerGameDetailStats.RATING_COLUMNS_SQL)}
     FROM "MatchPlayerGameStat"
+    ${Prisma.raw(MatchPlayerGameDetailStats.RATING_JOIN_SQL)}
     INNER JOIN "Match" ON "Match"."id" = "MatchPlayerGameStat"."matchId"
     WHERE "Match"."status" = ${Constants.MatchStatus.COMPLETED}
       AND "Match"."competitionId" IS NOT NULL
@@ -3965,13 +4052,7 @@ async function getPlayerAggregateStats(
       }
   `;
   const ratings = rows
-    .map((row) =>
-      Util.getPlayerRating(
-        Number(row.kills || 0),
-        Number(row.deaths || 0),
-        Number(row.assists || 0),
-      ),
-    )
+    .map((row) => MatchPlayerGameDetailStats.getGameRating(row))
     .filter(Number.isFinite);
 
   if (!ratings.length) {
@@ -4556,6 +4637,125 @@ function buildEseaDailyRecapDrafts(matches: MatchSeed[], publishedAt: Date): New
     .filter(Boolean);
 }
 
+async function getMapPicks(matchIds: number[]) {
+  if (!matchIds.length) {
+    return [] as MapPickRow[];
+  }
+
+  return DatabaseClient.prisma.$queryRaw<MapPickRow[]>`
+    SELECT
+      "MatchVeto"."matchId" AS "matchId",
+      "MatchVeto"."teamId" AS "teamId",
+      "MatchVeto"."map" AS "map",
+      "own"."result" AS "ownResult",
+      "own"."score" AS "ownScore",
+      "opponent"."score" AS "opponentScore"
+    FROM "MatchVeto"
+    INNER JOIN "Game"
+      ON "Game"."matchId" = "MatchVeto"."matchId" AND "Game"."map" = "MatchVeto"."map"
+    INNER JOIN "GameToTeam" AS "own"
+      ON "own"."gameId" = "Game"."id" AND "own"."teamId" = "MatchVeto"."teamId"
+    INNER JOIN "GameToTeam" AS "opponent"
+      ON "opponent"."gameId" = "Game"."id" AND "opponent"."teamId" <> "MatchVeto"."teamId"
+    WHERE "MatchVeto"."type" = ${Constants.MapVetoAction.PICK}
+      AND "MatchVeto"."matchId" IN (${Prisma.join(matchIds)})
+      AND "own"."result" IS NOT NULL
+    ORDER BY "MatchVeto"."id" ASC
+  `;
+}
+
+function buildMapPickDraft(
+  match: MatchSeed,
+  picks: MapPickRow[],
+  topTeamIds: Set<number>,
+  publishedAt: Date,
+): NewsDraft | null {
+  if (
+    isQualifierCompetition(match.competition) ||
+    isEseaNormalCompetition(match.competition) ||
+    !match.competitors.some((competitor) => topTeamIds.has(competitor.teamId))
+  ) {
+    return null;
+  }
+
+  const seriesWinner = match.competitors.find(
+    (competitor) => competitor.result === Constants.MatchResult.WIN,
+  );
+
+  // the series winner's own pick makes for the better story,
+  // otherwise fall back to a pick that backfired on its team
+  const pick =
+    picks.find(
+      (entry) =>
+        entry.teamId === seriesWinner?.teamId && entry.ownResult === Constants.MatchResult.WIN,
+    ) || picks.find((entry) => entry.ownResult === Constants.MatchResult.LOSS);
+
+  if (!pick) {
+    return null;
+  }
+
+  const picker = match.competitors.find((competitor) => competitor.teamId === pick.teamId);
+  const opponent = match.competitors.find((competitor) => competitor.teamId !== pick.teamId);
+
+  if (!picker?.team || !opponent?.team) {
+    return null;
+  }
+
+  const pickerName = teamName(picker.team);
+  const opponentName = teamName(opponent.team);
+  const mapName = stylizeMapName(pick.map);
+  const mapScore = `${pick.ownScore ?? 0}-${pick.opponentScore ?? 0}`;
+  const competitionName = getCompetitionName(match);
+  const pickWon = pick.ownResult === Constants.MatchResult.WIN;
+  const seed = match.id * 31 + pick.teamId;
+  const headline = pickWon
+    ? pickVariant(
+        [
+          `${pickerName} picked ${mapName} and made it count against ${opponentName}`,
+          `${pickerName}'s ${mapName} pick pays off against ${opponentName}`,
+          `${mapName} pick delivers for ${pickerName} against ${opponentName}`,
+        ],
+        seed,
+      )
+    : pickVariant(
+        [
+          `${opponentName} punish ${pickerName}'s ${mapName} pick`,
+          `${pickerName}'s ${mapName} pick backfires against ${opponentName}`,
+        ],
+        seed,
+      );
+
+  return {
+    type: 'SHORT',
+    topic: 'MATCHES',
+    headline,
+    summary: pickWon
+      ? `${pickerName} picked ${mapName} in the veto and won it ${mapScore} against ${opponentName} in ${competitionName}.`
+      : `${pickerName} picked ${mapName} in the veto but dropped it ${mapScore} against ${opponentName} in ${competitionName}.`,
+    body: [
+      pickWon
+        ? `${pickerName} went into the veto with a plan, picking ${mapName} against ${opponentName} and taking it ${mapScore}.`
+        : `${pickerName} backed themselves on ${mapName} in the veto, but ${opponentName} turned the map around and won it ${pick.opponentScore ?? 0}-${pick.ownScore ?? 0}.`,
+      '',
+      `The series finished ${scoreLine(match)} in ${getRoundLabel(match)} of ${competitionName}.`,
+    ].join('\n'),
+    image: teamBlazon(picker.team),
+    priority: 64,
+    eventKey: `${AUTO_EVENT_PREFIX}:map-pick:${match.id}`,
+    payload: {
+      matchId: match.id,
+      competitionId: match.competitionId,
+      map: pick.map,
+      teamIds: match.competitors.map((competitor) => competitor.teamId).filter(Boolean),
+      flagCode: getCompetitionFlagCode(match.competition),
+      relatedTeams: match.competitors
+        .map((competitor) => toRelatedTeam(competitor.team))
+        .filter(Boolean),
+    },
+    publishedAt,
+  };
+}
+
 async function buildQualifierDraft(
   competition: NewsCompetition,
   publishedAt: Date,
@@ -5162,16 +5362,26 @@ async function buildTransferDraft(
   const baseHeadline = canUseReplacementTitle
     ? pickVariant(replacementTitles, transfer.id)
     : pickVariant(baseTitlePool, transfer.id);
-  const headline =
-    !canUseReplacementTitle && benchedPlayer && transfer.id % 6 === 0
+  const headline = transfer.buyout
+    ? `${baseHeadline}, buyout triggered`
+    : !canUseReplacementTitle && benchedPlayer && transfer.id % 6 === 0
       ? `${baseHeadline}, ${benchedName} benched`
       : !canUseReplacementTitle && benchedPlayer && transfer.id % 6 === 1
         ? `${baseHeadline}, as ${benchedName} is benched`
         : baseHeadline;
   const feeLine =
-    fee > 0 && !isFreeAgentSigning
-      ? `The deal is understood to be worth ${fee.toLocaleString('en-US')}.`
-      : null;
+    transfer.buyout && seller
+      ? pickVariant(
+          [
+            `${destinationLabel} triggered the ${fee.toLocaleString('en-US')} buyout in ${targetLabel}'s contract, leaving ${sellerLabel} with no say in the move.`,
+            `The move went through after ${destinationLabel} paid the ${fee.toLocaleString('en-US')} release clause in ${targetLabel}'s ${sellerLabel} contract.`,
+            `${sellerLabel} could not stand in the way once ${destinationLabel} triggered ${targetLabel}'s ${fee.toLocaleString('en-US')} buyout clause.`,
+          ],
+          transfer.id + 67,
+        )
+      : fee > 0 && !isFreeAgentSigning
+        ? `The deal is understood to be worth ${fee.toLocaleString('en-US')}.`
+        : null;
   const freeAgentOpeners = [
     `${targetLabel} joins ${destinationLabel} as a free agent as the organization hopes to improve its roster with the newest addition.`,
     `${destinationLabel} have added ${targetLabel} on a free transfer, giving the team a new piece to work with before the next run of matches.`,
@@ -5993,6 +6203,7 @@ export async function generateAutomaticItems(date?: Date) {
 
   if (includeStatistics) {
     await backfillMissingMatchPlayerGameStats();
+    await MatchPlayerGameDetailStats.ensureMatchPlayerGameDetailStatTable();
   }
 
   const transfers = await getCompletedTransfersForNews();
@@ -6018,8 +6229,29 @@ export async function generateAutomaticItems(date?: Date) {
   const topPlayersOfYearDraft = includeStatistics
     ? await buildTopPlayersOfYearDraft(publishedAt, allMvps)
     : null;
+  const faceitClimbersDraft = await buildFaceitClimbersDraft(publishedAt);
+  const recentMatches = await getRecentCompletedMatches(publishedAt);
+  const mapPicks = await getMapPicks(recentMatches.map((match) => match.id));
+  const mapPickDrafts = recentMatches
+    .map((match) =>
+      buildMapPickDraft(
+        match,
+        mapPicks.filter((pick) => pick.matchId === match.id),
+        topTeamIds,
+        publishedAt,
+      ),
+    )
+    .filter(Boolean);
 
-  return createDrafts([...transferDrafts, ...mvpDrafts, topPlayersOfYearDraft].filter(Boolean));
+  return createDrafts(
+    [
+      ...transferDrafts,
+      ...mvpDrafts,
+      ...mapPickDrafts,
+      topPlayersOfYearDraft,
+      faceitClimbersDraft,
+    ].filter(Boolean),
+  );
 }
 
 export async function generatePrototypeItems() {
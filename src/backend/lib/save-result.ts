@@ -1,6 +1,7 @@
 import { DatabaseClient, sealActiveSaveIntegrity } from "@liga/backend/lib";
 import { Constants, Util } from "@liga/shared";
 import * as XpEconomy from "@liga/backend/lib/xp-economy";
+import * as FaceitPenalty from "@liga/backend/lib/faceit-penalties";
 
 type MatchPlayerLite = {
   id: number;
@@ -132,9 +133,13 @@ export async function saveFaceitResult(
     return null;
   };
 
-  const events = Array.isArray(gameServer.scorebotEvents)
-    ? gameServer.scorebotEvents
-    : [];
+  // economy, damage and utility events are only used for the
+  // detail stats so they are left out of the match event log
+  const events = (
+    Array.isArray(gameServer.scorebotEvents) ? gameServer.scorebotEvents : []
+  ).filter((event: any) =>
+    ["playerassisted", "playerkilled", "roundover"].includes(event.type)
+  );
 
   const eventsToCreate = events.map((event: any) => {
     const attacker = event.payload.attacker ?? null;
@@ -225,11 +230,14 @@ export async function saveFaceitResult(
 
   const delta = playerWin ? eloGain : -eloLoss;
 
-  await prisma.profile.update({
+  const updatedProfile = await prisma.profile.update({
     where: { id: profile.id },
     data: { faceitElo: profile.faceitElo + delta },
   });
 
+  // every completed pug wins back some reliability lost to dodges
+  await FaceitPenalty.recover(updatedProfile);
+
   await Promise.all(
     teamA
       .filter((p) => p.id !== profile.player.id)
@@ -258,6 +266,8 @@ export async function saveFaceitResult(
       faceitOpponents: JSON.stringify(teamB),
       faceitRating: null,
       faceitEloDelta: delta,
+      faceitEncounter: payload.encounter?.type ?? null,
+      faceitEncounterPlayerId: payload.encounter?.playerId ?? null,
     },
   });
 
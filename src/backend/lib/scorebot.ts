@@ -13,11 +13,19 @@ import log from 'electron-log';
 
 /** @enum {EventIdentifier} */
 export enum EventIdentifier {
+  BOMB_DEFUSED = 'bombdefused',
+  BOMB_PLANTED = 'bombplanted',
   GAME_OVER = 'gameover',
   PLAYER_ASSISTED = 'playerassisted',
+  PLAYER_ATTACKED = 'playerattacked',
+  PLAYER_CALLED = 'playercalled',
+  PLAYER_CLUTCH = 'playerclutch',
   PLAYER_CONNECTED = 'playerconnected',
   PLAYER_ENTERED = 'playerentered',
   PLAYER_KILLED = 'playerkilled',
+  PLAYER_MONEY_CHANGED = 'playermoneychanged',
+  PLAYER_PURCHASED = 'playerpurchased',
+  PLAYER_THREW = 'playerthrew',
   ROUND_OVER = 'roundover',
   SAY = 'say',
   SERVER_LOG_CLOSED = 'serverlogclosed',
@@ -28,6 +36,19 @@ export interface EventPayload {
   timestamp: Date;
 }
 
+/** @interface */
+export interface EventPlayer {
+  name: string;
+  serverId: string;
+  steamId: string;
+  team: string;
+}
+
+/** @interface */
+export interface EventPayloadBomb extends EventPayload {
+  player: EventPlayer;
+}
+
 /** @interface */
 export interface EventPayloadGameOver extends EventPayload {
   map: string;
@@ -50,6 +71,40 @@ export interface EventPayloadPlayerAssisted extends EventPayload {
   };
 }
 
+/** @interface */
+export interface EventPayloadPlayerAttacked extends EventPayload {
+  attacker: EventPlayer;
+  victim: EventPlayer;
+  weapon: string;
+  damage: number;
+  damageArmor: number;
+  health: number;
+  hitgroup: string | null;
+}
+
+/**
+ * Emitted when a player types a chat command such as `.tac`.
+ *
+ * @interface
+ */
+export interface EventPayloadPlayerCalled extends EventPayload {
+  player: EventPlayer;
+  call: string;
+  args: Array<string>;
+}
+
+/**
+ * Emitted when a round ends for every player that was
+ * left alone against at least one opponent during it.
+ *
+ * @interface
+ */
+export interface EventPayloadPlayerClutch extends EventPayload {
+  player: EventPlayer;
+  opponents: number;
+  won: boolean;
+}
+
 /** @interface */
 export interface EventPayloadPlayerKilled extends EventPayload {
   attacker: {
@@ -68,6 +123,27 @@ export interface EventPayloadPlayerKilled extends EventPayload {
   headshot: boolean;
 }
 
+/** @interface */
+export interface EventPayloadPlayerMoneyChanged extends EventPayload {
+  player: EventPlayer;
+  previous: number;
+  delta: number;
+  total: number;
+  purchase: string | null;
+}
+
+/** @interface */
+export interface EventPayloadPlayerPurchased extends EventPayload {
+  player: EventPlayer;
+  item: string;
+}
+
+/** @interface */
+export interface EventPayloadPlayerThrew extends EventPayload {
+  player: EventPlayer;
+  grenade: string;
+}
+
 /** @interface */
 export interface EventPayloadRoundOver extends EventPayload {
   winner: number;
@@ -84,11 +160,19 @@ export interface EventPayloadPlayerEntered extends EventPayload {
 
 /** @interface */
 export interface ScorebotEvents {
+  [EventIdentifier.BOMB_DEFUSED]: (payload: EventPayloadBomb) => void;
+  [EventIdentifier.BOMB_PLANTED]: (payload: EventPayloadBomb) => void;
   [EventIdentifier.GAME_OVER]: (payload: EventPayloadGameOver) => void;
   [EventIdentifier.PLAYER_ASSISTED]: (payload: EventPayloadPlayerAssisted) => void;
+  [EventIdentifier.PLAYER_ATTACKED]: (payload: EventPayloadPlayerAttacked) => void;
+  [EventIdentifier.PLAYER_CALLED]: (payload: EventPayloadPlayerCalled) => void;
+  [EventIdentifier.PLAYER_CLUTCH]: (payload: EventPayloadPlayerClutch) => void;
   [EventIdentifier.PLAYER_CONNECTED]: () => void;
   [EventIdentifier.PLAYER_ENTERED]: (payload: EventPayloadPlayerEntered) => void;
   [EventIdentifier.PLAYER_KILLED]: (payload: EventPayloadPlayerKilled) => void;
+  [EventIdentifier.PLAYER_MONEY_CHANGED]: (payload: EventPayloadPlayerMoneyChanged) => void;
+  [EventIdentifier.PLAYER_PURCHASED]: (payload: EventPayloadPlayerPurchased) => void;
+  [EventIdentifier.PLAYER_THREW]: (payload: EventPayloadPlayerThrew) => void;
   [EventIdentifier.ROUND_OVER]: (payload: EventPayloadRoundOver) => void;
   [EventIdentifier.SAY]: (payload: string) => void;
   [EventIdentifier.SERVER_LOG_CLOSED]: () => void;
@@ -100,21 +184,40 @@ export const TeamIdentifier: Record<string, number> = {
   CT: 1,
 };
 
+/**
+ * The chat commands that call a tactical timeout.
+ *
+ * @constant
+ */
+export const TimeoutCalls = ['tac', 'timeout'];
+
 /** @constant */
 export const RegexTypes = {
+  BOMB_DEFUSED_REGEX: new RegExp(/"(.+)" triggered "Defused_The_Bomb"/),
+  BOMB_PLANTED_REGEX: new RegExp(/"(.+)" triggered "Planted_The_Bomb"/),
   GAME_OVER_REGEX: new RegExp(/(?:Game Over)(?:.+)de_(\S+)(?:\D+)([\d]{1,2})\s?:\s?([\d]{1,2})/),
   PLAYER_ASSISTED_REGEX: new RegExp(/"(.+)" assisted killing "(.+)"/),
+  PLAYER_ATTACKED_REGEX: new RegExp(
+    /"(.+)" (?:\[.+\]\s)?attacked "(.+)" (?:\[.+\]\s)?with "(\S*)" \(damage "(\d+)"\) \(damage_armor "(\d+)"\) \(health "(\d+)"\)(?:.+\(hitgroup "(.+)"\))?/,
+  ),
+  PLAYER_CALLED_REGEX: new RegExp(/"(.+)" say(?:_team)? "\.(\S+)\s*(.*)"/),
   PLAYER_CONNECTED_REGEX: new RegExp(/"(?:.+)" connected, address "loopback:0"/),
   PLAYER_ENTERED_REGEX: new RegExp(/"(.+)" entered the game/),
   PLAYER_KILLED_REGEX: new RegExp(
     /"(.+)" (?:\[.+\]\s)?killed "(.+)" (?:\[.+\]\s)?with "(\S+)"\s?(\(headshot\))?/,
   ),
+  PLAYER_MONEY_CHANGED_REGEX: new RegExp(
+    /"(.+)" money change (\d+)([+-]\d+) = \$(\d+)(?:.+\(purchase: (\S+)\))?/,
+  ),
+  PLAYER_PURCHASED_REGEX: new RegExp(/"(.+)" purchased "(\S+)"/),
   PLAYER_REGEX: new RegExp(
     /(.+)<(\d+)><(STEAM_\d:\d:\d+|STEAM_ID_LAN|BOT|Console|\[.+\])><(TERRORIST|CT)>?/,
   ),
   PLAYER_REGEX_NO_TEAM: new RegExp(
     /(.+)<(\d+)><(STEAM_\d:\d:\d+|STEAM_ID_LAN|BOT|Console|\[.+\])><>?/,
   ),
+  PLAYER_SWITCHED_TEAM_REGEX: new RegExp(/"(.+)<\d+><.+>" switched from team <.*> to <(.*)>/),
+  PLAYER_THREW_REGEX: new RegExp(/"(.+)" threw (\w+)/),
   ROUND_OVER_REGEX: new RegExp(
     /Team "(TERRORIST|CT)" triggered "(.+)"(?:.+)\(.+"(\d+)"\)(?:.+)\(.+"(\d+)"\)/,
   ),
@@ -139,12 +242,18 @@ export class Watcher extends events.EventEmitter {
   private file: string;
   private tail: Tail.Watcher;
   private lineSplitter: readline.Interface;
+  private roster: Map<string, EventPlayer>;
+  private roundDeaths: Set<string>;
+  private roundClutches: Map<string, Omit<EventPayloadPlayerClutch, 'won' | 'timestamp'>>;
   public log: log.LogFunctions;
 
   constructor(file: string) {
     super();
     this.file = file;
     this.log = log.scope('scorebot');
+    this.roster = new Map();
+    this.roundDeaths = new Set();
+    this.roundClutches = new Map();
     this.tail = new Tail.Watcher(file, {
       encoding: 'utf8',
       pollFileIntervalMs: 250,
@@ -155,6 +264,63 @@ export class Watcher extends events.EventEmitter {
     this.tail.on(Tail.EventIdentifier.CLOSE, () => this.log.info('Shutdown.'));
   }
 
+  /**
+   * Parses a player signature and keeps track of
+   * which side the player is currently on.
+   *
+   * @param signature The player signature.
+   * @function
+   */
+  private parsePlayer(signature: string): EventPlayer | null {
+    const regexmatch = signature.match(RegexTypes.PLAYER_REGEX);
+
+    if (!regexmatch) {
+      return null;
+    }
+
+    const [, name, serverId, steamId, team] = regexmatch;
+    const player = { name, serverId, steamId, team };
+    this.roster.set(name, player);
+    return player;
+  }
+
+  /**
+   * Gets the players on a side that are still alive this round.
+   *
+   * @param team The side.
+   * @function
+   */
+  private getAlivePlayers(team: string) {
+    return [...this.roster.values()].filter(
+      (player) => player.team === team && !this.roundDeaths.has(player.name),
+    );
+  }
+
+  /**
+   * Flags the last player alive on a side as being in a clutch
+   * unless the opposing side was already left with one player.
+   *
+   * @function
+   */
+  private updateClutches() {
+    const sides = Object.keys(TeamIdentifier);
+
+    sides.forEach((team, idx) => {
+      const opponentTeam = sides[1 - idx];
+      const alive = this.getAlivePlayers(team);
+      const opponents = this.getAlivePlayers(opponentTeam);
+
+      if (
+        alive.length === 1 &&
+        opponents.length > 0 &&
+        !this.roundClutches.has(team) &&
+        !this.roundClutches.has(opponentTeam)
+      ) {
+        this.roundClutches.set(team, { player: alive[0], opponents: opponents.length });
+      }
+    });
+  }
+
   /**
    * Handles incoming line stream data.
    *
@@ -183,6 +349,19 @@ export class Watcher extends events.EventEmitter {
 
     if (regexmatch) {
       this.emit(EventIdentifier.SAY, regexmatch[1]);
+
+      // chat commands start with a dot
+      const callmatch = line.match(RegexTypes.PLAYER_CALLED_REGEX);
+      const player = callmatch && this.parsePlayer(callmatch[1]);
+
+      if (player) {
+        this.emit(EventIdentifier.PLAYER_CALLED, {
+          player,
+          call: callmatch[2].toLowerCase(),
+          args: callmatch[3].split(/\s+/).filter(Boolean),
+          timestamp,
+        });
+      }
       return;
     }
 
@@ -202,8 +381,19 @@ export class Watcher extends events.EventEmitter {
     regexmatch = line.match(RegexTypes.ROUND_OVER_REGEX);
 
     if (regexmatch) {
+      const winner = TeamIdentifier[regexmatch[1]];
+
+      this.roundClutches.forEach((clutch) => {
+        this.emit(EventIdentifier.PLAYER_CLUTCH, {
+          ...clutch,
+          won: TeamIdentifier[clutch.player.team] === winner,
+          timestamp,
+        });
+      });
+      this.roundClutches.clear();
+      this.roundDeaths.clear();
       this.emit(EventIdentifier.ROUND_OVER, {
-        winner: TeamIdentifier[regexmatch[1]], // can be: CT or TERRORIST
+        winner, // can be: CT or TERRORIST
         event: regexmatch[2], // e.g.: CTs_Win or Target_Bombed
         score: regexmatch.slice(3).map((score) => parseInt(score)), // e.g.: [ 0 (t) , 1 (ct) ]
         timestamp,
@@ -211,6 +401,108 @@ export class Watcher extends events.EventEmitter {
       return;
     }
 
+    // player damage events
+    regexmatch = line.match(RegexTypes.PLAYER_ATTACKED_REGEX);
+
+    if (regexmatch) {
+      const [, attackerSignature, victimSignature, weapon, damage, damageArmor, health, hitgroup] =
+        regexmatch;
+      const attacker = this.parsePlayer(attackerSignature);
+      const victim = this.parsePlayer(victimSignature);
+
+      if (attacker && victim) {
+        this.emit(EventIdentifier.PLAYER_ATTACKED, {
+          attacker,
+          victim,
+          weapon,
+          damage: parseInt(damage),
+          damageArmor: parseInt(damageArmor),
+          health: parseInt(health),
+          hitgroup: hitgroup || null,
+          timestamp,
+        });
+      }
+      return;
+    }
+
+    // economy events
+    regexmatch = line.match(RegexTypes.PLAYER_MONEY_CHANGED_REGEX);
+
+    if (regexmatch) {
+      const [, playerSignature, previous, delta, total, purchase] = regexmatch;
+      const player = this.parsePlayer(playerSignature);
+
+      if (player) {
+        this.emit(EventIdentifier.PLAYER_MONEY_CHANGED, {
+          player,
+          previous: parseInt(previous),
+          delta: parseInt(delta),
+          total: parseInt(total),
+          purchase: purchase || null,
+          timestamp,
+        });
+      }
+      return;
+    }
+
+    regexmatch = line.match(RegexTypes.PLAYER_PURCHASED_REGEX);
+
+    if (regexmatch) {
+      const [, playerSignature, item] = regexmatch;
+      const player = this.parsePlayer(playerSignature);
+
+      if (player) {
+        this.emit(EventIdentifier.PLAYER_PURCHASED, { player, item, timestamp });
+      }
+      return;
+    }
+
+    // grenade events
+    regexmatch = line.match(RegexTypes.PLAYER_THREW_REGEX);
+
+    if (regexmatch) {
+      const [, playerSignature, grenade] = regexmatch;
+      const player = this.parsePlayer(playerSignature);
+
+      if (player) {
+        this.emit(EventIdentifier.PLAYER_THREW, { player, grenade, timestamp });
+      }
+      return;
+    }
+
+    // bomb events
+    regexmatch =
+      line.match(RegexTypes.BOMB_PLANTED_REGEX) || line.match(RegexTypes.BOMB_DEFUSED_REGEX);
+
+    if (regexmatch) {
+      const player = this.parsePlayer(regexmatch[1]);
+
+      if (player) {
+        this.emit(
+          RegexTypes.BOMB_PLANTED_REGEX.test(line)
+            ? EventIdentifier.BOMB_PLANTED
+            : EventIdentifier.BOMB_DEFUSED,
+          { player, timestamp },
+        );
+      }
+      return;
+    }
+
+    // side swaps only matter for tracking clutches
+    regexmatch = line.match(RegexTypes.PLAYER_SWITCHED_TEAM_REGEX);
+
+    if (regexmatch) {
+      const [, name, team] = regexmatch;
+      const player = this.roster.get(name);
+
+      if (player && team in TeamIdentifier) {
+        this.roster.set(name, { ...player, team });
+      } else if (player) {
+        this.roster.delete(name);
+      }
+      return;
+    }
+
     // player killed event
     regexmatch = line.match(RegexTypes.PLAYER_KILLED_REGEX);
 
@@ -238,6 +530,12 @@ export class Watcher extends events.EventEmitter {
         weapon,
         timestamp,
       });
+
+      // keep track of who is still alive in order to catch clutches
+      this.parsePlayer(attackerSignature);
+      this.parsePlayer(victimSignature);
+      this.roundDeaths.add(victimName);
+      this.updateClutches();
     }
 
     // player assisted event
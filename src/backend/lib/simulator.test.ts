@@ -0,0 +1,141 @@
+import assert from 'node:assert/strict';
+import { Constants } from '@liga/shared';
+import { BuyType, Score, getMatchResult } from './simulator';
+
+type TeamFixture = Parameters<Score['generateMap']>[0][number];
+
+const personalities = [
+  Constants.PersonalityTemplate.ENTRY,
+  Constants.PersonalityTemplate.RIFLE,
+  Constants.PersonalityTemplate.PLURK,
+  Constants.PersonalityTemplate.SNIPER,
+  Constants.PersonalityTemplate.ARIFLE,
+];
+
+/**
+ * Builds a team of five starters with the same XP.
+ *
+ * @param id        The team id.
+ * @param xp        The XP of every player.
+ * @param prestige  The team prestige.
+ * @function
+ */
+function team(id: number, xp: number, prestige = 2) {
+  return {
+    id,
+    name: `Team ${id}`,
+    prestige,
+    tier: prestige,
+    players: personalities.map((personality, idx) => ({
+      id: id * 10 + idx,
+      name: `player${id}${idx}`,
+      xp,
+      personality,
+      role: idx === 3 ? Constants.PlayerRole.SNIPER : Constants.PlayerRole.RIFLER,
+      starter: true,
+      transferListed: false,
+    })),
+  } as unknown as TeamFixture;
+}
+
+const home = team(1, 70);
+const away = team(2, 70);
+
+for (let idx = 0; idx < 200; idx++) {
+  const simulation = new Score().generateMap([home, away], 'de_nuke');
+  const homeScore = simulation.score[home.id];
+  const awayScore = simulation.score[away.id];
+  const winnerScore = Math.max(homeScore, awayScore);
+  const loserScore = Math.min(homeScore, awayScore);
+
+  assert.notEqual(homeScore, awayScore, 'cup maps must always produce a winner');
+  assert.equal(
+    simulation.rounds.length,
+    homeScore + awayScore,
+    'every round must be accounted for in the scoreline',
+  );
+  assert.deepEqual(
+    simulation.rounds[simulation.rounds.length - 1].score,
+    simulation.score,
+    'the last round must carry the final scoreline',
+  );
+  assert.equal(simulation.rounds[0].buys[home.id], BuyType.PISTOL, 'maps start on a pistol round');
+
+  if (simulation.rounds.length <= 24) {
+    assert.equal(winnerScore, 13, 'regulation maps are won at 13 rounds');
+    assert.ok(loserScore <= 11, 'regulation losers cannot reach 12 rounds');
+  } else {
+    assert.equal(
+      (winnerScore - 12) % 3,
+      1,
+      'overtime maps are won by reaching 4 rounds in the final overtime',
+    );
+    assert.deepEqual(
+      Object.values(simulation.rounds[24].buys),
+      [BuyType.FULL, BuyType.FULL],
+      'overtimes start with full buys',
+    );
+  }
+
+  simulation.rounds.forEach((round) => {
+    const loserTeamId = round.winnerTeamId === home.id ? away.id : home.id;
+    const loserLineup = simulation.lineups[loserTeamId];
+    const winnerLineup = simulation.lineups[round.winnerTeamId];
+    const winnerDeaths = round.kills.filter((kill) => winnerLineup.includes(kill.victimId));
+
+    assert.ok(round.kills.length <= 9, 'a round cannot have more than nine kills');
+    assert.ok(winnerDeaths.length < winnerLineup.length, 'round winners must have a survivor');
+    assert.ok(
+      round.kills.every(
+        (kill) => loserLineup.includes(kill.victimId) !== loserLineup.includes(kill.attackerId),
+      ),
+      'players can only kill members of the opposing team',
+    );
+  });
+}
+
+const drawSimulator = new Score(true);
+const drawScores = [...Array(300)].map(() => drawSimulator.generate([home, away], 'de_dust2'));
+
+assert.ok(
+  drawScores.some((score) => score[home.id] === 12 && score[away.id] === 12),
+  'draws can happen when allowed',
+);
+assert.ok(
+  drawScores.every((score) => score[home.id] + score[away.id] <= 24),
+  'draws are settled in regulation without overtime',
+);
+
+const forcedSimulator = new Score();
+const underdog = team(3, 40, 0);
+const favorite = team(4, 95, 4);
+forcedSimulator.userTeamId = underdog.id;
+forcedSimulator.mode = Constants.SimulationMode.WIN;
+
+for (let idx = 0; idx < 20; idx++) {
+  assert.equal(
+    getMatchResult(underdog.id, forcedSimulator.generate([favorite, underdog])),
+    Constants.MatchResult.WIN,
+    'forced sim modes are honored',
+  );
+}
+
+const series = new Score().generateSeriesDetailed([home, away], 3, ['de_nuke', 'de_mirage']);
+
+assert.equal(
+  Math.max(series.score[home.id], series.score[away.id]),
+  2,
+  'a best-of-three is clinched at two maps',
+);
+assert.equal(series.simulations[0].map, 'de_nuke', 'maps are played in the provided order');
+assert.equal(series.maps.length, series.simulations.length, 'every map score has a simulation');
+
+const proficientSimulator = new Score();
+proficientSimulator.mapProficiency = { [home.id]: { de_inferno: 1 } };
+const proficientWins = [...Array(400)].filter(
+  () =>
+    getMatchResult(home.id, proficientSimulator.generate([home, away], 'de_inferno')) ===
+    Constants.MatchResult.WIN,
+).length;
+
+assert.ok(proficientWins > 220, 'teams win more often on maps they are proficient on');
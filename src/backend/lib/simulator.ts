@@ -1,13 +1,17 @@
 /**
- * Simulates match scores.
+ * Simulates match scores round-by-round.
+ *
+ * Every round tracks each team's economy and resolves a series of
+ * player duels until one side is eliminated, the bomb goes off or
+ * the losing side decides to save.
  *
  * @see {score}
  * @module
  */
 import type { Prisma } from '@prisma/client';
 import log from 'electron-log';
-import { random } from 'lodash';
-import { Constants, Bot, Chance, Util } from '@liga/shared';
+import { random, sample } from 'lodash';
+import { Constants, Bot, Util } from '@liga/shared';
 
 /** @constant */
 let simScaleFactor: number | null | undefined;
@@ -43,21 +47,198 @@ function getSimScaleFactor() {
 /** @type {Team} */
 type Team = Prisma.TeamGetPayload<{ include: { players: true } }>;
 
+/** @type {TeamPlayer} */
+type TeamPlayer = Team['players'][number];
+
 export type MapScore = Record<number, number>;
 
 export interface SeriesScore {
   maps: Array<MapScore>;
   score: MapScore;
+  simulations: Array<MapSimulation>;
+}
+
+/**
+ * Round economy states.
+ *
+ * @enum
+ */
+export enum BuyType {
+  PISTOL = 'pistol',
+  ECO = 'eco',
+  FORCE = 'force',
+  FULL = 'full',
+}
+
+/**
+ * Side identifiers which line up with
+ * the scorebot's `TeamIdentifier` values.
+ *
+ * @enum
+ */
+export enum RoundSide {
+  T = 0,
+  CT = 1,
+}
+
+/** @interface */
+export interface SimulatedKill {
+  attackerId: number;
+  victimId: number;
+  assistId?: number;
+  headshot: boolean;
+  opening: boolean;
+  weapon: string;
+}
+
+/** @interface */
+export interface SimulatedRound {
+  num: number;
+  half: number;
+  ctTeamId: number;
+  winnerTeamId: number;
+  event: string;
+  buys: Record<number, BuyType>;
+  kills: Array<SimulatedKill>;
+  score: MapScore;
 }
 
-/** @enum */
-enum SimulationResult {
-  DRAW = 12,
-  LOSE_HIGH = 11,
-  LOSE_LOW = 0,
-  WIN = 13,
+/** @interface */
+export interface MapSimulation {
+  map?: string;
+  score: MapScore;
+  rounds: Array<SimulatedRound>;
+  lineups: Record<number, Array<number>>;
 }
 
+/**
+ * CT-side round win bias per map.
+ *
+ * Values above `0.5` favor the CT side.
+ *
+ * @constant
+ */
+const MapSideBias: Record<string, number> = {
+  de_ancient: 0.52,
+  de_anubis: 0.47,
+  de_cache: 0.51,
+  de_dust2: 0.5,
+  de_inferno: 0.53,
+  de_mirage: 0.53,
+  de_nuke: 0.57,
+  de_overpass: 0.54,
+  de_train: 0.56,
+  de_tuscan: 0.51,
+  de_vertigo: 0.52,
+};
+
+/**
+ * Economy settings loosely based off of the
+ * competitive CS:GO server defaults.
+ *
+ * @constant
+ */
+const Economy = {
+  MAX_MONEY: 16_000,
+  START_MONEY: 800,
+  START_MONEY_OVERTIME: 10_000,
+  WIN_REWARD: 3250,
+  WIN_REWARD_BOMB: 3500,
+  LOSS_BONUS_BASE: 1400,
+  LOSS_BONUS_STEP: 500,
+  LOSS_BONUS_MAX: 3400,
+  PLANT_BONUS: 800,
+  SAVED_EQUIPMENT_VALUE: 2700,
+  COST: {
+    [BuyType.PISTOL]: 650,
+    [BuyType.ECO]: 200,
+    [BuyType.FORCE]: 2200,
+    [BuyType.FULL]: 4100,
+  },
+  FULL_BUY_CT_SURCHARGE: 400,
+};
+
+/**
+ * How much each buy type contributes towards winning a duel.
+ *
+ * @constant
+ */
+const BuyEquipmentFactor: Record<BuyType, number> = {
+  [BuyType.PISTOL]: 1,
+  [BuyType.ECO]: 0.45,
+  [BuyType.FORCE]: 0.75,
+  [BuyType.FULL]: 1,
+};
+
+/**
+ * Weapons used when generating kill events.
+ *
+ * @constant
+ */
+const BuyWeapons: Record<BuyType, Record<RoundSide, Array<string>>> = {
+  [BuyType.PISTOL]: {
+    [RoundSide.T]: ['glock', 'glock', 'p250', 'tec9'],
+    [RoundSide.CT]: ['usp_silencer', 'hkp2000', 'p250', 'fiveseven'],
+  },
+  [BuyType.ECO]: {
+    [RoundSide.T]: ['glock', 'p250', 'deagle', 'tec9'],
+    [RoundSide.CT]: ['usp_silencer', 'p250', 'deagle', 'fiveseven'],
+  },
+  [BuyType.FORCE]: {
+    [RoundSide.T]: ['galilar', 'mac10', 'deagle', 'ak47'],
+    [RoundSide.CT]: ['famas', 'mp9', 'deagle', 'ump45'],
+  },
+  [BuyType.FULL]: {
+    [RoundSide.T]: ['ak47', 'ak47', 'ak47', 'sg556'],
+    [RoundSide.CT]: ['m4a1', 'm4a1_silencer', 'm4a1', 'aug'],
+  },
+};
+
+/**
+ * Personality traits that influence who takes the first
+ * duels of a round and how well they convert them.
+ *
+ * - `aggression`: likelihood of being picked to take a duel.
+ * - `opening`: duel modifier for the first kill of a round.
+ * - `clutch`: duel modifier when their team is down to two or less players.
+ *
+ * @constant
+ */
+const PersonalityTraits: Record<string, { aggression: number; opening: number; clutch: number }> = {
+  [Constants.PersonalityTemplate.ENTRY]: { aggression: 1.6, opening: 1.06, clutch: 0.96 },
+  [Constants.PersonalityTemplate.ARIFLE]: { aggression: 1.35, opening: 1.04, clutch: 0.98 },
+  [Constants.PersonalityTemplate.ALURK]: { aggression: 1.2, opening: 1.03, clutch: 1 },
+  [Constants.PersonalityTemplate.ASNIPER]: { aggression: 1.3, opening: 1.05, clutch: 0.98 },
+  [Constants.PersonalityTemplate.RIFLE]: { aggression: 1, opening: 1, clutch: 1 },
+  [Constants.PersonalityTemplate.SNIPER]: { aggression: 1, opening: 1.02, clutch: 1 },
+  [Constants.PersonalityTemplate.LURK]: { aggression: 0.85, opening: 0.98, clutch: 1.04 },
+  [Constants.PersonalityTemplate.PRIFLE]: { aggression: 0.75, opening: 0.97, clutch: 1.04 },
+  [Constants.PersonalityTemplate.PSNIPER]: { aggression: 0.75, opening: 0.98, clutch: 1.05 },
+  [Constants.PersonalityTemplate.PLURK]: { aggression: 0.65, opening: 0.96, clutch: 1.06 },
+};
+
+/** @constant */
+const DEFAULT_PERSONALITY_TRAITS = { aggression: 1, opening: 1, clutch: 1 };
+
+/**
+ * Probability weight applied to a team when the
+ * simulation mode forces a specific winner.
+ *
+ * @constant
+ */
+const FORCED_WINNER_MULTIPLIER = 2.5;
+
+/** @constant */
+const FORCED_WINNER_MAX_ATTEMPTS = 50;
+
+/**
+ * How much a fully proficient team's duels are boosted
+ * on a map compared to a team that has never played it.
+ *
+ * @constant
+ */
+const MAP_PROFICIENCY_WEIGHT = 0.08;
+
 /**
  * Gets the match result for the specified competitor id.
  *
@@ -75,6 +256,109 @@ export function getMatchResult(id: number, scores: Record<number, number>) {
       : Constants.MatchResult.LOSS;
 }
 
+/**
+ * Gets the CT-side round win bias for the provided map.
+ *
+ * @param map The map name.
+ * @function
+ */
+export function getMapSideBias(map?: string | null) {
+  return MapSideBias[map] ?? 0.5;
+}
+
+/**
+ * Decides what a team buys for the upcoming round.
+ *
+ * @param money       Average money per player.
+ * @param side        The side the team is playing on.
+ * @param isPistol    Whether this is a pistol round.
+ * @param lossStreak  The team's current loss streak.
+ * @param mustForce   Whether losing this round would lose the half or map.
+ * @function
+ */
+function getBuyType(
+  money: number,
+  side: RoundSide,
+  isPistol: boolean,
+  lossStreak: number,
+  mustForce: boolean,
+) {
+  const fullBuyCost =
+    Economy.COST[BuyType.FULL] + (side === RoundSide.CT ? Economy.FULL_BUY_CT_SURCHARGE : 0);
+
+  if (isPistol) {
+    return BuyType.PISTOL;
+  }
+
+  if (money >= fullBuyCost) {
+    return BuyType.FULL;
+  }
+
+  // force when the team is riding a win, when the next loss bonus
+  // is already maxed out, or when there is simply no tomorrow
+  const lossBonusMaxed =
+    Economy.LOSS_BONUS_BASE + Economy.LOSS_BONUS_STEP * lossStreak >= Economy.LOSS_BONUS_MAX;
+
+  if (money >= Economy.COST[BuyType.FORCE] && (!lossStreak || mustForce || lossBonusMaxed)) {
+    return BuyType.FORCE;
+  }
+
+  return BuyType.ECO;
+}
+
+/**
+ * Gets the cost of the provided buy type.
+ *
+ * @param buy   The buy type.
+ * @param side  The side the team is playing on.
+ * @param money Average money per player.
+ * @function
+ */
+function getBuyCost(buy: BuyType, side: RoundSide, money: number) {
+  switch (buy) {
+    case BuyType.FULL:
+      return (
+        Economy.COST[BuyType.FULL] + (side === RoundSide.CT ? Economy.FULL_BUY_CT_SURCHARGE : 0)
+      );
+    default:
+      return Math.min(money, Economy.COST[buy]);
+  }
+}
+
+/**
+ * Gets the loss bonus for the provided loss streak.
+ *
+ * @param lossStreak The team's current loss streak.
+ * @function
+ */
+function getLossBonus(lossStreak: number) {
+  return Math.min(
+    Economy.LOSS_BONUS_MAX,
+    Economy.LOSS_BONUS_BASE + Economy.LOSS_BONUS_STEP * Math.max(0, lossStreak - 1),
+  );
+}
+
+/**
+ * Picks an item using their weights as the probability.
+ *
+ * @param items   The items to pick from.
+ * @param weight  Gets the weight of an item.
+ * @function
+ */
+function pickWeighted<T>(items: Array<T>, weight: (item: T) => number) {
+  const total = items.reduce((sum, item) => sum + weight(item), 0);
+  let roll = Math.random() * total;
+
+  for (const item of items) {
+    roll -= weight(item);
+    if (roll <= 0) {
+      return item;
+    }
+  }
+
+  return items[items.length - 1];
+}
+
 /**
  * Score simulator.
  *
@@ -86,6 +370,9 @@ export class Score {
   public mode: Constants.SimulationMode;
   public userPlayerId: number;
   public userTeamId: number;
+  public maxRounds: number;
+  public maxRoundsOvertime: number;
+  public mapProficiency: Record<number, Record<string, number>>;
 
   /**
    * @param allowDraw Allow draws.
@@ -96,16 +383,18 @@ export class Score {
     this.log = log.scope('simulator');
     this.allowDraw = allowDraw;
     this.mode = mode;
+    this.maxRounds = Constants.Settings.matchRules.maxRounds;
+    this.maxRoundsOvertime = Constants.Settings.matchRules.maxRoundsOvertime;
+    this.mapProficiency = {};
   }
 
   /**
-   * Generates a win probability weight based off of the
-   * conditions described in the `simulate` function.
+   * Builds the squad that will be taking part in the simulation.
    *
-   * @param team  The team.
+   * @param team The team.
    * @function
    */
-  private getTeamWinProbability(team: Team) {
+  private getSquad(team: Team) {
     // build a profile object for the `getSquad` function
     const profile = {
       teamId: this.userTeamId,
@@ -131,15 +420,38 @@ export class Score {
       );
     }
 
-    // generate the win probability per player
-    const totalXp = players.map((player) => Bot.Exp.getTotalXP(player.xp)).reduce((a, b) => a + b);
-    return totalXp + team.prestige + team.tier;
+    return players as Array<TeamPlayer>;
+  }
+
+  /**
+   * Gets the team-wide duel modifier which rewards more
+   * established teams and teams that know the map well.
+   *
+   * @param team  The team.
+   * @param map   The map being played.
+   * @function
+   */
+  private getTeamModifier(team: Team, map?: string | null) {
+    const proficiency = (map && this.mapProficiency[team.id]?.[map]) || 0;
+    return (
+      (1 + ((team.prestige ?? 0) + (team.tier ?? 0)) * 0.01) *
+      (1 + proficiency * MAP_PROFICIENCY_WEIGHT)
+    );
+  }
+
+  /**
+   * Gets a player's base duel weight.
+   *
+   * @param player The player.
+   * @function
+   */
+  private getPlayerWeight(player: TeamPlayer) {
+    return Math.max(1, 25 + Bot.Exp.getTotalXP(player.xp) * 1.8);
   }
 
   /**
    * Simulates a best-of series scoreline where each map
-   * win is decided by the same weighted probability model
-   * used by `generate`.
+   * is simulated round-by-round by `generateMap`.
    *
    * @param teams The home and away teams.
    * @param bestOf The series length (1/3/5).
@@ -153,128 +465,410 @@ export class Score {
    * Simulates a best-of series and returns both the aggregate
    * series score and the individual map scorelines that produced it.
    *
-   * @param teams The home and away teams.
-   * @param bestOf The series length (1/3/5).
+   * @param teams   The home and away teams.
+   * @param bestOf  The series length (1/3/5).
+   * @param maps    The map names in the order they will be played.
    * @function
    */
-  public generateSeriesDetailed(teams: Array<Team>, bestOf = 1): SeriesScore {
+  public generateSeriesDetailed(
+    teams: Array<Team>,
+    bestOf = 1,
+    maps: Array<string | null | undefined> = [],
+  ): SeriesScore {
     const [home, away] = teams;
     const winsToClinch = Math.floor(bestOf / 2) + 1;
     const score = {
       [home.id]: 0,
       [away.id]: 0,
     };
-    const maps: Array<MapScore> = [];
+    const simulations: Array<MapSimulation> = [];
 
     while (score[home.id] < winsToClinch && score[away.id] < winsToClinch) {
-      const mapResult = this.generate(teams);
-      const winnerId = mapResult[home.id] > mapResult[away.id] ? home.id : away.id;
+      const simulation = this.generateMap(teams, maps[simulations.length]);
+      const winnerId = simulation.score[home.id] > simulation.score[away.id] ? home.id : away.id;
       score[winnerId] += 1;
-      maps.push(mapResult);
+      simulations.push(simulation);
     }
 
-    return { maps, score };
+    return { maps: simulations.map((simulation) => simulation.score), score, simulations };
+  }
+
+  /**
+   * Simulates a single map and only returns its scoreline.
+   *
+   * @param teams The home and away teams.
+   * @param map   The map being played.
+   * @function
+   */
+  public generate(teams: Array<Team>, map?: string | null) {
+    return this.generateMap(teams, map).score;
   }
 
   /**
-   * Simulates match scores calculated using probability weights
-   * determined by a team's prestige/tier and the cumulative
-   * skill level of their squad.
+   * Simulates a single map round-by-round.
+   *
+   * The user's sim mode is honored by weighing the duels in favor
+   * of the forced winner until the simulation agrees with it.
    *
    * @param teams The home and away teams.
+   * @param map   The map being played.
    * @function
    */
-  public generate(teams: Array<Team>) {
+  public generateMap(teams: Array<Team>, map?: string | null): MapSimulation {
     const [home, away] = teams;
+    const scale = getSimScaleFactor() ?? Constants.Application.SIMULATION_SCALING_FACTOR;
 
     if (this.userTeamId) {
-      this.log.info('Simulating match (%s vs %s)...', home.name, away.name);
-      this.log.info(
-        'Scaling factor: %d',
-        getSimScaleFactor() ?? Constants.Application.SIMULATION_SCALING_FACTOR,
-      );
+      this.log.info('Simulating match (%s vs %s) on %s...', home.name, away.name, map ?? 'n/a');
+      this.log.info('Scaling factor: %d', scale);
     }
 
-    // simulate final scores
-    const score = {
-      winner: SimulationResult.WIN,
-      loser: random(SimulationResult.LOSE_LOW, SimulationResult.LOSE_HIGH),
-    };
+    // figure out if we need to force a winner
+    let forcedWinnerId: number;
 
-    // handle sim mode early since that won't
-    // require any probability calculations
     switch (this.mode) {
       case this.userTeamId && Constants.SimulationMode.LOSE:
-        return {
-          [home.id]: home.id === this.userTeamId ? score.loser : score.winner,
-          [away.id]: away.id === this.userTeamId ? score.loser : score.winner,
-        };
+        forcedWinnerId = home.id === this.userTeamId ? away.id : home.id;
+        break;
       case this.userTeamId && Constants.SimulationMode.WIN:
-        return {
-          [home.id]: home.id === this.userTeamId ? score.winner : score.loser,
-          [away.id]: away.id === this.userTeamId ? score.winner : score.loser,
-        };
+        forcedWinnerId = home.id === this.userTeamId ? home.id : away.id;
+        break;
     }
 
-    // calculate probability weight for team
-    const homeRating = this.getTeamWinProbability(home);
-    const awayRating = this.getTeamWinProbability(away);
-    const homeWinPbx = Util.getEloWinProbability(
-      homeRating,
-      awayRating,
-      getSimScaleFactor() ?? Constants.Application.SIMULATION_SCALING_FACTOR,
-    );
-    const winnerPbxWeight: Record<string | number, number> = {
-      [home.id]: homeWinPbx,
-      [away.id]: 1 - homeWinPbx,
-      [Constants.SimulationMode.DRAW]: 0,
-    };
+    let simulation = this.simulateMap(teams, map, scale, forcedWinnerId);
 
-    // do we allow draws? if so, the chance to draw is
-    // equal to the team with the lowest prestige
-    if (this.allowDraw) {
-      const lowestPrestige = Bot.Templates.find(
-        (template) =>
-          template.prestige === (home.prestige > away.prestige ? away.prestige : home.prestige),
+    for (
+      let attempt = 1;
+      forcedWinnerId &&
+      getMatchResult(forcedWinnerId, simulation.score) !== Constants.MatchResult.WIN &&
+      attempt < FORCED_WINNER_MAX_ATTEMPTS;
+      attempt++
+    ) {
+      simulation = this.simulateMap(teams, map, scale, forcedWinnerId);
+    }
+
+    if (this.userTeamId) {
+      this.log.info(
+        'Final score: %s %d - %d %s',
+        home.name,
+        simulation.score[home.id],
+        simulation.score[away.id],
+        away.name,
       );
-      winnerPbxWeight[Constants.SimulationMode.DRAW] =
-        lowestPrestige.multiplier * Constants.Application.SQUAD_MIN_LENGTH;
     }
 
-    // simulate a score
-    const winner = Chance.roll(winnerPbxWeight);
+    return simulation;
+  }
+
+  /**
+   * Runs the round loop for a single map.
+   *
+   * @param teams           The home and away teams.
+   * @param map             The map being played.
+   * @param scale           The simulation scaling factor.
+   * @param forcedWinnerId  The team the simulation should favor.
+   * @function
+   */
+  private simulateMap(
+    teams: Array<Team>,
+    map: string | null | undefined,
+    scale: number,
+    forcedWinnerId?: number,
+  ): MapSimulation {
+    const [home, away] = teams;
+    const ctBias = getMapSideBias(map);
+    const sharpness = Constants.Application.SIMULATION_SCALING_FACTOR / Math.max(1, scale);
+    const squads = {
+      [home.id]: this.getSquad(home),
+      [away.id]: this.getSquad(away),
+    };
+    const modifiers = {
+      [home.id]:
+        this.getTeamModifier(home, map) *
+        (forcedWinnerId === home.id ? FORCED_WINNER_MULTIPLIER : 1),
+      [away.id]:
+        this.getTeamModifier(away, map) *
+        (forcedWinnerId === away.id ? FORCED_WINNER_MULTIPLIER : 1),
+    };
+    const score: MapScore = { [home.id]: 0, [away.id]: 0 };
+    const rounds: Array<SimulatedRound> = [];
+    const lineups = {
+      [home.id]: squads[home.id].map((player) => player.id),
+      [away.id]: squads[away.id].map((player) => player.id),
+    };
 
-    // was it a draw?
-    if (this.allowDraw && winner === Constants.SimulationMode.DRAW) {
+    // bail early if a team does not have any players
+    if (!squads[home.id].length || !squads[away.id].length) {
+      const winnerId = squads[home.id].length ? home.id : away.id;
+      const loserId = winnerId === home.id ? away.id : home.id;
       return {
-        [home.id]: SimulationResult.DRAW,
-        [away.id]: SimulationResult.DRAW,
+        map,
+        lineups,
+        rounds,
+        score: { [winnerId]: this.maxRounds / 2 + 1, [loserId]: 0 },
       };
     }
 
-    if (this.userTeamId) {
-      const adjustedDistribution = Chance.rangeToDistribution(winnerPbxWeight);
-      this.log.info(
-        '%s win probability: %d% (raw: %d, total xp: %d)',
-        home.name,
-        adjustedDistribution[home.id],
-        winnerPbxWeight[home.id],
-        homeRating,
+    // economy state per team
+    const money: Record<number, number> = {};
+    const lossStreak: Record<number, number> = {};
+    const resetEconomy = (amount: number) => {
+      [home.id, away.id].forEach((id) => {
+        money[id] = amount;
+        lossStreak[id] = 0;
+      });
+    };
+
+    // knife round to decide the starting sides
+    let ctTeamId = sample([home.id, away.id]);
+    let half = 0;
+    let segmentStartScore = { ...score };
+    let segmentLength = this.maxRounds;
+    let roundInSegment = 0;
+    resetEconomy(Economy.START_MONEY);
+
+    while (true) {
+      roundInSegment += 1;
+
+      const num = rounds.length + 1;
+      const tTeamId = ctTeamId === home.id ? away.id : home.id;
+      const isOvertime = num > this.maxRounds;
+      const isPistol =
+        !isOvertime && (roundInSegment === 1 || roundInSegment === segmentLength / 2 + 1);
+      const winsNeeded = segmentLength / 2 + 1;
+      const buys: Record<number, BuyType> = {};
+
+      [ctTeamId, tTeamId].forEach((teamId) => {
+        const side = teamId === ctTeamId ? RoundSide.CT : RoundSide.T;
+        const opponentId = teamId === ctTeamId ? tTeamId : ctTeamId;
+        const segmentScore = score[opponentId] - segmentStartScore[opponentId];
+        const mustForce =
+          segmentScore === winsNeeded - 1 ||
+          roundInSegment === segmentLength / 2 ||
+          roundInSegment === segmentLength;
+        buys[teamId] = getBuyType(money[teamId], side, isPistol, lossStreak[teamId], mustForce);
+        money[teamId] = Math.max(0, money[teamId] - getBuyCost(buys[teamId], side, money[teamId]));
+      });
+
+      // play the round
+      const result = this.simulateRound(
+        { id: ctTeamId, players: squads[ctTeamId], modifier: modifiers[ctTeamId] },
+        { id: tTeamId, players: squads[tTeamId], modifier: modifiers[tTeamId] },
+        buys,
+        ctBias,
+        sharpness,
       );
-      this.log.info(
-        '%s win probability: %d% (raw: %d, total xp: %d)',
-        away.name,
-        adjustedDistribution[away.id],
-        winnerPbxWeight[away.id],
-        awayRating,
+      const loserTeamId = result.winnerTeamId === ctTeamId ? tTeamId : ctTeamId;
+      score[result.winnerTeamId] += 1;
+      rounds.push({
+        num,
+        half,
+        ctTeamId,
+        winnerTeamId: result.winnerTeamId,
+        event: result.event,
+        buys,
+        kills: result.kills,
+        score: { ...score },
+      });
+
+      // round rewards
+      lossStreak[result.winnerTeamId] = 0;
+      lossStreak[loserTeamId] += 1;
+      money[result.winnerTeamId] +=
+        result.event === 'SFUI_Notice_Target_Bombed' ? Economy.WIN_REWARD_BOMB : Economy.WIN_REWARD;
+      money[loserTeamId] +=
+        getLossBonus(lossStreak[loserTeamId]) +
+        (loserTeamId === tTeamId && result.planted ? Economy.PLANT_BONUS : 0) +
+        (Economy.SAVED_EQUIPMENT_VALUE * result.survivors) / squads[loserTeamId].length;
+      money[home.id] = Math.min(Economy.MAX_MONEY, money[home.id]);
+      money[away.id] = Math.min(Economy.MAX_MONEY, money[away.id]);
+
+      // did a team clinch the map or the current overtime?
+      const homeSegment = score[home.id] - segmentStartScore[home.id];
+      const awaySegment = score[away.id] - segmentStartScore[away.id];
+
+      if (homeSegment >= winsNeeded || awaySegment >= winsNeeded) {
+        break;
+      }
+
+      // half-time swaps sides and resets the economy
+      if (roundInSegment === segmentLength / 2) {
+        half += 1;
+        ctTeamId = tTeamId;
+        resetEconomy(isOvertime ? Economy.START_MONEY_OVERTIME : Economy.START_MONEY);
+        continue;
+      }
+
+      // end of regulation or overtime segment with a tied scoreline
+      if (roundInSegment === segmentLength) {
+        half += 1;
+
+        if (this.allowDraw && !isOvertime) {
+          break;
+        }
+
+        // sides are not swapped when a new overtime starts
+        segmentStartScore = { ...score };
+        segmentLength = this.maxRoundsOvertime;
+        roundInSegment = 0;
+        resetEconomy(Economy.START_MONEY_OVERTIME);
+      }
+    }
+
+    return { map, lineups, rounds, score };
+  }
+
+  /**
+   * Simulates a single round by resolving duels until a side is
+   * eliminated, the bomb goes off, or the losing side saves.
+   *
+   * @param ct           The CT-side team.
+   * @param ct.id        The CT-side team id.
+   * @param ct.players   The CT-side lineup.
+   * @param ct.modifier  The CT-side team-wide duel modifier.
+   * @param t            The T-side team.
+   * @param t.id         The T-side team id.
+   * @param t.players    The T-side lineup.
+   * @param t.modifier   The T-side team-wide duel modifier.
+   * @param buys         What each team bought this round.
+   * @param ctBias       The map's CT-side bias.
+   * @param sharpness    How strongly skill gaps affect duels.
+   * @function
+   */
+  private simulateRound(
+    ct: { id: number; players: Array<TeamPlayer>; modifier: number },
+    t: { id: number; players: Array<TeamPlayer>; modifier: number },
+    buys: Record<number, BuyType>,
+    ctBias: number,
+    sharpness: number,
+  ) {
+    const alive = {
+      [ct.id]: [...ct.players],
+      [t.id]: [...t.players],
+    };
+    const kills: Array<SimulatedKill> = [];
+    let planted = false;
+    let saved = false;
+
+    const getSide = (teamId: number) => (teamId === ct.id ? RoundSide.CT : RoundSide.T);
+    const getDuelWeight = (player: TeamPlayer, teamId: number, opponentAlive: number) => {
+      const side = getSide(teamId);
+      const traits = PersonalityTraits[player.personality] ?? DEFAULT_PERSONALITY_TRAITS;
+      const sideFactor = side === RoundSide.CT ? ctBias * 2 : (1 - ctBias) * 2;
+      const snipeFactor =
+        player.role === Constants.PlayerRole.SNIPER && buys[teamId] === BuyType.FULL ? 1.08 : 1;
+      const numbersFactor = Math.max(0.5, 1 + 0.08 * (alive[teamId].length - opponentAlive));
+      const situationFactor = !kills.length
+        ? traits.opening
+        : alive[teamId].length <= 2
+          ? traits.clutch
+          : 1;
+      const modifier = teamId === ct.id ? ct.modifier : t.modifier;
+
+      return (
+        Math.pow(this.getPlayerWeight(player), sharpness) *
+        BuyEquipmentFactor[buys[teamId]] *
+        sideFactor *
+        snipeFactor *
+        numbersFactor *
+        situationFactor *
+        modifier
+      );
+    };
+    const pickDuelist = (teamId: number) =>
+      pickWeighted(
+        alive[teamId],
+        (player) =>
+          (PersonalityTraits[player.personality] ?? DEFAULT_PERSONALITY_TRAITS).aggression,
       );
-      this.log.info('Winner: %s', Number(winner) === home.id ? home.name : away.name);
+    const getWeapon = (player: TeamPlayer, teamId: number) => {
+      if (
+        player.role === Constants.PlayerRole.SNIPER &&
+        buys[teamId] === BuyType.FULL &&
+        random(0, 100) < 60
+      ) {
+        return 'awp';
+      }
+
+      return sample(BuyWeapons[buys[teamId]][getSide(teamId)]);
+    };
+
+    while (alive[ct.id].length && alive[t.id].length) {
+      const ctPlayer = pickDuelist(ct.id);
+      const tPlayer = pickDuelist(t.id);
+      const ctWeight = getDuelWeight(ctPlayer, ct.id, alive[t.id].length);
+      const tWeight = getDuelWeight(tPlayer, t.id, alive[ct.id].length);
+      const ctWins = Math.random() < ctWeight / (ctWeight + tWeight);
+      const [winnerTeamId, loserTeamId] = ctWins ? [ct.id, t.id] : [t.id, ct.id];
+      const attacker = ctWins ? ctPlayer : tPlayer;
+      const victim = ctWins ? tPlayer : ctPlayer;
+      const weapon = getWeapon(attacker, winnerTeamId);
+      const assistPool = alive[winnerTeamId].filter((player) => player.id !== attacker.id);
+      const assist =
+        assistPool.length && random(0, 100) < 27
+          ? pickWeighted(assistPool, (player) => this.getPlayerWeight(player))
+          : null;
+
+      kills.push({
+        attackerId: attacker.id,
+        victimId: victim.id,
+        assistId: assist?.id,
+        headshot: random(0, 100) < (weapon === 'awp' ? 15 : 45),
+        opening: !kills.length,
+        weapon,
+      });
+      alive[loserTeamId] = alive[loserTeamId].filter((player) => player.id !== victim.id);
+
+      // terrorists get the bomb down after winning a duel
+      if (!planted && !ctWins && alive[t.id].length && random(0, 100) < 35) {
+        planted = true;
+      }
+
+      // outnumbered players may decide to save their weapons
+      const losing = alive[ct.id].length < alive[t.id].length ? ct.id : t.id;
+      const winning = losing === ct.id ? t.id : ct.id;
+
+      if (
+        alive[losing].length &&
+        alive[losing].length <= 2 &&
+        alive[winning].length >= alive[losing].length + 2 &&
+        buys[losing] !== BuyType.ECO &&
+        random(0, 100) < 30
+      ) {
+        saved = true;
+        break;
+      }
     }
 
-    // return the winner
+    // figure out who won the round and how
+    let winnerTeamId: number;
+    let event: string;
+
+    if (saved) {
+      winnerTeamId = alive[ct.id].length > alive[t.id].length ? ct.id : t.id;
+      planted = planted || winnerTeamId === t.id;
+      event =
+        winnerTeamId === t.id
+          ? 'SFUI_Notice_Target_Bombed'
+          : planted
+            ? 'SFUI_Notice_Bomb_Defused'
+            : 'SFUI_Notice_Target_Saved';
+    } else if (alive[ct.id].length) {
+      winnerTeamId = ct.id;
+      event = planted ? 'SFUI_Notice_Bomb_Defused' : 'SFUI_Notice_CTs_Win';
+    } else {
+      winnerTeamId = t.id;
+      event = planted ? 'SFUI_Notice_Target_Bombed' : 'SFUI_Notice_Terrorists_Win';
+    }
+
+    const loserTeamId = winnerTeamId === ct.id ? t.id : ct.id;
+
     return {
-      [home.id]: Number(winner) === home.id ? score.winner : score.loser,
-      [away.id]: Number(winner) === away.id ? score.winner : score.loser,
+      event,
+      kills,
+      planted,
+      survivors: alive[loserTeamId].length,
+      winnerTeamId,
     };
   }
 }
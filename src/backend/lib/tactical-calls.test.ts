@@ -0,0 +1,85 @@
+import assert from 'node:assert/strict';
+import * as Scorebot from './scorebot';
+import { fromScorebotEvents, parse } from './tactical-calls';
+
+const USER_ID = 1;
+const timestamp = new Date(2026, 4, 12, 18, 30);
+
+/**
+ * Builds a chat call event.
+ *
+ * @param team    The side of the caller.
+ * @param call    The call.
+ * @param args    The call arguments.
+ * @param steamId The steam id of the caller.
+ * @function
+ */
+function called(team: string, call: string, args: Array<string> = [], steamId = 'STEAM_1') {
+  return {
+    type: Scorebot.EventIdentifier.PLAYER_CALLED,
+    payload: {
+      timestamp,
+      call,
+      args,
+      player: { name: 'user', serverId: '2', steamId, team },
+    },
+  };
+}
+
+/**
+ * Builds a round over event.
+ *
+ * @param winner The side that won the round.
+ * @function
+ */
+function roundOver(winner: string) {
+  return {
+    type: Scorebot.EventIdentifier.ROUND_OVER,
+    payload: { timestamp, winner: Scorebot.TeamIdentifier[winner], event: '', score: [0, 0] },
+  };
+}
+
+/**
+ * Resolves human callers to the user.
+ *
+ * @param player The calling in-game player.
+ * @function
+ */
+function resolve(player: Scorebot.EventPlayer) {
+  return player.steamId !== 'BOT' ? USER_ID : null;
+}
+
+assert.deepEqual(parse(called('CT', 'exec', ['A']).payload), { call: 'exec', site: 'a' });
+assert.deepEqual(parse(called('CT', 'stack', ['mid']).payload), { call: 'stack', site: 'mid' });
+assert.deepEqual(
+  parse(called('CT', 'save', ['a']).payload),
+  { call: 'save', site: null },
+  'buy calls ignore their site',
+);
+assert.equal(parse(called('CT', 'exec').payload), null, 'site calls need a site');
+assert.equal(parse(called('CT', 'exec', ['mid']).payload), null, 'site calls need a known site');
+assert.equal(parse(called('CT', 'flank', ['a']).payload), null, 'unknown calls are ignored');
+
+const calls = fromScorebotEvents(
+  [
+    called('CT', 'exec', ['a']),
+    called('CT', 'retake', ['b']),
+    called('CT', 'rush', ['a'], 'BOT'),
+    roundOver('CT'),
+    called('TERRORIST', 'flank', ['a']),
+    roundOver('CT'),
+    called('TERRORIST', 'force'),
+    roundOver('CT'),
+  ],
+  resolve,
+);
+
+assert.deepEqual(calls, [
+  { playerId: USER_ID, round: 1, side: 'CT', call: 'retake', site: 'b', won: true },
+  { playerId: USER_ID, round: 3, side: 'TERRORIST', call: 'force', site: null, won: false },
+]);
+assert.deepEqual(
+  fromScorebotEvents([called('CT', 'exec', ['a'])], resolve),
+  [],
+  'calls of unfinished rounds are dropped',
+);
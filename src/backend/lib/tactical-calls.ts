@@ -0,0 +1,218 @@
+/**
+ * IGL tactical calls.
+ *
+ * An IGL makes calls such as `.exec a`, `.rush b` or `.save`
+ * in chat. Stock bots have no per-team commands to act on them
+ * and the server cvars that come close, like `bot_eco_limit`,
+ * would steer the enemy bots too, so calls are not relayed.
+ * Every call is logged along with the outcome of its round
+ * when the user is the IGL so calling can be measured.
+ *
+ * @module
+ */
+import { Prisma } from '@prisma/client';
+import DatabaseClient from './database-client';
+import * as Scorebot from './scorebot';
+
+export type TacticalCall = {
+  playerId: number;
+  round: number;
+  call: string;
+  site: string | null;
+  side: string;
+  won: boolean;
+};
+
+export type TacticalCallSummary = {
+  call: string;
+  site: string | null;
+  calls: number;
+  won: number;
+  winRate: number;
+};
+
+type ScorebotEvent = {
+  type: Scorebot.EventIdentifier;
+  payload: Scorebot.EventPayload;
+};
+
+/**
+ * The calls an IGL can make along with the sites they can target.
+ *
+ * @constant
+ */
+export const Calls: Record<string, { sites: Array<string> }> = {
+  default: { sites: [] },
+  exec: { sites: ['a', 'b'] },
+  rush: { sites: ['a', 'b'] },
+  split: { sites: ['a', 'b'] },
+  stack: { sites: ['a', 'b', 'mid'] },
+  retake: { sites: ['a', 'b'] },
+  save: { sites: [] },
+  force: { sites: [] },
+};
+
+/**
+ * Parses a chat call into a tactical call or
+ * returns `null` when it is not a known call.
+ *
+ * @param payload The chat call.
+ * @function
+ */
+export function parse(payload: Scorebot.EventPayloadPlayerCalled) {
+  const definition = Calls[payload.call];
+
+  if (!definition) {
+    return null;
+  }
+
+  const site = (payload.args[0] || '').toLowerCase();
+
+  if (definition.sites.length && !definition.sites.includes(site)) {
+    return null;
+  }
+
+  return { call: payload.call, site: definition.sites.length ? site : null };
+}
+
+/**
+ * Collects the tactical calls of a single game.
+ *
+ * Only the last call a player made in a round counts
+ * which means the events must be in the order they
+ * were logged.
+ *
+ * @param events          The scorebot events of the game.
+ * @param resolvePlayerId Maps the calling in-game player to its player id.
+ * @function
+ */
+export function fromScorebotEvents(
+  events: Array<ScorebotEvent>,
+  resolvePlayerId: (player: Scorebot.EventPlayer) => number | null | undefined,
+) {
+  const calls: Array<TacticalCall> = [];
+  let round = 1;
+  let pending = new Map<number, Omit<TacticalCall, 'won'>>();
+
+  events.forEach((event) => {
+    switch (event.type) {
+      case Scorebot.EventIdentifier.PLAYER_CALLED: {
+        const payload = event.payload as Scorebot.EventPayloadPlayerCalled;
+        const playerId = resolvePlayerId(payload.player);
+        const call = parse(payload);
+
+        if (playerId == null || !call) {
+          break;
+        }
+
+        pending.set(playerId, { playerId, round, side: payload.player.team, ...call });
+        break;
+      }
+      case Scorebot.EventIdentifier.ROUND_OVER: {
+        const payload = event.payload as Scorebot.EventPayloadRoundOver;
+
+        pending.forEach((call) =>
+          calls.push({ ...call, won: Scorebot.TeamIdentifier[call.side] === payload.winner }),
+        );
+        pending = new Map();
+        round++;
+        break;
+      }
+    }
+  });
+
+  return calls;
+}
+
+/**
+ * Creates the match tactical call table for
+ * saves made before it existed.
+ *
+ * @function
+ */
+export async function ensureMatchTacticalCallTable() {
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE TABLE IF NOT EXISTS "MatchTacticalCall" (
+      "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+      "matchId" INTEGER NOT NULL,
+      "gameKey" INTEGER NOT NULL,
+      "playerId" INTEGER NOT NULL,
+      "round" INTEGER NOT NULL,
+      "call" TEXT NOT NULL,
+      "site" TEXT,
+      "side" TEXT NOT NULL,
+      "won" BOOLEAN NOT NULL
+    )
+  `);
+  await DatabaseClient.prisma.$executeRawUnsafe(`
+    CREATE INDEX IF NOT EXISTS "MatchTacticalCall_playerId_idx"
+    ON "MatchTacticalCall"("playerId")
+  `);
+}
+
+/**
+ * Replaces the tactical calls recorded for a game.
+ *
+ * @param matchId The match id.
+ * @param gameKey The game id.
+ * @param calls   The tactical calls of the game.
+ * @function
+ */
+export async function saveGame(matchId: number, gameKey: number, calls: Array<TacticalCall>) {
+  await ensureMatchTacticalCallTable();
+  await DatabaseClient.prisma.$executeRaw`
+    DELETE FROM "MatchTacticalCall" WHERE "matchId" = ${matchId} AND "gameKey" = ${gameKey}
+  `;
+
+  if (!calls.length) {
+    return;
+  }
+
+  const values = calls.map(
+    (call) =>
+      Prisma.sql`(${matchId}, ${gameKey}, ${call.playerId}, ${call.round}, ${call.call}, ${call.site}, ${call.side}, ${call.won})`,
+  );
+
+  return DatabaseClient.prisma.$executeRaw`
+    INSERT INTO "MatchTacticalCall" (
+      "matchId",
+      "gameKey",
+      "playerId",
+      "round",
+      "call",
+      "site",
+      "side",
+      "won"
+    )
+    VALUES ${Prisma.join(values)}
+  `;
+}
+
+/**
+ * Gets how often a player's calls won their round
+ * grouped by call and site, most made first.
+ *
+ * @param playerId The player id.
+ * @function
+ */
+export async function getSummary(playerId: number): Promise<Array<TacticalCallSummary>> {
+  await ensureMatchTacticalCallTable();
+
+  const rows = await DatabaseClient.prisma.$queryRaw<
+    Array<{ call: string; site: string | null; calls: bigint | number; won: bigint | number }>
+  >`
+    SELECT "call", "site", COUNT(*) AS "calls", SUM("won") AS "won"
+    FROM "MatchTacticalCall"
+    WHERE "playerId" = ${playerId}
+    GROUP BY "call", "site"
+    ORDER BY "calls" DESC
+  `;
+
+  return rows.map((row) => ({
+    call: row.call,
+    site: row.site,
+    calls: Number(row.calls),
+    won: Number(row.won),
+    winRate: Number(row.won) / Number(row.calls),
+  }));
+}
@@ -0,0 +1,234 @@
+/**
+ * Player training.
+ *
+ * The user's player follows a weekly schedule between matchdays.
+ * Every session rolls for a little XP through the XP economy and
+ * piles up fatigue which rest days take off again. Training while
+ * worn out slows progression down and risks a burnout that turns
+ * every session into rest for a while. A deathmatch session can
+ * also be played for real which counts for more than a scheduled one.
+ *
+ * @module
+ */
+import { addDays, getISODay, isSameDay } from 'date-fns';
+import { Prisma } from '@prisma/client';
+import { Chance, Constants } from '@liga/shared';
+import DatabaseClient from './database-client';
+import * as XpEconomy from './xp-economy';
+
+export type TrainingStatus = {
+  schedule: Array<Constants.TrainingSession>;
+  today: Constants.TrainingSession;
+  fatigue: number;
+  burnoutEnds: Date | null;
+  trainedToday: boolean;
+};
+
+/**
+ * Gets the user's weekly schedule, Monday first.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export function getSchedule(
+  profile: Prisma.ProfileGetPayload<unknown>,
+): Array<Constants.TrainingSession> {
+  try {
+    const schedule = JSON.parse(profile.trainingSchedule || 'null');
+
+    if (isValidSchedule(schedule)) {
+      return schedule;
+    }
+  } catch {
+    // fall back to the default schedule
+  }
+
+  return [...Constants.PlayerTrainingSettings.DEFAULT_SCHEDULE];
+}
+
+/**
+ * Checks that a schedule has a known session for every day of the week.
+ *
+ * @param schedule The schedule.
+ * @function
+ */
+export function isValidSchedule(schedule: unknown): schedule is Array<Constants.TrainingSession> {
+  const sessions = Object.values(Constants.TrainingSession) as Array<string>;
+
+  return (
+    Array.isArray(schedule) &&
+    schedule.length === 7 &&
+    schedule.every((session) => sessions.includes(session))
+  );
+}
+
+/**
+ * Checks whether the user's player is burned out.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export function isBurnedOut(profile: Prisma.ProfileGetPayload<unknown>) {
+  return !!profile.trainingBurnoutEnds && profile.date < profile.trainingBurnoutEnds;
+}
+
+/**
+ * Gets the session the user's player follows on a given day.
+ *
+ * @param profile The user's profile.
+ * @param date    The day.
+ * @function
+ */
+export function getSession(profile: Prisma.ProfileGetPayload<unknown>, date = profile.date) {
+  if (isBurnedOut(profile)) {
+    return Constants.TrainingSession.REST;
+  }
+
+  return getSchedule(profile)[getISODay(date) - 1];
+}
+
+/**
+ * Gets the user's schedule along with their current form.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export function getStatus(profile: Prisma.ProfileGetPayload<unknown>): TrainingStatus {
+  return {
+    schedule: getSchedule(profile),
+    today: getSession(profile),
+    fatigue: profile.trainingFatigue,
+    burnoutEnds: isBurnedOut(profile) ? profile.trainingBurnoutEnds : null,
+    trainedToday: !!profile.trainedAt && isSameDay(profile.trainedAt, profile.date),
+  };
+}
+
+/**
+ * Replaces the user's weekly schedule.
+ *
+ * @param profile   The user's profile.
+ * @param schedule  The schedule, Monday first.
+ * @function
+ */
+export function saveSchedule(profile: Prisma.ProfileGetPayload<unknown>, schedule: unknown) {
+  if (!isValidSchedule(schedule)) {
+    throw new Error('TRAINING_INVALID_SCHEDULE');
+  }
+
+  return DatabaseClient.prisma.profile.update({
+    where: { id: profile.id },
+    data: { trainingSchedule: JSON.stringify(schedule) },
+  });
+}
+
+/**
+ * Runs a session and rolls for a burnout once it is done.
+ *
+ * @param profile The user's profile.
+ * @param session The session.
+ * @param mult    How much more than a scheduled session it counts for.
+ * @function
+ */
+export async function train(
+  profile: Prisma.ProfileGetPayload<unknown>,
+  session: Constants.TrainingSession,
+  mult = 1,
+) {
+  const settings = Constants.PlayerTrainingSettings;
+  const { xp, fatigue } = settings.SESSIONS[session];
+
+  await XpEconomy.applyTrainingXp({ profileId: profile.id, progress: xp * mult });
+
+  const trainingFatigue = Math.max(
+    0,
+    Math.min(settings.MAX_FATIGUE, profile.trainingFatigue + fatigue),
+  );
+  const burnedOut =
+    session !== Constants.TrainingSession.REST &&
+    !isBurnedOut(profile) &&
+    trainingFatigue > settings.BURNOUT_THRESHOLD &&
+    Chance.rollD2(trainingFatigue - settings.BURNOUT_THRESHOLD);
+
+  return DatabaseClient.prisma.profile.update({
+    where: { id: profile.id },
+    data: {
+      trainingFatigue,
+      trainedAt: session === Constants.TrainingSession.REST ? undefined : profile.date,
+      ...(burnedOut ? { trainingBurnoutEnds: addDays(profile.date, settings.BURNOUT_DAYS) } : {}),
+    },
+  });
+}
+
+/**
+ * Checks whether the user has a match today.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+async function isMatchday(profile: Prisma.ProfileGetPayload<unknown>) {
+  const entries = await DatabaseClient.prisma.calendar.count({
+    where: {
+      date: profile.date,
+      type: Constants.CalendarEntry.MATCHDAY_USER,
+    },
+  });
+
+  return entries > 0;
+}
+
+/**
+ * Checks that the user can play a deathmatch session
+ * for real today and throws the reason if not.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function assertCanTrainLive(profile: Prisma.ProfileGetPayload<unknown>) {
+  if (!profile.playerId) {
+    throw new Error('TRAINING_NO_PLAYER');
+  }
+
+  if (isBurnedOut(profile)) {
+    throw new Error('TRAINING_BURNED_OUT');
+  }
+
+  if (profile.trainedAt && isSameDay(profile.trainedAt, profile.date)) {
+    throw new Error('TRAINING_DONE_TODAY');
+  }
+
+  if (await isMatchday(profile)) {
+    throw new Error('TRAINING_MATCHDAY');
+  }
+}
+
+/**
+ * Runs the scheduled session of the day unless the user
+ * already trained for real. Matchdays skip the session
+ * and add the fatigue of the match instead.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+export async function runDay(profile: Prisma.ProfileGetPayload<unknown>) {
+  if (!profile.playerId) {
+    return profile;
+  }
+
+  if (profile.trainedAt && isSameDay(profile.trainedAt, profile.date)) {
+    return profile;
+  }
+
+  if (await isMatchday(profile)) {
+    return DatabaseClient.prisma.profile.update({
+      where: { id: profile.id },
+      data: {
+        trainingFatigue: Math.min(
+          Constants.PlayerTrainingSettings.MAX_FATIGUE,
+          profile.trainingFatigue + Constants.PlayerTrainingSettings.MATCHDAY_FATIGUE,
+        ),
+      },
+    });
+  }
+
+  return train(profile, getSession(profile));
+}
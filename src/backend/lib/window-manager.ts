@@ -130,6 +130,12 @@ export const WINDOW_CONFIGS: Record<string, WindowConfig> = {
                 get(Constants.WindowIdentifier.Threading);
               },
             },
+            {
+              label: 'Match Centre',
+              click: () => {
+                get(Constants.WindowIdentifier.MatchCentre);
+              },
+            },
             {
               label: 'Settings',
               accelerator: is.osx() ? 'Cmd+,' : 'Ctrl+,',
@@ -191,6 +197,19 @@ export const WINDOW_CONFIGS: Record<string, WindowConfig> = {
         },
       ]),
   },
+  [Constants.WindowIdentifier.MatchCentre]: {
+    id: Constants.WindowIdentifier.MatchCentre,
+    url: is.main() && MATCH_CENTRE_WINDOW_WEBPACK_ENTRY,
+    // not parented to the main window so it
+    // can be moved over to a second monitor
+    options: {
+      ...baseWindowConfig,
+      height: 720,
+      width: 560,
+      minHeight: 480,
+      minWidth: 420,
+    },
+  },
   [Constants.WindowIdentifier.Modal]: {
     id: Constants.WindowIdentifier.Modal,
     url: is.main() && MODAL_WINDOW_WEBPACK_ENTRY,
@@ -8,7 +8,16 @@ import * as Autofill from './autofill';
 import * as Simulator from './simulator';
 import * as WindowManager from './window-manager';
 import * as Engine from './engine';
+import * as FaceitPenalty from './faceit-penalties';
+import * as FaceitProLeague from './faceit-pro-league';
+import * as Agents from './agents';
+import * as ContractNegotiation from './contract-negotiation';
+import * as Finances from './finances';
+import * as Loans from './loans';
 import * as News from './news';
+import * as MapProficiency from './map-proficiency';
+import * as MapVeto from './map-veto';
+import * as MatchPlayerGameDetailStats from './match-player-game-detail-stats';
 import { syncLeagueSchedule } from '@liga/backend/prisma/seeds/030-leagues';
 import Tournament from '@liga/shared/tournament';
 import DatabaseClient from './database-client';
@@ -142,6 +151,7 @@ type SimulatedGame = {
 type SimulatedMapInput = {
   game: SimulatedGame;
   score: Simulator.MapScore;
+  simulation?: Simulator.MapSimulation;
 };
 
 type SimulatedParticipant = SimulatedTeam['players'][number] & {
@@ -416,6 +426,11 @@ function buildSimulatedMatchEvents({
   }
 
   for (const map of maps) {
+    if (map.simulation?.rounds.length) {
+      events.push(...buildSimulatedRoundEvents({ away, home, map, matchDate, matchId }));
+      continue;
+    }
+
     const homeScore = map.score[home.team.id] ?? 0;
     const awayScore = map.score[away.team.id] ?? 0;
     const roundWinnerIds = getRoundWinnerIds(home.id, away.id, homeScore, awayScore);
@@ -517,14 +532,110 @@ function buildSimulatedMatchEvents({
     });
   }
 
+  const simulatedPlayerIds = maps.flatMap((map) =>
+    map.simulation ? Object.values(map.simulation.lineups).flat() : [],
+  );
+
   return {
     events,
     playerIds: Array.from(
-      new Set([...lineups[home.team.id], ...lineups[away.team.id]].map((player) => player.id)),
+      new Set([
+        ...[...lineups[home.team.id], ...lineups[away.team.id]].map((player) => player.id),
+        ...simulatedPlayerIds,
+      ]),
     ),
   };
 }
 
+/**
+ * Converts the rounds produced by the round-by-round
+ * simulator into match event records.
+ *
+ * @param options           The options.
+ * @param options.away      The away competitor.
+ * @param options.home      The home competitor.
+ * @param options.map       The simulated map.
+ * @param options.matchDate The match date.
+ * @param options.matchId   The match id.
+ * @function
+ */
+function buildSimulatedRoundEvents({
+  away,
+  home,
+  map,
+  matchDate,
+  matchId,
+}: {
+  away: SimulatedCompetitor;
+  home: SimulatedCompetitor;
+  map: SimulatedMapInput;
+  matchDate: Date;
+  matchId: number;
+}) {
+  const events: Array<Prisma.MatchEventUncheckedCreateInput> = [];
+  const mapStart = new Date(matchDate.getTime() + map.game.num * 2 * 60 * 60 * 1000);
+  const competitorIds = {
+    [home.team.id]: home.id,
+    [away.team.id]: away.id,
+  };
+
+  map.simulation.rounds.forEach((round, roundIdx) => {
+    const roundStart = mapStart.getTime() + roundIdx * 90 * 1000;
+
+    round.kills.forEach((kill, killIdx) => {
+      const timestamp = new Date(roundStart + (killIdx + 1) * 9000);
+
+      events.push({
+        attackerId: kill.attackerId,
+        half: round.half,
+        headshot: kill.headshot,
+        matchId,
+        gameId: map.game.id,
+        payload: JSON.stringify({
+          type: 'playerkilled',
+          simulated: true,
+          opening: kill.opening,
+        }),
+        timestamp,
+        victimId: kill.victimId,
+        weapon: kill.weapon,
+      });
+
+      if (kill.assistId) {
+        events.push({
+          assistId: kill.assistId,
+          half: round.half,
+          matchId,
+          gameId: map.game.id,
+          payload: JSON.stringify({
+            type: 'playerassisted',
+            simulated: true,
+          }),
+          timestamp: new Date(timestamp.getTime() + 1000),
+          victimId: kill.victimId,
+        });
+      }
+    });
+
+    events.push({
+      half: round.half,
+      matchId,
+      gameId: map.game.id,
+      payload: JSON.stringify({
+        type: 'simulated_round',
+        score: round.score,
+        buys: round.buys,
+        ct: round.ctTeamId,
+      }),
+      result: round.event,
+      timestamp: new Date(roundStart + 89 * 1000),
+      winnerId: competitorIds[round.winnerTeamId],
+    });
+  });
+
+  return events;
+}
+
 function getLegacyBackfillMapScores(
   home: SimulatedCompetitor,
   away: SimulatedCompetitor,
@@ -1263,6 +1374,29 @@ export async function rotateMapPoolForNewSeason() {
   );
 }
 
+/**
+ * Decays each team's proficiency on the maps that
+ * are currently sitting in the reserve map pool.
+ *
+ * @function
+ */
+export async function decayInactiveMapProficiency() {
+  const profile = await DatabaseClient.prisma.profile.findFirst();
+
+  if (!profile) {
+    return Promise.resolve();
+  }
+
+  const gameVersionSlug = Util.loadSettings(profile.settings).general.game;
+  const decayed = await MapProficiency.decayInactiveMaps(gameVersionSlug);
+
+  Engine.Runtime.Instance.log.info(
+    'Decayed %d team map proficiency records for reserve %s maps.',
+    decayed,
+    gameVersionSlug,
+  );
+}
+
 /**
  * Creates competitions at the start of a new season.
  *
@@ -2296,7 +2430,26 @@ export async function distributePrizePool(
     });
   });
 
-  return DatabaseClient.prisma.$transaction(transaction);
+  await DatabaseClient.prisma.$transaction(transaction);
+
+  // the user's player takes home a share of what their team won
+  const profile = await DatabaseClient.prisma.profile.findFirst();
+  const userPrize = winners.find(([id]) => seededById.get(id)?.teamId === profile?.teamId);
+
+  if (!profile?.teamId || !userPrize || !userPrize[1]) {
+    return Promise.resolve();
+  }
+
+  const squadSize = await DatabaseClient.prisma.player.count({
+    where: { teamId: profile.teamId },
+  });
+
+  return Finances.record(
+    profile,
+    'PRIZE_MONEY',
+    Finances.getPrizeShare(userPrize[1], squadSize),
+    competition.tier.name,
+  );
 }
 
 async function closeOpenCareerStints(
@@ -2330,9 +2483,10 @@ async function startCareerStint(
     tier: number | null;
     starter: boolean;
     startedAt: Date;
+    loan?: boolean;
   },
 ) {
-  const { playerId, teamId, tier, starter, startedAt } = params;
+  const { playerId, teamId, tier, starter, startedAt, loan = false } = params;
 
   await prisma.careerStint.create({
     data: {
@@ -2341,6 +2495,7 @@ async function startCareerStint(
       tier,
       starter,
       startedAt,
+      loan,
     },
   });
 }
@@ -2414,11 +2569,87 @@ function resolveUserRole(profile: any, player: any): UserRole {
   return UserRole.RIFLER;
 }
 
-function getRoleOfferTuning(role: UserRole) {
-  return (
+/**
+ * Gets how eagerly teams make offers to a player of the given role.
+ *
+ * @param role          The player's role.
+ * @param transitioning Whether the player is still retraining for the role.
+ * @function
+ */
+function getRoleOfferTuning(role: UserRole, transitioning = false) {
+  const tuning =
     UserOfferSettings.ROLE_OFFER_TUNING?.[role] ??
-    UserOfferSettings.ROLE_OFFER_TUNING?.[UserRole.RIFLER]
-  );
+    UserOfferSettings.ROLE_OFFER_TUNING?.[UserRole.RIFLER];
+
+  if (!transitioning) {
+    return tuning;
+  }
+
+  // teams are warier of a player that is still learning their role
+  const { pbxMult, cooldownMult } = Constants.PlayerRoleSwitchSettings.TRANSITION_OFFER_TUNING;
+
+  return {
+    pbxMultLeague: tuning.pbxMultLeague * pbxMult,
+    pbxMultFaceit: tuning.pbxMultFaceit * pbxMult,
+    cooldownMultTeam: tuning.cooldownMultTeam * cooldownMult,
+    cooldownMultTeamless: tuning.cooldownMultTeamless * cooldownMult,
+  };
+}
+
+/**
+ * Picks the metric a contract review judges the user by.
+ *
+ * AWPers and IGLs are judged by their role's metric once enough
+ * rounds of it are on record and by their KD until then.
+ *
+ * @param role      The user's role.
+ * @param tierSlug  The team's tier slug.
+ * @param kd        The user's league KD.
+ * @param roleStats The user's league role stats if they could be computed.
+ * @function
+ */
+function getRoleReview(
+  role: UserRole,
+  tierSlug: string,
+  kd: number,
+  roleStats: Awaited<ReturnType<typeof LeagueStats.computeLeagueRoleStats>> | null,
+) {
+  const S = Constants.PlayerContractSettings;
+  const criteria = (
+    S.ROLE_REVIEW_CRITERIA as Partial<
+      Record<
+        UserRole,
+        {
+          MIN_ROUNDS: number;
+          BENCH_MIN_BY_TIER: Record<string, number>;
+          KICK_MAX_BY_TIER: Record<string, number>;
+          EXTENSION_OK_BY_TIER: Record<string, number>;
+        }
+      >
+    >
+  )[role];
+  const sample = role === UserRole.IGL ? roleStats?.calledRounds : roleStats?.rounds;
+
+  if (!criteria || !roleStats || sample < criteria.MIN_ROUNDS) {
+    return {
+      label: 'KD',
+      value: kd,
+      benchMin: (S.BENCH_KD_MIN_BY_TIER as Record<string, number>)[tierSlug],
+      kickMax: (S.KICK_KD_MAX_BY_TIER as Record<string, number>)[tierSlug],
+      extensionOk: (S.EXTENSION_PLAYER_OK_KD_BY_TIER as Record<string, number>)[tierSlug] ?? 1.0,
+    };
+  }
+
+  return {
+    label: role === UserRole.IGL ? 'called round win rate' : 'AWP impact',
+    value:
+      role === UserRole.IGL
+        ? roleStats.calledRoundWinRate
+        : roleStats.awpKillsPerRound + roleStats.openingKillsPerRound,
+    benchMin: criteria.BENCH_MIN_BY_TIER[tierSlug],
+    kickMax: criteria.KICK_MAX_BY_TIER[tierSlug],
+    extensionOk: criteria.EXTENSION_OK_BY_TIER[tierSlug],
+  };
 }
 
 function clampPbx(x: number) {
@@ -2654,7 +2885,10 @@ export async function acceptTransferOffer(transferId: number) {
     },
   });
 
-  if (!transfer) return Promise.resolve();
+  // stale inbox buttons must not act on a deal that is no longer on the table
+  if (!transfer || transfer.status !== Constants.TransferStatus.PLAYER_PENDING) {
+    return Promise.resolve();
+  }
 
   const latestPending = transfer.offers.find(
     (o) => o.status === Constants.TransferStatus.PLAYER_PENDING,
@@ -2694,6 +2928,20 @@ export async function acceptTransferOffer(transferId: number) {
 
   const mainWindow = WindowManager.get(Constants.WindowIdentifier.Main, false)?.webContents;
 
+  // the user's agent squeezes a little more out of the team before signing
+  const agent = await Agents.getSigned(profile);
+  const wages = Agents.negotiateWages(agent, offer.wages ?? transfer.target?.wages ?? 0);
+
+  if (agent) {
+    Engine.Runtime.Instance.log.info(
+      '%s negotiated wages of %d (offered=%d fee=%d).',
+      agent.name,
+      wages,
+      offer.wages ?? 0,
+      Agents.getFee(agent, wages),
+    );
+  }
+
   // Update transfer & this offer to accepted.
   await DatabaseClient.prisma.transfer.update({
     where: { id: transfer.id },
@@ -2704,6 +2952,7 @@ export async function acceptTransferOffer(transferId: number) {
           where: { id: offer.id },
           data: {
             status: Constants.TransferStatus.PLAYER_ACCEPTED,
+            wages,
           },
         },
       },
@@ -2727,6 +2976,7 @@ export async function acceptTransferOffer(transferId: number) {
         contractEnd: true,
         wages: true,
         cost: true,
+        releaseClause: true,
       },
     });
 
@@ -2752,6 +3002,8 @@ export async function acceptTransferOffer(transferId: number) {
       where: { id: transfer.playerId },
       data: {
         contractEnd,
+        wages,
+        releaseClause: offer.releaseClause ?? currentPlayer.releaseClause,
         // keep current starter/transferListed/teamId as-is for an extension
       },
     });
@@ -2920,17 +3172,33 @@ export async function acceptTransferOffer(transferId: number) {
       starter: true,
       team: { connect: { id: fromTeamId } },
       contractEnd,
+      wages,
+      releaseClause: offer.releaseClause,
+      loanedFromId: null,
+      loanEnds: null,
     },
   });
 
   // Update profile.teamId so the game knows you're now on a team.
-  const updatedProfile = await DatabaseClient.prisma.profile.update({
+  await DatabaseClient.prisma.profile.update({
     where: { id: profile.id },
     data: {
       team: {
         connect: { id: fromTeamId },
       },
     },
+  });
+
+  // the new team pays a signing bonus up front
+  await Finances.record(
+    profile,
+    'SIGNING_BONUS',
+    Finances.getSigningBonus(wages),
+    transfer.from.name,
+  );
+
+  const updatedProfile = await DatabaseClient.prisma.profile.findFirst({
+    where: { id: profile.id },
     include: { player: true, team: true },
   });
 
@@ -2941,10 +3209,15 @@ export async function acceptTransferOffer(transferId: number) {
 
   await recalculateTeamCountryIdentity(fromTeamId);
 
-  // Schedule contract expiry event in the calendar.
+  // Schedule contract expiry event in the calendar and drop any pending loan recall.
   await DatabaseClient.prisma.calendar.deleteMany({
     where: {
-      type: Constants.CalendarEntry.PLAYER_CONTRACT_EXPIRE,
+      type: {
+        in: [
+          Constants.CalendarEntry.PLAYER_CONTRACT_EXPIRE,
+          Constants.CalendarEntry.PLAYER_LOAN_RECALL,
+        ],
+      },
       completed: false,
       payload: String(transfer.playerId),
       date: { gte: profile.date.toISOString() },
@@ -3140,7 +3413,10 @@ export async function rejectTransferOffer(transferId: number) {
     },
   });
 
-  if (!transfer) return Promise.resolve();
+  // stale inbox buttons must not act on a deal that is no longer on the table
+  if (!transfer || transfer.status !== Constants.TransferStatus.PLAYER_PENDING) {
+    return Promise.resolve();
+  }
 
   const latestPending = transfer.offers.find(
     (o) => o.status === Constants.TransferStatus.PLAYER_PENDING,
@@ -3243,89 +3519,340 @@ export async function rejectTransferOffer(transferId: number) {
 }
 
 /**
- * Benches the user player
- * - starter=false, transferListed=true
- * - convert future MATCHDAY_USER -> MATCHDAY_NPC for this team
- * - send PlayerBenched email (tier name + KD + team standing/form + reason)
+ * Answers a pending offer to the user player with counter
+ * terms and lets the team think it over for a few days.
+ *
+ * @param transferId  The transfer id.
+ * @param terms       The counter terms.
+ * @function
  */
-export async function benchUserPlayer(params: {
-  teamId: number;
-  playerId: number;
-  now: Date;
-  reason?: string;
-}) {
-  const { teamId, playerId, now, reason } = params;
-  const prisma = DatabaseClient.prisma;
+export async function counterTransferOffer(
+  transferId: number,
+  terms: ContractNegotiation.ContractTerms,
+) {
+  const profile = await DatabaseClient.prisma.profile.findFirst();
+  const transfer = await DatabaseClient.prisma.transfer.findFirst({
+    where: { id: transferId },
+    include: { offers: { orderBy: { id: 'desc' } } },
+  });
 
-  const profile = await prisma.profile.findFirst(Eagers.profile);
-  if (!profile) return Promise.resolve();
+  if (
+    !transfer ||
+    transfer.playerId !== profile.playerId ||
+    transfer.status !== Constants.TransferStatus.PLAYER_PENDING
+  ) {
+    throw new Error('COUNTER_NOT_PENDING');
+  }
 
-  // Safety: only act on the user player + current team context
-  if (profile.playerId !== playerId) return Promise.resolve();
-  if (profile.teamId !== teamId) return Promise.resolve();
+  const pending = transfer.offers.find(
+    (offer) => offer.status === Constants.TransferStatus.PLAYER_PENDING,
+  );
 
-  // Load team for tier/personas
-  const team = await prisma.team.findFirst({
-    where: { id: teamId },
-    include: { personas: true },
-  });
-  if (!team) return Promise.resolve();
+  if (!pending || (pending.expiresAt && pending.expiresAt <= profile.date)) {
+    throw new Error('COUNTER_NOT_PENDING');
+  }
 
-  const outgoing = await prisma.player.findFirst({
-    where: { id: playerId },
-    select: { starter: true, role: true },
-  });
+  if (!ContractNegotiation.isValidCounter(terms)) {
+    throw new Error('COUNTER_INVALID_TERMS');
+  }
 
-  // Update player status
-  await prisma.player.update({
-    where: { id: playerId },
+  // counters are the only offers in a user transfer the team has to answer
+  const rounds = transfer.offers.filter((offer) =>
+    [Constants.TransferStatus.TEAM_ACCEPTED, Constants.TransferStatus.TEAM_REJECTED].includes(
+      offer.status,
+    ),
+  ).length;
+
+  if (rounds >= ContractNegotiation.MAX_ROUNDS) {
+    throw new Error('COUNTER_LIMIT_REACHED');
+  }
+
+  await DatabaseClient.prisma.transfer.update({
+    where: { id: transfer.id },
     data: {
-      starter: false,
-      transferListed: true,
+      status: Constants.TransferStatus.TEAM_PENDING,
+      offers: {
+        update: {
+          where: { id: pending.id },
+          data: { status: Constants.TransferStatus.PLAYER_REJECTED },
+        },
+        create: {
+          status: Constants.TransferStatus.TEAM_PENDING,
+          cost: pending.cost,
+          wages: terms.wages,
+          contractYears: terms.contractYears,
+          starterGuarantee: terms.starterGuarantee,
+          releaseClause: terms.releaseClause,
+        },
+      },
     },
   });
-  await closeOpenCareerStints(prisma, playerId, now);
-  await startCareerStint(prisma, {
-    playerId,
-    teamId,
-    tier: team.tier ?? null,
-    starter: false,
-    startedAt: now,
-  });
 
-  await promoteReplacement({
-    prisma,
-    teamId,
-    outgoingUserRole: outgoing?.role ?? (profile as any)?.player?.role,
-    now,
-    outgoingPlayerId: playerId,
-    outgoingWasStarter: !!outgoing?.starter,
+  await DatabaseClient.prisma.calendar.create({
+    data: {
+      type: Constants.CalendarEntry.TRANSFER_COUNTER_RESPONSE,
+      date: addDays(
+        profile.date,
+        random(
+          Constants.TransferSettings.RESPONSE_MIN_DAYS,
+          Constants.TransferSettings.RESPONSE_MAX_DAYS,
+        ),
+      ).toISOString(),
+      payload: String(transfer.id),
+    },
   });
 
-  // Convert future matchdays for this team from USER -> NPC
-  const futureMatches = await prisma.match.findMany({
-    where: {
-      date: { gte: now.toISOString() },
-      competitors: { some: { teamId } },
+  Engine.Runtime.Instance.log.info(
+    'User countered transfer %d (wages=%d years=%d starter=%s clause=%s).',
+    transfer.id,
+    terms.wages,
+    terms.contractYears,
+    String(terms.starterGuarantee),
+    String(terms.releaseClause),
+  );
+
+  return Promise.resolve();
+}
+
+/**
+ * Lets the team answer the user's counter by accepting it,
+ * sending back a new offer that meets them halfway or
+ * walking away from the negotiation altogether.
+ *
+ * @param entry The calendar entry.
+ * @function
+ */
+export async function onTransferCounterResponse(entry: Calendar) {
+  const prisma = DatabaseClient.prisma;
+  const profile = await prisma.profile.findFirst(Eagers.profile);
+  const transfer = await prisma.transfer.findFirst({
+    where: { id: Number(entry.payload) },
+    include: {
+      ...Eagers.transfer.include,
+      offers: { orderBy: { id: 'desc' } },
+      from: {
+        include: {
+          personas: true,
+          country: { include: { continent: true } },
+          players: { include: { country: { include: { continent: true } } } },
+        },
+      },
     },
-    select: { id: true },
   });
 
-  const matchIds = futureMatches.map((m) => String(m.id));
-  if (matchIds.length) {
-    await prisma.calendar.updateMany({
-      where: {
-        payload: { in: matchIds },
-        date: { gte: now.toISOString() },
-        type: Constants.CalendarEntry.MATCHDAY_USER,
-      },
-      data: { type: Constants.CalendarEntry.MATCHDAY_NPC },
-    });
+  if (!profile || !transfer || transfer.status !== Constants.TransferStatus.TEAM_PENDING) {
+    return Promise.resolve();
   }
 
-  const tierName = getTeamTierName(team.tier);
+  const [counter, offer] = transfer.offers;
 
-  let kd = 1;
+  if (counter?.status !== Constants.TransferStatus.TEAM_PENDING || !offer) {
+    return Promise.resolve();
+  }
+
+  const candidate = await prisma.player.findFirst({
+    where: { id: transfer.playerId },
+    include: { country: { include: { continent: true } } },
+  });
+  const fitScore = getUserOfferFitScore(transfer.from, candidate);
+  const round =
+    transfer.offers.filter((entry) =>
+      [Constants.TransferStatus.TEAM_ACCEPTED, Constants.TransferStatus.TEAM_REJECTED].includes(
+        entry.status,
+      ),
+    ).length + 1;
+  const { decision, terms } = ContractNegotiation.evaluate(
+    ContractNegotiation.toTerms(offer),
+    ContractNegotiation.toTerms(counter),
+    ContractNegotiation.getWageBudget(transfer.from, offer.wages ?? 0),
+    fitScore,
+    round,
+  );
+
+  const isExtension = profile.teamId != null && transfer.from.id === profile.teamId;
+  const locale = getLocale(profile);
+  const persona =
+    transfer.from.personas.find(
+      (p) => p.role === Constants.PersonaRole.MANAGER || p.role === Constants.PersonaRole.ASSISTANT,
+    ) ?? transfer.from.personas[0];
+  const subject = isExtension
+    ? Sqrl.render(locale.templates.ContractExtensionOffer.SUBJECT, { profile, transfer })
+    : Sqrl.render(locale.templates.OfferIncoming.SUBJECT, { profile, transfer });
+
+  if (decision === 'WALK_AWAY') {
+    await prisma.transfer.update({
+      where: { id: transfer.id },
+      data: {
+        status: Constants.TransferStatus.TEAM_REJECTED,
+        offers: {
+          update: {
+            where: { id: counter.id },
+            data: { status: Constants.TransferStatus.TEAM_REJECTED },
+          },
+        },
+      },
+    });
+
+    if (persona) {
+      await sendEmail(
+        subject,
+        Sqrl.render(locale.templates.CounterOfferWithdrawn.CONTENT, { profile, transfer }),
+        persona,
+        profile.date,
+      );
+    }
+
+    WindowManager.sendAll(Constants.IPCRoute.TRANSFER_UPDATE);
+    Engine.Runtime.Instance.log.info(
+      '%s walked away from the negotiation (transfer %d fit=%d).',
+      transfer.from.name,
+      transfer.id,
+      fitScore,
+    );
+    return Promise.resolve();
+  }
+
+  const offerExpiresAt = addDays(profile.date, 7);
+
+  await prisma.transfer.update({
+    where: { id: transfer.id },
+    data: {
+      status: Constants.TransferStatus.PLAYER_PENDING,
+      offers: {
+        update: {
+          where: { id: counter.id },
+          data: {
+            status:
+              decision === 'ACCEPT'
+                ? Constants.TransferStatus.TEAM_ACCEPTED
+                : Constants.TransferStatus.TEAM_REJECTED,
+          },
+        },
+        create: {
+          status: Constants.TransferStatus.PLAYER_PENDING,
+          cost: counter.cost,
+          wages: terms.wages,
+          contractYears: terms.contractYears,
+          starterGuarantee: terms.starterGuarantee,
+          releaseClause: terms.releaseClause,
+          expiresAt: offerExpiresAt,
+        },
+      },
+    },
+  });
+  await scheduleOfferPauseAndExpiry(transfer.id, offerExpiresAt);
+
+  if (persona) {
+    await sendEmail(
+      subject,
+      Sqrl.render(locale.templates.CounterOfferReply.CONTENT, {
+        profile,
+        transfer,
+        terms,
+        accepted: decision === 'ACCEPT',
+        wages: Util.formatCurrency(terms.wages),
+        releaseClause: terms.releaseClause ? Util.formatCurrency(terms.releaseClause) : null,
+      }),
+      persona,
+      profile.date,
+    );
+  }
+
+  WindowManager.sendAll(Constants.IPCRoute.TRANSFER_UPDATE);
+  Engine.Runtime.Instance.log.info(
+    '%s answered the counter on transfer %d: %s (fit=%d).',
+    transfer.from.name,
+    transfer.id,
+    decision,
+    fitScore,
+  );
+  return Promise.resolve();
+}
+
+/**
+ * Benches the user player
+ * - starter=false, transferListed=true
+ * - convert future MATCHDAY_USER -> MATCHDAY_NPC for this team
+ * - send PlayerBenched email (tier name + KD + team standing/form + reason)
+ */
+export async function benchUserPlayer(params: {
+  teamId: number;
+  playerId: number;
+  now: Date;
+  reason?: string;
+}) {
+  const { teamId, playerId, now, reason } = params;
+  const prisma = DatabaseClient.prisma;
+
+  const profile = await prisma.profile.findFirst(Eagers.profile);
+  if (!profile) return Promise.resolve();
+
+  // Safety: only act on the user player + current team context
+  if (profile.playerId !== playerId) return Promise.resolve();
+  if (profile.teamId !== teamId) return Promise.resolve();
+
+  // Load team for tier/personas
+  const team = await prisma.team.findFirst({
+    where: { id: teamId },
+    include: { personas: true },
+  });
+  if (!team) return Promise.resolve();
+
+  const outgoing = await prisma.player.findFirst({
+    where: { id: playerId },
+    select: { starter: true, role: true },
+  });
+
+  // Update player status
+  await prisma.player.update({
+    where: { id: playerId },
+    data: {
+      starter: false,
+      transferListed: true,
+    },
+  });
+  await closeOpenCareerStints(prisma, playerId, now);
+  await startCareerStint(prisma, {
+    playerId,
+    teamId,
+    tier: team.tier ?? null,
+    starter: false,
+    startedAt: now,
+  });
+
+  await promoteReplacement({
+    prisma,
+    teamId,
+    outgoingUserRole: outgoing?.role ?? (profile as any)?.player?.role,
+    now,
+    outgoingPlayerId: playerId,
+    outgoingWasStarter: !!outgoing?.starter,
+  });
+
+  // Convert future matchdays for this team from USER -> NPC
+  const futureMatches = await prisma.match.findMany({
+    where: {
+      date: { gte: now.toISOString() },
+      competitors: { some: { teamId } },
+    },
+    select: { id: true },
+  });
+
+  const matchIds = futureMatches.map((m) => String(m.id));
+  if (matchIds.length) {
+    await prisma.calendar.updateMany({
+      where: {
+        payload: { in: matchIds },
+        date: { gte: now.toISOString() },
+        type: Constants.CalendarEntry.MATCHDAY_USER,
+      },
+      data: { type: Constants.CalendarEntry.MATCHDAY_NPC },
+    });
+  }
+
+  const tierName = getTeamTierName(team.tier);
+
+  let kd = 1;
   let matchesPlayed = 0;
   try {
     const leagueRecent = await LeagueStats.computeLeagueLifetimeStats(teamId, playerId, 30);
@@ -3673,6 +4200,7 @@ export async function onPlayerScoutingCheck(entry: Calendar) {
       wages: true,
       cost: true,
       contractEnd: true,
+      releaseClause: true,
       countryId: true,
       lastOfferAt: true,
       role: true,
@@ -3885,7 +4413,7 @@ export async function onPlayerScoutingCheck(entry: Calendar) {
 
   try {
     const role = resolveUserRole(profile, player);
-    const tuning = getRoleOfferTuning(role);
+    const tuning = getRoleOfferTuning(role, isInRoleTransition(profile));
 
     const baseCooldownDays = isTeamless
       ? UserOfferSettings.TEAMLESS_OFFER_COOLDOWN_DAYS
@@ -3938,6 +4466,11 @@ export async function onPlayerScoutingCheck(entry: Calendar) {
       else if (daysLeft <= CONTRACT_HOT_WINDOW_DAYS) contractMult = 1.25;
     }
 
+    // a known buyout price keeps the long contracts from scaring teams off
+    if (profile.teamId && player.releaseClause != null) {
+      contractMult = Math.max(contractMult, 1.0);
+    }
+
     // Starter / transferListed modifiers
     const starterMult = player.starter ? 1.0 : 0.85;
     const listedMult = player.transferListed ? 0.9 : 1.0;
@@ -4004,13 +4537,23 @@ export async function onPlayerScoutingCheck(entry: Calendar) {
     }
 
     pbx *= tuning.pbxMultLeague;
+
+    // teams steer clear of players known for dodging and abandoning pugs
+    const reliabilityMult = FaceitPenalty.getScoutingWeight(profile.faceitReliability);
+    pbx *= reliabilityMult;
+
+    // an agent with contacts in the user's federation gets their name around
+    const agent = await Agents.getSigned(profile);
+    pbx *= Agents.getOfferWeight(agent, userFedId);
     pbx = clampPbx(pbx);
 
     Engine.Runtime.Instance.log.debug(
-      'PlayerScoutingCheck: role=%s pbxAfterRole=%d (roleMult=%s)',
+      'PlayerScoutingCheck: role=%s pbxAfterRole=%d (roleMult=%s reliability=%d reliabilityMult=%s)',
       role,
       pbx,
       tuning.pbxMultLeague.toFixed(2),
+      profile.faceitReliability,
+      reliabilityMult.toFixed(2),
     );
 
     Engine.Runtime.Instance.log.debug(
@@ -4108,6 +4651,7 @@ export async function onPlayerScoutingCheck(entry: Calendar) {
       userFedId,
       lastOfferTeamId,
     );
+    pool = Agents.pickNetworkPool(agent, pool);
 
     if (proLowRankOnly && pickedTierIdx === idxPro) {
       const sortedAsc = [...pool].sort((a, b) => (a.elo ?? 0) - (b.elo ?? 0));
@@ -4141,12 +4685,19 @@ export async function onPlayerScoutingCheck(entry: Calendar) {
     if (player.transferListed) wageMult *= 0.85;
 
     const wages = Math.max(0, Math.round(baseWages * wageMult));
-    const cost = Math.max(0, Math.round(baseCost * (0.95 + leagueSignal * 0.15)));
+    const value = Math.max(0, Math.round(baseCost * (0.95 + leagueSignal * 0.15)));
+
+    // teams that meet the user's release clause buy them out of their contract
+    const buyout =
+      !!profile.teamId && ContractNegotiation.meetsReleaseClause(player.releaseClause, value);
+    const cost = buyout ? player.releaseClause : value;
 
     const transfer = await prisma.transfer.create({
       data: {
         status: Constants.TransferStatus.PLAYER_PENDING,
+        buyout,
         from: { connect: { id: from.id } },
+        ...(buyout ? { to: { connect: { id: profile.teamId } } } : {}),
         target: { connect: { id: player.id } },
         offers: {
           create: [
@@ -4155,6 +4706,7 @@ export async function onPlayerScoutingCheck(entry: Calendar) {
               wages,
               cost,
               contractYears,
+              releaseClause: ContractNegotiation.rollReleaseClause(value),
               expiresAt: offerExpiresAt,
             },
           ],
@@ -4347,6 +4899,19 @@ export async function onPlayerContractReview(entry: Calendar) {
     );
   }
 
+  // AWPers and IGLs are judged by their role once it is on record
+  let roleStats: Awaited<ReturnType<typeof LeagueStats.computeLeagueRoleStats>> | null = null;
+  try {
+    roleStats = await LeagueStats.computeLeagueRoleStats(teamId, playerId, 30, contractStart);
+  } catch (_) {
+    Engine.Runtime.Instance.log.warn(
+      'onPlayerContractReview: failed to compute role stats (teamId=%d playerId=%d).',
+      teamId,
+      playerId,
+    );
+  }
+  const review = getRoleReview(resolveUserRole(profile, profile.player), tierSlug, kd, roleStats);
+
   // Team context scores
   const standingScore = await computeTeamStandingScore(profile);
   const formScore = await computeTeamFormScore(profile, 5);
@@ -4357,10 +4922,7 @@ export async function onPlayerContractReview(entry: Calendar) {
   const benchMinMatches = S.BENCH_MIN_LEAGUE_MATCHES;
   const kickWindowDays = S.KICK_WINDOW_DAYS;
   const kickMinMatches = S.KICK_MIN_LEAGUE_MATCHES;
-  const benchKdMin = (S.BENCH_KD_MIN_BY_TIER as Record<string, number>)[tierSlug];
   const benchBasePbx = (S.BENCH_PBX_BY_TIER as Record<string, number>)[tierSlug];
-
-  const kickKdMax = (S.KICK_KD_MAX_BY_TIER as Record<string, number>)[tierSlug];
   const kickBasePbx = (S.KICK_PBX_BY_TIER as Record<string, number>)[tierSlug];
 
   // Probability shaping based on form: (1 + (0.5 - formScore)) => [~0.5..~1.5] if formScore in [0..1]
@@ -4368,7 +4930,8 @@ export async function onPlayerContractReview(entry: Calendar) {
 
   Engine.Runtime.Instance.log.debug(
     `onPlayerContractReview: teamId=${teamId} tier=${tierSlug} daysInContract=${daysInContract} ` +
-      `kd=${kd.toFixed(2)} matches=${matchesPlayed} standing=${standingScore.toFixed(2)} form=${formScore.toFixed(2)}`,
+      `kd=${kd.toFixed(2)} ${review.label}=${review.value.toFixed(2)} matches=${matchesPlayed} ` +
+      `standing=${standingScore.toFixed(2)} form=${formScore.toFixed(2)}`,
   );
 
   // Off-season / inactivity block: require at least 3 matches in the last 30 days
@@ -4408,14 +4971,17 @@ export async function onPlayerContractReview(entry: Calendar) {
     // Kick logic
     const inKickWindow = daysInContract <= kickWindowDays;
     const eligibleForKick =
-      !isBenched && inKickWindow && matchesPlayed >= kickMinMatches && kd <= kickKdMax;
+      !isBenched &&
+      inKickWindow &&
+      matchesPlayed >= kickMinMatches &&
+      review.value <= review.kickMax;
 
     if (eligibleForKick) {
       let pbx = kickBasePbx * formMult;
       pbx = Math.max(1, Math.min(95, Math.round(pbx)));
 
       Engine.Runtime.Instance.log.debug(
-        `onPlayerContractReview: kick check eligible (kd<=${kickKdMax.toFixed(
+        `onPlayerContractReview: kick check eligible (${review.label}<=${review.kickMax.toFixed(
           2,
         )}, matches>=${kickMinMatches}, days<=${kickWindowDays}). pbx=${pbx}`,
       );
@@ -4425,9 +4991,9 @@ export async function onPlayerContractReview(entry: Calendar) {
           teamId,
           playerId,
           now,
-          reason: `Performance below standard (KD ${kd.toFixed(
+          reason: `Performance below standard (${review.label} ${review.value.toFixed(
             2,
-          )} <= ${kickKdMax.toFixed(2)}) within first ${kickWindowDays} days. Form=${formScore.toFixed(
+          )} <= ${review.kickMax.toFixed(2)}) within first ${kickWindowDays} days. Form=${formScore.toFixed(
             2,
           )}.`,
         });
@@ -4437,15 +5003,21 @@ export async function onPlayerContractReview(entry: Calendar) {
     }
 
     // Bench logic
-    const eligibleForBench = !isBenched && matchesPlayed >= benchMinMatches && kd < benchKdMin;
+    const contract = await ContractNegotiation.getActiveContract(playerId, teamId);
+    const eligibleForBench =
+      !isBenched &&
+      !contract?.starterGuarantee &&
+      matchesPlayed >= benchMinMatches &&
+      review.value < review.benchMin;
 
     if (eligibleForBench) {
       let pbx = benchBasePbx * formMult;
       pbx = Math.max(1, Math.min(95, Math.round(pbx)));
 
       Engine.Runtime.Instance.log.debug(
-        'onPlayerContractReview: bench check eligible (kd<%.2f, matches>=%d). pbx=%d',
-        benchKdMin,
+        'onPlayerContractReview: bench check eligible (%s<%.2f, matches>=%d). pbx=%d',
+        review.label,
+        review.benchMin,
         benchMinMatches,
         pbx,
       );
@@ -4455,9 +5027,9 @@ export async function onPlayerContractReview(entry: Calendar) {
           teamId,
           playerId,
           now,
-          reason: `Underperforming (KD ${kd.toFixed(2)} < ${benchKdMin.toFixed(
+          reason: `Underperforming (${review.label} ${review.value.toFixed(
             2,
-          )}) after ${matchesPlayed} matches. Form=${formScore.toFixed(2)}.`,
+          )} < ${review.benchMin.toFixed(2)}) after ${matchesPlayed} matches. Form=${formScore.toFixed(2)}.`,
         });
         // Continue through to reschedule (bench does not remove contract)
       }
@@ -4637,6 +5209,14 @@ export async function onPlayerContractExtensionEval(entry: Calendar) {
     return logExit('league-stats-failed');
   }
 
+  let roleStats: Awaited<ReturnType<typeof LeagueStats.computeLeagueRoleStats>> | null = null;
+  try {
+    roleStats = await LeagueStats.computeLeagueRoleStats(teamId, playerId, 30);
+  } catch (_) {
+    // Without role stats the user is judged by their KD.
+  }
+  const review = getRoleReview(resolveUserRole(profile, profile.player), tierSlug, kd, roleStats);
+
   // Team context
   const standingScore = await computeTeamStandingScore(profile);
   const formScore = await computeTeamFormScore(profile, 5);
@@ -4645,17 +5225,17 @@ export async function onPlayerContractExtensionEval(entry: Calendar) {
 
   const extMinMatches = S.EXTENSION_MIN_MATCHES ?? 7;
 
-  // Tier-indexed extension thresholds
-  const extOkKd = (S.EXTENSION_PLAYER_OK_KD_BY_TIER as Record<string, number>)[tierSlug] ?? 1.0;
+  // Tier-indexed extension thresholds of the user's role
+  const extOk = review.extensionOk;
 
   // "Good team" and "good/ok player"
   const goodTeam = formScore >= 0.5; // optionally also check standingScore >= 0.5
-  const goodPlayer = matchesPlayed >= extMinMatches && kd >= extOkKd;
+  const goodPlayer = matchesPlayed >= extMinMatches && review.value >= extOk;
 
   // "Ok player" bucket (for the goodTeam+okPlayer case)
   // Slightly below "good", but not bench-worthy.
-  const okKdFloor = extOkKd * 0.95;
-  const okPlayer = matchesPlayed >= extMinMatches && kd >= okKdFloor;
+  const okFloor = extOk * 0.95;
+  const okPlayer = matchesPlayed >= extMinMatches && review.value >= okFloor;
 
   // Choose probability bucket
   let pbx = 0;
@@ -4699,65 +5279,760 @@ export async function onPlayerContractExtensionEval(entry: Calendar) {
     return logExit(`offer-roll-failed-pbx=${pbx}`);
   }
 
-  const contractYears = rollContractYears(tierSlug);
-  const rawExpiry = addDays(now, 30);
-  const offerExpiresAt = player.contractEnd
-    ? player.contractEnd < rawExpiry
-      ? player.contractEnd
-      : rawExpiry
-    : rawExpiry;
+  const contractYears = rollContractYears(tierSlug);
+  const rawExpiry = addDays(now, 30);
+  const offerExpiresAt = player.contractEnd
+    ? player.contractEnd < rawExpiry
+      ? player.contractEnd
+      : rawExpiry
+    : rawExpiry;
+
+  // Create transfer-like "extension offer"
+  const transfer = await prisma.transfer.create({
+    data: {
+      status: Constants.TransferStatus.PLAYER_PENDING,
+      from: { connect: { id: teamId } },
+      target: { connect: { id: playerId } },
+      offers: {
+        create: [
+          {
+            status: Constants.TransferStatus.PLAYER_PENDING,
+            wages: player.wages ?? 0,
+            cost: player.cost ?? 0,
+            contractYears,
+            expiresAt: offerExpiresAt,
+          },
+        ],
+      },
+    },
+    include: Eagers.transfer.include,
+  });
+
+  await prisma.calendar.create({
+    data: {
+      type: Constants.CalendarEntry.TRANSFER_OFFER_EXPIRY_CHECK,
+      date: offerExpiresAt.toISOString(),
+      payload: String(transfer.id),
+    },
+  });
+
+  // Email
+  const locale = getLocale(profile);
+  const persona =
+    profile.team.personas.find(
+      (p) => p.role === Constants.PersonaRole.MANAGER || p.role === Constants.PersonaRole.ASSISTANT,
+    ) ?? profile.team.personas[0];
+
+  const tierName = getTeamTierName(profile.team.tier);
+
+  if ((locale.templates as any).ContractExtensionOffer) {
+    await sendEmail(
+      Sqrl.render((locale.templates as any).ContractExtensionOffer.SUBJECT, {
+        profile,
+        transfer,
+        tierName,
+      }),
+      Sqrl.render((locale.templates as any).ContractExtensionOffer.CONTENT, {
+        profile,
+        transfer,
+        daysLeft,
+        contractYears,
+      }),
+      persona,
+      now,
+      true,
+    );
+  }
+
+  WindowManager.sendAll(Constants.IPCRoute.TRANSFER_UPDATE);
+
+  await scheduleOfferPauseAndExpiry(transfer.id, offerExpiresAt);
+  Engine.Runtime.Instance.stop();
+
+  Engine.Runtime.Instance.log.info(
+    'Contract extension offer created: teamId=%d playerId=%d tier=%s years=%d pbx=%d kd=%.2f matches=%d form=%.2f standing=%.2f daysLeft=%d',
+    teamId,
+    playerId,
+    tierSlug,
+    contractYears,
+    pbx,
+    kd,
+    matchesPlayed,
+    formScore,
+    standingScore,
+    daysLeft,
+  );
+  Engine.Runtime.Instance.log.info(
+    'onPlayerContractExtensionEval exit: playerId=%d entryId=%d reason=offer-created transferId=%d',
+    playerId,
+    entry.id,
+    transfer.id,
+  );
+
+  return Promise.resolve();
+}
+
+function isExtensionOffer(params: {
+  profile: Prisma.ProfileGetPayload<typeof Eagers.profile>;
+  transfer: Prisma.TransferGetPayload<typeof Eagers.transfer>;
+}) {
+  const { profile, transfer } = params;
+
+  const fromTeamId = transfer.from?.id ?? null;
+  if (!fromTeamId) return false;
+
+  // Must currently be on a team and the offer must come from that same team.
+  if (!profile.teamId) return false;
+  if (fromTeamId !== profile.teamId) return false;
+
+  const playerTeamId = (profile as any)?.player?.teamId ?? null;
+  if (playerTeamId != null && playerTeamId !== profile.teamId) return false;
+
+  return true;
+}
+
+/**
+ * The names roles go by in e-mails.
+ *
+ * @constant
+ */
+const USER_ROLE_NAMES: Record<UserRole, string> = {
+  [UserRole.RIFLER]: 'Rifler',
+  [UserRole.AWPER]: 'AWPer',
+  [UserRole.IGL]: 'IGL',
+};
+
+/**
+ * Whether the user is still retraining for a new role.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+function isInRoleTransition(profile: Prisma.ProfileGetPayload<unknown>) {
+  return !!profile.roleTransitionEnds && profile.date < profile.roleTransitionEnds;
+}
+
+/**
+ * Moves the user to their new role and starts the retraining
+ * period which takes some of their XP until it is over.
+ *
+ * @param profile The user's profile.
+ * @param role    The new role.
+ * @function
+ */
+async function startUserRoleTransition(
+  profile: Prisma.ProfileGetPayload<{ include: { player: true } }>,
+  role: UserRole,
+) {
+  const prisma = DatabaseClient.prisma;
+  const S = Constants.PlayerRoleSwitchSettings;
+  const xpPenalty = Math.min(profile.player.xp, S.TRANSITION_XP_PENALTY);
+  const transitionEnds = addDays(profile.date, S.TRANSITION_DAYS);
+
+  await prisma.player.update({
+    where: { id: profile.playerId },
+    data: { role, xp: profile.player.xp - xpPenalty },
+  });
+  await prisma.calendar.create({
+    data: {
+      type: Constants.CalendarEntry.PLAYER_ROLE_TRANSITION_END,
+      date: transitionEnds.toISOString(),
+      payload: String(profile.playerId),
+    },
+  });
+
+  Engine.Runtime.Instance.log.info(
+    'startUserRoleTransition: playerId=%d from=%s to=%s xpPenalty=%d ends=%s',
+    profile.playerId,
+    profile.player.role,
+    role,
+    xpPenalty,
+    transitionEnds.toISOString(),
+  );
+
+  return prisma.profile.update({
+    where: { id: profile.id },
+    data: {
+      roleTransitionFrom: profile.player.role,
+      roleTransitionEnds: transitionEnds,
+      roleTransitionXpPenalty: xpPenalty,
+    },
+    include: { player: true },
+  });
+}
+
+/**
+ * Gets where the user's role switch stands.
+ *
+ * @function
+ */
+export async function getUserRoleSwitchStatus() {
+  const prisma = DatabaseClient.prisma;
+  const profile = await prisma.profile.findFirst({ include: { player: true } });
+
+  if (!profile?.player) {
+    return null;
+  }
+
+  const pending = await prisma.calendar.findFirst({
+    where: {
+      type: Constants.CalendarEntry.PLAYER_ROLE_SWITCH_REVIEW,
+      completed: false,
+      payload: { startsWith: `${profile.playerId}:` },
+    },
+  });
+  const requestAvailableAt = profile.roleSwitchRequestedAt
+    ? addDays(
+        profile.roleSwitchRequestedAt,
+        Constants.PlayerRoleSwitchSettings.REQUEST_COOLDOWN_DAYS,
+      )
+    : null;
+  const transitioning = isInRoleTransition(profile);
+
+  return {
+    role: resolveUserRole(profile, profile.player),
+    pendingRole: pending ? (pending.payload.split(':')[1] as UserRole) : null,
+    pendingDecisionAt: pending?.date ?? null,
+    transitionFrom: transitioning ? profile.roleTransitionFrom : null,
+    transitionEnds: transitioning ? profile.roleTransitionEnds : null,
+    xpPenalty: transitioning ? profile.roleTransitionXpPenalty : 0,
+    requestAvailableAt:
+      !pending && requestAvailableAt && requestAvailableAt > profile.date
+        ? requestAvailableAt
+        : null,
+  };
+}
+
+/**
+ * Asks to switch the user's role.
+ *
+ * Teamless users simply make the switch while the coach
+ * of the user's team answers the request after a few days.
+ *
+ * @param role The requested role.
+ * @function
+ */
+export async function requestUserRoleSwitch(role: UserRole) {
+  const prisma = DatabaseClient.prisma;
+  const profile = await prisma.profile.findFirst({ include: { player: true } });
+  const status = await getUserRoleSwitchStatus();
+
+  if (!profile?.player || !status) {
+    throw new Error('No active profile found');
+  }
+
+  if (!Object.values(UserRole).includes(role) || role === status.role) {
+    throw new Error('ROLE_SWITCH_INVALID_ROLE');
+  }
+
+  if (status.transitionEnds) {
+    throw new Error('ROLE_SWITCH_IN_TRANSITION');
+  }
+
+  if (status.pendingRole) {
+    throw new Error('ROLE_SWITCH_PENDING');
+  }
+
+  if (!profile.teamId) {
+    await startUserRoleTransition(profile, role);
+    return getUserRoleSwitchStatus();
+  }
+
+  if (status.requestAvailableAt) {
+    throw new Error('ROLE_SWITCH_COOLDOWN');
+  }
+
+  await prisma.calendar.create({
+    data: {
+      type: Constants.CalendarEntry.PLAYER_ROLE_SWITCH_REVIEW,
+      date: addDays(
+        profile.date,
+        Constants.PlayerRoleSwitchSettings.REVIEW_DELAY_DAYS,
+      ).toISOString(),
+      payload: `${profile.playerId}:${role}`,
+    },
+  });
+  await prisma.profile.update({
+    where: { id: profile.id },
+    data: { roleSwitchRequestedAt: profile.date },
+  });
+
+  return getUserRoleSwitchStatus();
+}
+
+/**
+ * The coach answers the user's role switch request.
+ *
+ * Payload: `playerId:role`
+ *
+ * @param entry The calendar entry.
+ * @function
+ */
+export async function onPlayerRoleSwitchReview(entry: Calendar) {
+  const prisma = DatabaseClient.prisma;
+  const [playerId, role] = entry.payload.split(':');
+  const S = Constants.PlayerRoleSwitchSettings;
+
+  const profile = await prisma.profile.findFirst({ include: { player: true } });
+  if (!profile?.player || profile.playerId !== Number(playerId)) return Promise.resolve();
+  if (profile.player.role === role) return Promise.resolve();
+
+  // the user left the team in the meantime so it is their call
+  if (!profile.teamId) {
+    await startUserRoleTransition(profile, role as UserRole);
+    return Promise.resolve();
+  }
+
+  const team = await prisma.team.findFirst({
+    where: { id: profile.teamId },
+    include: { players: true, personas: true },
+  });
+  if (!team) return Promise.resolve();
+
+  // the coach only keeps one starting awper around
+  const starterSnipers = countStarterSnipers(
+    team.players.filter((player) => player.id !== profile.playerId),
+  );
+  let reason: 'SNIPER_SLOT_TAKEN' | 'NEEDS_SNIPER' | 'DECLINED' | null = null;
+
+  if (role === UserRole.AWPER && starterSnipers >= S.MAX_STARTER_SNIPERS) {
+    reason = 'SNIPER_SLOT_TAKEN';
+  } else if (isSniperRole(profile.player.role) && profile.player.starter && !starterSnipers) {
+    reason = 'NEEDS_SNIPER';
+  } else if (!Chance.rollD2(S.ACCEPT_PBX)) {
+    reason = 'DECLINED';
+  }
+
+  Engine.Runtime.Instance.log.info(
+    'onPlayerRoleSwitchReview: playerId=%d teamId=%d role=%s starterSnipers=%d result=%s',
+    profile.playerId,
+    team.id,
+    role,
+    starterSnipers,
+    reason ?? 'ACCEPTED',
+  );
+
+  if (!reason) {
+    await startUserRoleTransition(profile, role as UserRole);
+  }
+
+  const locale = getLocale(profile);
+  const persona =
+    team.personas.find(
+      (p) => p.role === Constants.PersonaRole.MANAGER || p.role === Constants.PersonaRole.ASSISTANT,
+    ) ?? team.personas[0];
+  const template = reason
+    ? locale.templates.RoleSwitchRejected
+    : locale.templates.RoleSwitchAccepted;
+
+  if (persona) {
+    await sendEmail(
+      Sqrl.render(template.SUBJECT, { profile, team }),
+      Sqrl.render(template.CONTENT, {
+        profile,
+        team,
+        persona,
+        reason,
+        role: USER_ROLE_NAMES[role as UserRole],
+        weeks: Math.round(S.TRANSITION_DAYS / 7),
+      }),
+      persona,
+      profile.date,
+    );
+  }
+
+  const refreshedProfile = await prisma.profile.findFirst(Eagers.profile);
+  WindowManager.get(Constants.WindowIdentifier.Main, false)?.webContents?.send(
+    Constants.IPCRoute.PROFILES_CURRENT,
+    refreshedProfile,
+  );
+
+  return Promise.resolve();
+}
+
+/**
+ * Ends the user's retraining period and gives back the XP it took.
+ *
+ * Payload: playerId (stringified)
+ *
+ * @param entry The calendar entry.
+ * @function
+ */
+export async function onPlayerRoleTransitionEnd(entry: Calendar) {
+  const prisma = DatabaseClient.prisma;
+  const profile = await prisma.profile.findFirst({ include: { player: true } });
+
+  if (!profile?.player || profile.playerId !== Number(entry.payload)) return Promise.resolve();
+  if (!profile.roleTransitionEnds) return Promise.resolve();
+
+  await prisma.player.update({
+    where: { id: profile.playerId },
+    data: { xp: Math.min(100, profile.player.xp + profile.roleTransitionXpPenalty) },
+  });
+  await prisma.profile.update({
+    where: { id: profile.id },
+    data: {
+      roleTransitionFrom: null,
+      roleTransitionEnds: null,
+      roleTransitionXpPenalty: 0,
+    },
+  });
+
+  Engine.Runtime.Instance.log.info(
+    'onPlayerRoleTransitionEnd: playerId=%d role=%s xpRestored=%d',
+    profile.playerId,
+    profile.player.role,
+    profile.roleTransitionXpPenalty,
+  );
+
+  const refreshedProfile = await prisma.profile.findFirst(Eagers.profile);
+  WindowManager.get(Constants.WindowIdentifier.Main, false)?.webContents?.send(
+    Constants.IPCRoute.PROFILES_CURRENT,
+    refreshedProfile,
+  );
+
+  return Promise.resolve();
+}
+
+/**
+ * The lineup helpers expect the user's AWPER role for snipers.
+ *
+ * @param role The player's role.
+ * @function
+ */
+function getLineupRole(role: unknown) {
+  return isSniperRole(role) ? 'AWPER' : 'RIFLER';
+}
+
+/**
+ * Hands a team's remaining matchdays over between the user and
+ * the npcs when the user joins or leaves them during a loan.
+ *
+ * @param teamId  The team id.
+ * @param now     The current date.
+ * @param from    The matchday type to hand over.
+ * @param to      The matchday type they become.
+ * @function
+ */
+async function switchFutureMatchdays(
+  teamId: number,
+  now: Date,
+  from: Constants.CalendarEntry,
+  to: Constants.CalendarEntry,
+) {
+  const futureMatches = await DatabaseClient.prisma.match.findMany({
+    where: {
+      date: { gte: now.toISOString() },
+      competitors: { some: { teamId } },
+    },
+    select: { id: true },
+  });
+
+  if (!futureMatches.length) {
+    return;
+  }
+
+  await DatabaseClient.prisma.calendar.updateMany({
+    where: {
+      payload: { in: futureMatches.map((m) => String(m.id)) },
+      date: { gte: now.toISOString() },
+      type: from,
+    },
+    data: { type: to },
+  });
+}
+
+/**
+ * Sends a player out on loan.
+ *
+ * The parent club promotes a replacement if the player was
+ * starting and the loan club benches a starter to make room.
+ * The recall is scheduled for the day the loan ends.
+ *
+ * @param params            The loan details.
+ * @param params.playerId   The player id.
+ * @param params.loanClubId The loan club id.
+ * @param params.now        The current date.
+ * @function
+ */
+async function loanPlayer(params: { playerId: number; loanClubId: number; now: Date }) {
+  const { playerId, loanClubId, now } = params;
+  const prisma = DatabaseClient.prisma;
+
+  const player = await prisma.player.findFirst({
+    where: { id: playerId },
+    include: { team: true },
+  });
+  const loanClub = await prisma.team.findFirst({ where: { id: loanClubId } });
+
+  if (!player?.team || !loanClub) return null;
+
+  const parent = player.team;
+  const loanEnds = Loans.getLoanEnd(now);
+
+  await promoteReplacement({
+    prisma,
+    teamId: parent.id,
+    outgoingUserRole: getLineupRole(player.role),
+    now,
+    outgoingPlayerId: player.id,
+    outgoingWasStarter: player.starter,
+  });
+  await benchVictim({
+    prisma,
+    teamId: loanClub.id,
+    userRole: getLineupRole(player.role),
+    now,
+    incomingPlayerId: player.id,
+  });
+
+  await prisma.player.update({
+    where: { id: player.id },
+    data: {
+      starter: true,
+      transferListed: false,
+      lastOfferAt: null,
+      team: { connect: { id: loanClub.id } },
+      loanedFromId: parent.id,
+      loanEnds,
+    },
+  });
+  await closeOpenCareerStints(prisma, player.id, now);
+  await startCareerStint(prisma, {
+    playerId: player.id,
+    teamId: loanClub.id,
+    tier: loanClub.tier ?? null,
+    starter: true,
+    startedAt: now,
+    loan: true,
+  });
+  await prisma.calendar.create({
+    data: {
+      type: Constants.CalendarEntry.PLAYER_LOAN_RECALL,
+      date: loanEnds.toISOString(),
+      payload: String(player.id),
+    },
+  });
+
+  await recalculateTeamCountryIdentity(parent.id);
+  await recalculateTeamCountryIdentity(loanClub.id);
+
+  Engine.Runtime.Instance.log.info(
+    'Loan agreed: %s -> %s (%s, until=%s)',
+    parent.name,
+    loanClub.name,
+    player.name,
+    format(loanEnds, 'yyyy-MM-dd'),
+  );
+
+  return { parent, loanClub, loanEnds };
+}
+
+/**
+ * Teams look for loan moves for the NPCs
+ * that have been on their bench for a while.
+ *
+ * @function
+ */
+export async function sendNPCLoans() {
+  const prisma = DatabaseClient.prisma;
+  const profile = await prisma.profile.findFirst();
+  if (!profile) return Promise.resolve();
+
+  const now = profile.date;
+  const benched = await prisma.player.findMany({
+    where: {
+      starter: false,
+      loanedFromId: null,
+      teamId: { not: null },
+      ...(profile.playerId ? { id: { not: profile.playerId } } : {}),
+    },
+    include: {
+      careerStints: {
+        where: { endedAt: null },
+        orderBy: { startedAt: 'desc' },
+        take: 1,
+      },
+    },
+  });
+  const teams = await prisma.team.findMany({
+    where: { tier: { not: null } },
+    include: { country: true, players: { select: { id: true } } },
+  });
+
+  // the user's lineup is never touched by NPC loans
+  const loanClubs = teams.filter((team) => team.id !== profile.teamId);
+  let loans = 0;
+
+  for (const player of shuffle(benched)) {
+    if (loans >= Loans.NPC_MAX_WEEKLY_LOANS) break;
+
+    const [stint] = player.careerStints;
+    if (!stint || !Loans.isLoanable(player, now) || !Loans.rollNPCLoan(stint.startedAt, now)) {
+      continue;
+    }
+
+    const parent = teams.find((team) => team.id === player.teamId);
+    if (!parent || parent.players.length <= Constants.Application.SQUAD_MIN_LENGTH) continue;
+
+    const loanClub = Loans.pickLoanClub(parent, loanClubs);
+    if (!loanClub) continue;
+
+    const moved = await loanPlayer({ playerId: player.id, loanClubId: loanClub.id, now });
+    if (!moved) continue;
+
+    // keep the rosters in step for the rest of the pass
+    parent.players = parent.players.filter((p) => p.id !== player.id);
+    loanClub.players.push({ id: player.id });
+    loans++;
+  }
+
+  if (loans) {
+    Engine.Runtime.Instance.log.info('Weekly NPC loans arranged: %d', loans);
+  }
+
+  return Promise.resolve();
+}
+
+/**
+ * Gets where the user stands with loans.
+ *
+ * @function
+ */
+export async function getUserLoanStatus() {
+  const prisma = DatabaseClient.prisma;
+  const profile = await prisma.profile.findFirst({ include: { player: true, team: true } });
+
+  if (!profile?.player || !profile.team) {
+    return null;
+  }
+
+  const { player } = profile;
+
+  if (player.loanedFromId == null) {
+    return {
+      parentClub: null,
+      recallDate: null,
+      wageShare: 0,
+      weeks: Loans.LOAN_WEEKS,
+      available: !player.starter && Loans.isLoanable(player, profile.date),
+    };
+  }
+
+  const parent = await prisma.team.findFirst({ where: { id: player.loanedFromId } });
+
+  return {
+    parentClub: parent?.name ?? null,
+    recallDate: player.loanEnds,
+    wageShare: Math.round(Loans.getWageShare(parent?.tier ?? null, profile.team.tier) * 100),
+    weeks: Loans.LOAN_WEEKS,
+    available: false,
+  };
+}
+
+/**
+ * Asks the user's team to send them out on loan.
+ *
+ * The team finds a lower tier club with room in their
+ * lineup and the user joins them straight away.
+ *
+ * @function
+ */
+export async function requestUserLoan() {
+  const prisma = DatabaseClient.prisma;
+  const profile = await prisma.profile.findFirst(Eagers.profile);
+
+  if (!profile?.player) {
+    throw new Error('No active profile found');
+  }
+
+  if (!profile.teamId) {
+    throw new Error('LOAN_NO_TEAM');
+  }
+
+  if (profile.player.loanedFromId != null) {
+    throw new Error('LOAN_ACTIVE');
+  }
+
+  if (profile.player.starter) {
+    throw new Error('LOAN_NOT_BENCHED');
+  }
+
+  if (!Loans.isLoanable(profile.player, profile.date)) {
+    throw new Error('LOAN_CONTRACT_TOO_SHORT');
+  }
+
+  const now = profile.date;
+  const parent = await prisma.team.findFirst({
+    where: { id: profile.teamId },
+    include: { country: true, personas: true },
+  });
+  const teams = await prisma.team.findMany({
+    where: { id: { not: profile.teamId }, tier: { not: null } },
+    include: { country: true, players: { select: { id: true } } },
+  });
+  const loanClub = parent ? Loans.pickLoanClub(parent, teams) : null;
 
-  // Create transfer-like "extension offer"
-  const transfer = await prisma.transfer.create({
-    data: {
-      status: Constants.TransferStatus.PLAYER_PENDING,
-      from: { connect: { id: teamId } },
-      target: { connect: { id: playerId } },
-      offers: {
-        create: [
-          {
-            status: Constants.TransferStatus.PLAYER_PENDING,
-            wages: player.wages ?? 0,
-            cost: player.cost ?? 0,
-            contractYears,
-            expiresAt: offerExpiresAt,
-          },
-        ],
-      },
-    },
-    include: Eagers.transfer.include,
+  if (!parent || !loanClub) {
+    throw new Error('LOAN_NO_CLUB');
+  }
+
+  const moved = await loanPlayer({ playerId: profile.playerId, loanClubId: loanClub.id, now });
+
+  if (!moved) {
+    throw new Error('LOAN_NO_CLUB');
+  }
+
+  await prisma.profile.update({
+    where: { id: profile.id },
+    data: { team: { connect: { id: loanClub.id } } },
   });
 
-  await prisma.calendar.create({
-    data: {
-      type: Constants.CalendarEntry.TRANSFER_OFFER_EXPIRY_CHECK,
-      date: offerExpiresAt.toISOString(),
-      payload: String(transfer.id),
+  // the parent club holds the contract so reviews wait until the recall
+  await prisma.calendar.deleteMany({
+    where: {
+      type: Constants.CalendarEntry.PLAYER_CONTRACT_REVIEW,
+      completed: false,
+      payload: String(profile.playerId),
+      date: { gte: now.toISOString() },
     },
   });
 
-  // Email
+  // the user plays the loan club's matches instead of the parent club's
+  await switchFutureMatchdays(
+    parent.id,
+    now,
+    Constants.CalendarEntry.MATCHDAY_USER,
+    Constants.CalendarEntry.MATCHDAY_NPC,
+  );
+  await switchFutureMatchdays(
+    loanClub.id,
+    now,
+    Constants.CalendarEntry.MATCHDAY_NPC,
+    Constants.CalendarEntry.MATCHDAY_USER,
+  );
+
   const locale = getLocale(profile);
   const persona =
-    profile.team.personas.find(
+    parent.personas.find(
       (p) => p.role === Constants.PersonaRole.MANAGER || p.role === Constants.PersonaRole.ASSISTANT,
-    ) ?? profile.team.personas[0];
+    ) ?? parent.personas[0];
+  const split = Loans.splitWages(profile.player.wages ?? 0, parent.tier, loanClub.tier);
 
-  const tierName = getTeamTierName(profile.team.tier);
+  if (persona) {
+    const data = {
+      profile,
+      loanClub,
+      tierName: getTeamTierName(loanClub.tier),
+      recallDate: format(moved.loanEnds, Constants.Settings.calendar.calendarDateFormat),
+      wageShare: Math.round(Loans.getWageShare(parent.tier, loanClub.tier) * 100),
+      loanWages: Util.formatCurrency(split.loanClub),
+      parentWages: Util.formatCurrency(split.parentClub),
+    };
 
-  if ((locale.templates as any).ContractExtensionOffer) {
     await sendEmail(
-      Sqrl.render((locale.templates as any).ContractExtensionOffer.SUBJECT, {
-        profile,
-        transfer,
-        tierName,
-      }),
-      Sqrl.render((locale.templates as any).ContractExtensionOffer.CONTENT, {
-        profile,
-        transfer,
-        daysLeft,
-        contractYears,
-      }),
+      Sqrl.render(locale.templates.LoanStarted.SUBJECT, data),
+      Sqrl.render(locale.templates.LoanStarted.CONTENT, data),
       persona,
       now,
       true,
@@ -4766,49 +6041,141 @@ export async function onPlayerContractExtensionEval(entry: Calendar) {
 
   WindowManager.sendAll(Constants.IPCRoute.TRANSFER_UPDATE);
 
-  await scheduleOfferPauseAndExpiry(transfer.id, offerExpiresAt);
-  Engine.Runtime.Instance.stop();
+  return getUserLoanStatus();
+}
+
+/**
+ * Recalls a player to their parent club once their loan is over.
+ *
+ * Payload: playerId (stringified)
+ *
+ * @param entry The calendar entry.
+ * @function
+ */
+export async function onPlayerLoanRecall(entry: Calendar) {
+  const prisma = DatabaseClient.prisma;
+  const playerId = Number(entry.payload);
+  const profile = await prisma.profile.findFirst(Eagers.profile);
+  const player = await prisma.player.findFirst({
+    where: { id: playerId },
+    include: { team: true },
+  });
+
+  if (!profile || player?.loanedFromId == null) return Promise.resolve();
+
+  const now = profile.date;
+  const loanClub = player.team;
+  const parent = await prisma.team.findFirst({
+    where: { id: player.loanedFromId },
+    include: { personas: true },
+  });
+
+  if (loanClub) {
+    await promoteReplacement({
+      prisma,
+      teamId: loanClub.id,
+      outgoingUserRole: getLineupRole(player.role),
+      now,
+      outgoingPlayerId: player.id,
+      outgoingWasStarter: player.starter,
+    });
+  }
+
+  // the parent club is gone so the player simply stays put
+  if (!parent) {
+    await prisma.player.update({
+      where: { id: player.id },
+      data: { loanedFromId: null, loanEnds: null },
+    });
+    return Promise.resolve();
+  }
+
+  await prisma.player.update({
+    where: { id: player.id },
+    data: {
+      starter: false,
+      transferListed: true,
+      lastOfferAt: now,
+      team: { connect: { id: parent.id } },
+      loanedFromId: null,
+      loanEnds: null,
+    },
+  });
+  await closeOpenCareerStints(prisma, player.id, now);
+  await startCareerStint(prisma, {
+    playerId: player.id,
+    teamId: parent.id,
+    tier: parent.tier ?? null,
+    starter: false,
+    startedAt: now,
+  });
+
+  if (loanClub) {
+    await recalculateTeamCountryIdentity(loanClub.id);
+  }
+
+  await recalculateTeamCountryIdentity(parent.id);
 
   Engine.Runtime.Instance.log.info(
-    'Contract extension offer created: teamId=%d playerId=%d tier=%s years=%d pbx=%d kd=%.2f matches=%d form=%.2f standing=%.2f daysLeft=%d',
-    teamId,
-    playerId,
-    tierSlug,
-    contractYears,
-    pbx,
-    kd,
-    matchesPlayed,
-    formScore,
-    standingScore,
-    daysLeft,
-  );
-  Engine.Runtime.Instance.log.info(
-    'onPlayerContractExtensionEval exit: playerId=%d entryId=%d reason=offer-created transferId=%d',
-    playerId,
-    entry.id,
-    transfer.id,
+    'Loan recalled: %s -> %s (%s)',
+    loanClub?.name ?? 'Free Agent',
+    parent.name,
+    player.name,
   );
 
-  return Promise.resolve();
-}
+  if (profile.playerId !== player.id) {
+    return Promise.resolve();
+  }
 
-function isExtensionOffer(params: {
-  profile: Prisma.ProfileGetPayload<typeof Eagers.profile>;
-  transfer: Prisma.TransferGetPayload<typeof Eagers.transfer>;
-}) {
-  const { profile, transfer } = params;
+  await prisma.profile.update({
+    where: { id: profile.id },
+    data: { team: { connect: { id: parent.id } } },
+  });
 
-  const fromTeamId = transfer.from?.id ?? null;
-  if (!fromTeamId) return false;
+  // back on the parent club's bench so the loan club's matches
+  // go back to the npcs and the user plays the parent club's again
+  if (loanClub) {
+    await switchFutureMatchdays(
+      loanClub.id,
+      now,
+      Constants.CalendarEntry.MATCHDAY_USER,
+      Constants.CalendarEntry.MATCHDAY_NPC,
+    );
+  }
 
-  // Must currently be on a team and the offer must come from that same team.
-  if (!profile.teamId) return false;
-  if (fromTeamId !== profile.teamId) return false;
+  await switchFutureMatchdays(
+    parent.id,
+    now,
+    Constants.CalendarEntry.MATCHDAY_NPC,
+    Constants.CalendarEntry.MATCHDAY_USER,
+  );
 
-  const playerTeamId = (profile as any)?.player?.teamId ?? null;
-  if (playerTeamId != null && playerTeamId !== profile.teamId) return false;
+  await schedulePlayerContractReview(prisma, addDays(now, 7), player.id);
 
-  return true;
+  const locale = getLocale(profile);
+  const persona =
+    parent.personas.find(
+      (p) => p.role === Constants.PersonaRole.MANAGER || p.role === Constants.PersonaRole.ASSISTANT,
+    ) ?? parent.personas[0];
+
+  if (persona && loanClub) {
+    await sendEmail(
+      Sqrl.render(locale.templates.LoanRecalled.SUBJECT, { profile, team: parent, loanClub }),
+      Sqrl.render(locale.templates.LoanRecalled.CONTENT, { profile, team: parent, loanClub }),
+      persona,
+      now,
+      true,
+    );
+  }
+
+  const refreshedProfile = await prisma.profile.findFirst(Eagers.profile);
+  WindowManager.get(Constants.WindowIdentifier.Main, false)?.webContents?.send(
+    Constants.IPCRoute.PROFILES_CURRENT,
+    refreshedProfile,
+  );
+  WindowManager.sendAll(Constants.IPCRoute.TRANSFER_UPDATE);
+
+  return Promise.resolve();
 }
 
 /**
@@ -6167,7 +7534,7 @@ export async function sendUserFaceitOffer() {
   if (profile.teamId != null) return Promise.resolve();
 
   const role = resolveUserRole(profile, profile.player);
-  const tuning = getRoleOfferTuning(role);
+  const tuning = getRoleOfferTuning(role, isInRoleTransition(profile));
 
   // Pending offers cap
   const pendingCount = await prisma.transfer.count({
@@ -6248,13 +7615,23 @@ export async function sendUserFaceitOffer() {
     pbx = Math.max(pbx, clampPbx(90 * tuning.pbxMultFaceit));
   }
 
-  if (!Chance.rollD2(pbx)) {
-    return Promise.resolve();
+  // scouts follow the pro league standings far more closely than the open ladder
+  const proLeague = await FaceitProLeague.getStanding(profile);
+
+  if (proLeague) {
+    pbx = clampPbx(pbx * FaceitProLeague.getScoutingWeight(proLeague));
   }
 
   // Federation restriction (own federation)
   const userFedId = profile.player.country?.continent?.federationId ?? null;
 
+  const agent = await Agents.getSigned(profile);
+  pbx = clampPbx(pbx * Agents.getOfferWeight(agent, userFedId));
+
+  if (!Chance.rollD2(pbx)) {
+    return Promise.resolve();
+  }
+
   const prestigeIdx = Constants.Prestige.findIndex((p) => p === targetTier);
 
   const teams = await prisma.team.findMany({
@@ -6297,8 +7674,9 @@ export async function sendUserFaceitOffer() {
     userFedId,
     lastOfferTeamId,
   );
+  pool = Agents.pickNetworkPool(agent, pool);
 
-  if (isHotProspect) {
+  if (isHotProspect || proLeague?.division === 'FPL') {
     const sorted = [...pool].sort((a, b) => (b.elo ?? 0) - (a.elo ?? 0));
     const topCount = Math.max(3, Math.floor(sorted.length * 0.2)); // top 20%, min 3
     pool = sorted.slice(0, topCount);
@@ -6381,6 +7759,98 @@ export async function sendUserFaceitOffer() {
   return Promise.resolve(transfer);
 }
 
+/**
+ * Invites the top of every regional FACEIT leaderboard
+ * to the pro league and e-mails the user their invite.
+ *
+ * @function
+ */
+export async function sendFaceitProLeagueInvites() {
+  const profile = await DatabaseClient.prisma.profile.findFirst({ include: { player: true } });
+
+  if (!profile) {
+    return Promise.resolve();
+  }
+
+  const members = await FaceitProLeague.updateRosters(profile);
+  const member = members.find((entry) => entry.playerId === profile.playerId);
+
+  Engine.Runtime.Instance.log.info('Invited %d players to the FACEIT pro league.', members.length);
+
+  if (!member) {
+    return Promise.resolve();
+  }
+
+  const [federation, persona] = await Promise.all([
+    DatabaseClient.prisma.federation.findFirst({ where: { id: member.federationId } }),
+    FaceitProLeague.getPersona(),
+  ]);
+  const locale = getLocale(profile);
+  const data = {
+    profile,
+    member,
+    division: FaceitProLeague.DivisionName[member.division],
+    federation: federation?.name,
+    month: format(profile.date, 'MMMM yyyy'),
+  };
+
+  await sendEmail(
+    Sqrl.render(locale.templates.FaceitProLeagueInvite.SUBJECT, data),
+    Sqrl.render(locale.templates.FaceitProLeagueInvite.CONTENT, data),
+    persona,
+    profile.date,
+  );
+
+  return Promise.resolve();
+}
+
+/**
+ * Sends the user a weekly update from their agent
+ * about the offers on the table and their contract.
+ *
+ * @function
+ */
+export async function sendAgentWeeklyReport() {
+  const profile = await DatabaseClient.prisma.profile.findFirst({
+    include: { player: true, team: true },
+  });
+  const agent = await Agents.getSigned(profile);
+
+  if (!agent || !profile.player) {
+    return Promise.resolve();
+  }
+
+  const pendingOffers = await DatabaseClient.prisma.transfer.count({
+    where: {
+      playerId: profile.playerId,
+      status: Constants.TransferStatus.PLAYER_PENDING,
+    },
+  });
+  const wages = profile.player.wages ?? 0;
+  const persona = await Agents.getPersona(agent);
+  const locale = getLocale(profile);
+  const data = {
+    profile,
+    agent,
+    network: agent.country?.name ?? agent.federation.name,
+    pendingOffers,
+    wages: Util.formatCurrency(wages),
+    fee: Util.formatCurrency(Agents.getFee(agent, wages)),
+    contractEnd: profile.player.contractEnd
+      ? format(profile.player.contractEnd, Constants.Settings.calendar.calendarDateFormat)
+      : null,
+  };
+
+  await sendEmail(
+    Sqrl.render(locale.templates.AgentWeeklyReport.SUBJECT, data),
+    Sqrl.render(locale.templates.AgentWeeklyReport.CONTENT, data),
+    persona,
+    profile.date,
+  );
+
+  return Promise.resolve();
+}
+
 function getTierContractYears(tierIdx: number | null | undefined) {
   const tierSlug = getTeamTierSlug(tierIdx);
   if (!tierSlug) return 1;
@@ -6426,7 +7896,6 @@ async function isUserBenchWorthyForReplacement(params: {
 
   const S = Constants.PlayerContractSettings;
   const benchMinMatches = S.BENCH_MIN_LEAGUE_MATCHES;
-  const benchKdMin = (S.BENCH_KD_MIN_BY_TIER as Record<string, number>)[tierSlug];
 
   const activeStint = await DatabaseClient.prisma.careerStint.findFirst({
     where: { playerId, endedAt: null, teamId },
@@ -6443,9 +7912,16 @@ async function isUserBenchWorthyForReplacement(params: {
       contractStart,
     );
 
-    const kd = leagueRecent.kdRatio ?? 0;
+    const roleStats = await LeagueStats.computeLeagueRoleStats(teamId, playerId, 30, contractStart);
+    const review = getRoleReview(
+      resolveUserRole(profile, profile?.player),
+      tierSlug,
+      leagueRecent.kdRatio ?? 0,
+      roleStats,
+    );
+
     const matchesPlayed = leagueRecent.matchesPlayed ?? 0;
-    return matchesPlayed >= benchMinMatches && kd < benchKdMin;
+    return matchesPlayed >= benchMinMatches && review.value < review.benchMin;
   } catch (_) {
     return false;
   }
@@ -8065,13 +9541,18 @@ export async function sendTransferOffer(from: NpcTransferTeam, to: NpcTransferTe
   }
 
   const offerPercent = random(95, 115) / 100;
-  const cost = Math.max(0, Math.round((target.cost || 0) * offerPercent));
+  const value = Math.max(0, Math.round((target.cost || 0) * offerPercent));
   const wages = Math.max(0, Math.round(((target.wages || 0) * random(95, 120)) / 100));
   const contractYears = getTierContractYears(from.tier);
 
+  // a buyer that meets the release clause pays it and skips the talks with the seller
+  const buyout = ContractNegotiation.meetsReleaseClause(target.releaseClause, value);
+  const cost = buyout ? target.releaseClause : value;
+
   const transfer = await DatabaseClient.prisma.transfer.create({
     data: {
       status: Constants.TransferStatus.TEAM_PENDING,
+      buyout,
       from: { connect: { id: from.id } },
       to: { connect: { id: to.id } },
       target: { connect: { id: target.id } },
@@ -8082,6 +9563,7 @@ export async function sendTransferOffer(from: NpcTransferTeam, to: NpcTransferTe
             cost,
             wages,
             contractYears,
+            releaseClause: ContractNegotiation.rollReleaseClause(value),
           },
         ],
       },
@@ -8104,11 +9586,12 @@ export async function sendTransferOffer(from: NpcTransferTeam, to: NpcTransferTe
   });
 
   Engine.Runtime.Instance.log.info(
-    '%s sent npc offer to %s for %s (years=%d)',
+    '%s sent npc offer to %s for %s (years=%d buyout=%s)',
     from.name,
     to.name,
     target.name,
     contractYears,
+    buyout ? 'true' : 'false',
   );
 
   return Promise.resolve(transfer);
@@ -8146,7 +9629,12 @@ export async function onTransferParse(entry: Calendar) {
     teamAcceptPbx -= Constants.TransferSettings.PBX_NPC_SELLING_TEAM_PERFORMANCE_DAMPENER;
   }
 
-  if (!Chance.rollD2(Math.max(5, Math.min(95, teamAcceptPbx)))) {
+  // the seller has no say once the release clause is paid
+  // but a loan club cannot sell a player it does not own
+  if (
+    transfer.target.loanedFromId != null ||
+    (!transfer.buyout && !Chance.rollD2(Math.max(5, Math.min(95, teamAcceptPbx))))
+  ) {
     await DatabaseClient.prisma.transfer.update({
       where: { id: transfer.id },
       data: {
@@ -8286,6 +9774,7 @@ export async function onTransferParse(entry: Calendar) {
       team: { connect: { id: transfer.from.id } },
       wages: offer.wages ?? transfer.target.wages,
       contractEnd,
+      releaseClause: offer.releaseClause,
       lastOfferAt: null,
     },
   });
@@ -8340,11 +9829,12 @@ export async function onTransferParse(entry: Calendar) {
   });
 
   Engine.Runtime.Instance.log.info(
-    'NPC transfer accepted: %s -> %s (%s, years=%d)',
+    'NPC transfer accepted: %s -> %s (%s, years=%d buyout=%s)',
     transfer.to.name,
     transfer.from.name,
     transfer.target.name,
     years,
+    transfer.buyout ? 'true' : 'false',
   );
 
   return Promise.resolve();
@@ -8736,6 +10226,7 @@ export async function onSeasonStart() {
     .then(scheduleNextSeasonStart)
     .then(bumpSeasonNumber)
     .then(rotateMapPoolForNewSeason)
+    .then(decayInactiveMapProficiency)
     .then(() => syncLeagueSchedule(DatabaseClient.prisma as unknown as PrismaClient))
     .then(createCompetitions)
     .then(incrementAgesSeasonal)
@@ -8797,14 +10288,18 @@ export async function onMatchdayNPC(entry: Calendar) {
   // load sim settings if this is a user matchday
   const simulator = new Simulator.Score();
   const careerProfile = await DatabaseClient.prisma.profile.findFirst();
+  const settings = Util.loadSettings(careerProfile?.settings ?? null);
   const simulateNpcMatchStats =
     entry.type === Constants.CalendarEntry.MATCHDAY_NPC &&
     Boolean(careerProfile?.simulateNpcMatchStats);
   let userMatchdayProfile: Awaited<ReturnType<typeof DatabaseClient.prisma.profile.findFirst>>;
 
+  // overtime and regulation length follow the user's match rules
+  simulator.maxRounds = settings.matchRules.maxRounds;
+  simulator.maxRoundsOvertime = settings.matchRules.maxRoundsOvertime;
+
   if (entry.type === Constants.CalendarEntry.MATCHDAY_USER) {
     userMatchdayProfile = careerProfile;
-    const settings = Util.loadSettings(careerProfile.settings);
     simulator.mode = settings.general.simulationMode;
     simulator.userPlayerId = careerProfile.playerId;
     simulator.userTeamId = careerProfile.teamId;
@@ -8815,15 +10310,22 @@ export async function onMatchdayNPC(entry: Calendar) {
     simulator.allowDraw = false;
   }
 
+  // finish the map veto so the series is played on the maps the teams chose
+  const mapList = await MapVeto.runForMatch(match);
+  match.games.forEach((game, idx) => {
+    game.map = mapList[idx];
+  });
+
   // sim the game
   const [home, away] = match.competitors;
+  simulator.mapProficiency = await MapProficiency.getLookup([home.team.id, away.team.id]);
+  const series = simulator.generateSeriesDetailed(
+    [home.team, away.team],
+    match.games.length,
+    match.games.map((game) => game.map),
+  );
   const simulation =
-    match.games.length === 1
-      ? {
-          maps: [simulator.generate([home.team, away.team])],
-          score: null as Simulator.MapScore | null,
-        }
-      : simulator.generateSeriesDetailed([home.team, away.team], match.games.length);
+    match.games.length === 1 ? { ...series, score: null as Simulator.MapScore | null } : series;
   const simulationResult =
     simulation.score ??
     ({
@@ -8851,6 +10353,7 @@ export async function onMatchdayNPC(entry: Calendar) {
     .map((score, idx) => ({
       game: match.games[idx],
       score,
+      simulation: simulation.simulations[idx],
     }))
     .filter((map) => !!map.game);
   const simulatedStats = simulateNpcMatchStats
@@ -8926,6 +10429,13 @@ export async function onMatchdayNPC(entry: Calendar) {
         : undefined,
   });
 
+  await MapProficiency.recordGames(
+    simulatedMaps.map(({ game }) => ({
+      map: game.map,
+      teamIds: [home.team.id, away.team.id],
+    })),
+  );
+
   const transaction: Prisma.PrismaPromise<unknown>[] = [
     ...deltas.map((delta, teamIdx) =>
       DatabaseClient.prisma.team.update({
@@ -8991,6 +10501,16 @@ export async function onMatchdayNPC(entry: Calendar) {
     );
   }
 
+  if (simulateNpcMatchStats) {
+    for (const { game, simulation } of simulatedMaps.filter((map) => !!map.simulation)) {
+      await MatchPlayerGameDetailStats.saveGame(
+        match.id,
+        game.id,
+        MatchPlayerGameDetailStats.fromSimulation(simulation),
+      );
+    }
+  }
+
   return DatabaseClient.prisma.$transaction(transaction);
 }
 
@@ -70,6 +70,40 @@ function ceilingGainMult(xp: number) {
   return 1.0 - 0.6 * t;
 }
 
+/**
+ * Gets how much the user's training fatigue slows their gains down.
+ *
+ * @param profile The user's profile.
+ * @function
+ */
+function trainingGainMult(
+  profile?: { date: Date; trainingFatigue: number; trainingBurnoutEnds: Date | null } | null,
+) {
+  if (!profile) return 1.0;
+  if (profile.trainingBurnoutEnds && profile.date < profile.trainingBurnoutEnds) {
+    return Constants.PlayerTrainingSettings.BURNOUT_GAIN_MULT;
+  }
+  const t = clamp(profile.trainingFatigue / Constants.PlayerTrainingSettings.MAX_FATIGUE, 0, 1);
+  return 1.0 - 0.4 * t;
+}
+
+/**
+ * Loads the user's training fatigue and gets how much it slows their gains down.
+ *
+ * @param profileId The user's profile id.
+ * @function
+ */
+async function loadUserTrainingGainMult(profileId?: number | null) {
+  if (!profileId) return 1.0;
+
+  const profile = await DatabaseClient.prisma.profile.findFirst({
+    where: { id: profileId },
+    select: { date: true, trainingFatigue: true, trainingBurnoutEnds: true },
+  });
+
+  return trainingGainMult(profile);
+}
+
 // Convert expected/actual to a small team delta and add a "not guaranteed" gate.
 function computeTeamDelta(params: { expectedHome: number; actualHome: number }) {
   const { expectedHome, actualHome } = params;
@@ -388,6 +422,7 @@ export async function applyMatchXpFromSim(params: {
     profile,
   });
   const matchXpMultiplier = getMatchXpMultiplier(matchXpContext);
+  const userTrainingMult = await loadUserTrainingGainMult(matchXpContext?.profileId);
 
   const home = computeTeamStrength(homeTeam, profile);
   const away = computeTeamStrength(awayTeam, profile);
@@ -433,6 +468,7 @@ export async function applyMatchXpFromSim(params: {
     if (base > 0) {
       mult *= ageGainMult(p.age);
       mult *= ceilingGainMult(xpNow);
+      if (id === profile?.playerId) mult *= userTrainingMult;
     } else {
       mult *= ageLossMult(p.age);
     }
@@ -531,6 +567,7 @@ export async function applyMatchXpFromCompletedMatch(params: {
     profileId: params.profile?.id ?? match.profileId ?? null,
     userTeammateIds: getUserTeammateIds(userTeam as any, params.profile),
   };
+  const userTrainingMult = await loadUserTrainingGainMult(matchXpContext.profileId);
 
   // Expected based on your XP+prestige+tier rating
   const home = computeTeamStrength(homeC.team as any, params.profile);
@@ -575,6 +612,7 @@ export async function applyMatchXpFromCompletedMatch(params: {
     if (base > 0) {
       mult *= ageGainMult(p.age);
       mult *= ceilingGainMult(xpNow);
+      if (id === params.profile?.playerId) mult *= userTrainingMult;
     } else {
       mult *= ageLossMult(p.age);
     }
@@ -613,6 +651,44 @@ export async function applyMatchXpFromCompletedMatch(params: {
   );
 }
 
+/**
+ * Rolls the XP a training session earns the user's player.
+ * - progress is the chance out of one point before mults
+ * - gains are never guaranteed and at most one point per session
+ *
+ * @param params            The training session.
+ * @param params.profileId  The user's profile id.
+ * @param params.progress   The chance out of one point before mults.
+ * @function
+ */
+export async function applyTrainingXp(params: { profileId: number; progress: number }) {
+  const prisma = DatabaseClient.prisma;
+
+  const profile = await prisma.profile.findFirst({
+    where: { id: params.profileId },
+    include: { player: { select: { id: true, xp: true, age: true } } },
+  });
+  if (!profile?.player || params.progress <= 0) return 0;
+
+  const xpNow = profile.player.xp ?? 0;
+
+  let mult = params.progress;
+  mult *= ageGainMult(profile.player.age);
+  mult *= ceilingGainMult(xpNow);
+  mult *= trainingGainMult(profile);
+
+  const delta = clamp(applyFloatDeltaToInt({ baseInt: 1, mult }), 0, 1);
+  const newXp = clampXp(xpNow + delta);
+  if (newXp === xpNow) return 0;
+
+  await prisma.player.update({
+    where: { id: profile.player.id },
+    data: { xp: newXp },
+  });
+
+  return newXp - xpNow;
+}
+
 function SimulatorResultToMatchResult(teamId: number, simulationResult: Record<number, number>) {
   const opponentId = Number(Object.keys(simulationResult).find((k) => Number(k) !== teamId));
   const teamScore = simulationResult[teamId];
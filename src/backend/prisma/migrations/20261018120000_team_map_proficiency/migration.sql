@@ -0,0 +1,12 @@
+CREATE TABLE IF NOT EXISTS "TeamMapProficiency" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "rating" REAL NOT NULL DEFAULT 0,
+  "games" INTEGER NOT NULL DEFAULT 0,
+  "teamId" INTEGER NOT NULL,
+  "gameMapId" INTEGER NOT NULL,
+  CONSTRAINT "TeamMapProficiency_teamId_fkey" FOREIGN KEY ("teamId") REFERENCES "Team" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "TeamMapProficiency_gameMapId_fkey" FOREIGN KEY ("gameMapId") REFERENCES "GameMap" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "TeamMapProficiency_teamId_gameMapId_key" ON "TeamMapProficiency"("teamId", "gameMapId");
+CREATE INDEX IF NOT EXISTS "TeamMapProficiency_gameMapId_idx" ON "TeamMapProficiency"("gameMapId");
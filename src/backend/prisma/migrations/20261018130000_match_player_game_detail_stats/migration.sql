@@ -0,0 +1,21 @@
+CREATE TABLE IF NOT EXISTS "MatchPlayerGameDetailStat" (
+  "playerId" INTEGER NOT NULL,
+  "matchId" INTEGER NOT NULL,
+  "gameKey" INTEGER NOT NULL,
+  "rounds" INTEGER NOT NULL DEFAULT 0,
+  "kastRounds" INTEGER NOT NULL DEFAULT 0,
+  "openingKills" INTEGER NOT NULL DEFAULT 0,
+  "openingDeaths" INTEGER NOT NULL DEFAULT 0,
+  "clutchesPlayed" INTEGER NOT NULL DEFAULT 0,
+  "clutchesWon" INTEGER NOT NULL DEFAULT 0,
+  "damage" INTEGER,
+  "utilityDamage" INTEGER,
+  "moneySpent" INTEGER,
+  "grenadesThrown" INTEGER,
+  "bombPlants" INTEGER,
+  "bombDefuses" INTEGER,
+  PRIMARY KEY ("playerId", "matchId", "gameKey")
+);
+
+CREATE INDEX IF NOT EXISTS "MatchPlayerGameDetailStat_matchId_idx" ON "MatchPlayerGameDetailStat"("matchId");
+CREATE INDEX IF NOT EXISTS "MatchPlayerGameDetailStat_playerId_idx" ON "MatchPlayerGameDetailStat"("playerId");
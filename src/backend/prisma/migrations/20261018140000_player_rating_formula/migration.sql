@@ -0,0 +1,2 @@
+ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "multiKillRounds" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "ratingVersion" INTEGER NOT NULL DEFAULT 1;
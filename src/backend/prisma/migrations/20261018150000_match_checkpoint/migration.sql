@@ -0,0 +1,10 @@
+CREATE TABLE IF NOT EXISTS "MatchCheckpoint" (
+  "matchId" INTEGER NOT NULL PRIMARY KEY,
+  "gameId" INTEGER NOT NULL,
+  "round" INTEGER NOT NULL,
+  "tTeamId" INTEGER NOT NULL,
+  "ctTeamId" INTEGER NOT NULL,
+  "events" TEXT NOT NULL,
+  "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  CONSTRAINT "MatchCheckpoint_matchId_fkey" FOREIGN KEY ("matchId") REFERENCES "Match" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
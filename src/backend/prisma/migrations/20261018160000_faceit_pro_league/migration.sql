@@ -0,0 +1,11 @@
+CREATE TABLE IF NOT EXISTS "FaceitProLeagueMember" (
+  "season" TEXT NOT NULL,
+  "playerId" INTEGER NOT NULL,
+  "federationId" INTEGER NOT NULL,
+  "division" TEXT NOT NULL,
+  "rank" INTEGER NOT NULL,
+  "elo" INTEGER NOT NULL,
+  PRIMARY KEY ("season", "playerId"),
+  CONSTRAINT "FaceitProLeagueMember_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "FaceitProLeagueMember_federationId_fkey" FOREIGN KEY ("federationId") REFERENCES "Federation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
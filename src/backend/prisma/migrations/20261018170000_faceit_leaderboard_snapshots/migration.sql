@@ -0,0 +1,14 @@
+ALTER TABLE "Player" ADD COLUMN "faceitMatches" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS "FaceitLeaderboardSnapshot" (
+  "season" TEXT NOT NULL,
+  "playerId" INTEGER NOT NULL,
+  "federationId" INTEGER NOT NULL,
+  "rank" INTEGER NOT NULL,
+  "elo" INTEGER NOT NULL,
+  "level" INTEGER NOT NULL,
+  "matchesPlayed" INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY ("season", "playerId"),
+  CONSTRAINT "FaceitLeaderboardSnapshot_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "FaceitLeaderboardSnapshot_federationId_fkey" FOREIGN KEY ("federationId") REFERENCES "Federation" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
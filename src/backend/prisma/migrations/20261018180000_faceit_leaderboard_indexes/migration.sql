@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "Player_elo_id_idx" ON "Player"("elo", "id");
+
+-- CreateIndex
+CREATE INDEX "Player_countryId_elo_idx" ON "Player"("countryId", "elo");
+
+-- CreateIndex
+CREATE INDEX "Player_teamId_elo_idx" ON "Player"("teamId", "elo");
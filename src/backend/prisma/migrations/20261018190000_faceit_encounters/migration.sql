@@ -0,0 +1,4 @@
+ALTER TABLE "Match" ADD COLUMN "faceitEncounter" TEXT;
+ALTER TABLE "Match" ADD COLUMN "faceitEncounterPlayerId" INTEGER;
+ALTER TABLE "Match" ADD COLUMN "faceitReportedPlayerId" INTEGER;
+ALTER TABLE "Match" ADD COLUMN "faceitEloRefund" INTEGER;
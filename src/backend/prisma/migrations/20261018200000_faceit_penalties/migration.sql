@@ -0,0 +1,13 @@
+ALTER TABLE "Profile" ADD COLUMN "faceitReliability" INTEGER NOT NULL DEFAULT 100;
+ALTER TABLE "Profile" ADD COLUMN "faceitCooldownEnds" DATETIME;
+
+CREATE TABLE IF NOT EXISTS "FaceitPenalty" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "type" TEXT NOT NULL,
+  "date" DATETIME NOT NULL,
+  "cooldownEnds" DATETIME NOT NULL,
+  "eloPenalty" INTEGER NOT NULL DEFAULT 0,
+  "matchId" INTEGER,
+  "profileId" INTEGER NOT NULL,
+  CONSTRAINT "FaceitPenalty_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
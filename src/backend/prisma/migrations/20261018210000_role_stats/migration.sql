@@ -0,0 +1,2 @@
+ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "calledRounds" INTEGER;
+ALTER TABLE "MatchPlayerGameDetailStat" ADD COLUMN "calledRoundsWon" INTEGER;
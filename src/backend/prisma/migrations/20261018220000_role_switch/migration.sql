@@ -0,0 +1,4 @@
+ALTER TABLE "Profile" ADD COLUMN "roleSwitchRequestedAt" DATETIME;
+ALTER TABLE "Profile" ADD COLUMN "roleTransitionFrom" TEXT;
+ALTER TABLE "Profile" ADD COLUMN "roleTransitionEnds" DATETIME;
+ALTER TABLE "Profile" ADD COLUMN "roleTransitionXpPenalty" INTEGER NOT NULL DEFAULT 0;
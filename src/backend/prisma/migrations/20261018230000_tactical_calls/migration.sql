@@ -0,0 +1,13 @@
+CREATE TABLE IF NOT EXISTS "MatchTacticalCall" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "matchId" INTEGER NOT NULL,
+  "gameKey" INTEGER NOT NULL,
+  "playerId" INTEGER NOT NULL,
+  "round" INTEGER NOT NULL,
+  "call" TEXT NOT NULL,
+  "site" TEXT,
+  "side" TEXT NOT NULL,
+  "won" BOOLEAN NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS "MatchTacticalCall_playerId_idx" ON "MatchTacticalCall"("playerId");
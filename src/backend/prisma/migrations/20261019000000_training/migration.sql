@@ -0,0 +1,3 @@
+ALTER TABLE "Profile" ADD COLUMN "trainingSchedule" TEXT;
+ALTER TABLE "Profile" ADD COLUMN "trainingFatigue" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "Profile" ADD COLUMN "trainingBurnoutEnds" DATETIME;
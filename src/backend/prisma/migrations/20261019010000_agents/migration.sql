@@ -0,0 +1,14 @@
+CREATE TABLE IF NOT EXISTS "Agent" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "name" TEXT NOT NULL,
+  "reputation" INTEGER NOT NULL,
+  "feePercent" INTEGER NOT NULL,
+  "federationId" INTEGER NOT NULL,
+  "countryId" INTEGER,
+  CONSTRAINT "Agent_federationId_fkey" FOREIGN KEY ("federationId") REFERENCES "Federation" ("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT "Agent_countryId_fkey" FOREIGN KEY ("countryId") REFERENCES "Country" ("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+CREATE UNIQUE INDEX IF NOT EXISTS "Agent_name_key" ON "Agent"("name");
+
+ALTER TABLE "Profile" ADD COLUMN "agentSignedAt" DATETIME;
+ALTER TABLE "Profile" ADD COLUMN "agentId" INTEGER REFERENCES "Agent" ("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+ALTER TABLE "Offer" ADD COLUMN "starterGuarantee" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "Offer" ADD COLUMN "releaseClause" INTEGER;
@@ -0,0 +1,11 @@
+ALTER TABLE "Profile" ADD COLUMN "balance" INTEGER NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS "LedgerEntry" (
+  "id" INTEGER NOT NULL PRIMARY KEY AUTOINCREMENT,
+  "type" TEXT NOT NULL,
+  "amount" INTEGER NOT NULL,
+  "date" DATETIME NOT NULL,
+  "description" TEXT,
+  "profileId" INTEGER NOT NULL,
+  CONSTRAINT "LedgerEntry_profileId_fkey" FOREIGN KEY ("profileId") REFERENCES "Profile" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
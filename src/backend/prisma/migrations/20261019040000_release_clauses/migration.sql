@@ -0,0 +1,2 @@
+ALTER TABLE "Player" ADD COLUMN "releaseClause" INTEGER;
+ALTER TABLE "Transfer" ADD COLUMN "buyout" BOOLEAN NOT NULL DEFAULT false;
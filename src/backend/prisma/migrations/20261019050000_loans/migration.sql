@@ -0,0 +1,3 @@
+ALTER TABLE "Player" ADD COLUMN "loanedFromId" INTEGER;
+ALTER TABLE "Player" ADD COLUMN "loanEnds" DATETIME;
+ALTER TABLE "CareerStint" ADD COLUMN "loan" BOOLEAN NOT NULL DEFAULT false;
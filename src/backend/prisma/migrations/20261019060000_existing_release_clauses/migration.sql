@@ -0,0 +1,9 @@
+-- contracts signed before release clauses existed get one as often
+-- and as high as new contracts do (see `rollReleaseClause`)
+UPDATE "Player"
+SET "releaseClause" = "cost" * (150 + ABS(RANDOM()) % 151) / 100
+WHERE "teamId" IS NOT NULL
+  AND "userControlled" = 0
+  AND "releaseClause" IS NULL
+  AND "cost" > 0
+  AND ABS(RANDOM()) % 100 < 35;
@@ -13,6 +13,7 @@ const MAIN_TAB_PATHS = [
   '/faceit',
   '/squad',
   '/stats',
+  '/demos',
   '/teams',
   '/competitions',
   '/calendar',
@@ -113,6 +113,14 @@ export default function MatchLaunchModal(props: MatchLaunchModalProps) {
               })}
             </ul>
           </article>
+          {props.status === 'WATCHING_MATCH' && (
+            <button
+              className={cx('btn btn-block btn-sm mt-5', isFaceit && 'border-[#ff5500]/50')}
+              onClick={() => api.window.open(Constants.WindowIdentifier.MatchCentre)}
+            >
+              Open Match Centre
+            </button>
+          )}
         </article>
       )}
 
@@ -20,6 +20,39 @@ type DailyState = {
   hasPendingUserMatchday: boolean;
   hasLiveUserMatchday: boolean;
   date: string;
+  cooldownEnds: string | null;
+  reliability: number;
+};
+
+type FaceitLeaderboardCursor = {
+  elo: number;
+  playerId: number;
+};
+
+type FaceitLeaderboardFilters = {
+  region?: 'ALL' | 'EUROPE' | 'AMERICAS' | 'ASIA' | 'OCEANIA';
+  countryCode?: string | null;
+};
+
+type FaceitLeaderboardPage = {
+  entries: Array<{
+    rank: number;
+    playerId: number;
+    nickname: string;
+    countryCode?: string | null;
+    faceitElo: number;
+    faceitLevel: number;
+    peakLevel: number;
+  }>;
+  page: number;
+  perPage: number;
+  total: number;
+  totalPages: number;
+  previousCursor: FaceitLeaderboardCursor | null;
+  nextCursor: FaceitLeaderboardCursor | null;
+  region: 'ALL' | 'EUROPE' | 'AMERICAS' | 'ASIA' | 'OCEANIA';
+  countryCode: string | null;
+  availableCountries: Array<{ code: string; name: string }>;
 };
 
 type MatchVetoInput = {
@@ -28,6 +61,123 @@ type MatchVetoInput = {
   teamId?: number | null;
 };
 type MatchVetoRecord = MatchVetoInput & { id: number };
+type TeamMapProficiencyRecord = {
+  teamId: number;
+  map: string;
+  rating: number;
+  games: number;
+};
+
+type MatchPlayerGameDetailRecord = {
+  playerId: number;
+  matchId: number;
+  gameKey: number;
+  rounds: number;
+  kastRounds: number;
+  openingKills: number;
+  openingDeaths: number;
+  clutchesPlayed: number;
+  clutchesWon: number;
+  multiKillRounds: number;
+  damage: number | null;
+  utilityDamage: number | null;
+  moneySpent: number | null;
+  grenadesThrown: number | null;
+  bombPlants: number | null;
+  bombDefuses: number | null;
+  calledRounds: number | null;
+  calledRoundsWon: number | null;
+  ratingVersion: number;
+};
+
+type MatchCentreSnapshot = {
+  matchId: number;
+  map: string;
+  live: boolean;
+  round: number;
+  teams: Array<{ id: number; name: string; score: number }>;
+  killFeed: Array<{
+    round: number;
+    attacker: string;
+    attackerTeamId: number | null;
+    victim: string;
+    victimTeamId: number | null;
+    assist: string | null;
+    weapon: string;
+    headshot: boolean;
+  }>;
+  players: Array<{
+    id: number;
+    name: string;
+    teamId: number;
+    kills: number;
+    deaths: number;
+    assists: number;
+    seasonAverage: { kills: number; deaths: number; assists: number; games: number } | null;
+  }>;
+};
+
+type DemoRecord = {
+  file: string;
+  matchId: number;
+  gameId: number | null;
+  size: number;
+  createdAt: Date;
+  match: {
+    date: Date;
+    matchType: string;
+    competition: string | null;
+    teams: Array<string>;
+    map: string | null;
+  } | null;
+};
+
+type TacticalCallSummary = {
+  call: string;
+  site: string | null;
+  calls: number;
+  won: number;
+  winRate: number;
+};
+
+type TrainingStatus = {
+  schedule: Array<Constants.TrainingSession>;
+  today: Constants.TrainingSession;
+  fatigue: number;
+  burnoutEnds: Date | null;
+  trainedToday: boolean;
+};
+
+type ContractTerms = {
+  wages: number;
+  contractYears: number;
+  starterGuarantee: boolean;
+  releaseClause: number | null;
+};
+
+type FinancesSummary = {
+  balance: number;
+  entries: Array<Prisma.LedgerEntryGetPayload<unknown>>;
+  months: Array<{ month: string; income: number; expenses: number }>;
+};
+
+type LoanStatus = {
+  parentClub: string | null;
+  recallDate: Date | null;
+  wageShare: number;
+  weeks: number;
+  available: boolean;
+};
+
+type RoleSwitchStatus = {
+  role: Constants.UserRole;
+  pendingRole: Constants.UserRole | null;
+  pendingDecisionAt: Date | null;
+  transitionFrom: string | null;
+  transitionEnds: Date | null;
+  xpPenalty: number;
+  requestAvailableAt: Date | null;
+};
 
 /**
  * Exports this module.
@@ -35,6 +185,20 @@ type MatchVetoRecord = MatchVetoInput & { id: number };
  * @exports
  */
 export default {
+  agents: {
+    all: () =>
+      ipcRenderer.invoke(Constants.IPCRoute.AGENTS_ALL) as Promise<
+        Array<Prisma.AgentGetPayload<{ include: { federation: true; country: true } }>>
+      >,
+    release: () =>
+      ipcRenderer.invoke(Constants.IPCRoute.AGENTS_RELEASE) as Promise<
+        Prisma.ProfileGetPayload<{ include: { player: true } }>
+      >,
+    sign: (id: number) =>
+      ipcRenderer.invoke(Constants.IPCRoute.AGENTS_SIGN, id) as Promise<
+        Prisma.ProfileGetPayload<{ include: { player: true } }>
+      >,
+  },
   app: {
     detectGame: (game: Constants.Game) =>
       ipcRenderer.invoke(Constants.IPCRoute.APP_DETECT_GAME, game) as Promise<string>,
@@ -189,6 +353,11 @@ export default {
     disconnect: () => ipcRenderer.invoke(Constants.IPCRoute.DATABASE_DISCONNECT),
     current: () => ipcRenderer.invoke(Constants.IPCRoute.DATABASE_CURRENT) as Promise<number>,
   },
+  demos: {
+    all: () => ipcRenderer.invoke(Constants.IPCRoute.DEMOS_ALL) as Promise<Array<DemoRecord>>,
+    delete: (file: string) => ipcRenderer.invoke(Constants.IPCRoute.DEMOS_DELETE, file),
+    play: (file: string) => ipcRenderer.invoke(Constants.IPCRoute.DEMOS_PLAY, file),
+  },
   emails: {
     all: <T = typeof Eagers.email>(query: Prisma.EmailFindManyArgs = Eagers.email) =>
       ipcRenderer.invoke(Constants.IPCRoute.EMAILS_ALL, query) as Promise<
@@ -236,13 +405,41 @@ export default {
           faceitElo: number;
           faceitLevel: number;
         }>;
+        proLeague?: {
+          division: 'FPL' | 'FPL_CHALLENGER';
+          divisionName: string;
+          rank: number;
+          standing: number;
+          rosterSize: number;
+          played: number;
+          wins: number;
+        } | null;
         daily?: DailyState | null;
       }>,
-    queue: (payload?: { queueElo?: number; maxPartyEloDelta?: number }) =>
+    queue: (payload?: {
+      queueElo?: number;
+      maxPartyEloDelta?: number;
+      partyIds?: Array<number>;
+      proLeague?: boolean;
+    }) =>
       ipcRenderer.invoke('faceit:queuePug', payload) as Promise<{
         room: any;
         matchId: number | null;
       }>,
+    partyCandidates: () =>
+      ipcRenderer.invoke('faceit:getPartyCandidates') as Promise<
+        Array<{
+          id: number;
+          name: string;
+          elo: number;
+          level: number;
+          role: string | null;
+          countryId: number;
+          teamId: number | null;
+          teamCountryId: number | null;
+          source: 'TEAMMATE' | 'SHORTLIST';
+        }>
+      >,
     pendingMatchRoom: () =>
       ipcRenderer.invoke('faceit:getPendingMatchRoom') as Promise<{
         room: any;
@@ -253,40 +450,47 @@ export default {
         id: number;
         status: number;
       } | null>,
-    persistMatchRoom: (room: any) =>
-      ipcRenderer.invoke('faceit:persistMatchRoom', room) as Promise<{
-        room: any;
+    leaveMatch: (matchId: number) =>
+      ipcRenderer.invoke('faceit:leaveMatch', matchId) as Promise<{
+        type: 'DODGE' | 'ABANDON';
+        eloDelta: number;
+        cooldownEnds: string;
+        reliability: number;
+      }>,
+    veto: <T extends { persistedMatchId?: number }>(room: T, map?: string) =>
+      ipcRenderer.invoke('faceit:veto', room, map) as Promise<{
+        room: T;
         matchId: number;
       }>,
     leaderboard: (
-      page = 1,
+      cursor?: { after?: FaceitLeaderboardCursor; before?: FaceitLeaderboardCursor } | null,
       perPage = 50,
-      filters?: {
-        region?: 'ALL' | 'EUROPE' | 'AMERICAS' | 'ASIA' | 'OCEANIA';
-        countryCode?: string | null;
-      },
+      filters?: FaceitLeaderboardFilters,
     ) =>
       ipcRenderer.invoke('faceit:getLeaderboard', {
-        page,
+        ...cursor,
         perPage,
         region: filters?.region || 'ALL',
         countryCode: filters?.countryCode || undefined,
-      }) as Promise<{
-        entries: Array<{
+      }) as Promise<FaceitLeaderboardPage>,
+    leaderboardMyRank: (perPage = 50, filters?: FaceitLeaderboardFilters) =>
+      ipcRenderer.invoke('faceit:getLeaderboardMyRank', {
+        perPage,
+        region: filters?.region || 'ALL',
+        countryCode: filters?.countryCode || undefined,
+      }) as Promise<FaceitLeaderboardPage & { myRank: number | null }>,
+    rankingHistory: () =>
+      ipcRenderer.invoke('faceit:getRankingHistory') as Promise<{
+        history: Array<{
+          season: string;
+          federationId: number;
           rank: number;
-          playerId: number;
-          nickname: string;
-          countryCode?: string | null;
-          faceitElo: number;
-          faceitLevel: number;
+          elo: number;
+          level: number;
+          matchesPlayed: number;
         }>;
-        page: number;
-        perPage: number;
-        total: number;
-        totalPages: number;
-        region: 'ALL' | 'EUROPE' | 'AMERICAS' | 'ASIA' | 'OCEANIA';
-        countryCode: string | null;
-        availableCountries: Array<{ code: string; name: string }>;
+        peakLevel: number;
+        peakRank: number | null;
       }>,
     startMatch: (room: {
       fakeRoomId: string;
@@ -300,6 +504,12 @@ export default {
       persistedMatchId?: number;
     }) => ipcRenderer.invoke('faceit:startMatch', room),
     getMatchData: (id: number | string) => ipcRenderer.invoke('faceit:getMatchData', id),
+    reportPlayer: (matchId: number, playerId: number) =>
+      ipcRenderer.invoke('faceit:reportPlayer', matchId, playerId) as Promise<{
+        confirmed: boolean;
+        encounter: 'SMURF' | 'CHEATER' | null;
+        refund: number;
+      }>,
     last20Stats: () =>
       ipcRenderer.invoke('faceit:getLast20Stats') as Promise<{
         matchesPlayed: number;
@@ -396,10 +606,31 @@ export default {
       ipcRenderer.invoke(Constants.IPCRoute.MATCH_FIND, query) as Promise<
         Prisma.MatchGetPayload<unknown>
       >,
+    findMapProficiency: (id: number) =>
+      ipcRenderer.invoke(Constants.IPCRoute.MATCH_FIND_MAP_PROFICIENCY, id) as Promise<
+        Array<TeamMapProficiencyRecord>
+      >,
+    findPlayerGameDetails: (id: number) =>
+      ipcRenderer.invoke(Constants.IPCRoute.MATCH_FIND_PLAYER_GAME_DETAILS, id) as Promise<
+        Array<MatchPlayerGameDetailRecord>
+      >,
     findVetoList: (id: number) =>
       ipcRenderer.invoke(Constants.IPCRoute.MATCH_FIND_VETO_LIST, id) as Promise<
         Array<MatchVetoRecord>
       >,
+    findVetoSelection: (
+      id: number,
+      vetoList: Array<MatchVetoInput>,
+      teamId?: number | null,
+      type?: Constants.MapVetoAction,
+    ) =>
+      ipcRenderer.invoke(
+        Constants.IPCRoute.MATCH_FIND_VETO_SELECTION,
+        id,
+        vetoList,
+        teamId,
+        type,
+      ) as Promise<string>,
     updateMapList: (id: number, mapList: Array<string>) =>
       ipcRenderer.invoke(Constants.IPCRoute.MATCH_UPDATE_MAP_LIST, id, mapList) as Promise<unknown>,
     updateVetoList: (id: number, vetoList: Array<MatchVetoInput>) =>
@@ -409,6 +640,12 @@ export default {
         vetoList,
       ) as Promise<unknown>,
   },
+  matchCentre: {
+    find: () =>
+      ipcRenderer.invoke(
+        Constants.IPCRoute.MATCH_CENTRE_FIND,
+      ) as Promise<MatchCentreSnapshot | null>,
+  },
   matches: {
     all: <T = typeof Eagers.match>(query: Prisma.MatchFindManyArgs) =>
       ipcRenderer.invoke(Constants.IPCRoute.MATCHES_ALL, query) as Promise<
@@ -424,7 +661,7 @@ export default {
       name?: string;
       page: number;
       pageSize: number;
-      sort: 'rating' | 'kills' | 'deaths' | 'maps' | 'name' | 'team';
+      sort: 'rating' | 'kills' | 'deaths' | 'maps' | 'adr' | 'kast' | 'name' | 'team';
       teamId?: number;
       tierId?: number;
       year?: string;
@@ -441,6 +678,11 @@ export default {
           deaths: number;
           assists: number;
           maps: number;
+          adr: number | null;
+          kast: number | null;
+          utilityDamage: number | null;
+          openingKills: number;
+          openingDeaths: number;
           mvp?: {
             score: number;
             rating: number;
@@ -535,7 +777,13 @@ export default {
         spectating,
         customGameOptions,
       ),
-    start: (spectating?: boolean) => ipcRenderer.invoke(Constants.IPCRoute.PLAY_START, spectating),
+    checkpoint: () =>
+      ipcRenderer.invoke(Constants.IPCRoute.PLAY_CHECKPOINT) as Promise<{
+        matchId: number;
+        round: number;
+      } | null>,
+    start: (spectating?: boolean, resume?: boolean) =>
+      ipcRenderer.invoke(Constants.IPCRoute.PLAY_START, spectating, resume),
   },
   plugins: {
     start: () => ipcRenderer.send(Constants.IPCRoute.PLUGINS_START),
@@ -575,14 +823,38 @@ export default {
       ipcRenderer.invoke(Constants.IPCRoute.PROFILES_CURRENT) as Promise<
         Prisma.ProfileGetPayload<T>
       >,
+    finances: () =>
+      ipcRenderer.invoke(Constants.IPCRoute.PROFILES_FINANCES) as Promise<FinancesSummary>,
+    loan: () => ipcRenderer.invoke(Constants.IPCRoute.PROFILES_LOAN) as Promise<LoanStatus>,
+    loanStatus: () =>
+      ipcRenderer.invoke(Constants.IPCRoute.PROFILES_LOAN_STATUS) as Promise<LoanStatus | null>,
     backfillNpcMatchStats: () =>
       ipcRenderer.invoke(Constants.IPCRoute.PROFILES_NPC_MATCH_STATS_BACKFILL) as Promise<{
         completed: number;
         total: number;
         profile: Prisma.ProfileGetPayload<typeof Eagers.profile>;
       }>,
-    train: (bonusIds: Array<number>) =>
-      ipcRenderer.invoke(Constants.IPCRoute.PROFILES_TRAIN, bonusIds) as Promise<unknown>,
+    roleSwitch: (role: Constants.UserRole) =>
+      ipcRenderer.invoke(
+        Constants.IPCRoute.PROFILES_ROLE_SWITCH,
+        role,
+      ) as Promise<RoleSwitchStatus>,
+    roleSwitchStatus: () =>
+      ipcRenderer.invoke(
+        Constants.IPCRoute.PROFILES_ROLE_SWITCH_STATUS,
+      ) as Promise<RoleSwitchStatus | null>,
+    tacticalCalls: () =>
+      ipcRenderer.invoke(Constants.IPCRoute.PROFILES_TACTICAL_CALLS) as Promise<
+        Array<TacticalCallSummary>
+      >,
+    train: () => ipcRenderer.invoke(Constants.IPCRoute.PROFILES_TRAIN) as Promise<TrainingStatus>,
+    trainingSchedule: (schedule: Array<Constants.TrainingSession>) =>
+      ipcRenderer.invoke(
+        Constants.IPCRoute.PROFILES_TRAINING_SCHEDULE,
+        schedule,
+      ) as Promise<TrainingStatus>,
+    trainingStatus: () =>
+      ipcRenderer.invoke(Constants.IPCRoute.PROFILES_TRAINING_STATUS) as Promise<TrainingStatus>,
     update: <T = unknown>(query: Prisma.ProfileUpdateArgs) =>
       ipcRenderer.invoke(Constants.IPCRoute.PROFILES_UPDATE, query) as Promise<
         Prisma.ProfileGetPayload<T>
@@ -658,6 +930,8 @@ export default {
       ipcRenderer.invoke(Constants.IPCRoute.TRANSFER_CREATE, transfer, offer) as Promise<
         Prisma.TransferGetPayload<typeof Eagers.transfer>
       >,
+    counter: (id: number, terms: ContractTerms) =>
+      ipcRenderer.invoke(Constants.IPCRoute.TRANSFER_COUNTER, id, terms),
     reject: (id: number) => ipcRenderer.invoke(Constants.IPCRoute.TRANSFER_REJECT, id),
   },
   updater: {
@@ -123,7 +123,7 @@ export function calendarAdvance(days?: number) {
 }
 
 /** Async: start gameplay */
-export function play(id: number, spectating?: boolean) {
+export function play(id: number, spectating?: boolean, resume?: boolean) {
   return async (dispatch: AppDispatch) => {
     dispatch(playingUpdate({ status: "PREPARING_MATCH" }));
 
@@ -140,7 +140,7 @@ export function play(id: number, spectating?: boolean) {
 
     try {
       await Util.sleep(1000);
-      await api.play.start(spectating);
+      await api.play.start(spectating, resume);
       dispatch(playingUpdate({ status: "SAVING_RESULTS" }));
 
       const match = await api.match.find({ where: { id } });
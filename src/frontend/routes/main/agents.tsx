@@ -0,0 +1,143 @@
+/**
+ * Agents route listing the agencies that can
+ * represent the user's player in contract talks.
+ *
+ * @module
+ */
+import React from 'react';
+import { AppStateContext } from '@liga/frontend/redux';
+import { useFormatAppDate } from '@liga/frontend/hooks/use-FormatAppDate';
+import { cx } from '@liga/frontend/lib';
+import { FaHandshake } from 'react-icons/fa';
+
+type Agents = Awaited<ReturnType<typeof api.agents.all>>;
+
+/** @constant */
+const AGENT_ERRORS: Record<string, string> = {
+  AGENT_NO_PLAYER: 'You need a player to sign with an agent.',
+  AGENT_ALREADY_SIGNED: 'Part ways with your current agent first.',
+  AGENT_NOT_FOUND: 'This agency no longer exists.',
+  AGENT_UNINTERESTED: 'This agency does not think you are ready for them yet.',
+};
+
+/**
+ * Exports this module.
+ *
+ * @exports
+ */
+export default function () {
+  const { state } = React.useContext(AppStateContext);
+  const fmtDate = useFormatAppDate();
+  const [agents, setAgents] = React.useState<Agents>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [working, setWorking] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  // grab agents on first load
+  React.useEffect(() => {
+    api.agents
+      .all()
+      .then(setAgents)
+      .finally(() => setLoading(false));
+  }, []);
+
+  const signed = agents.find((agent) => agent.id === state.profile?.agentId);
+
+  const onSign = (id: number) => {
+    setWorking(true);
+    setError('');
+    api.agents
+      .sign(id)
+      .catch((err: Error) => {
+        const code = Object.keys(AGENT_ERRORS).find((key) => err.message.includes(key));
+        setError(code ? AGENT_ERRORS[code] : 'Could not sign with this agency.');
+      })
+      .finally(() => setWorking(false));
+  };
+
+  const onRelease = () => {
+    setWorking(true);
+    setError('');
+    api.agents.release().finally(() => setWorking(false));
+  };
+
+  if (loading) {
+    return (
+      <section className="center h-full">
+        <span className="loading loading-bars" />
+      </section>
+    );
+  }
+
+  return (
+    <div className="stack-y gap-5 p-5">
+      <section className="card bg-base-200/40 rounded-2xl p-6 shadow-md">
+        {signed ? (
+          <div className="flex items-center gap-5">
+            <FaHandshake className="text-primary size-12" />
+            <div className="stack-y flex-1">
+              <p className="font-bold">{signed.name}</p>
+              <p className="text-muted text-sm">
+                Representing you since {fmtDate(state.profile.agentSignedAt)}. They take{' '}
+                {signed.feePercent}% of your wages and report back every Monday.
+              </p>
+            </div>
+            <button className="btn btn-error btn-sm" disabled={working} onClick={onRelease}>
+              Part ways
+            </button>
+          </div>
+        ) : (
+          <p className="text-muted text-sm">
+            An agent pushes your name to the teams in their network and negotiates higher wages
+            whenever you sign a contract. The better their reputation the more doors they open and
+            the pickier they are about the players they take on.
+          </p>
+        )}
+        {!!error && <p className="text-error mt-3 text-sm">{error}</p>}
+      </section>
+      <table className="table-pin-rows table-sm table">
+        <thead>
+          <tr>
+            <th>Agency</th>
+            <th>Network</th>
+            <th className="text-center">Reputation</th>
+            <th className="text-center">Fee</th>
+            <th className="w-28" />
+          </tr>
+        </thead>
+        <tbody>
+          {agents.map((agent) => (
+            <tr key={agent.id + '__agent'} className={cx(agent.id === signed?.id && 'bg-base-200')}>
+              <td className="font-bold">{agent.name}</td>
+              <td>
+                {agent.country ? (
+                  <span className="flex items-center gap-2">
+                    <span className={cx('fp', agent.country.code.toLowerCase())} />
+                    {agent.country.name}
+                  </span>
+                ) : (
+                  agent.federation.name
+                )}
+              </td>
+              <td className="text-center">
+                <progress className="progress w-24" value={agent.reputation} max={100} />
+              </td>
+              <td className="text-center">{agent.feePercent}%</td>
+              <td className="text-right">
+                {!signed && (
+                  <button
+                    className="btn btn-primary btn-sm"
+                    disabled={working || !state.profile?.playerId}
+                    onClick={() => onSign(agent.id)}
+                  >
+                    Sign
+                  </button>
+                )}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
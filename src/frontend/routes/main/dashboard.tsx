@@ -5,7 +5,7 @@
  */
 import React from 'react';
 import { Link } from 'react-router-dom';
-import { addDays, differenceInDays, format } from 'date-fns';
+import { addDays, format, getISODay } from 'date-fns';
 import { Constants, Eagers, Util } from '@liga/shared';
 import { cx } from '@liga/frontend/lib';
 import { AppStateContext } from '@liga/frontend/redux';
@@ -61,6 +61,26 @@ const PLAYING_STATUS_STEPS: Array<PlayingStatus> = [
   'SAVING_RESULTS',
 ];
 
+/**
+ * Gets the user's weekly training schedule, Monday first.
+ *
+ * @param schedule The schedule as stored in the profile.
+ * @function
+ */
+function getTrainingSchedule(schedule: string | null): Array<Constants.TrainingSession> {
+  try {
+    const parsed = JSON.parse(schedule || 'null');
+
+    if (Array.isArray(parsed) && parsed.length === 7) {
+      return parsed;
+    }
+  } catch {
+    // fall back to the default schedule
+  }
+
+  return Constants.PlayerTrainingSettings.DEFAULT_SCHEDULE;
+}
+
 /**
  * Application status error banner.
  *
@@ -413,6 +433,19 @@ export default function () {
     audioNegativeAlert();
   }, [audioNegativeAlert, playErrorPromptVisible, state.playError]);
 
+  // an abandoned match may be resumable from its last finished round
+  const [playCheckpoint, setPlayCheckpoint] =
+    React.useState<Awaited<ReturnType<typeof api.play.checkpoint>>>(null);
+
+  React.useEffect(() => {
+    if (!playErrorPromptVisible || playError?.code !== Constants.ErrorCode.EABANDONED) {
+      setPlayCheckpoint(null);
+      return;
+    }
+
+    api.play.checkpoint().then(setPlayCheckpoint);
+  }, [playErrorPromptVisible, playError?.code]);
+
   // grab standings info
   const [standings] = React.useMemo(
     () => (spotlight ? upcoming.slice(0, 1) : previous),
@@ -524,6 +557,14 @@ export default function () {
               })}
             </ul>
           </article>
+          {playingStatus === 'WATCHING_MATCH' && (
+            <button
+              className="btn btn-block btn-sm mt-5"
+              onClick={() => api.window.open(Constants.WindowIdentifier.MatchCentre)}
+            >
+              Open Match Centre
+            </button>
+          )}
         </section>
       </dialog>
 
@@ -819,8 +860,8 @@ export default function () {
                 );
 
                 const trainingAllowed =
-                  differenceInDays(today, state.profile.trainedAt || state.profile.date) ===
-                  Constants.Application.TRAINING_FREQUENCY;
+                  getTrainingSchedule(state.profile.trainingSchedule)[getISODay(today) - 1] !==
+                  Constants.TrainingSession.REST;
 
                 return (
                   <article
@@ -1361,6 +1402,18 @@ export default function () {
                   {t('main.dashboard.openSettings')}
                 </button>
               )}
+              {!!playCheckpoint && (
+                <button
+                  type="button"
+                  className="btn btn-primary"
+                  onClick={() => {
+                    dispatch(playErrorUpdate(null));
+                    dispatch(play(playCheckpoint.matchId, false, true));
+                  }}
+                >
+                  {t('main.dashboard.resumeFromRound')} {playCheckpoint.round + 1}
+                </button>
+              )}
             </footer>
           </article>
         </section>
@@ -0,0 +1,147 @@
+/**
+ * Demo library route listing the recorded GOTV demos.
+ *
+ * @module
+ */
+import React from 'react';
+import { groupBy } from 'lodash';
+import { format } from 'date-fns';
+import { useTranslation } from '@liga/frontend/hooks';
+import { useFormatAppDate } from '@liga/frontend/hooks/use-FormatAppDate';
+import { FaPlay, FaTrash, FaVideo } from 'react-icons/fa';
+
+type Demos = Awaited<ReturnType<typeof api.demos.all>>;
+
+/**
+ * Formats a file size in megabytes.
+ *
+ * @param size The size in bytes.
+ * @function
+ */
+function formatSize(size: number) {
+  return `${(size / 1024 / 1024).toFixed(1)} MB`;
+}
+
+/**
+ * Exports this module.
+ *
+ * @exports
+ */
+export default function () {
+  const t = useTranslation('windows');
+  const fmtDate = useFormatAppDate();
+  const [demos, setDemos] = React.useState<Demos>([]);
+  const [loading, setLoading] = React.useState(true);
+  const [working, setWorking] = React.useState(false);
+
+  const refresh = () => api.demos.all().then(setDemos);
+
+  // grab demos on first load
+  React.useEffect(() => {
+    refresh().finally(() => setLoading(false));
+  }, []);
+
+  // group the games of a series under their match
+  const matches = React.useMemo(
+    () =>
+      Object.values(groupBy(demos, (demo) => demo.matchId)).map((games) =>
+        games.sort((a, b) => (a.gameId || 0) - (b.gameId || 0)),
+      ),
+    [demos],
+  );
+
+  const onPlay = (file: string) =>
+    Promise.resolve(setWorking(true))
+      .then(() => api.demos.play(file))
+      .finally(() => setWorking(false));
+
+  const onDelete = (file: string) =>
+    Promise.resolve(setWorking(true))
+      .then(() => api.demos.delete(file))
+      .then(refresh)
+      .finally(() => setWorking(false));
+
+  if (loading) {
+    return (
+      <section className="center h-full">
+        <span className="loading loading-bars" />
+      </section>
+    );
+  }
+
+  if (!demos.length) {
+    return (
+      <section className="center h-full gap-5">
+        <FaVideo className="text-muted size-24" />
+        <p>No demos recorded yet.</p>
+        <p className="text-muted text-sm">
+          Turn on demo recording in the settings to record your matches.
+        </p>
+      </section>
+    );
+  }
+
+  return (
+    <div className="p-5">
+      <table className="table-pin-rows table-sm table table-fixed">
+        <thead>
+          <tr>
+            <th>{t('shared.matchDetails')}</th>
+            <th>Map</th>
+            <th className="text-right">Size</th>
+            <th className="text-right">Recorded</th>
+            <th className="w-28" />
+          </tr>
+        </thead>
+        {matches.map((games) => {
+          const [{ matchId, match }] = games;
+
+          return (
+            <tbody key={`${matchId}__demo_match`}>
+              <tr className="bg-base-200">
+                <td colSpan={5}>
+                  <p className="font-bold">
+                    {match?.teams.length ? match.teams.join(' vs ') : `Match #${matchId}`}
+                  </p>
+                  {!!match && (
+                    <p className="text-muted text-xs">
+                      {[match.competition || match.matchType, fmtDate(match.date)].join(' · ')}
+                    </p>
+                  )}
+                </td>
+              </tr>
+              {games.map((demo, idx) => (
+                <tr key={demo.file}>
+                  <td className="truncate" title={demo.file}>
+                    {games.length > 1 ? `Game ${idx + 1}` : demo.file}
+                  </td>
+                  <td>{demo.match?.map || '-'}</td>
+                  <td className="text-right">{formatSize(demo.size)}</td>
+                  <td className="text-right">{format(demo.createdAt, 'PP p')}</td>
+                  <td className="join w-full justify-end">
+                    <button
+                      title="Play"
+                      className="btn btn-primary btn-sm join-item"
+                      disabled={working}
+                      onClick={() => onPlay(demo.file)}
+                    >
+                      <FaPlay />
+                    </button>
+                    <button
+                      title={t('shared.delete')}
+                      className="btn btn-error btn-sm join-item"
+                      disabled={working}
+                      onClick={() => onDelete(demo.file)}
+                    >
+                      <FaTrash />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          );
+        })}
+      </table>
+    </div>
+  );
+}
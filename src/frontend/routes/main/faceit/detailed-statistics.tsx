@@ -6,6 +6,7 @@ import deathsIcon from '../../../assets/faceit/deaths.png';
 import headshotIcon from '../../../assets/faceit/headshot.png';
 import { AppStateContext } from '@liga/frontend/redux';
 import { Constants, Util } from '@liga/shared';
+import { LEVEL_IMAGES, RankingHistory, RankingHistoryChart } from './faceit';
 
 type DetailedStatisticsRouteState = {
   fromFaceitDetailedStatisticsButton?: boolean;
@@ -48,8 +49,15 @@ type WeaponStats = {
 enum DetailedStatsView {
   MAPS = 'MAPS',
   WEAPONS = 'WEAPONS',
+  HISTORY = 'HISTORY',
 }
 
+const DETAILED_STATS_VIEW_LABELS: Record<DetailedStatsView, string> = {
+  [DetailedStatsView.MAPS]: 'Map Stats',
+  [DetailedStatsView.WEAPONS]: 'Weapon Stats',
+  [DetailedStatsView.HISTORY]: 'History',
+};
+
 const ELO_WINDOW_SIZE = 30;
 
 const FACEIT_MAPS: FaceitMapConfig[] = [
@@ -164,6 +172,8 @@ export default function FaceitDetailedStatistics(): JSX.Element {
   const [eloHistory, setEloHistory] = React.useState<EloPoint[]>([]);
   const [eloWindowStart, setEloWindowStart] = React.useState(0);
   const [hoveredEloIndex, setHoveredEloIndex] = React.useState<number | null>(null);
+  const [rankingHistory, setRankingHistory] = React.useState<RankingHistory>([]);
+  const [peakLevel, setPeakLevel] = React.useState(0);
 
   React.useEffect(() => {
     if (!routeState.fromFaceitDetailedStatisticsButton) {
@@ -181,7 +191,12 @@ export default function FaceitDetailedStatistics(): JSX.Element {
   React.useEffect(() => {
     (async () => {
       try {
-        const detailedStats = await api.faceit.detailedStats();
+        const [detailedStats, ranking] = await Promise.all([
+          api.faceit.detailedStats(),
+          api.faceit.rankingHistory(),
+        ]);
+        setRankingHistory(ranking.history);
+        setPeakLevel(ranking.peakLevel);
         setAllTimeStats(
           detailedStats.allTime
             ? {
@@ -357,6 +372,71 @@ export default function FaceitDetailedStatistics(): JSX.Element {
     </div>
   );
 
+  const renderRankingHistory = () => (
+    <div className="grid h-full min-h-0 grid-cols-[1fr_320px] grid-rows-[minmax(0,1fr)] gap-4">
+      <div className="flex min-h-0 flex-col gap-4">
+        <div className="flex min-h-0 flex-1 flex-col rounded-lg border border-[#ffffff15] bg-[#0b0b0b] p-4">
+          <h3 className="mb-3 text-base font-bold">Month-end ELO</h3>
+          <div className="min-h-0 flex-1 rounded-lg border border-[#ffffff10] bg-neutral-900/40 p-3">
+            <RankingHistoryChart history={rankingHistory} metric="elo" />
+          </div>
+        </div>
+        <div className="flex min-h-0 flex-1 flex-col rounded-lg border border-[#ffffff15] bg-[#0b0b0b] p-4">
+          <h3 className="mb-3 text-base font-bold">Month-end Rank</h3>
+          <div className="min-h-0 flex-1 rounded-lg border border-[#ffffff10] bg-neutral-900/40 p-3">
+            <RankingHistoryChart history={rankingHistory} metric="rank" />
+          </div>
+        </div>
+      </div>
+
+      <div className="flex h-full min-h-0 flex-col overflow-hidden rounded-lg border border-[#ffffff15] bg-[#0b0b0b]">
+        <div className="flex items-center justify-between border-b border-[#ffffff10] bg-[#0c0c0c]/70 px-4 py-3">
+          <h3 className="text-base font-bold">Months</h3>
+          {peakLevel > 0 && (
+            <span className="flex items-center gap-2 text-xs opacity-80">
+              Peak level
+              <img src={LEVEL_IMAGES[peakLevel]} className="h-6 w-6" />
+            </span>
+          )}
+        </div>
+        <div className="h-0 min-h-0 flex-1 overflow-y-scroll">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 text-xs text-orange-50 uppercase">
+              <tr className="bg-[#3a210b]">
+                <th className="bg-[#3a210b] px-3 py-2 text-left">Month</th>
+                <th className="bg-[#3a210b] px-3 py-2 text-center">Rank</th>
+                <th className="bg-[#3a210b] px-3 py-2 text-center">ELO</th>
+                <th className="bg-[#3a210b] px-3 py-2 text-center">Matches</th>
+              </tr>
+            </thead>
+            <tbody>
+              {[...rankingHistory].reverse().map((snapshot) => (
+                <tr key={snapshot.season} className="border-t border-[#ffffff10]">
+                  <td className="px-3 py-2">
+                    <span className="inline-flex items-center gap-2">
+                      <img src={LEVEL_IMAGES[snapshot.level]} className="h-5 w-5" />
+                      {snapshot.season}
+                    </span>
+                  </td>
+                  <td className="px-3 py-2 text-center">#{snapshot.rank}</td>
+                  <td className="px-3 py-2 text-center font-semibold">{snapshot.elo}</td>
+                  <td className="px-3 py-2 text-center">{snapshot.matchesPlayed}</td>
+                </tr>
+              ))}
+              {!rankingHistory.length ? (
+                <tr>
+                  <td colSpan={4} className="px-4 py-10 text-center text-sm text-neutral-500">
+                    No month has ended yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+
   return (
     <div className="flex h-screen min-h-0 w-full flex-col overflow-hidden bg-[#0b0b0b] text-white">
       <div className="flex w-full items-center justify-between border-b border-[#ff7300]/60 bg-[#0f0f0f] px-4 py-4 shadow-lg">
@@ -377,18 +457,21 @@ export default function FaceitDetailedStatistics(): JSX.Element {
         <div className="flex h-full min-h-0 flex-col overflow-hidden rounded-lg border border-[#ffffff15] bg-[#0f0f0f]">
           <div className="flex w-full items-center justify-between border-b border-[#ff7300]/40 bg-[#0c0c0c] px-4 py-3">
             <h2 className="text-lg font-bold">DETAILED STATISTICS</h2>
-            <button
-              onClick={() =>
-                setActiveView((view) =>
-                  view === DetailedStatsView.MAPS
-                    ? DetailedStatsView.WEAPONS
-                    : DetailedStatsView.MAPS,
-                )
-              }
-              className="rounded bg-orange-600 px-3 py-1 text-sm font-semibold hover:bg-orange-500"
-            >
-              {activeView === DetailedStatsView.MAPS ? 'Weapon Stats' : 'Map Stats'}
-            </button>
+            <div className="flex items-center gap-2">
+              {Object.values(DetailedStatsView).map((view) => (
+                <button
+                  key={view}
+                  onClick={() => setActiveView(view)}
+                  className={`rounded px-3 py-1 text-sm font-semibold ${
+                    activeView === view
+                      ? 'bg-orange-600 hover:bg-orange-500'
+                      : 'bg-neutral-700 hover:bg-neutral-600'
+                  }`}
+                >
+                  {DETAILED_STATS_VIEW_LABELS[view]}
+                </button>
+              ))}
+            </div>
           </div>
 
           <div className="min-h-0 flex-1 overflow-hidden p-6">
@@ -396,6 +479,8 @@ export default function FaceitDetailedStatistics(): JSX.Element {
               <div className="text-sm opacity-70">Loading detailed FACEIT stats…</div>
             ) : activeView === DetailedStatsView.WEAPONS ? (
               renderWeaponStats()
+            ) : activeView === DetailedStatsView.HISTORY ? (
+              renderRankingHistory()
             ) : (
               <div className="grid h-full min-h-0 grid-cols-[220px_1fr_1fr] grid-rows-[minmax(0,1fr)] gap-4">
                 <div className="flex h-full min-h-0 flex-col overflow-hidden rounded-lg border border-[#ffffff15] bg-[#0b0b0b]">
@@ -9,7 +9,6 @@ import {
   faceitQueueClear,
   faceitQueueResolving,
 } from '@liga/frontend/redux/actions';
-import { shuffle } from 'lodash';
 
 import Scoreboard from './scoreboard';
 
@@ -96,6 +95,7 @@ type MatchPlayer = {
   queueId?: string;
   queueType?: 'COUNTRY' | 'TEAM' | 'BOTH';
   role?: 'RIFLER' | 'AWPER' | 'IGL' | string;
+  source?: 'TEAMMATE' | 'SHORTLIST';
 };
 
 type MatchRoomData = {
@@ -109,6 +109,7 @@ type MatchRoomData = {
   eloLoss: number;
   selectedMap?: string;
   persistedMatchId?: number;
+  proLeague?: string;
 };
 
 export type LeaderboardPlayer = {
@@ -118,14 +119,21 @@ export type LeaderboardPlayer = {
   countryCode?: string | null;
   faceitElo: number;
   faceitLevel: number;
+  peakLevel?: number;
 };
 
+export type RankingHistory = Awaited<ReturnType<typeof api.faceit.rankingHistory>>['history'];
+
+type ProLeagueStanding = Awaited<ReturnType<typeof api.faceit.profile>>['proLeague'];
+
 type DailyState = {
   playedToday: number;
   maxToday: number;
   hasPendingUserMatchday: boolean;
   hasLiveUserMatchday: boolean;
   date: string;
+  cooldownEnds: string | null;
+  reliability: number;
 };
 
 type LastSuggestionMatchPerformance = {
@@ -212,6 +220,8 @@ export default function Faceit(): JSX.Element {
   const [lifetime, setLifetime] = useState<any | null>(null);
   const [last20, setLast20] = useState<any | null>(null);
   const [leaderboard, setLeaderboard] = useState<LeaderboardPlayer[]>([]);
+  const [proLeague, setProLeague] = useState<ProLeagueStanding | null>(null);
+  const [proLeagueQueue, setProLeagueQueue] = useState(false);
 
   const [loading, setLoading] = useState(!skipLoadingAnimation);
   const [loadingPhase, setLoadingPhase] = useState<'enter' | 'exit'>('enter');
@@ -229,6 +239,7 @@ export default function Faceit(): JSX.Element {
     if (queueing) return false;
     if (daily?.hasLiveUserMatchday) return false;
     if (!daily) return true;
+    if (daily.cooldownEnds) return false;
     return daily.playedToday < daily.maxToday;
   }, [activeMatch, queueing, daily]);
 
@@ -238,6 +249,10 @@ export default function Faceit(): JSX.Element {
       return 'League match is live. Finish your match before queueing FACEIT.';
     }
 
+    if (daily.cooldownEnds) {
+      return `Queue cooldown for leaving a match. You can queue again on ${formatRecentMatchDate(daily.cooldownEnds)}.`;
+    }
+
     if (daily.playedToday < daily.maxToday) return null;
 
     if (daily.hasPendingUserMatchday) {
@@ -295,6 +310,8 @@ export default function Faceit(): JSX.Element {
     setRecent(sortedRecent);
     setLifetime(profileData.lifetime || null);
     setLeaderboard(profileData.leaderboard || []);
+    setProLeague(profileData.proLeague ?? null);
+    if (!profileData.proLeague) setProLeagueQueue(false);
     if (last20Stats) setLast20(last20Stats);
     setDaily(profileData.daily ?? null);
     setQueueError(null);
@@ -542,34 +559,12 @@ export default function Faceit(): JSX.Element {
           localStorage.setItem('faceit-party-members', serializedParty);
         }
 
-        const profileQueueElo = Number(state.profile?.faceitElo);
-        const baseQueueElo =
-          Number.isFinite(elo) && elo > 0
-            ? elo
-            : Number.isFinite(profileQueueElo) && profileQueueElo > 0
-              ? profileQueueElo
-              : null;
-
-        let queueElo = baseQueueElo;
-        let maxPartyEloDelta = 0;
-        if (hydratedParty.length > 0) {
-          const partyElos = hydratedParty
-            .map((member: any) => Number(member?.elo))
-            .filter((memberElo: number) => Number.isFinite(memberElo) && memberElo > 0);
-
-          if (partyElos.length > 0 && baseQueueElo) {
-            const totalElo =
-              baseQueueElo +
-              partyElos.reduce((sum: number, memberElo: number) => sum + memberElo, 0);
-            queueElo = Math.round(totalElo / (partyElos.length + 1));
-            const highestPartyElo = Math.max(...partyElos);
-            maxPartyEloDelta = Math.max(0, Math.round(highestPartyElo - baseQueueElo));
-          }
-        }
-
+        // the matchmaker places the party and balances the lobby around it
         res = await api.faceit.queue({
-          queueElo: queueElo ?? undefined,
-          maxPartyEloDelta,
+          partyIds: hydratedParty
+            .map((member) => Number(member?.id))
+            .filter((id) => Number.isFinite(id) && id > 0),
+          proLeague: proLeagueQueue,
         });
       } catch (e: any) {
         const msg = String(e?.message ?? e);
@@ -579,167 +574,21 @@ export default function Faceit(): JSX.Element {
           setQueueError('Finish your active FACEIT match before queueing again.');
         } else if (msg.includes('FACEIT_BLOCKED_MATCHDAY_USER_TODAY')) {
           setQueueError('Matchday scheduled today. You can only play 2 FACEIT matches to warm up.');
+        } else if (msg.includes('FACEIT_BLOCKED_COOLDOWN')) {
+          setQueueError('You are on a queue cooldown for leaving a match.');
         } else if (msg.includes('FACEIT_BLOCKED_DAILY_LIMIT')) {
           setQueueError('Daily FACEIT limit reached.');
         } else if (msg.includes('FACEIT_NOT_ENOUGH_SIMILAR_SKILL_PLAYERS')) {
           setQueueError('Not enough similarly skilled players in your region right now.');
+        } else if (msg.includes('FACEIT_PRO_LEAGUE_NOT_INVITED')) {
+          setQueueError('Your pro league invite has expired.');
         } else {
           setQueueError('Unable to queue FACEIT match.');
         }
         refreshProfile();
         return;
       }
-      const applyPartyToTeams = async (room: any) => {
-        try {
-          const cachedSaveId = Number(localStorage.getItem('liga-active-save-id') || 0);
-          const resolvedSaveId =
-            currentSaveId ??
-            (Number.isFinite(cachedSaveId) && cachedSaveId > 0 ? cachedSaveId : null);
-          const saveScopedKey = resolvedSaveId
-            ? `faceit-save-${resolvedSaveId}:party-members`
-            : null;
-
-          const storedParty =
-            (saveScopedKey ? localStorage.getItem(saveScopedKey) : null) ||
-            localStorage.getItem('faceit-party-members');
-          const parsed = await hydrateStoredPartyMembers(storedParty);
-          if (!Array.isArray(parsed) || parsed.length === 0) return room;
-
-          const userId = state.profile?.playerId ?? state.profile?.player?.id;
-
-          const userOnTeamAById = userId
-            ? room.teamA.findIndex((player: MatchPlayer) => player.id === userId)
-            : -1;
-          const userOnTeamBById = userId
-            ? room.teamB.findIndex((player: MatchPlayer) => player.id === userId)
-            : -1;
-
-          const userOnTeamAByFlag = room.teamA.findIndex(
-            (player: MatchPlayer) => player.userControlled,
-          );
-          const userOnTeamBByFlag = room.teamB.findIndex(
-            (player: MatchPlayer) => player.userControlled,
-          );
-
-          const isUserTeamA = userOnTeamAById !== -1 || userOnTeamAByFlag !== -1;
-          const isUserTeamB = userOnTeamBById !== -1 || userOnTeamBByFlag !== -1;
-
-          if (!isUserTeamA && !isUserTeamB) return room;
-
-          const teamKey = isUserTeamA ? 'teamA' : 'teamB';
-          const enemyKey = isUserTeamA ? 'teamB' : 'teamA';
-
-          const userTeam = [...room[teamKey]] as MatchPlayer[];
-          const enemyTeam = [...room[enemyKey]] as MatchPlayer[];
-
-          const userIdx = userTeam.findIndex(
-            (player: MatchPlayer) => player.id === userId || player.userControlled,
-          );
-          if (userIdx === -1) return room;
-
-          const normalizedParty = parsed
-            .filter((member: any) => member && member.name)
-            .slice(0, 4)
-            .map((member: any) => {
-              const existing = [...userTeam, ...enemyTeam].find(
-                (player) =>
-                  player.id === member.id ||
-                  player.name.toLowerCase() === String(member.name).toLowerCase(),
-              );
-              return {
-                ...member,
-                ...(existing ?? {}),
-              } as MatchPlayer;
-            });
-
-          if (!normalizedParty.length) return room;
-
-          const partyIdSet = new Set(normalizedParty.map((member) => member.id));
-          const partyNameSet = new Set(normalizedParty.map((member) => member.name.toLowerCase()));
-
-          const playerInParty = (player: MatchPlayer) =>
-            partyIdSet.has(player.id) || partyNameSet.has(player.name.toLowerCase());
-
-          const basePool = [...userTeam, ...enemyTeam].filter(
-            (player) => !(player.id === userId || player.userControlled) && !playerInParty(player),
-          );
-
-          const partyQueueId = `PARTY-${userTeam[userIdx].id}-${normalizedParty
-            .map((member) => member.id)
-            .join('-')}`;
-
-          const lockedUser = {
-            ...userTeam[userIdx],
-            queueId: partyQueueId,
-            queueType: 'TEAM' as const,
-          };
-
-          const maxPartyInUserTeam = Math.min(normalizedParty.length, userTeam.length - 1);
-          const selectedParty = normalizedParty.slice(0, maxPartyInUserTeam).map((member) => ({
-            ...member,
-            queueId: partyQueueId,
-            queueType: 'TEAM' as const,
-          }));
-
-          const takeFromPool = (preferAwper: boolean): MatchPlayer | null => {
-            const preferredIndex = basePool.findIndex(
-              (candidate) => isAwperRole(candidate.role) === preferAwper,
-            );
-            if (preferredIndex !== -1) {
-              const [picked] = basePool.splice(preferredIndex, 1);
-              return picked ?? null;
-            }
-
-            const fallback = basePool.shift();
-            return fallback ?? null;
-          };
-
-          const countAwpers = (team: MatchPlayer[]) =>
-            team.filter((player) => isAwperRole(player.role)).length;
-
-          const rebuiltUserTeam: MatchPlayer[] = [lockedUser, ...selectedParty];
-          while (rebuiltUserTeam.length < userTeam.length && basePool.length > 0) {
-            const userNeedsAwper = countAwpers(rebuiltUserTeam) === 0;
-            const next = takeFromPool(userNeedsAwper);
-            if (next) rebuiltUserTeam.push(next);
-          }
-
-          const rebuiltEnemyTeam: MatchPlayer[] = [];
-          while (rebuiltEnemyTeam.length < enemyTeam.length && basePool.length > 0) {
-            const enemyNeedsAwper = countAwpers(rebuiltEnemyTeam) === 0;
-            const next = takeFromPool(enemyNeedsAwper);
-            if (next) rebuiltEnemyTeam.push(next);
-          }
-
-          if (
-            rebuiltUserTeam.length !== userTeam.length ||
-            rebuiltEnemyTeam.length !== enemyTeam.length
-          ) {
-            return room;
-          }
-
-          if (countAwpers(rebuiltUserTeam) !== 1 || countAwpers(rebuiltEnemyTeam) !== 1) {
-            return room;
-          }
-
-          return { ...room, [teamKey]: rebuiltUserTeam, [enemyKey]: rebuiltEnemyTeam };
-        } catch {
-          return room;
-        }
-      };
-
-      const queuedRoom = res.matchId ? res.room : res.room ?? res;
-      const partyAdjusted = res.matchId
-        ? queuedRoom
-        : await applyPartyToTeams({
-            ...queuedRoom,
-            teamA: shuffle(queuedRoom.teamA),
-            teamB: shuffle(queuedRoom.teamB),
-          });
-      const persisted = res.matchId
-        ? { room: partyAdjusted, matchId: res.matchId }
-        : await api.faceit.persistMatchRoom(partyAdjusted);
-      dispatch(faceitRoomSet(persisted.room, persisted.matchId));
+      dispatch(faceitRoomSet(res.room, res.matchId));
       setShowMatchRoom(true);
       playMatchFoundTune();
     } finally {
@@ -879,6 +728,9 @@ export default function Faceit(): JSX.Element {
             canQueue={canQueue}
             queueBlockMessage={queueBlockMessage}
             queueError={queueError}
+            proLeague={proLeague}
+            proLeagueQueue={proLeagueQueue}
+            setProLeagueQueue={setProLeagueQueue}
           />
         </>
       )}
@@ -957,6 +809,7 @@ export function FaceitHeader({
   const previousActiveMatchIdRef = useRef<string | null>(null);
   const previousDayKeyRef = useRef<string | null>(null);
   const [lastPugTeammates, setLastPugTeammates] = useState<MatchPlayer[]>([]);
+  const [partyCandidates, setPartyCandidates] = useState<MatchPlayer[]>([]);
   const [latestTrackedPugId, setLatestTrackedPugId] = useState<string | null>(null);
   const [lastSuggestionMatchPerformance, setLastSuggestionMatchPerformance] =
     useState<LastSuggestionMatchPerformance | null>(null);
@@ -1075,6 +928,16 @@ export function FaceitHeader({
     }
   }, [storageKey]);
 
+  // former teammates and shortlisted players can be invited as well
+  useEffect(() => {
+    if (activeMatch) return;
+
+    api.faceit
+      .partyCandidates()
+      .then(setPartyCandidates)
+      .catch(() => setPartyCandidates([]));
+  }, [activeMatch, currentTeamId]);
+
   useEffect(() => {
     if (!activeMatch || !currentPlayerId) return;
 
@@ -1400,7 +1263,7 @@ export function FaceitHeader({
 
   const suggestions = React.useMemo(() => {
     const completedPugTeammates = activeMatch ? [] : lastPugTeammates;
-    const combined = [...profileTeammates, ...completedPugTeammates];
+    const combined = [...profileTeammates, ...completedPugTeammates, ...partyCandidates];
     const deduped = combined.filter(
       (teammate, index, arr) =>
         arr.findIndex((candidate) => candidate.id === teammate.id) === index,
@@ -1416,6 +1279,7 @@ export function FaceitHeader({
     profileTeammates,
     activeMatch,
     lastPugTeammates,
+    partyCandidates,
     currentPlayerId,
     friends,
     declinedSuggestionIds,
@@ -1880,9 +1744,7 @@ export function FaceitHeader({
                 {friendsTab === 'suggestions' && (
                   <div className="max-h-40 space-y-2 overflow-y-auto pr-1">
                     {suggestions.length === 0 ? (
-                      <div className="text-xs text-neutral-500">
-                        No teammate suggestions right now.
-                      </div>
+                      <div className="text-xs text-neutral-500">No suggestions right now.</div>
                     ) : (
                       suggestions.map((teammate) => {
                         const requestPending = pendingRequests.includes(teammate.id);
@@ -1894,12 +1756,19 @@ export function FaceitHeader({
                           >
                             <div>
                               <div className="text-sm">{teammate.name}</div>
-                              <div className="mt-1 flex items-center">
+                              <div className="mt-1 flex items-center gap-2">
                                 <img
                                   src={LEVEL_IMAGES[resolvePlayerLevel(teammate)]}
                                   className="h-5 w-5"
                                   alt={`Level ${resolvePlayerLevel(teammate)}`}
                                 />
+                                {!!teammate.source && (
+                                  <span className="text-[10px] text-neutral-500 uppercase">
+                                    {teammate.source === 'TEAMMATE'
+                                      ? 'Former teammate'
+                                      : 'Shortlisted'}
+                                  </span>
+                                )}
                               </div>
                             </div>
 
@@ -2064,6 +1933,10 @@ interface NormalFaceitBodyProps {
   canQueue: boolean;
   queueBlockMessage: string | null;
   queueError: string | null;
+
+  proLeague: ProLeagueStanding | null;
+  proLeagueQueue: boolean;
+  setProLeagueQueue: (value: boolean) => void;
 }
 
 function NormalFaceitBody({
@@ -2084,6 +1957,9 @@ function NormalFaceitBody({
   canQueue,
   queueBlockMessage,
   queueError,
+  proLeague,
+  proLeagueQueue,
+  setProLeagueQueue,
 }: NormalFaceitBodyProps) {
   const navigate = useNavigate();
   // ALL-TIME
@@ -2257,7 +2133,9 @@ function NormalFaceitBody({
                     : !canQueue
                       ? daily?.hasLiveUserMatchday
                         ? 'MATCH LIVE'
-                        : 'LIMIT REACHED'
+                        : daily?.cooldownEnds
+                          ? 'COOLDOWN'
+                          : 'LIMIT REACHED'
                       : 'FIND MATCH'}
                 </button>
                 {queueing && (
@@ -2269,9 +2147,30 @@ function NormalFaceitBody({
                     ×
                   </button>
                 )}
+                {proLeague && (
+                  <label className="mt-3 flex cursor-pointer items-center gap-2 text-xs">
+                    <input
+                      type="checkbox"
+                      className="checkbox checkbox-xs"
+                      checked={proLeagueQueue}
+                      disabled={queueing}
+                      onChange={(event) => setProLeagueQueue(event.target.checked)}
+                    />
+                    <span>
+                      Queue {proLeague.divisionName} (#{proLeague.standing} of{' '}
+                      {proLeague.rosterSize}, {proLeague.wins}-{proLeague.played - proLeague.wins})
+                    </span>
+                  </label>
+                )}
                 {daily && (
                   <div className="mt-3 text-center text-xs opacity-70">
                     Matches today: {daily.playedToday}/{daily.maxToday}
+                    <span
+                      className={`ml-3 ${daily.reliability < 70 ? 'text-red-400' : daily.reliability < 90 ? 'text-yellow-400' : ''}`}
+                      title="Dodging or abandoning matches lowers your reliability and scouts notice it."
+                    >
+                      Reliability: {daily.reliability}%
+                    </span>
                   </div>
                 )}
                 {queueError ? (
@@ -2439,3 +2338,83 @@ function NormalFaceitBody({
     </div>
   );
 }
+
+// ---------------------------------------------------------------------------
+// RANKING HISTORY
+// ---------------------------------------------------------------------------
+
+interface RankingHistoryChartProps {
+  history: RankingHistory;
+  metric: 'elo' | 'rank';
+}
+
+/**
+ * Charts the month-end snapshots of a player. Ranks are
+ * drawn upside down so climbing always points upwards.
+ *
+ * @param props         The root props.
+ * @param props.history The month-end snapshots.
+ * @param props.metric  Whether the elo or the rank is charted.
+ * @component
+ */
+export function RankingHistoryChart({ history, metric }: RankingHistoryChartProps) {
+  const width = 1000;
+  const height = 220;
+  const padding = 18;
+
+  if (history.length < 2) {
+    return (
+      <div className="flex h-full w-full items-center justify-center text-sm opacity-60">
+        Rankings are recorded at the end of every month.
+      </div>
+    );
+  }
+
+  const values = history.map((snapshot) => snapshot[metric]);
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const range = Math.max(1, max - min);
+  const points = history.map((snapshot, index) => {
+    const progress = (snapshot[metric] - min) / range;
+    return {
+      season: snapshot.season,
+      value: snapshot[metric],
+      x: padding + (index / (history.length - 1)) * (width - padding * 2),
+      y: padding + (metric === 'rank' ? progress : 1 - progress) * (height - padding * 2),
+    };
+  });
+
+  return (
+    <div className="flex h-full w-full flex-col gap-1">
+      <div className="flex min-h-0 flex-1 gap-3">
+        <div className="flex w-12 flex-col justify-between py-2 text-xs text-neutral-300">
+          <span>{metric === 'rank' ? `#${min}` : max}</span>
+          <span>{metric === 'rank' ? `#${max}` : min}</span>
+        </div>
+        <svg
+          viewBox={`0 0 ${width} ${height}`}
+          className="h-full w-full flex-1"
+          preserveAspectRatio="none"
+        >
+          <polyline
+            fill="none"
+            stroke="#f97316"
+            strokeWidth="4"
+            points={points.map((point) => `${point.x},${point.y}`).join(' ')}
+          />
+          {points.map((point) => (
+            <circle key={point.season} cx={point.x} cy={point.y} r={5} fill="#f97316">
+              <title>
+                {point.season}: {metric === 'rank' ? `#${point.value}` : point.value}
+              </title>
+            </circle>
+          ))}
+        </svg>
+      </div>
+      <div className="flex justify-between pl-15 text-[10px] text-neutral-500">
+        <span>{history[0].season}</span>
+        <span>{history[history.length - 1].season}</span>
+      </div>
+    </div>
+  );
+}
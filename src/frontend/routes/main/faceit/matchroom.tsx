@@ -11,6 +11,7 @@ import type { PlayingStatus } from "@liga/frontend/redux/state";
 import awperIcon from "../../../assets/awper.png";
 import {
   faceitMatchCompleted,
+  faceitRoomClear,
   faceitRoomSet,
   faceitVetoSet,
   faceitVetoClear,
@@ -49,10 +50,13 @@ export interface MatchRoomData {
   selectedMap?: string;
   persistedMatchId?: number;
   veto?: {
+    captains?: Record<"TEAM_A" | "TEAM_B", number | null>;
     history: VetoAction[];
     completed: boolean;
     deciderMap: string | null;
+    turnEndsAt?: number | null;
   };
+  proLeague?: string;
 }
 
 export interface MatchRoomProps {
@@ -74,11 +78,12 @@ type MapPoolEntry = {
   };
 };
 
-// Local veto action type (matches Redux)
+// Veto action type (matches the backend veto)
 type VetoAction = {
   map: string;
   by: "TEAM_A" | "TEAM_B" | "SYSTEM";
   kind: "BAN" | "DECIDER";
+  timedOut?: boolean;
 };
 
 // ------------------------------
@@ -113,14 +118,6 @@ function isAwperRole(role?: string | null): boolean {
   return normalized === "AWPER" || normalized === "SNIPER";
 }
 
-function pickCaptain(team: MatchPlayer[], seed: string): MatchPlayer | undefined {
-  if (!team.length) return undefined;
-  const seedValue = seed
-    .split("")
-    .reduce((acc, char) => (acc * 31 + char.charCodeAt(0)) >>> 0, 7);
-  return team[seedValue % team.length];
-}
-
 function orderTeamForDisplay(team: MatchPlayer[], captainId: number): MatchPlayer[] {
   if (!team.length) return team;
 
@@ -214,7 +211,6 @@ export default function MatchRoom({
   const audioNegativeAlert = useAudio("negative-alert.wav");
 
   const {
-    matchId,
     teamA,
     teamB,
     expectedWinA,
@@ -222,16 +218,22 @@ export default function MatchRoom({
     eloLoss,
   } = room;
 
-  const captainA = useMemo(() => pickCaptain(teamA, `${matchId}-A`), [matchId, teamA]);
-  const captainB = useMemo(() => pickCaptain(teamB, `${matchId}-B`), [matchId, teamB]);
+  // Captains are picked by the backend once the veto starts
+  const captainIds = room.veto?.captains;
+  const captainA = useMemo(() => teamA.find((p) => p.id === captainIds?.TEAM_A), [captainIds?.TEAM_A, teamA]);
+  const captainB = useMemo(() => teamB.find((p) => p.id === captainIds?.TEAM_B), [captainIds?.TEAM_B, teamB]);
   const shuffledTeamA = useMemo(() => orderTeamForDisplay(teamA, captainA?.id ?? teamA[0]?.id ?? 0), [captainA?.id, teamA]);
   const shuffledTeamB = useMemo(() => orderTeamForDisplay(teamB, captainB?.id ?? teamB[0]?.id ?? 0), [captainB?.id, teamB]);
   const queueLookupA = useMemo(() => buildQueuePositionLookup(shuffledTeamA), [shuffledTeamA]);
   const queueLookupB = useMemo(() => buildQueuePositionLookup(shuffledTeamB), [shuffledTeamB]);
 
-  // Determine if the user is the captain of Team A
   // The backend marks the user with `userControlled: true`.
-  const userIsCaptainA = !!captainA?.userControlled;
+  const userSide: "TEAM_A" | "TEAM_B" = teamB.some((p) => p.userControlled) ? "TEAM_B" : "TEAM_A";
+  const userCaptainSide = captainA?.userControlled
+    ? "TEAM_A"
+    : captainB?.userControlled
+      ? "TEAM_B"
+      : null;
 
   // UI tabs
   const [tab, setTab] = useState<"room" | "scoreboard">("room");
@@ -257,6 +259,10 @@ export default function MatchRoom({
   const [faceitPlayingStatus, setFaceitPlayingStatus] = useState<PlayingStatus | null>(null);
   const [faceitPlayError, setFaceitPlayError] = useState<NodeJS.ErrnoException | null>(null);
 
+  // Leaving asks twice since it always hands out a penalty
+  const [confirmLeave, setConfirmLeave] = useState(false);
+  const [isLeaving, setIsLeaving] = useState(false);
+
   // ------------------------------
   // SETTINGS / MAP POOL FOR VETO
   // ------------------------------
@@ -268,6 +274,7 @@ export default function MatchRoom({
 
   const [mapPool, setMapPool] = useState<MapPoolEntry[]>([]);
   const [cpuThinking, setCpuThinking] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
   // Load map pool once profile/settings exist
   useEffect(() => {
@@ -319,7 +326,7 @@ export default function MatchRoom({
         persistedVeto.deciderMap ?? null,
       ),
     );
-  }, [dispatch, room.matchId, room.persistedMatchId]);
+  }, [dispatch, room.matchId, room.persistedMatchId, room.veto]);
 
   // Remaining maps = not banned/decided yet
   const remainingMaps = useMemo(
@@ -342,168 +349,89 @@ export default function MatchRoom({
     return bansCount % 2 === 0 ? "TEAM_A" : "TEAM_B";
   }, [vetoComplete, remainingMaps.length, bansCount]);
 
-  // Helper to write veto state into Redux
-  const updateVeto = React.useCallback((
-    history: VetoAction[],
-    deciderOverride: string | null = deciderMap
-  ) => {
-    const nextVeto = {
-      history,
-      completed: !!deciderOverride,
-      deciderMap: deciderOverride,
-    };
-    const nextRoom = {
-      ...room,
-      persistedMatchId: storedMatchId ?? room.persistedMatchId,
-      selectedMap: deciderOverride ?? room.selectedMap,
-      veto: nextVeto,
-    };
+  const turnEndsAt = room.veto?.turnEndsAt ?? null;
+  const turnSecondsLeft = turnEndsAt
+    ? Math.max(0, Math.ceil((turnEndsAt - now) / 1000))
+    : null;
+
+  // The backend owns the veto so every move goes through it
+  const requestVeto = React.useCallback((mapName?: string) =>
+    api.faceit
+      .veto({ ...room, persistedMatchId: storedMatchId ?? room.persistedMatchId }, mapName)
+      .then((result) => dispatch(faceitRoomSet(result.room, result.matchId)))
+      .catch((error) => {
+        console.error("FACEIT veto: failed to update veto", error);
+      }), [dispatch, room, storedMatchId]);
+
+  // Start the veto when the room opens
+  useEffect(() => {
+    if (room.veto?.captains) return;
+    requestVeto();
+  }, [room.matchId, room.veto?.captains, requestVeto]);
 
-    dispatch(
-      faceitVetoSet(
-        nextVeto.history,
-        nextVeto.completed,
-        nextVeto.deciderMap
-      )
-    );
-    dispatch(faceitRoomSet(nextRoom, nextRoom.persistedMatchId));
+  // Tick the turn timer
+  useEffect(() => {
+    if (vetoComplete || !turnEndsAt) return;
 
-    api.faceit.persistMatchRoom(nextRoom).catch((error) => {
-      console.error("FACEIT veto: failed to persist veto state", error);
-    });
-  }, [deciderMap, dispatch, room, storedMatchId]);
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [vetoComplete, turnEndsAt]);
 
   // ------------------------------
-  // USER BAN HANDLER (TEAM A, only if user is captain)
+  // USER BAN HANDLER (only if user is captain)
   // ------------------------------
 
   const handleUserBan = (mapName: string) => {
     if (vetoComplete) return;
-    if (currentTurn !== "TEAM_A") return;
-    if (!userIsCaptainA) return;
+    if (!currentTurn || currentTurn !== userCaptainSide) return;
     if (!remainingMaps.some((m) => m.gameMap.name === mapName)) return;
 
-    const newHistory: VetoAction[] = [
-      ...vetoHistory,
-      { map: mapName, by: "TEAM_A", kind: "BAN" },
-    ];
-
-    updateVeto(newHistory);
+    requestVeto(mapName);
   };
 
   // ------------------------------
-  // CPU BAN HANDLER (TEAM B)
+  // CPU BAN HANDLER (any side without the user as captain)
   // ------------------------------
 
   useEffect(() => {
     if (vetoComplete) return;
-    if (!mapPool.length) return;
-    if (remainingMaps.length <= 1) return;
-    if (currentTurn !== "TEAM_B") return;
+    if (!mapPool.length || !captainIds) return;
+    if (!currentTurn || currentTurn === userCaptainSide) return;
 
     setCpuThinking(true);
 
     const timeout = setTimeout(() => {
-      const choices = remainingMaps.map((m) => m.gameMap.name);
-      if (choices.length === 0) {
-        setCpuThinking(false);
-        return;
-      }
-
-      const mapName =
-        choices[Math.floor(Math.random() * choices.length)];
-
-      const newHistory: VetoAction[] = [
-        ...vetoHistory,
-        { map: mapName, by: "TEAM_B", kind: "BAN" },
-      ];
-
-      updateVeto(newHistory);
-      setCpuThinking(false);
+      requestVeto().finally(() => setCpuThinking(false));
     }, 800 + Math.random() * 2200);
 
-    return () => clearTimeout(timeout);
+    return () => {
+      clearTimeout(timeout);
+      setCpuThinking(false);
+    };
   }, [
+    captainIds,
     currentTurn,
     vetoComplete,
-    mapPool,
-    remainingMaps,
-    vetoHistory,
-    updateVeto,
+    mapPool.length,
+    vetoHistory.length,
+    userCaptainSide,
+    requestVeto,
   ]);
 
   // ------------------------------
-  // CPU BAN HANDLER (TEAM A when user is NOT captain)
+  // USER TURN TIMEOUT
   // ------------------------------
 
   useEffect(() => {
-    if (vetoComplete) return;
-    if (!mapPool.length) return;
-    if (remainingMaps.length <= 1) return;
-
-    // Only trigger CPU ban for Team A if it's their turn
-    // AND the user is not the captain of Team A.
-    if (currentTurn !== "TEAM_A") return;
-    if (userIsCaptainA) return;
-
-    setCpuThinking(true);
+    if (vetoComplete || !turnEndsAt) return;
+    if (!currentTurn || currentTurn !== userCaptainSide) return;
 
     const timeout = setTimeout(() => {
-      const choices = remainingMaps.map((m) => m.gameMap.name);
-      if (choices.length === 0) {
-        setCpuThinking(false);
-        return;
-      }
-
-      const mapName =
-        choices[Math.floor(Math.random() * choices.length)];
-
-      const newHistory: VetoAction[] = [
-        ...vetoHistory,
-        { map: mapName, by: "TEAM_A", kind: "BAN" },
-      ];
-
-      updateVeto(newHistory);
-      setCpuThinking(false);
-    }, 800 + Math.random() * 2200);
+      requestVeto();
+    }, Math.max(0, turnEndsAt - Date.now()) + 250);
 
     return () => clearTimeout(timeout);
-  }, [
-    currentTurn,
-    vetoComplete,
-    mapPool,
-    remainingMaps,
-    vetoHistory,
-    updateVeto,
-    userIsCaptainA,
-  ]);
-
-  // ------------------------------
-  // AUTO-DECIDER WHEN 1 MAP LEFT
-  // ------------------------------
-
-  useEffect(() => {
-    if (!mapPool.length) return;
-    if (vetoComplete) return;
-    if (remainingMaps.length !== 1) return;
-
-    const mapName = remainingMaps[0].gameMap.name;
-
-    if (vetoHistory.some((v) => v.kind === "DECIDER")) return;
-
-    const newHistory: VetoAction[] = [
-      ...vetoHistory,
-      { map: mapName, by: "SYSTEM", kind: "DECIDER" },
-    ];
-
-    updateVeto(newHistory, mapName);
-  }, [
-    mapPool.length,
-    remainingMaps,
-    vetoComplete,
-    vetoHistory,
-    updateVeto,
-  ]);
+  }, [currentTurn, turnEndsAt, userCaptainSide, vetoComplete, requestVeto]);
 
   // ------------------------------
   // START MATCH
@@ -572,11 +500,7 @@ export default function MatchRoom({
         ...room,
         selectedMap: deciderMap,
         persistedMatchId: storedMatchId ?? room.persistedMatchId,
-        veto: {
-          history: vetoHistory,
-          completed: vetoComplete,
-          deciderMap,
-        },
+        veto: room.veto,
         // Make sure to send *shuffled* teams to backend so they match what we display.
         teamA: shuffledTeamA,
         teamB: shuffledTeamB,
@@ -589,11 +513,7 @@ export default function MatchRoom({
             selectedMap: deciderMap,
             persistedMatchId: result.matchId,
             matchId: room.matchId,
-            veto: {
-              history: vetoHistory,
-              completed: vetoComplete,
-              deciderMap,
-            },
+            veto: room.veto,
           },
           result.matchId,
         ),
@@ -630,6 +550,41 @@ export default function MatchRoom({
     }
   };
 
+  const handleLeaveMatch = async () => {
+    const matchId = storedMatchId ?? room.persistedMatchId;
+
+    if (!matchId || isLeaving) {
+      return;
+    }
+
+    if (!confirmLeave) {
+      setConfirmLeave(true);
+      return;
+    }
+
+    setIsLeaving(true);
+
+    try {
+      await api.faceit.leaveMatch(matchId);
+      dispatch(faceitVetoClear());
+      dispatch(faceitRoomClear());
+
+      if (onEloUpdate) {
+        await onEloUpdate();
+      }
+
+      onClose();
+    } catch {
+      audioNegativeAlert();
+      setFaceitPlayError({
+        message: "This match can no longer be left.",
+      } as NodeJS.ErrnoException);
+    } finally {
+      setIsLeaving(false);
+      setConfirmLeave(false);
+    }
+  };
+
   useEffect(() => {
     return () => {
       if (connectCooldownTimeoutRef.current) {
@@ -760,18 +715,31 @@ export default function MatchRoom({
             {tab === "room" ? "MATCH ROOM" : "SCOREBOARD"}
           </h1>
 
-          <button
-            data-interaction-sound="back"
-            onClick={() => {
-              if (state.faceitMatchCompleted) {
-                dispatch(faceitVetoClear());
-              }
-              onClose();
-            }}
-            className="px-4 py-2 bg-neutral-700 rounded hover:bg-neutral-600"
-          >
-            Back
-          </button>
+          <div className="flex gap-2">
+            {!state.faceitMatchCompleted && (storedMatchId ?? room.persistedMatchId) && (
+              <button
+                disabled={isLeaving}
+                onClick={handleLeaveMatch}
+                onMouseLeave={() => setConfirmLeave(false)}
+                className="px-4 py-2 bg-red-700 rounded hover:bg-red-600 disabled:opacity-50"
+              >
+                {confirmLeave ? "Leave and take the penalty?" : "Leave match"}
+              </button>
+            )}
+
+            <button
+              data-interaction-sound="back"
+              onClick={() => {
+                if (state.faceitMatchCompleted) {
+                  dispatch(faceitVetoClear());
+                }
+                onClose();
+              }}
+              className="px-4 py-2 bg-neutral-700 rounded hover:bg-neutral-600"
+            >
+              Back
+            </button>
+          </div>
         </div>
 
         {/* TABS */}
@@ -804,6 +772,8 @@ export default function MatchRoom({
         {tab === "room" && (
           <>
             <div className="text-center mb-4 opacity-70">
+              {room.proLeague === "FPL" && "FACEIT Pro League · "}
+              {room.proLeague === "FPL_CHALLENGER" && "FPL Challenger · "}
               Match ID: {room.matchId}
             </div>
 
@@ -911,27 +881,23 @@ export default function MatchRoom({
                         <span>Loading map pool…</span>
                       )}
 
-                      {mapPool.length > 0 && !vetoComplete && (
+                      {mapPool.length > 0 && !vetoComplete && !!currentTurn && (
                         <>
-                          {currentTurn === "TEAM_A" && (
-                            <>
-                              {userIsCaptainA ? (
-                                <span>
-                                  Click a map to ban.
-                                </span>
-                              ) : (
-                                <span>
-                                  Waiting for your captain{" "}
-                                  <strong>{captainA?.name}</strong> to ban a map…
-                                </span>
-                              )}
-                            </>
-                          )}
-                          {currentTurn === "TEAM_B" && (
+                          {currentTurn === userCaptainSide ? (
                             <span>
-                              Waiting for enemy captain{" "}
-                              <strong>{captainB?.name}</strong> to ban a map…
+                              Click a map to ban.
                             </span>
+                          ) : (
+                            <span>
+                              Waiting for {currentTurn === userSide ? "your" : "enemy"} captain{" "}
+                              <strong>
+                                {(currentTurn === "TEAM_A" ? captainA : captainB)?.name}
+                              </strong>{" "}
+                              to ban a map…
+                            </span>
+                          )}
+                          {turnSecondsLeft !== null && (
+                            <span className="ml-1 font-mono">({turnSecondsLeft}s)</span>
                           )}
                         </>
                       )}
@@ -961,8 +927,8 @@ export default function MatchRoom({
                           const isClickable =
                             isRemaining &&
                             !vetoComplete &&
-                            currentTurn === "TEAM_A" &&
-                            userIsCaptainA &&
+                            !!currentTurn &&
+                            currentTurn === userCaptainSide &&
                             !cpuThinking;
 
                           const label = Util.convertMapPool(
@@ -1010,7 +976,9 @@ export default function MatchRoom({
                                 {picked && picked.by !== "SYSTEM" && (
                                   <span className="text-xs opacity-70">
                                     {picked.kind === "BAN"
-                                      ? "BANNED"
+                                      ? picked.timedOut
+                                        ? "BANNED (TIMED OUT)"
+                                        : "BANNED"
                                       : "DECIDER"}
                                   </span>
                                 )}
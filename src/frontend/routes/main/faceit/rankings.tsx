@@ -1,7 +1,13 @@
 import React from "react";
 import { useLocation, useNavigate } from "react-router-dom";
 import faceitLogo from "../../../assets/faceit/faceit.png";
-import { getFaceitRankBadge, LEVEL_IMAGES, LeaderboardPlayer } from "./faceit";
+import {
+  getFaceitRankBadge,
+  LEVEL_IMAGES,
+  LeaderboardPlayer,
+  RankingHistory,
+  RankingHistoryChart,
+} from "./faceit";
 
 type RankingsRouteState = {
   fromFaceitRankingsButton?: boolean;
@@ -10,6 +16,12 @@ type RankingsRouteState = {
 
 type RegionFilter = "ALL" | "EUROPE" | "AMERICAS" | "ASIA" | "OCEANIA";
 
+type LeaderboardPage = Awaited<ReturnType<typeof api.faceit.leaderboard>>;
+type LeaderboardCursor = LeaderboardPage["nextCursor"];
+type LeaderboardRequest =
+  | { after?: LeaderboardCursor; before?: LeaderboardCursor }
+  | { myRank: true };
+
 const PLAYERS_PER_PAGE = 50;
 const REGION_TITLES: Record<RegionFilter, string> = {
   ALL: "RANKINGS",
@@ -37,10 +49,17 @@ export default function FaceitRankings(): JSX.Element {
   const [availableCountries, setAvailableCountries] = React.useState<Array<{ code: string; name: string }>>([]);
   const [region, setRegion] = React.useState<RegionFilter>("ALL");
   const [countryCode, setCountryCode] = React.useState<string>("ALL");
+  const [request, setRequest] = React.useState<LeaderboardRequest>({});
   const [page, setPage] = React.useState(1);
+  const [previousCursor, setPreviousCursor] = React.useState<LeaderboardCursor>(null);
+  const [nextCursor, setNextCursor] = React.useState<LeaderboardCursor>(null);
+  const [myRank, setMyRank] = React.useState<number | null>(null);
   const [totalPages, setTotalPages] = React.useState(0);
   const [totalPlayers, setTotalPlayers] = React.useState(0);
   const [loading, setLoading] = React.useState(true);
+  const [history, setHistory] = React.useState<RankingHistory>([]);
+  const [peakLevel, setPeakLevel] = React.useState(0);
+  const [peakRank, setPeakRank] = React.useState<number | null>(null);
 
   const dynamicLeaderboardTitle = REGION_TITLES[region];
 
@@ -50,23 +69,40 @@ export default function FaceitRankings(): JSX.Element {
       return;
     }
 
+    const filters = { region, countryCode: countryCode === "ALL" ? null : countryCode };
+    const load: Promise<LeaderboardPage & { myRank?: number | null }> =
+      "myRank" in request
+        ? api.faceit.leaderboardMyRank(PLAYERS_PER_PAGE, filters)
+        : api.faceit.leaderboard(request, PLAYERS_PER_PAGE, filters);
+
     setLoading(true);
-    api.faceit
-      .leaderboard(page, PLAYERS_PER_PAGE, {
-        region,
-        countryCode: countryCode === "ALL" ? null : countryCode,
-      })
+    load
       .then((data) => {
         setPlayers(data.entries || []);
+        setPage(data.page || 1);
+        setPreviousCursor(data.previousCursor);
+        setNextCursor(data.nextCursor);
         setTotalPages(data.totalPages || 0);
         setTotalPlayers(data.total || 0);
         setAvailableCountries(data.availableCountries || []);
+
+        if ("myRank" in request) {
+          setMyRank(data.myRank);
+        }
       })
       .finally(() => setLoading(false));
-  }, [navigate, page, routeState.fromFaceitRankingsButton, region, countryCode]);
+  }, [navigate, request, routeState.fromFaceitRankingsButton, region, countryCode]);
 
-  const isFirstPage = page <= 1;
-  const isLastPage = totalPages === 0 || page >= totalPages;
+  React.useEffect(() => {
+    api.faceit.rankingHistory().then((data) => {
+      setHistory(data.history);
+      setPeakLevel(data.peakLevel);
+      setPeakRank(data.peakRank);
+    });
+  }, []);
+
+  const isFirstPage = !previousCursor;
+  const isLastPage = !nextCursor;
 
   return (
     <div className="flex h-screen min-h-0 w-full flex-col overflow-hidden bg-[#0b0b0b] text-white">
@@ -98,7 +134,8 @@ export default function FaceitRankings(): JSX.Element {
                     onClick={() => {
                       setRegion(option.value);
                       setCountryCode("ALL");
-                      setPage(1);
+                      setMyRank(null);
+                      setRequest({});
                     }}
                     className={`px-4 py-2 rounded text-sm font-semibold border transition ${region === option.value
                         ? "bg-orange-600 border-orange-500 text-white"
@@ -117,7 +154,8 @@ export default function FaceitRankings(): JSX.Element {
                 value={countryCode}
                 onChange={(e) => {
                   setCountryCode(e.target.value);
-                  setPage(1);
+                  setMyRank(null);
+                  setRequest({});
                 }}
                 className="w-full rounded bg-neutral-800 border border-[#ffffff20] px-3 py-2 text-sm"
               >
@@ -129,12 +167,40 @@ export default function FaceitRankings(): JSX.Element {
                 ))}
               </select>
             </div>
+
+            <div className="mt-auto space-y-2">
+              <div className="flex items-center justify-between">
+                <h3 className="text-sm font-bold tracking-wide">YOUR HISTORY</h3>
+                {peakLevel > 0 && (
+                  <span className="flex items-center gap-1 text-xs opacity-70" title="Peak level">
+                    PEAK
+                    <img src={LEVEL_IMAGES[peakLevel]} className="w-5 h-5" />
+                    {peakRank && <span>#{peakRank}</span>}
+                  </span>
+                )}
+              </div>
+              <div className="h-40 rounded-lg border border-[#ffffff10] bg-neutral-900/40 p-2">
+                <RankingHistoryChart history={history} metric="rank" />
+              </div>
+            </div>
           </div>
 
           <div className="flex h-full min-h-0 flex-col overflow-hidden rounded-lg border border-[#ffffff15] bg-[#0f0f0f]">
             <div className="w-full bg-[#0c0c0c] py-3 px-4 border-b border-[#ff7300]/40 flex items-center justify-between">
               <h2 className="text-lg font-bold">{dynamicLeaderboardTitle}</h2>
-              <span className="text-xs opacity-70">{totalPlayers} players</span>
+              <div className="flex items-center gap-3">
+                {"myRank" in request && !loading && !myRank && (
+                  <span className="text-xs opacity-70">You are not ranked here</span>
+                )}
+                <button
+                  disabled={loading}
+                  onClick={() => setRequest({ myRank: true })}
+                  className="px-3 py-1 rounded bg-orange-600 hover:bg-orange-500 text-xs font-semibold disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  Jump to my rank
+                </button>
+                <span className="text-xs opacity-70">{totalPlayers} players</span>
+              </div>
             </div>
 
             <div className="h-0 min-h-0 flex-1 divide-y divide-[#ffffff10] overflow-y-scroll">
@@ -148,7 +214,10 @@ export default function FaceitRankings(): JSX.Element {
                   return (
                     <div
                       key={player.playerId}
-                      className="flex items-center justify-between px-4 py-2 bg-neutral-900/20"
+                      className={`flex items-center justify-between px-4 py-2 ${player.rank === myRank
+                          ? "bg-orange-600/20"
+                          : "bg-neutral-900/20"
+                        }`}
                     >
                       <div className="flex items-center gap-3 min-w-0">
                         <span className="text-xs text-neutral-300 w-8">#{player.rank}</span>
@@ -162,6 +231,13 @@ export default function FaceitRankings(): JSX.Element {
                           <span className="w-4" />
                         )}
                         <span className="text-sm font-semibold truncate">{player.nickname}</span>
+                        {player.peakLevel > player.faceitLevel && (
+                          <img
+                            src={LEVEL_IMAGES[player.peakLevel]}
+                            className="w-4 h-4 opacity-50"
+                            title={`Peak level ${player.peakLevel}`}
+                          />
+                        )}
                       </div>
 
                       <div className="flex items-center gap-3">
@@ -186,7 +262,7 @@ export default function FaceitRankings(): JSX.Element {
             <div className="flex shrink-0 items-center justify-between border-t border-[#ffffff10] bg-[#0c0c0c]/80 px-4 py-3">
               <button
                 disabled={isFirstPage || loading}
-                onClick={() => setPage((p) => Math.max(1, p - 1))}
+                onClick={() => setRequest({ before: previousCursor })}
                 className="px-3 py-1 rounded bg-neutral-700 hover:bg-neutral-600 disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 Previous
@@ -196,7 +272,7 @@ export default function FaceitRankings(): JSX.Element {
               </span>
               <button
                 disabled={isLastPage || loading}
-                onClick={() => setPage((p) => p + 1)}
+                onClick={() => setRequest({ after: nextCursor })}
                 className="px-3 py-1 rounded bg-neutral-700 hover:bg-neutral-600 disabled:opacity-40 disabled:cursor-not-allowed"
               >
                 Next
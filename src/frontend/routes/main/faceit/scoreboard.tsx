@@ -1,6 +1,6 @@
 import React, { useEffect, useState } from "react";
 import { AppStateContext } from "@liga/frontend/redux";
-import { Constants } from "@liga/shared";
+import { Constants, Util } from "@liga/shared";
 
 export interface ScoreboardProps {
   matchId: number;
@@ -21,12 +21,23 @@ export interface ScorebotEvent {
   headshot: boolean;
 }
 
+export interface VetoRecord {
+  id: number;
+  type: string;
+  map: string;
+  teamId: number | null;
+}
+
 export interface MatchRecord {
   id: number;
   status: number;
   payload?: string | null;
   faceitTeammates?: string | null;
   faceitOpponents?: string | null;
+  faceitEncounter?: string | null;
+  faceitEncounterPlayerId?: number | null;
+  faceitReportedPlayerId?: number | null;
+  faceitEloRefund?: number | null;
   competitors?: {
     id: number;
     teamId: number;
@@ -42,6 +53,8 @@ export default function Scoreboard({ matchId }: ScoreboardProps) {
   const [match, setMatch] = useState<MatchRecord | null>(null);
   const [players, setPlayers] = useState<PlayerRow[]>([]);
   const [events, setEvents] = useState<ScorebotEvent[]>([]);
+  const [vetoes, setVetoes] = useState<VetoRecord[]>([]);
+  const [reporting, setReporting] = useState(false);
 
   useEffect(() => {
     if (!matchId) return;
@@ -55,6 +68,7 @@ export default function Scoreboard({ matchId }: ScoreboardProps) {
       setMatch(data.match as MatchRecord);
       setPlayers(data.players as PlayerRow[]);
       setEvents(data.events as ScorebotEvent[]);
+      setVetoes((data.vetoes ?? []) as VetoRecord[]);
       setLoading(false);
     } catch (err) {
       console.error("Scoreboard load error:", err);
@@ -62,6 +76,25 @@ export default function Scoreboard({ matchId }: ScoreboardProps) {
     }
   }
 
+  /**
+   * Reports a player and reloads the scoreboard.
+   *
+   * @param playerId The player id.
+   * @function
+   */
+  async function report(playerId: number) {
+    setReporting(true);
+
+    try {
+      await api.faceit.reportPlayer(matchId, playerId);
+      await load();
+    } catch (err) {
+      console.error("Report error:", err);
+    } finally {
+      setReporting(false);
+    }
+  }
+
   if (loading) {
     return <div className="text-gray-400">Loading…</div>;
   }
@@ -196,6 +229,18 @@ export default function Scoreboard({ matchId }: ScoreboardProps) {
 
   const leftName = isUserTeam1 ? teamAName : teamBName;
   const rightName = isUserTeam1 ? teamBName : teamAName;
+  const game = (
+    state.profile ? Util.loadSettings(state.profile.settings) : Constants.Settings
+  ).general.game;
+
+  const reportedPlayer = match.faceitReportedPlayerId
+    ? stats.find((p) => p.id === match.faceitReportedPlayerId)
+    : null;
+  const reportConfirmed =
+    !!match.faceitReportedPlayerId &&
+    match.faceitReportedPlayerId === match.faceitEncounterPlayerId;
+  const onReport =
+    match.faceitReportedPlayerId || reporting ? undefined : report;
 
   return (
     <div className="p-6 flex flex-col gap-8">
@@ -221,16 +266,58 @@ export default function Scoreboard({ matchId }: ScoreboardProps) {
         </span>
       </div>
 
+      {vetoes.length > 0 && (
+        <div className="flex flex-wrap justify-center gap-2">
+          {vetoes.map((veto) => (
+            <span
+              key={veto.id}
+              className={`px-3 py-1 rounded text-sm border ${
+                veto.type === Constants.MapVetoAction.BAN
+                  ? "border-red-600 bg-red-600/10"
+                  : "border-orange-500 bg-orange-500/10"
+              }`}
+            >
+              {veto.type === Constants.MapVetoAction.BAN
+                ? `${veto.teamId === 1 ? teamAName : teamBName} banned `
+                : "Decider: "}
+              <strong>{Util.convertMapPool(veto.map, game)}</strong>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {reportedPlayer && (
+        <div
+          className={`px-4 py-2 rounded text-sm text-center border ${
+            reportConfirmed
+              ? "border-green-600 bg-green-600/10"
+              : "border-gray-600 bg-gray-600/10"
+          }`}
+        >
+          {reportConfirmed
+            ? `${reportedPlayer.name} has been banned for ${
+                match.faceitEncounter === "CHEATER" ? "cheating" : "smurfing"
+              }.${
+                match.faceitEloRefund
+                  ? ` Your ${match.faceitEloRefund} Elo loss has been restored.`
+                  : ""
+              }`
+            : `Your report against ${reportedPlayer.name} was reviewed and no violation was found.`}
+        </div>
+      )}
+
       <div className="grid grid-cols-2 gap-8">
         <TeamTable
           name={leftName}
           stats={sortedUserTeam}
           currentPlayerId={currentPlayerId}
+          onReport={onReport}
         />
         <TeamTable
           name={rightName}
           stats={sortedOppTeam}
           currentPlayerId={currentPlayerId}
+          onReport={onReport}
         />
       </div>
     </div>
@@ -240,6 +327,7 @@ export default function Scoreboard({ matchId }: ScoreboardProps) {
 interface TeamTableProps {
   name: string;
   currentPlayerId: number | null;
+  onReport?: (playerId: number) => void;
   stats: {
     id: number;
     name: string;
@@ -251,7 +339,18 @@ interface TeamTableProps {
   }[];
 }
 
-function TeamTable({ name, stats, currentPlayerId }: TeamTableProps) {
+/**
+ * Lists a team's stat lines with a report
+ * button next to every other player.
+ *
+ * @param props                 The root props.
+ * @param props.name            The team name.
+ * @param props.stats           The stat lines.
+ * @param props.currentPlayerId The user's player id.
+ * @param props.onReport        Reports a player, left out once one was reported.
+ * @component
+ */
+function TeamTable({ name, stats, currentPlayerId, onReport }: TeamTableProps) {
   return (
     <div className="faceit-scoreboard">
       <h3 className="text-xl font-semibold mb-4 text-center">{name}</h3>
@@ -265,6 +364,7 @@ function TeamTable({ name, stats, currentPlayerId }: TeamTableProps) {
             <th className="px-2 py-1 text-center w-12">A</th>
             <th className="px-2 py-1 text-center w-16">HS%</th>
             <th className="px-2 py-1 text-center w-16">K/D</th>
+            {onReport && <th className="px-2 py-1 w-16" />}
           </tr>
         </thead>
 
@@ -289,6 +389,18 @@ function TeamTable({ name, stats, currentPlayerId }: TeamTableProps) {
                     ? p.kills.toFixed(2)
                     : (p.kills / p.deaths).toFixed(2)}
                 </td>
+                {onReport && (
+                  <td className="py-2 text-center">
+                    {!isCurrentPlayer && (
+                      <button
+                        onClick={() => onReport(p.id)}
+                        className="px-2 py-0.5 rounded text-xs bg-neutral-700 hover:bg-red-700"
+                      >
+                        Report
+                      </button>
+                    )}
+                  </td>
+                )}
               </tr>
             );
           })}
@@ -0,0 +1,155 @@
+/**
+ * Finances route with the user's bank balance,
+ * a monthly breakdown and their latest entries.
+ *
+ * @module
+ */
+import React from 'react';
+import { format, parse } from 'date-fns';
+import { Chart } from 'chart.js/auto';
+import { Util } from '@liga/shared';
+import { AppStateContext } from '@liga/frontend/redux';
+import { useFormatAppDate } from '@liga/frontend/hooks/use-FormatAppDate';
+import { cx } from '@liga/frontend/lib';
+
+/** @constant */
+const ENTRY_LABELS: Record<string, string> = {
+  WAGES: 'Wages',
+  PRIZE_MONEY: 'Prize money',
+  SIGNING_BONUS: 'Signing bonus',
+  AGENT_FEE: 'Agent fee',
+  FINE: 'Fine',
+};
+
+/**
+ * Exports this module.
+ *
+ * @exports
+ */
+export default function () {
+  const { state } = React.useContext(AppStateContext);
+  const fmtDate = useFormatAppDate();
+  const [summary, setSummary] = React.useState<Awaited<ReturnType<typeof api.profiles.finances>>>();
+  const refCanvas = React.useRef<HTMLCanvasElement>();
+
+  // refresh whenever the day moves on
+  React.useEffect(() => {
+    api.profiles.finances().then(setSummary);
+  }, [state.profile?.date]);
+
+  React.useEffect(() => {
+    if (!refCanvas.current || !summary) {
+      return;
+    }
+
+    const chart = new Chart(refCanvas.current, {
+      type: 'bar',
+      data: {
+        labels: summary.months.map((month) =>
+          format(parse(month.month, 'yyyy-MM', new Date()), 'MMM yy'),
+        ),
+        datasets: [
+          {
+            label: 'Income',
+            data: summary.months.map((month) => month.income),
+            backgroundColor: '#5fb98a',
+          },
+          {
+            label: 'Expenses',
+            data: summary.months.map((month) => month.expenses),
+            backgroundColor: '#d9686a',
+          },
+        ],
+      },
+      options: {
+        maintainAspectRatio: false,
+        plugins: {
+          tooltip: {
+            callbacks: {
+              label: (item) => `${item.dataset.label}: ${Util.formatCurrency(Number(item.raw))}`,
+            },
+          },
+        },
+        scales: {
+          x: {
+            border: { dash: [5, 5], display: false },
+            ticks: { color: '#6f8294' },
+            grid: { color: 'rgba(143, 184, 223, 0.12)' },
+          },
+          y: {
+            beginAtZero: true,
+            border: { dash: [5, 5], display: false },
+            ticks: {
+              color: '#6f8294',
+              callback: (value: number | string) => Util.formatCurrency(Number(value)),
+            },
+            grid: { color: 'rgba(143, 184, 223, 0.12)' },
+          },
+        },
+      },
+    });
+
+    return () => chart.destroy();
+  }, [summary]);
+
+  if (!summary) {
+    return (
+      <section className="center h-full">
+        <span className="loading loading-bars" />
+      </section>
+    );
+  }
+
+  return (
+    <div className="stack-y gap-5 p-5">
+      <section className="card bg-base-200/40 rounded-2xl p-6 shadow-md">
+        <p className="text-muted text-sm">Balance</p>
+        <p className={cx('text-3xl font-bold', summary.balance < 0 && 'text-error')}>
+          {Util.formatCurrency(summary.balance)}
+        </p>
+        <p className="text-muted mt-2 text-sm">
+          {state.profile?.player?.wages
+            ? `Your wages of ${Util.formatCurrency(state.profile.player.wages)} are paid on the first of every month.`
+            : 'You are not drawing any wages right now.'}
+        </p>
+      </section>
+      <section className="h-64">
+        <canvas ref={refCanvas} />
+      </section>
+      <table className="table-pin-rows table-sm table">
+        <thead>
+          <tr>
+            <th>Date</th>
+            <th>Type</th>
+            <th>Details</th>
+            <th className="text-right">Amount</th>
+          </tr>
+        </thead>
+        <tbody>
+          {!summary.entries.length && (
+            <tr>
+              <td colSpan={4} className="text-muted text-center">
+                Nothing has come in or gone out yet.
+              </td>
+            </tr>
+          )}
+          {summary.entries.map((entry) => (
+            <tr key={entry.id + '__ledger'}>
+              <td>{fmtDate(entry.date)}</td>
+              <td>{ENTRY_LABELS[entry.type] || entry.type}</td>
+              <td className="text-muted">{entry.description}</td>
+              <td
+                className={cx(
+                  'text-right font-mono',
+                  entry.amount < 0 ? 'text-error' : 'text-success',
+                )}
+              >
+                {Util.formatCurrency(entry.amount)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -3,9 +3,12 @@
  *
  * @module
  */
+import Agents from './agents';
 import Calendar from './calendar';
 import Competitions from './competitions';
 import Dashboard from './dashboard';
+import Demos from './demos';
+import Finances from './finances';
 import Inbox from './inbox';
 import Players from './players';
 import Squad from './squad';
@@ -23,8 +26,11 @@ import News from './news';
  */
 export default {
   // standalone routes
+  Agents,
   Calendar,
   Dashboard,
+  Demos,
+  Finances,
   Inbox,
   Players,
   Squad,
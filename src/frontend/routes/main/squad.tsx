@@ -8,6 +8,7 @@ import { Constants, Eagers, Util } from '@liga/shared';
 import { AppStateContext } from '@liga/frontend/redux';
 import { useTranslation } from '@liga/frontend/hooks';
 import { Image, PlayerCard } from '@liga/frontend/components';
+import { cx } from '@liga/frontend/lib';
 import { useFormatAppDate } from '@liga/frontend/hooks/use-FormatAppDate';
 import { groupBy } from 'lodash';
 
@@ -22,6 +23,609 @@ function getPlayerRatingFromEvents(playerId: number, events: Array<{ [key: strin
   return Util.getPlayerRating(kills, deaths, assists);
 }
 
+/** @constant */
+const ROLE_LABELS: Record<Constants.UserRole, string> = {
+  [Constants.UserRole.RIFLER]: 'Rifler',
+  [Constants.UserRole.AWPER]: 'AWPer',
+  [Constants.UserRole.IGL]: 'IGL',
+};
+
+/** @constant */
+const ROLE_SWITCH_ERRORS: Record<string, string> = {
+  ROLE_SWITCH_COOLDOWN: 'The coach turned you down recently. Try again later.',
+  ROLE_SWITCH_IN_TRANSITION: 'You are still retraining for your current role.',
+  ROLE_SWITCH_PENDING: 'The coach has not answered your last request yet.',
+};
+
+/**
+ * Lets the user switch roles or ask their team to.
+ *
+ * @param props           The root props.
+ * @param props.teamless  Whether the user is without a team.
+ * @function
+ */
+function RoleSwitchPanel(props: { teamless: boolean }) {
+  const fmtDate = useFormatAppDate();
+  const [status, setStatus] =
+    React.useState<Awaited<ReturnType<typeof api.profiles.roleSwitchStatus>>>(null);
+  const [working, setWorking] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    api.profiles.roleSwitchStatus().then(setStatus);
+  }, []);
+
+  if (!status) {
+    return null;
+  }
+
+  const blocked = !!status.pendingRole || !!status.transitionEnds || !!status.requestAvailableAt;
+
+  const handleSwitch = (role: Constants.UserRole) => {
+    setWorking(true);
+    setError('');
+    api.profiles
+      .roleSwitch(role)
+      .then(setStatus)
+      .catch((err: Error) => {
+        const code = Object.keys(ROLE_SWITCH_ERRORS).find((key) => err.message.includes(key));
+        setError(code ? ROLE_SWITCH_ERRORS[code] : 'Could not switch roles.');
+      })
+      .finally(() => setWorking(false));
+  };
+
+  return (
+    <div className="stack-y gap-2 text-sm">
+      {!!status.transitionEnds && (
+        <p className="text-warning">
+          Retraining from{' '}
+          {ROLE_LABELS[status.transitionFrom as Constants.UserRole] || 'your old role'} until{' '}
+          {fmtDate(status.transitionEnds)} (-{status.xpPenalty} XP)
+        </p>
+      )}
+      {!!status.pendingRole && (
+        <p className="text-muted">
+          The coach will answer your request to play {ROLE_LABELS[status.pendingRole]} on{' '}
+          {fmtDate(status.pendingDecisionAt)}.
+        </p>
+      )}
+      {!!status.requestAvailableAt && (
+        <p className="text-muted">You can ask again on {fmtDate(status.requestAvailableAt)}.</p>
+      )}
+      <div className="flex flex-wrap justify-center gap-2">
+        {Object.values(Constants.UserRole)
+          .filter((role) => role !== status.role)
+          .map((role) => (
+            <button
+              key={role + '__role-switch'}
+              className="btn btn-sm"
+              disabled={working || blocked}
+              onClick={() => handleSwitch(role)}
+            >
+              {props.teamless ? 'Switch to' : 'Ask to play'} {ROLE_LABELS[role]}
+            </button>
+          ))}
+      </div>
+      {!!error && <p className="text-error">{error}</p>}
+    </div>
+  );
+}
+
+/** @constant */
+const TRAINING_LABELS: Record<Constants.TrainingSession, string> = {
+  [Constants.TrainingSession.AIM]: 'Aim practice',
+  [Constants.TrainingSession.DEATHMATCH]: 'Deathmatch',
+  [Constants.TrainingSession.DEMO_REVIEW]: 'Demo review',
+  [Constants.TrainingSession.REST]: 'Rest',
+};
+
+/** @constant */
+const TRAINING_ERRORS: Record<string, string> = {
+  TRAINING_BURNED_OUT: 'You are burned out. Rest up before training again.',
+  TRAINING_DONE_TODAY: 'You already trained today.',
+  TRAINING_MATCHDAY: 'You have a match today.',
+};
+
+/** @constant */
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+
+/**
+ * Lets the user plan their weekly training
+ * and play a deathmatch session for real.
+ *
+ * @function
+ */
+function TrainingPanel() {
+  const fmtDate = useFormatAppDate();
+  const [status, setStatus] =
+    React.useState<Awaited<ReturnType<typeof api.profiles.trainingStatus>>>(null);
+  const [working, setWorking] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  React.useEffect(() => {
+    api.profiles.trainingStatus().then(setStatus);
+  }, []);
+
+  if (!status) {
+    return null;
+  }
+
+  const handleScheduleChange = (day: number, session: Constants.TrainingSession) => {
+    const schedule = [...status.schedule];
+    schedule[day] = session;
+    api.profiles.trainingSchedule(schedule).then(setStatus);
+  };
+
+  const handleTrain = () => {
+    setWorking(true);
+    setError('');
+    api.profiles
+      .train()
+      .then(setStatus)
+      .catch((err: Error) => {
+        const code = Object.keys(TRAINING_ERRORS).find((key) => err.message.includes(key));
+        setError(code ? TRAINING_ERRORS[code] : 'Could not start the session.');
+      })
+      .finally(() => setWorking(false));
+  };
+
+  return (
+    <div className="stack-y gap-3 text-sm">
+      <div className="grid grid-cols-7 gap-2">
+        {status.schedule.map((session, day) => (
+          <label key={WEEKDAYS[day] + '__training'} className="stack-y gap-1 text-center">
+            <span className="text-muted">{WEEKDAYS[day]}</span>
+            <select
+              className="select select-xs"
+              value={session}
+              onChange={(event) =>
+                handleScheduleChange(day, event.target.value as Constants.TrainingSession)
+              }
+            >
+              {Object.values(Constants.TrainingSession).map((option) => (
+                <option key={option} value={option}>
+                  {TRAINING_LABELS[option]}
+                </option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+      <div className="stack-y gap-1">
+        <p className="text-muted">Fatigue: {status.fatigue}%</p>
+        <progress
+          className={cx(
+            'progress w-full',
+            status.fatigue > Constants.PlayerTrainingSettings.BURNOUT_THRESHOLD
+              ? 'progress-error'
+              : 'progress-success',
+          )}
+          value={status.fatigue}
+          max={Constants.PlayerTrainingSettings.MAX_FATIGUE}
+        />
+      </div>
+      {!!status.burnoutEnds && (
+        <p className="text-error">Burned out until {fmtDate(status.burnoutEnds)}.</p>
+      )}
+      <p className="text-muted">
+        Today: {status.trainedToday ? 'Trained' : TRAINING_LABELS[status.today]}
+      </p>
+      <button
+        className="btn btn-sm self-center"
+        disabled={working || status.trainedToday || !!status.burnoutEnds}
+        onClick={handleTrain}
+      >
+        {working ? 'Session in progress...' : 'Play a deathmatch session'}
+      </button>
+      {!!error && <p className="text-error">{error}</p>}
+    </div>
+  );
+}
+
+/**
+ * Shows how often the user's in-game calls won their round.
+ *
+ * @function
+ */
+function TacticalCallPanel() {
+  const [calls, setCalls] = React.useState<Awaited<ReturnType<typeof api.profiles.tacticalCalls>>>(
+    [],
+  );
+
+  React.useEffect(() => {
+    api.profiles.tacticalCalls().then(setCalls);
+  }, []);
+
+  return (
+    <div className="stack-y gap-2 text-sm">
+      <p className="text-muted">
+        Type <code>.exec a</code>, <code>.rush b</code>, <code>.stack mid</code>, <code>.save</code>{' '}
+        or <code>.force</code> in chat to log your call for the round.
+      </p>
+      {!calls.length && <p className="text-muted">No calls made yet.</p>}
+      {!!calls.length && (
+        <table className="table-xs table">
+          <thead>
+            <tr>
+              <th>Call</th>
+              <th className="text-center">Rounds</th>
+              <th className="text-center">Won</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calls.map((call) => (
+              <tr key={call.call + (call.site || '') + '__tactical-call'}>
+                <td className="font-mono">
+                  .{call.call} {call.site || ''}
+                </td>
+                <td className="text-center">{call.calls}</td>
+                <td className="text-center">{Math.round(call.winRate * 100)}%</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
+
+/** @constant */
+const COUNTER_ERRORS: Record<string, string> = {
+  COUNTER_NOT_PENDING: 'This offer is no longer on the table.',
+  COUNTER_INVALID_TERMS: 'Those terms do not make sense.',
+  COUNTER_LIMIT_REACHED: 'The team will not negotiate this offer any further.',
+};
+
+/**
+ * Gets how long the user's savings can make up for
+ * an offer that pays less than their current wages.
+ *
+ * @param balance       The user's balance.
+ * @param currentWages  The user's current wages.
+ * @param offeredWages  The wages on the offer.
+ * @function
+ */
+function getPayCutOutlook(balance: number, currentWages: number, offeredWages: number) {
+  const cut = currentWages - offeredWages;
+
+  if (cut <= 0) {
+    return null;
+  }
+
+  return { cut, months: Math.max(0, Math.floor(balance / cut)) };
+}
+
+/**
+ * Lists the contract offers made to the user and
+ * lets them answer each one with counter terms.
+ *
+ * @param props           The root props.
+ * @param props.playerId  The user's player id.
+ * @function
+ */
+function ContractOffersPanel(props: { playerId: number }) {
+  const { state } = React.useContext(AppStateContext);
+  const fmtDate = useFormatAppDate();
+  const [transfers, setTransfers] = React.useState<
+    Awaited<ReturnType<typeof api.transfers.all<typeof Eagers.transfer>>>
+  >([]);
+  const [countering, setCountering] = React.useState<number>(null);
+  const [terms, setTerms] = React.useState({
+    wages: 0,
+    contractYears: 1,
+    starterGuarantee: false,
+    releaseClause: '',
+  });
+  const [working, setWorking] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  const fetchTransfers = () =>
+    api.transfers
+      .all({
+        include: Eagers.transfer.include,
+        where: {
+          playerId: props.playerId,
+          status: {
+            in: [Constants.TransferStatus.PLAYER_PENDING, Constants.TransferStatus.TEAM_PENDING],
+          },
+        },
+        orderBy: { id: 'desc' },
+      })
+      .then(setTransfers);
+
+  React.useEffect(() => {
+    if (!props.playerId) {
+      return;
+    }
+
+    fetchTransfers();
+    const removeTransferListener = api.ipc.on(Constants.IPCRoute.TRANSFER_UPDATE, fetchTransfers);
+
+    return () => {
+      removeTransferListener();
+    };
+  }, [props.playerId]);
+
+  const handleCounter = (transfer: (typeof transfers)[number]) => {
+    const [offer] = transfer.offers;
+    setCountering(transfer.id);
+    setError('');
+    setTerms({
+      wages: offer.wages ?? 0,
+      contractYears: offer.contractYears ?? 1,
+      starterGuarantee: offer.starterGuarantee,
+      releaseClause: offer.releaseClause ? String(offer.releaseClause) : '',
+    });
+  };
+
+  const handleSubmit = (id: number) => {
+    setWorking(true);
+    setError('');
+    api.transfers
+      .counter(id, {
+        wages: Math.round(Number(terms.wages)),
+        contractYears: Number(terms.contractYears),
+        starterGuarantee: terms.starterGuarantee,
+        releaseClause: terms.releaseClause ? Math.round(Number(terms.releaseClause)) : null,
+      })
+      .then(() => setCountering(null))
+      .catch((err: Error) => {
+        const code = Object.keys(COUNTER_ERRORS).find((key) => err.message.includes(key));
+        setError(code ? COUNTER_ERRORS[code] : 'Could not send your counter.');
+      })
+      .finally(() => setWorking(false));
+  };
+
+  const handleAnswer = (answer: Promise<unknown>) => {
+    setWorking(true);
+    setError('');
+    answer.finally(() => setWorking(false));
+  };
+
+  const releaseClause = !!state.profile?.team && state.profile.player?.releaseClause;
+
+  if (!transfers.length) {
+    return (
+      <div className="stack-y gap-1 text-sm">
+        {!!releaseClause && (
+          <p className="text-muted">Your release clause is {Util.formatCurrency(releaseClause)}.</p>
+        )}
+        <p className="text-muted">No offers on the table.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="stack-y divide-base-content/10 gap-0 divide-y text-left text-sm">
+      {!!releaseClause && (
+        <p className="text-muted pb-3">
+          Your release clause is {Util.formatCurrency(releaseClause)}.
+        </p>
+      )}
+      {transfers.map((transfer) => {
+        const [offer] = transfer.offers;
+        const pending = transfer.status === Constants.TransferStatus.PLAYER_PENDING;
+        const stepUp = !!state.profile?.team && transfer.from.tier > state.profile.team.tier;
+        const outlook = getPayCutOutlook(
+          state.profile?.balance ?? 0,
+          state.profile?.player?.wages ?? 0,
+          offer.wages ?? 0,
+        );
+
+        return (
+          <div key={transfer.id + '__contract-offer'} className="stack-y gap-2 py-3">
+            <div className="flex items-center justify-between gap-2">
+              <p className="font-bold">
+                {transfer.from.name}
+                {transfer.buyout && (
+                  <span className="badge badge-warning badge-sm ml-2">Buyout triggered</span>
+                )}
+              </p>
+              {pending ? (
+                <p className="text-muted">Expires {fmtDate(offer.expiresAt)}</p>
+              ) : (
+                <p className="text-warning">Waiting for reply</p>
+              )}
+            </div>
+            <p className="text-muted">
+              {Util.formatCurrency(offer.wages ?? 0)} for {offer.contractYears ?? 1} year(s)
+              {offer.starterGuarantee && ', starter guaranteed'}
+              {!!offer.releaseClause &&
+                `, release clause ${Util.formatCurrency(offer.releaseClause)}`}
+            </p>
+            {!!outlook && (
+              <p className={outlook.months ? 'text-muted' : 'text-warning'}>
+                {stepUp
+                  ? `A step up a tier for ${Util.formatCurrency(outlook.cut)} less a month.`
+                  : `A pay cut of ${Util.formatCurrency(outlook.cut)} a month.`}{' '}
+                {outlook.months
+                  ? `Your savings cover the difference for ${outlook.months} month(s).`
+                  : 'Your savings cannot cover the difference.'}
+              </p>
+            )}
+            {pending && countering !== transfer.id && (
+              <div className="flex gap-2">
+                <button
+                  className="btn btn-primary btn-sm"
+                  disabled={working}
+                  onClick={() => handleAnswer(api.transfers.accept(transfer.id))}
+                >
+                  Accept
+                </button>
+                <button
+                  className="btn btn-sm"
+                  disabled={working}
+                  onClick={() => handleCounter(transfer)}
+                >
+                  Counter
+                </button>
+                <button
+                  className="btn btn-ghost btn-sm"
+                  disabled={working}
+                  onClick={() => handleAnswer(api.transfers.reject(transfer.id))}
+                >
+                  Reject
+                </button>
+              </div>
+            )}
+            {pending && countering === transfer.id && (
+              <div className="stack-y gap-2">
+                <div className="grid grid-cols-3 gap-2">
+                  <label className="stack-y gap-1">
+                    <span className="text-muted">Wages</span>
+                    <input
+                      type="number"
+                      min={0}
+                      className="input input-sm"
+                      value={terms.wages}
+                      onChange={(event) =>
+                        setTerms({ ...terms, wages: Number(event.target.value) })
+                      }
+                    />
+                  </label>
+                  <label className="stack-y gap-1">
+                    <span className="text-muted">Years</span>
+                    <select
+                      className="select select-sm"
+                      value={terms.contractYears}
+                      onChange={(event) =>
+                        setTerms({ ...terms, contractYears: Number(event.target.value) })
+                      }
+                    >
+                      {[1, 2, 3, 4, 5].map((years) => (
+                        <option key={years} value={years}>
+                          {years}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="stack-y gap-1">
+                    <span className="text-muted">Release clause</span>
+                    <input
+                      type="number"
+                      min={0}
+                      placeholder="None"
+                      className="input input-sm"
+                      value={terms.releaseClause}
+                      onChange={(event) =>
+                        setTerms({ ...terms, releaseClause: event.target.value })
+                      }
+                    />
+                  </label>
+                </div>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="checkbox checkbox-sm"
+                    checked={terms.starterGuarantee}
+                    onChange={(event) =>
+                      setTerms({ ...terms, starterGuarantee: event.target.checked })
+                    }
+                  />
+                  <span>Guarantee me a starting spot</span>
+                </label>
+                <div className="flex gap-2">
+                  <button
+                    className="btn btn-primary btn-sm"
+                    disabled={working}
+                    onClick={() => handleSubmit(transfer.id)}
+                  >
+                    Send counter
+                  </button>
+                  <button
+                    className="btn btn-ghost btn-sm"
+                    disabled={working}
+                    onClick={() => setCountering(null)}
+                  >
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {!!error && <p className="text-error pt-3">{error}</p>}
+    </div>
+  );
+}
+
+/** @constant */
+const LOAN_ERRORS: Record<string, string> = {
+  LOAN_ACTIVE: 'You are already out on loan.',
+  LOAN_CONTRACT_TOO_SHORT: 'Your contract runs out too soon for a loan.',
+  LOAN_NO_CLUB: 'No club in the tiers below has room for you right now.',
+  LOAN_NOT_BENCHED: 'Only benched players can be sent out on loan.',
+};
+
+/**
+ * Shows the user's loan and lets them ask
+ * to be loaned out while on the bench.
+ *
+ * @function
+ */
+function LoanPanel() {
+  const { state } = React.useContext(AppStateContext);
+  const fmtDate = useFormatAppDate();
+  const [status, setStatus] =
+    React.useState<Awaited<ReturnType<typeof api.profiles.loanStatus>>>(null);
+  const [working, setWorking] = React.useState(false);
+  const [error, setError] = React.useState('');
+
+  // the bench and recalls happen on the backend
+  React.useEffect(() => {
+    api.profiles.loanStatus().then(setStatus);
+  }, [state.profile?.teamId, state.profile?.player?.starter]);
+
+  if (!status) {
+    return null;
+  }
+
+  const handleLoan = () => {
+    setWorking(true);
+    setError('');
+    api.profiles
+      .loan()
+      .then(setStatus)
+      .catch((err: Error) => {
+        const code = Object.keys(LOAN_ERRORS).find((key) => err.message.includes(key));
+        setError(code ? LOAN_ERRORS[code] : 'Could not arrange a loan.');
+      })
+      .finally(() => setWorking(false));
+  };
+
+  if (status.parentClub) {
+    return (
+      <div className="stack-y gap-1 text-sm">
+        <p>
+          On loan from {status.parentClub} until {fmtDate(status.recallDate)}.
+        </p>
+        <p className="text-muted">
+          {state.profile?.team?.name} covers {status.wageShare}% of your wages.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="stack-y gap-2 text-sm">
+      <p className="text-muted">
+        {status.available
+          ? `Ask to be loaned to a lower tier club for ${status.weeks} weeks.`
+          : 'Loans are only an option while you are on the bench.'}
+      </p>
+      {status.available && (
+        <div className="flex justify-center">
+          <button className="btn btn-sm" disabled={working} onClick={handleLoan}>
+            Ask for a loan
+          </button>
+        </div>
+      )}
+      {!!error && <p className="text-error">{error}</p>}
+    </div>
+  );
+}
+
 /**
  * Exports this module.
  *
@@ -176,6 +780,20 @@ export default function () {
           <p className="text-sm text-muted mt-1">
             Compete on FACEIT or await offers from teams.
           </p>
+
+          <div className="divider my-3 before:h-px after:h-px" />
+
+          <RoleSwitchPanel teamless />
+        </article>
+
+        <article className="card bg-base-200/40 p-6 w-full max-w-2xl shadow-md rounded-2xl">
+          <h2 className="text-lg font-semibold mb-3">Training</h2>
+          <TrainingPanel />
+        </article>
+
+        <article className="card bg-base-200/40 p-6 w-full max-w-2xl shadow-md rounded-2xl">
+          <h2 className="text-lg font-semibold mb-3">Offers</h2>
+          <ContractOffersPanel playerId={state.profile?.playerId} />
         </article>
       </div>
     );
@@ -261,6 +879,44 @@ export default function () {
         </section>
         <section className="divide-base-content/10 divide-y">
           <article className="stack-y gap-0! border-t-0!">
+            <header className="prose text-center">
+              <h2>Your Role</h2>
+            </header>
+            <footer className="p-5">
+              <RoleSwitchPanel teamless={false} />
+              {state.profile?.player?.role === Constants.UserRole.IGL && (
+                <>
+                  <div className="divider my-3 before:h-px after:h-px" />
+                  <TacticalCallPanel />
+                </>
+              )}
+            </footer>
+          </article>
+          <article className="stack-y gap-0!">
+            <header className="prose text-center">
+              <h2>Training</h2>
+            </header>
+            <footer className="p-5">
+              <TrainingPanel />
+            </footer>
+          </article>
+          <article className="stack-y gap-0!">
+            <header className="prose text-center">
+              <h2>Offers</h2>
+            </header>
+            <footer className="p-5">
+              <ContractOffersPanel playerId={state.profile?.playerId} />
+            </footer>
+          </article>
+          <article className="stack-y gap-0!">
+            <header className="prose text-center">
+              <h2>Loan</h2>
+            </header>
+            <footer className="p-5">
+              <LoanPanel />
+            </footer>
+          </article>
+          <article className="stack-y gap-0!">
             <header className="prose text-center">
               <h2>Squad Overview</h2>
             </header>
@@ -68,6 +68,10 @@ type StatsPlayerOption = {
   deaths?: number;
   assists?: number;
   maps?: number;
+  adr?: number | null;
+  kast?: number | null;
+  openingKills?: number;
+  openingDeaths?: number;
 };
 
 type StatsRouteState = {
@@ -884,7 +888,7 @@ export default function LeagueStatsConcept(): JSX.Element {
     String(Constants.Prestige.indexOf(Constants.TierSlug.LEAGUE_PRO)),
   );
   const [selectedGlobalPlayerSort, setSelectedGlobalPlayerSort] = React.useState<
-    'rating' | 'kills' | 'deaths' | 'maps' | 'name' | 'team'
+    'rating' | 'kills' | 'deaths' | 'maps' | 'adr' | 'kast' | 'name' | 'team'
   >('rating');
   const [matchPage, setMatchPage] = React.useState(1);
   const [tournamentPage, setTournamentPage] = React.useState(1);
@@ -2133,7 +2137,15 @@ export default function LeagueStatsConcept(): JSX.Element {
           value={selectedGlobalPlayerSort}
           onChange={(event) =>
             setSelectedGlobalPlayerSort(
-              event.target.value as 'rating' | 'kills' | 'deaths' | 'maps' | 'name' | 'team',
+              event.target.value as
+                | 'rating'
+                | 'kills'
+                | 'deaths'
+                | 'maps'
+                | 'adr'
+                | 'kast'
+                | 'name'
+                | 'team',
             )
           }
         >
@@ -2141,6 +2153,8 @@ export default function LeagueStatsConcept(): JSX.Element {
           <option value="kills">Sort by kills</option>
           <option value="deaths">Sort by deaths</option>
           <option value="maps">Sort by maps</option>
+          <option value="adr">Sort by ADR</option>
+          <option value="kast">Sort by KAST</option>
           <option value="name">Sort by name</option>
           <option value="team">Sort by team</option>
         </select>
@@ -2155,12 +2169,15 @@ export default function LeagueStatsConcept(): JSX.Element {
               <th className="text-center">Rating</th>
               <th className="text-center">Maps</th>
               <th className="text-center">K / D / A</th>
+              <th className="text-center">ADR</th>
+              <th className="text-center">KAST</th>
+              <th className="text-center">Opening K / D</th>
             </tr>
           </thead>
           <tbody>
             {globalPlayersLoading && (
               <tr>
-                <td colSpan={6} className="py-12 text-center">
+                <td colSpan={9} className="py-12 text-center">
                   <span className="loading loading-bars loading-md" />
                 </td>
               </tr>
@@ -2220,11 +2237,22 @@ export default function LeagueStatsConcept(): JSX.Element {
                   <td className="text-center">
                     {player.kills || 0} / {player.deaths || 0} / {player.assists || 0}
                   </td>
+                  <td className="text-center">
+                    {player.adr != null ? player.adr.toFixed(1) : '-'}
+                  </td>
+                  <td className="text-center">
+                    {player.kast != null ? `${Math.round(player.kast * 100)}%` : '-'}
+                  </td>
+                  <td className="text-center">
+                    {player.kast != null
+                      ? `${player.openingKills || 0} / ${player.openingDeaths || 0}`
+                      : '-'}
+                  </td>
                 </tr>
               ))}
             {!globalPlayersLoading && !globalPlayers.length && (
               <tr>
-                <td colSpan={6} className="text-base-content/60 py-12 text-center text-sm">
+                <td colSpan={9} className="text-base-content/60 py-12 text-center text-sm">
                   No players found.
                 </td>
               </tr>
@@ -6,7 +6,7 @@
  */
 import React from 'react';
 import { useLocation, useNavigate } from 'react-router-dom';
-import { differenceBy, random, sample } from 'lodash';
+import { differenceBy, random } from 'lodash';
 import { Constants, Eagers, Util } from '@liga/shared';
 import { cx } from '@liga/frontend/lib';
 import { AppStateContext } from '@liga/frontend/redux';
@@ -27,21 +27,6 @@ type MapVetoAction = {
   map: string;
 };
 
-type HistoricalMatch = {
-  games: Array<{
-    map: string;
-    teams: Array<{
-      teamId: number | null;
-      result: number | null;
-    }>;
-  }>;
-};
-
-type MapPerformance = {
-  played: number;
-  wins: number;
-};
-
 /** @type {Matches} */
 type Matches<T = typeof Eagers.match> = Awaited<ReturnType<typeof api.matches.all<T>>>;
 
@@ -51,12 +36,6 @@ const CPU_THINKING_TIME_MAX = 3000;
 /** @constant */
 const CPU_THINKING_TIME_MIN = 1000;
 
-/** @constant */
-const MAP_WINRATE_PRIOR_GAMES = 4;
-
-/** @constant */
-const MAP_RANDOMNESS = 0.35;
-
 const ARENA_MODE_TIER_SLUGS = new Set<string>([
   Constants.TierSlug.MAJOR_CHAMPIONS_STAGE,
   Constants.TierSlug.BLAST_FINALS,
@@ -86,83 +65,6 @@ const VETO_STYLES = {
   },
 };
 
-function getMapPerformance(matches: Array<HistoricalMatch>, teamId?: number | null) {
-  const performances: Record<string, MapPerformance> = {};
-
-  if (!teamId) {
-    return performances;
-  }
-
-  matches.forEach((historicalMatch) => {
-    historicalMatch.games.forEach((historicalGame) => {
-      const teamResult = historicalGame.teams.find((team) => team.teamId === teamId);
-
-      if (!teamResult || teamResult.result == null) {
-        return;
-      }
-
-      const performance = performances[historicalGame.map] || { played: 0, wins: 0 };
-
-      performance.played += 1;
-      performance.wins +=
-        teamResult.result === Constants.MatchResult.WIN
-          ? 1
-          : teamResult.result === Constants.MatchResult.DRAW
-            ? 0.5
-            : 0;
-
-      performances[historicalGame.map] = performance;
-    });
-  });
-
-  return performances;
-}
-
-function getMapStrength(performance?: MapPerformance) {
-  const played = performance?.played || 0;
-  const wins = performance?.wins || 0;
-  const adjustedWinRate =
-    (wins + MAP_WINRATE_PRIOR_GAMES * 0.5) / (played + MAP_WINRATE_PRIOR_GAMES);
-  const confidence = 1 - Math.exp(-played / 4);
-
-  return adjustedWinRate * 0.78 + confidence * 0.22;
-}
-
-function getMapWeakness(performance?: MapPerformance) {
-  const played = performance?.played || 0;
-  const lowSampleBonus = Math.exp(-played / 3);
-
-  return (1 - getMapStrength(performance)) * 0.8 + lowSampleBonus * 0.2;
-}
-
-function weightedMapSample(
-  maps: Array<string>,
-  getWeight: (map: string) => number,
-  fallback?: string,
-) {
-  const weights = maps.map((map) => {
-    const weight = Math.max(0.01, getWeight(map));
-    return weight * (1 - MAP_RANDOMNESS + Math.random() * MAP_RANDOMNESS * 2);
-  });
-  const total = weights.reduce((sum, weight) => sum + weight, 0);
-
-  if (!maps.length || total <= 0) {
-    return fallback;
-  }
-
-  let cursor = Math.random() * total;
-
-  for (let i = 0; i < maps.length; i += 1) {
-    cursor -= weights[i];
-
-    if (cursor <= 0) {
-      return maps[i];
-    }
-  }
-
-  return maps[maps.length - 1];
-}
-
 /**
  * Exports this module.
  *
@@ -183,8 +85,9 @@ export default function () {
   const [vetoHistory, setVetoHistory] = React.useState<Array<MapVetoAction>>([]);
   const [working, setWorking] = React.useState(false);
   const [mapPool, setMapPool] = React.useState<Awaited<ReturnType<typeof api.mapPool.find>>>([]);
-  const [historicalMatches, setHistoricalMatches] = React.useState<Array<HistoricalMatch>>([]);
-  const [historicalMatchesLoaded, setHistoricalMatchesLoaded] = React.useState(false);
+  const [mapProficiency, setMapProficiency] = React.useState<
+    Record<number, Record<string, number>>
+  >({});
   const [arenaModePromptVisible, setArenaModePromptVisible] = React.useState(false);
   const savedVetoSignature = React.useRef<string>();
 
@@ -235,42 +138,27 @@ export default function () {
     () => state.profile?.player?.role === Constants.UserRole.IGL,
     [state.profile],
   );
-  const mapPerformance = React.useMemo(
-    () => getMapPerformance(historicalMatches, state.profile?.teamId),
-    [historicalMatches, state.profile?.teamId],
-  );
-
+  // load map proficiency info
   React.useEffect(() => {
-    if (!state.profile?.teamId || !match) {
+    if (!match?.id) {
       return;
     }
 
-    setHistoricalMatchesLoaded(false);
-    api.matches
-      .all({
-        where: {
-          id: {
-            not: match.id,
-          },
-          matchType: 'LEAGUE',
-          status: Constants.MatchStatus.COMPLETED,
-          competitors: {
-            some: {
-              teamId: state.profile.teamId,
-            },
+    api.match.findMapProficiency(match.id).then((records) =>
+      setMapProficiency(
+        records.reduce(
+          (lookup, record) => {
+            lookup[record.teamId] = {
+              ...(lookup[record.teamId] || {}),
+              [record.map]: record.rating,
+            };
+            return lookup;
           },
-        },
-        include: {
-          games: {
-            include: {
-              teams: true,
-            },
-          },
-        },
-      })
-      .then((matches) => setHistoricalMatches(matches as Array<HistoricalMatch>))
-      .finally(() => setHistoricalMatchesLoaded(true));
-  }, [match, state.profile?.teamId]);
+          {} as Record<number, Record<string, number>>,
+        ),
+      ),
+    );
+  }, [match?.id]);
 
   // load map veto info
   React.useEffect(() => {
@@ -361,57 +249,15 @@ export default function () {
       match.competitors.findIndex((competitor) => competitor.teamId === state.profile.teamId),
     [match, state.profile.teamId],
   );
-  const cpuPool = React.useMemo(
-    () =>
-      mapPool
-        .filter((map) => vetoHistory.every((item) => item.map !== map.gameMap.name))
-        .map((map) => map.gameMap.name),
-    [mapPool, vetoHistory],
-  );
   const selectAutomatedVetoMap = React.useCallback(
-    (teamIdx?: number | false, type?: Constants.MapVetoAction) => {
-      if (!match) {
-        return sample(cpuPool);
-      }
-
-      const isUserTeamTurn = teamIdx === userCompetitorIdx;
-      const getPerformance = (map: string) => mapPerformance[map];
-
-      if (isUserTeamTurn && type === Constants.MapVetoAction.PICK) {
-        return weightedMapSample(
-          cpuPool,
-          (map) => getMapStrength(getPerformance(map)),
-          sample(cpuPool),
-        );
-      }
-
-      if (isUserTeamTurn && type === Constants.MapVetoAction.BAN) {
-        return weightedMapSample(
-          cpuPool,
-          (map) => getMapWeakness(getPerformance(map)),
-          sample(cpuPool),
-        );
-      }
-
-      if (!isUserTeamTurn && type === Constants.MapVetoAction.BAN) {
-        return weightedMapSample(
-          cpuPool,
-          (map) => getMapStrength(getPerformance(map)),
-          sample(cpuPool),
-        );
-      }
-
-      if (!isUserTeamTurn && type === Constants.MapVetoAction.PICK) {
-        return weightedMapSample(
-          cpuPool,
-          (map) => getMapWeakness(getPerformance(map)),
-          sample(cpuPool),
-        );
-      }
-
-      return weightedMapSample(cpuPool, () => 1, sample(cpuPool));
-    },
-    [cpuPool, mapPerformance, match, userCompetitorIdx],
+    (teamIdx?: number, type?: Constants.MapVetoAction) =>
+      api.match.findVetoSelection(
+        match.id,
+        vetoHistory,
+        teamIdx == null ? null : match.competitors[teamIdx].teamId,
+        type,
+      ),
+    [match, vetoHistory],
   );
 
   const startMatch = React.useCallback(() => {
@@ -475,54 +321,43 @@ export default function () {
     const isUserAutomatedTurn =
       !!vetoSequenceStep && vetoSequenceStep.team === userCompetitorIdx && !isIgl;
 
-    if ((!isCpuTurn && !isUserAutomatedTurn) || !historicalMatchesLoaded) {
+    if (!isCpuTurn && !isUserAutomatedTurn) {
       return;
     }
 
     setWorking(true);
 
     const timeout = setTimeout(
-      () => {
-        onVetoSelection(selectAutomatedVetoMap(vetoSequenceStep.team, vetoSequenceStep.type));
-        setWorking(false);
-      },
+      () =>
+        selectAutomatedVetoMap(vetoSequenceStep.team, vetoSequenceStep.type).then((map) => {
+          onVetoSelection(map);
+          setWorking(false);
+        }),
       random(CPU_THINKING_TIME_MIN, CPU_THINKING_TIME_MAX),
     );
 
     return () => clearTimeout(timeout);
-  }, [
-    cpuIdx,
-    historicalMatchesLoaded,
-    isIgl,
-    selectAutomatedVetoMap,
-    userCompetitorIdx,
-    vetoSequenceStep,
-  ]);
+  }, [cpuIdx, isIgl, selectAutomatedVetoMap, userCompetitorIdx, vetoSequenceStep]);
 
   // figure out the decider
   React.useEffect(() => {
-    if (!match || vetoSequenceComplete || vetoSequenceStep || !historicalMatchesLoaded) {
+    if (!match || vetoSequenceComplete || vetoSequenceStep) {
       return;
     }
 
     setWorking(true);
 
     const timeout = setTimeout(
-      () => {
-        onVetoSelection(selectAutomatedVetoMap());
-        setWorking(false);
-      },
+      () =>
+        selectAutomatedVetoMap().then((map) => {
+          onVetoSelection(map);
+          setWorking(false);
+        }),
       random(CPU_THINKING_TIME_MIN, CPU_THINKING_TIME_MAX),
     );
 
     return () => clearTimeout(timeout);
-  }, [
-    historicalMatchesLoaded,
-    match,
-    selectAutomatedVetoMap,
-    vetoSequenceComplete,
-    vetoSequenceStep,
-  ]);
+  }, [match, selectAutomatedVetoMap, vetoSequenceComplete, vetoSequenceStep]);
 
   React.useEffect(() => {
     if (!match || !vetoHistory.length) {
@@ -647,6 +482,18 @@ export default function () {
                         : 'border-base-content/50 shadow-base-content/50',
                     )}
                   />
+                  <ul className="absolute top-8 right-1 flex flex-col items-end gap-1">
+                    {match.competitors.map((entry) => (
+                      <li
+                        key={entry.id + '__map_proficiency'}
+                        title={`${entry.team.name} map proficiency`}
+                        className="badge badge-xs bg-base-300/80 gap-1"
+                      >
+                        <Image src={entry.team.blazon} className="size-3" />
+                        {Math.round((mapProficiency[entry.teamId]?.[map.gameMap.name] || 0) * 100)}%
+                      </li>
+                    ))}
+                  </ul>
                   {!!picked && (
                     <React.Fragment>
                       <span
@@ -60,12 +60,16 @@ type ExhibitionPlayer = ExhibitionPostgamePayload['teams'][number]['players'][nu
 /** @interface */
 interface ScoreboardProps {
   competitor: Matches<typeof Eagers.matchEvents>[number]['competitors'][number];
+  details: Array<MatchPlayerGameDetailEntry>;
   match: Matches<typeof Eagers.matchEvents>[number];
   matchGame?: MatchGame;
   vetoes: Array<MatchVetoEntry>;
 }
 
 type MatchVetoEntry = Awaited<ReturnType<typeof api.match.findVetoList>>[number];
+type MatchPlayerGameDetailEntry = Awaited<
+  ReturnType<typeof api.match.findPlayerGameDetails>
+>[number];
 type MatchInfoMatch = Matches<typeof Eagers.matchEvents>[number];
 type PostgameMatch = Matches<typeof Eagers.matchEvents>[number];
 type PostgameCompetitor = PostgameMatch['competitors'][number];
@@ -228,11 +232,13 @@ function getCustomCountryBackground(code?: string | null) {
  *
  * @param player  The player to generate stats for.
  * @param events  The player killed events object.
+ * @param detail  The player's detail stats for the game the events belong to.
  * @function
  */
 function getPlayerPerformance(
   player: ScoreboardProps['competitor']['team']['players'][number],
   events: ScoreboardProps['match']['events'],
+  detail?: ScoreboardProps['details'][number],
 ) {
   const kills = events.filter((event) => event.attackerId === player.id);
   const headshots = kills.filter((kills) => kills.headshot);
@@ -240,10 +246,57 @@ function getPlayerPerformance(
   const deaths = events.filter((event) => event.victimId === player.id && !event.assistId);
   const hsp = headshots.length / (kills.length || 1);
   const kd = kills.length - deaths.length;
-  const rating = Util.getPlayerRating(kills.length, deaths.length, assists.length);
+  const rating = Util.getPlayerGameRating({
+    ...detail,
+    kills: kills.length,
+    deaths: deaths.length,
+    assists: assists.length,
+  });
   return { events, assists, kills, deaths, hsp, kd, rating };
 }
 
+/**
+ * Sums up a player's round, damage and utility stats
+ * for a single game or the whole match.
+ *
+ * Damage is only known for played matches so ADR
+ * is averaged over the games that recorded it.
+ *
+ * @param player    The player to generate stats for.
+ * @param details   The detail stats of the match.
+ * @param matchGame The game to filter by.
+ * @function
+ */
+function getPlayerDetails(
+  player: ScoreboardProps['competitor']['team']['players'][number],
+  details: ScoreboardProps['details'],
+  matchGame?: MatchGame,
+) {
+  const rows = details.filter(
+    (detail) => detail.playerId === player.id && (!matchGame || detail.gameKey === matchGame.id),
+  );
+
+  if (!rows.length) {
+    return null;
+  }
+
+  const damageRows = rows.filter((row) => row.damage !== null);
+  const rounds = rows.reduce((total, row) => total + row.rounds, 0);
+  const damageRounds = damageRows.reduce((total, row) => total + row.rounds, 0);
+
+  return {
+    adr: damageRows.length
+      ? damageRows.reduce((total, row) => total + row.damage, 0) / (damageRounds || 1)
+      : null,
+    kast: rows.reduce((total, row) => total + row.kastRounds, 0) / (rounds || 1),
+    utilityDamage: damageRows.length
+      ? damageRows.reduce((total, row) => total + row.utilityDamage, 0)
+      : null,
+    openingKills: rows.reduce((total, row) => total + row.openingKills, 0),
+    openingDeaths: rows.reduce((total, row) => total + row.openingDeaths, 0),
+  };
+}
+
 /**
  * @param result  The round result.
  */
@@ -719,6 +772,18 @@ function Scoreboard(props: ScoreboardProps) {
           <th title={t('postgame.kd')} className="w-[10%] text-center">
             {t('postgame.kdAlt')}
           </th>
+          <th title={t('postgame.adr')} className="w-[7%] text-center">
+            {t('postgame.adrAlt')}
+          </th>
+          <th title={t('postgame.kast')} className="w-[7%] text-center">
+            {t('postgame.kastAlt')}
+          </th>
+          <th title={t('postgame.utilityDamage')} className="w-[7%] text-center">
+            {t('postgame.utilityDamageAlt')}
+          </th>
+          <th title={t('postgame.openingDuels')} className="w-[7%] text-center">
+            {t('postgame.openingDuelsAlt')}
+          </th>
         </tr>
       </thead>
       <tbody>
@@ -729,7 +794,16 @@ function Scoreboard(props: ScoreboardProps) {
               getPlayerPerformance(playerA, killOrAssistEvents).kd,
           )
           .map((player) => {
-            const report = getPlayerPerformance(player, killOrAssistEvents);
+            const findDetail = (gameId?: number) =>
+              props.details.find(
+                (detail) => detail.playerId === player.id && detail.gameKey === gameId,
+              );
+            const report = getPlayerPerformance(
+              player,
+              killOrAssistEvents,
+              findDetail(props.matchGame?.id),
+            );
+            const details = getPlayerDetails(player, props.details, props.matchGame);
 
             // if we don't have a match game defined, our rating should be based
             // off of the average rating of all games rather than just the k/d
@@ -737,7 +811,7 @@ function Scoreboard(props: ScoreboardProps) {
 
             if (!props.matchGame) {
               const ratings = Object.values(groupBy(killOrAssistEvents, 'gameId')).map(
-                (data) => getPlayerPerformance(player, data).rating,
+                (data) => getPlayerPerformance(player, data, findDetail(data[0].gameId)).rating,
               );
               rating = ratings.reduce((a, b) => a + b, 0) / ratings.length;
             }
@@ -778,6 +852,20 @@ function Scoreboard(props: ScoreboardProps) {
                 >
                   {new Intl.NumberFormat('en-US', { signDisplay: 'exceptZero' }).format(report.kd)}
                 </td>
+                <td className="text-center">
+                  {details?.adr != null ? details.adr.toFixed(1) : '-'}
+                </td>
+                <td className="text-center">
+                  {details
+                    ? new Intl.NumberFormat('en-US', {
+                        style: 'percent',
+                      }).format(details.kast)
+                    : '-'}
+                </td>
+                <td className="text-center">{details?.utilityDamage ?? '-'}</td>
+                <td className="text-center">
+                  {details ? `${details.openingKills}-${details.openingDeaths}` : '-'}
+                </td>
               </tr>
             );
           })}
@@ -1082,6 +1170,7 @@ export default function () {
   const [competitionMatches, setCompetitionMatches] = React.useState<SwissSiblingMatch[]>([]);
   const [matchGame, setMatchGame] = React.useState<MatchGame>();
   const [vetoes, setVetoes] = React.useState<Array<MatchVetoEntry>>([]);
+  const [details, setDetails] = React.useState<Array<MatchPlayerGameDetailEntry>>([]);
   const [settings, setSettings] = React.useState(Constants.Settings);
 
   // grab match data
@@ -1106,6 +1195,7 @@ export default function () {
     }
 
     api.match.findVetoList(match.id).then(setVetoes);
+    api.match.findPlayerGameDetails(match.id).then(setDetails);
 
     if (
       Constants.TierSwissConfig[match.competition.tier.slug as Constants.TierSlug] ||
@@ -1237,7 +1327,13 @@ export default function () {
         settings={settings}
         vetoes={vetoes}
       />
-      <Scoreboard competitor={home} match={match} matchGame={matchGame} vetoes={vetoes} />
+      <Scoreboard
+        competitor={home}
+        details={details}
+        match={match}
+        matchGame={matchGame}
+        vetoes={vetoes}
+      />
       {(match.games.length === 1 || !!matchGame) && (
         <table className="table-xs table">
           <thead>
@@ -1283,7 +1379,13 @@ export default function () {
           </tbody>
         </table>
       )}
-      <Scoreboard competitor={away} match={match} matchGame={matchGame} vetoes={vetoes} />
+      <Scoreboard
+        competitor={away}
+        details={details}
+        match={match}
+        matchGame={matchGame}
+        vetoes={vetoes}
+      />
       <section className="h-0 flex-grow" />
       {match.status !== Constants.MatchStatus.COMPLETED && (
         <button
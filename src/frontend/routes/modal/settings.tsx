@@ -836,6 +836,45 @@ export default function () {
                 />
               </article>
             </section>
+            <section className="border-base-content/10 mt-8 border-t pt-6">
+              <header>
+                <p>Record Demos</p>
+                <p>Records a GOTV demo of your matches to replay from the Demos tab.</p>
+              </header>
+              <article>
+                <input
+                  type="checkbox"
+                  data-interaction-sound="none"
+                  className="toggle"
+                  onChange={(event) =>
+                    onToggleSettingsUpdate('general.recordDemos', event.target.checked)
+                  }
+                  checked={settings.general.recordDemos}
+                  value={String(settings.general.recordDemos)}
+                />
+              </article>
+            </section>
+            <section>
+              <header>
+                <p>Demo Retention</p>
+                <p>Days to keep demos for before they are deleted. Use 0 to keep them forever.</p>
+              </header>
+              <article>
+                <input
+                  type="number"
+                  min={0}
+                  className="input join-item bg-base-200 text-sm"
+                  disabled={!settings.general.recordDemos}
+                  value={settings.general.demoRetentionDays}
+                  onChange={(event) =>
+                    onSettingsUpdate(
+                      'general.demoRetentionDays',
+                      Math.max(0, Math.floor(Number(event.target.value) || 0)),
+                    )
+                  }
+                />
+              </article>
+            </section>
           </fieldset>
         )}
         {activeTab === Tab.CALENDAR && (
@@ -36,6 +36,7 @@ type Player =
         id: number;
         teamId: number | null;
         starter: boolean;
+        loan: boolean;
         startedAt: Date;
         endedAt: Date | null;
         team?: {
@@ -878,6 +879,9 @@ export default function TransferModal() {
                           {!stint.starter && (
                             <span className="text-[8px] text-red-400 uppercase">(BENCHED)</span>
                           )}
+                          {stint.loan && (
+                            <span className="text-[8px] text-blue-400 uppercase">(LOAN)</span>
+                          )}
                         </span>
                       </div>
                     ) : (
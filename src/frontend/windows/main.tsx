@@ -111,6 +111,18 @@ const routes = createMemoryRouter([
         path: '/stats',
         element: <Routes.Main.Stats />,
       },
+      {
+        path: '/demos',
+        element: <Routes.Main.Demos />,
+      },
+      {
+        path: '/agents',
+        element: <Routes.Main.Agents />,
+      },
+      {
+        path: '/finances',
+        element: <Routes.Main.Finances />,
+      },
       {
         path: '/faceit',
         element: <Routes.Main.Faceit />,
@@ -436,6 +448,9 @@ function Root() {
     ['/faceit', 'FACEIT'],
     ['/squad', t('navigation.squadHub')],
     ['/stats', 'Statistics'],
+    ['/demos', 'Demos'],
+    ['/agents', 'Agents'],
+    ['/finances', 'Finances'],
     ['/teams', t('navigation.teams'), useMatch('/teams/*')],
     ['/competitions', t('navigation.competitions'), useMatch('/competitions/*')],
     ['/calendar', t('navigation.calendar')],
@@ -0,0 +1,178 @@
+/**
+ * The match centre window shows a live scoreboard of the
+ * match being played so it can be kept on a second monitor.
+ *
+ * @module
+ */
+import React from 'react';
+import ReactDOM from 'react-dom/client';
+import { Constants } from '@liga/shared';
+import { cx } from '@liga/frontend/lib';
+import { FaCrosshairs, FaSkull } from 'react-icons/fa';
+import '@liga/frontend/assets/styles.css';
+
+type Snapshot = Awaited<ReturnType<typeof api.matchCentre.find>>;
+
+/**
+ * Formats the difference between a live stat and the season average.
+ *
+ * @param value   The live value.
+ * @param average The season average.
+ * @function
+ */
+function formatDelta(value: number, average?: number) {
+  if (average === undefined) {
+    return null;
+  }
+
+  const delta = value - average;
+  return `${delta >= 0 ? '+' : ''}${delta.toFixed(1)}`;
+}
+
+/**
+ * The index component
+ *
+ * @component
+ */
+function Index() {
+  const [snapshot, setSnapshot] = React.useState<Snapshot>(null);
+
+  // grab the current scoreboard and then follow its updates
+  React.useEffect(() => {
+    api.matchCentre.find().then(setSnapshot);
+    const removeUpdateListener = api.ipc.on(
+      Constants.IPCRoute.MATCH_CENTRE_UPDATE,
+      (data: Snapshot) => setSnapshot(data),
+    );
+
+    return () => {
+      removeUpdateListener();
+    };
+  }, []);
+
+  if (!snapshot) {
+    return (
+      <main className="center h-screen gap-5">
+        <FaCrosshairs className="text-muted size-24" />
+        <p>The match centre comes alive once your next match starts.</p>
+      </main>
+    );
+  }
+
+  const [home, away] = snapshot.teams;
+
+  return (
+    <main className="stack-y h-screen gap-0! overflow-y-auto">
+      <header className="bg-base-200 stack-y items-center gap-1 p-5">
+        <p className="text-muted text-xs uppercase">
+          {snapshot.map} · {snapshot.live ? `Round ${snapshot.round}` : 'Final'}
+        </p>
+        <section className="grid w-full grid-cols-[1fr_auto_1fr] items-center gap-5">
+          <p className="truncate text-right font-bold">{home?.name}</p>
+          <p className="font-mono text-3xl font-black">
+            {home?.score ?? 0} : {away?.score ?? 0}
+          </p>
+          <p className="truncate font-bold">{away?.name}</p>
+        </section>
+        {snapshot.live && <span className="badge badge-error badge-sm">LIVE</span>}
+      </header>
+      {snapshot.teams.map((team) => (
+        <table key={`${team.id}__match_centre`} className="table-xs table table-fixed">
+          <thead>
+            <tr>
+              <th className="w-1/2">{team.name}</th>
+              <th className="text-center">K</th>
+              <th className="text-center">D</th>
+              <th className="text-center">A</th>
+              <th className="text-center" title="Kills against the season average per map">
+                vs Avg
+              </th>
+            </tr>
+          </thead>
+          <tbody>
+            {snapshot.players
+              .filter((player) => player.teamId === team.id)
+              .sort((a, b) => b.kills - a.kills || a.deaths - b.deaths)
+              .map((player) => {
+                const delta = formatDelta(player.kills, player.seasonAverage?.kills);
+
+                return (
+                  <tr key={`${player.id}__match_centre_player`}>
+                    <td className="truncate">{player.name}</td>
+                    <td className="text-center">{player.kills}</td>
+                    <td className="text-center">{player.deaths}</td>
+                    <td className="text-center">{player.assists}</td>
+                    <td
+                      className={cx(
+                        'text-center',
+                        !delta && 'text-muted',
+                        !!delta && (delta.startsWith('-') ? 'text-error' : 'text-success'),
+                      )}
+                      title={
+                        player.seasonAverage
+                          ? `${player.seasonAverage.kills.toFixed(1)} / ${player.seasonAverage.deaths.toFixed(1)} / ${player.seasonAverage.assists.toFixed(1)} over ${player.seasonAverage.games} maps`
+                          : 'No maps played this season'
+                      }
+                    >
+                      {delta || '-'}
+                    </td>
+                  </tr>
+                );
+              })}
+          </tbody>
+        </table>
+      ))}
+      <section className="stack-y p-5">
+        <p className="text-muted text-xs uppercase">Kill Feed</p>
+        {!snapshot.killFeed.length && <p className="text-muted text-sm">No kills yet.</p>}
+        <ul className="space-y-1 text-sm">
+          {snapshot.killFeed.map((entry, idx) => (
+            <li key={`${idx}__${entry.round}__${entry.victim}`} className="flex items-center gap-2">
+              <span className="text-muted w-8 text-xs">R{entry.round}</span>
+              <span
+                className={cx(
+                  'truncate font-bold',
+                  entry.attackerTeamId === home?.id ? 'text-info' : 'text-warning',
+                )}
+              >
+                {entry.attacker}
+                {!!entry.assist && <span className="font-normal"> + {entry.assist}</span>}
+              </span>
+              <span className="text-muted text-xs">{entry.weapon}</span>
+              {entry.headshot && <FaSkull className="text-muted" />}
+              <span
+                className={cx(
+                  'truncate',
+                  entry.victimTeamId === home?.id ? 'text-info' : 'text-warning',
+                )}
+              >
+                {entry.victim}
+              </span>
+            </li>
+          ))}
+        </ul>
+      </section>
+    </main>
+  );
+}
+
+/**
+ * React bootstrapping logic.
+ *
+ * @function
+ * @name anonymous
+ */
+(() => {
+  // grab the root container
+  const container = document.getElementById('root');
+
+  if (!container) {
+    throw new Error('Failed to find the root element.');
+  }
+
+  // set the theme
+  container.dataset.theme = Constants.ThemeSetting.DARK;
+
+  // render the react application
+  ReactDOM.createRoot(container).render(<Index />);
+})();
@@ -102,6 +102,14 @@ export enum OfferIncoming {
 
   - Contract length: {{it.transfer.offers[0].contractYears}} year(s)
 
+  {{@if(it.transfer.offers[0].releaseClause)}}
+  - Release clause: {{it.transfer.offers[0].releaseClause | currency}}
+
+  {{/if}}
+  {{@if(it.transfer.buyout)}}
+  We have triggered the release clause in your contract with **{{it.transfer.to.name}}** so they cannot stand in the way of this move.
+
+  {{/if}}
   ---
 
   <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accept Offer</button>
@@ -279,3 +287,146 @@ export enum WelcomeEmail {
   GL HF!
   `,
 }
+
+/** @enum */
+export enum FaceitProLeagueInvite {
+  SUBJECT = 'Invitation to the {{it.division}}',
+  CONTENT = `
+  Hi, {{it.profile.player.name}}!
+
+  You are ranked **#{{it.member.rank}}** in {{it.federation}} on the FACEIT ladder, which earns you a spot in the **{{it.division}}** for {{it.month}}.
+
+  Pugs in the {{it.division}} queue are only played against the other members of your division.
+
+  Teams keep a close eye on the standings so make every match count!
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchAccepted {
+  SUBJECT = 'Role change request',
+  CONTENT = `
+  Hi, {{it.profile.player.name}}.
+
+  We have talked it over and you will be playing as our **{{it.role}}** from now on.
+
+  Give it about {{it.weeks}} weeks of practice before you are back at your best. Until then expect to be a step slower than usual.
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchRejected {
+  SUBJECT = 'Role change request',
+  CONTENT = `
+  Hi, {{it.profile.player.name}}.
+
+  {{@if(it.reason == 'SNIPER_SLOT_TAKEN')}}
+  We already have a starting AWPer and there is no room for a second one in this lineup.
+  {{#else}}
+  {{@if(it.reason == 'NEEDS_SNIPER')}}
+  You are the only AWPer in our starting lineup and we cannot afford to lose you on the rifle.
+  {{#else}}
+  We would rather keep you in your current role for now.
+  {{/if}}
+  {{/if}}
+
+  Feel free to bring it up again in a few weeks.
+  `,
+}
+
+/** @enum */
+export enum AgentWeeklyReport {
+  SUBJECT = 'Weekly update from {{it.agent.name}}',
+  CONTENT = `
+  Hi, {{it.profile.player.name}}.
+
+  Here is where things stand this week.
+
+  {{@if(it.pendingOffers > 0)}}
+  You have **{{it.pendingOffers}}** offer(s) waiting for an answer. Have a look before they expire.
+  {{#else}}
+  No offers on the table right now. I am still working my contacts in {{it.network}}.
+  {{/if}}
+
+  {{@if(it.profile.team)}}
+  You are playing for **{{it.profile.team.name}}** on wages of **{{it.wages}}**{{@if(it.contractEnd)}} until {{it.contractEnd}}{{/if}}. Our fee comes to **{{it.fee}}** ({{it.agent.feePercent}}%).
+  {{#else}}
+  You are a free agent at the moment so keep your form up in the pugs.
+  {{/if}}
+  `,
+}
+
+/** @enum */
+export enum CounterOfferReply {
+  SUBJECT = 'Contract Offer from {{it.transfer.from.name}}',
+  CONTENT = `
+  Hello, {{it.profile.player.name}}.
+
+  {{@if(it.accepted)}}
+  We have gone over your counter and we can agree to your terms.
+  {{#else}}
+  We cannot agree to everything you asked for but we are willing to meet you halfway.
+  {{/if}}
+
+  **Offer details:**
+
+  - Wages: {{it.wages}}
+
+  - Contract length: {{it.terms.contractYears}} year(s)
+
+  - Starter guarantee: {{@if(it.terms.starterGuarantee)}}Yes{{#else}}No{{/if}}
+
+  - Release clause: {{@if(it.releaseClause)}}{{it.releaseClause}}{{#else}}None{{/if}}
+
+  This offer is valid for the next 7 days.
+
+  ---
+
+  <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accept Offer</button>
+  <button className="btn btn-ghost" data-ipc-route="/transfer/reject" data-payload="{{it.transfer.id}}">Reject Offer</button>
+  `,
+}
+
+/** @enum */
+export enum CounterOfferWithdrawn {
+  SUBJECT = 'Contract Offer from {{it.transfer.from.name}}',
+  CONTENT = `
+  Hello, {{it.profile.player.name}}.
+
+  We are too far apart on the terms and have decided to withdraw our offer.
+
+  Best of luck with the rest of your career.
+  `,
+}
+
+/** @enum */
+export enum LoanStarted {
+  SUBJECT = 'Loan move to {{it.loanClub.name}}',
+  CONTENT = `
+  Hi, {{it.profile.player.name}}.
+
+  We have agreed a loan with **{{it.loanClub.name}}** so you can get some matches under your belt.
+
+  **Loan details:**
+
+  - Loan club: {{it.loanClub.name}} ({{it.tierName}})
+
+  - Recall date: {{it.recallDate}}
+
+  - Wages: {{it.loanClub.name}} covers **{{it.loanWages}}** ({{it.wageShare}}%) and we pay the remaining **{{it.parentWages}}**
+
+  You will be back with us once the loan is over. Make the most of it!
+  `,
+}
+
+/** @enum */
+export enum LoanRecalled {
+  SUBJECT = 'Back from loan at {{it.loanClub.name}}',
+  CONTENT = `
+  Hi, {{it.profile.player.name}}.
+
+  Your loan at **{{it.loanClub.name}}** is over and you are back with **{{it.team.name}}**.
+
+  You will start on the bench for now. Keep working hard and you will get your chance.
+  `,
+}
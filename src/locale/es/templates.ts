@@ -176,6 +176,14 @@ export enum OfferIncoming {
 
   - Salario: {{it.transfer.offers[0].wages | currency}}
 
+  {{@if(it.transfer.offers[0].releaseClause)}}
+  - Cláusula de rescisión: {{it.transfer.offers[0].releaseClause | currency}}
+
+  {{/if}}
+  {{@if(it.transfer.buyout)}}
+  Hemos activado la cláusula de rescisión de tu contrato con **{{it.transfer.to.name}}**, así que no pueden impedir este traspaso.
+
+  {{/if}}
   ---
 
   <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Aceptar Oferta</button>
@@ -276,3 +284,146 @@ export enum WelcomeEmail {
   ¡GL HF!
   `,
 }
+
+/** @enum */
+export enum FaceitProLeagueInvite {
+  SUBJECT = 'Invitación a la {{it.division}}',
+  CONTENT = `
+  ¡Hola, {{it.profile.player.name}}!
+
+  Estás en el puesto **#{{it.member.rank}}** de {{it.federation}} en la clasificación de FACEIT, lo que te da una plaza en la **{{it.division}}** para {{it.month}}.
+
+  Las partidas de la cola de la {{it.division}} solo se juegan contra los demás miembros de tu división.
+
+  Los equipos siguen muy de cerca la clasificación, ¡así que haz que cada partida cuente!
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchAccepted {
+  SUBJECT = 'Solicitud de cambio de rol',
+  CONTENT = `
+  Hola, {{it.profile.player.name}}.
+
+  Lo hemos hablado y a partir de ahora jugarás como nuestro **{{it.role}}**.
+
+  Necesitarás unas {{it.weeks}} semanas de práctica para volver a tu mejor nivel. Hasta entonces, espera ir un paso por detrás de lo habitual.
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchRejected {
+  SUBJECT = 'Solicitud de cambio de rol',
+  CONTENT = `
+  Hola, {{it.profile.player.name}}.
+
+  {{@if(it.reason == 'SNIPER_SLOT_TAKEN')}}
+  Ya tenemos un AWPer titular y no hay sitio para un segundo en esta alineación.
+  {{#else}}
+  {{@if(it.reason == 'NEEDS_SNIPER')}}
+  Eres el único AWPer de nuestra alineación titular y no podemos permitirnos perderte para el rifle.
+  {{#else}}
+  Por ahora preferimos que sigas en tu rol actual.
+  {{/if}}
+  {{/if}}
+
+  Puedes volver a planteárnoslo dentro de unas semanas.
+  `,
+}
+
+/** @enum */
+export enum AgentWeeklyReport {
+  SUBJECT = 'Actualización semanal de {{it.agent.name}}',
+  CONTENT = `
+  Hola, {{it.profile.player.name}}.
+
+  Así están las cosas esta semana.
+
+  {{@if(it.pendingOffers > 0)}}
+  Tienes **{{it.pendingOffers}}** oferta(s) esperando respuesta. Échales un vistazo antes de que caduquen.
+  {{#else}}
+  No hay ofertas sobre la mesa ahora mismo. Sigo moviendo mis contactos en {{it.network}}.
+  {{/if}}
+
+  {{@if(it.profile.team)}}
+  Juegas para **{{it.profile.team.name}}** con un salario de **{{it.wages}}**{{@if(it.contractEnd)}} hasta el {{it.contractEnd}}{{/if}}. Nuestra comisión es de **{{it.fee}}** ({{it.agent.feePercent}}%).
+  {{#else}}
+  Ahora mismo eres agente libre, así que mantén tu nivel en los pugs.
+  {{/if}}
+  `,
+}
+
+/** @enum */
+export enum CounterOfferReply {
+  SUBJECT = 'Oferta de Transferencia para {{it.transfer.target.name}}',
+  CONTENT = `
+  Hola, {{it.profile.player.name}}.
+
+  {{@if(it.accepted)}}
+  Hemos revisado tu contraoferta y podemos aceptar tus condiciones.
+  {{#else}}
+  No podemos aceptar todo lo que pides, pero estamos dispuestos a llegar a un punto intermedio.
+  {{/if}}
+
+  **Detalles de la oferta:**
+
+  - Salario: {{it.wages}}
+
+  - Duración del contrato: {{it.terms.contractYears}} año(s)
+
+  - Titularidad garantizada: {{@if(it.terms.starterGuarantee)}}Sí{{#else}}No{{/if}}
+
+  - Cláusula de rescisión: {{@if(it.releaseClause)}}{{it.releaseClause}}{{#else}}Ninguna{{/if}}
+
+  Esta oferta es válida durante los próximos 7 días.
+
+  ---
+
+  <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Aceptar Oferta</button>
+  <button className="btn btn-ghost" data-ipc-route="/transfer/reject" data-payload="{{it.transfer.id}}">Rechazar Oferta</button>
+  `,
+}
+
+/** @enum */
+export enum CounterOfferWithdrawn {
+  SUBJECT = 'Oferta de Transferencia para {{it.transfer.target.name}}',
+  CONTENT = `
+  Hola, {{it.profile.player.name}}.
+
+  Estamos demasiado lejos en las condiciones y hemos decidido retirar nuestra oferta.
+
+  Te deseamos lo mejor en el resto de tu carrera.
+  `,
+}
+
+/** @enum */
+export enum LoanStarted {
+  SUBJECT = 'Cesión a {{it.loanClub.name}}',
+  CONTENT = `
+  Hola, {{it.profile.player.name}}.
+
+  Hemos acordado una cesión con **{{it.loanClub.name}}** para que puedas sumar partidos.
+
+  **Detalles de la cesión:**
+
+  - Club de destino: {{it.loanClub.name}} ({{it.tierName}})
+
+  - Fecha de regreso: {{it.recallDate}}
+
+  - Salario: {{it.loanClub.name}} cubre **{{it.loanWages}}** ({{it.wageShare}}%) y nosotros pagamos los **{{it.parentWages}}** restantes
+
+  Volverás con nosotros cuando termine la cesión. ¡Aprovéchala!
+  `,
+}
+
+/** @enum */
+export enum LoanRecalled {
+  SUBJECT = 'Regreso de la cesión en {{it.loanClub.name}}',
+  CONTENT = `
+  Hola, {{it.profile.player.name}}.
+
+  Tu cesión en **{{it.loanClub.name}}** ha terminado y vuelves a **{{it.team.name}}**.
+
+  Por ahora empezarás en el banquillo. Sigue trabajando duro y tendrás tu oportunidad.
+  `,
+}
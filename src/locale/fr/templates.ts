@@ -175,6 +175,14 @@ export enum OfferIncoming {
 
   - Salaire : {{it.transfer.offers[0].wages | currency}}
 
+  {{@if(it.transfer.offers[0].releaseClause)}}
+  - Clause libératoire: {{it.transfer.offers[0].releaseClause | currency}}
+
+  {{/if}}
+  {{@if(it.transfer.buyout)}}
+  Nous avons activé la clause libératoire de ton contrat avec **{{it.transfer.to.name}}**, ils ne peuvent donc pas bloquer ce transfert.
+
+  {{/if}}
   ---
 
   <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accepter l'offre</button>
@@ -275,3 +283,146 @@ export enum WelcomeEmail {
   GL HF !
   `,
 }
+
+/** @enum */
+export enum FaceitProLeagueInvite {
+  SUBJECT = 'Invitation en {{it.division}}',
+  CONTENT = `
+  Salut {{it.profile.player.name}} !
+
+  Tu es classé **#{{it.member.rank}}** en {{it.federation}} sur le classement FACEIT, ce qui te vaut une place en **{{it.division}}** pour {{it.month}}.
+
+  Les parties de la file {{it.division}} se jouent uniquement contre les autres membres de ta division.
+
+  Les équipes suivent le classement de près, alors fais en sorte que chaque match compte !
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchAccepted {
+  SUBJECT = 'Demande de changement de rôle',
+  CONTENT = `
+  Salut, {{it.profile.player.name}}.
+
+  Nous en avons discuté et tu joueras désormais en tant que **{{it.role}}**.
+
+  Compte environ {{it.weeks}} semaines d'entraînement avant de retrouver ton meilleur niveau. D'ici là, attends-toi à avoir un temps de retard.
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchRejected {
+  SUBJECT = 'Demande de changement de rôle',
+  CONTENT = `
+  Salut, {{it.profile.player.name}}.
+
+  {{@if(it.reason == 'SNIPER_SLOT_TAKEN')}}
+  Nous avons déjà un AWPer titulaire et il n'y a pas de place pour un second dans cette équipe.
+  {{#else}}
+  {{@if(it.reason == 'NEEDS_SNIPER')}}
+  Tu es le seul AWPer de notre équipe titulaire et nous ne pouvons pas nous permettre de te perdre au fusil.
+  {{#else}}
+  Nous préférons te garder dans ton rôle actuel pour le moment.
+  {{/if}}
+  {{/if}}
+
+  N'hésite pas à nous en reparler dans quelques semaines.
+  `,
+}
+
+/** @enum */
+export enum AgentWeeklyReport {
+  SUBJECT = 'Point hebdomadaire de {{it.agent.name}}',
+  CONTENT = `
+  Salut, {{it.profile.player.name}}.
+
+  Voici où en sont les choses cette semaine.
+
+  {{@if(it.pendingOffers > 0)}}
+  Tu as **{{it.pendingOffers}}** offre(s) en attente de réponse. Jette un œil avant qu'elles n'expirent.
+  {{#else}}
+  Aucune offre sur la table pour le moment. Je continue à faire jouer mes contacts en {{it.network}}.
+  {{/if}}
+
+  {{@if(it.profile.team)}}
+  Tu joues pour **{{it.profile.team.name}}** avec un salaire de **{{it.wages}}**{{@if(it.contractEnd)}} jusqu'au {{it.contractEnd}}{{/if}}. Notre commission s'élève à **{{it.fee}}** ({{it.agent.feePercent}}%).
+  {{#else}}
+  Tu es libre de tout contrat pour le moment, alors garde ton niveau dans les pugs.
+  {{/if}}
+  `,
+}
+
+/** @enum */
+export enum CounterOfferReply {
+  SUBJECT = 'Offre de transfert : {{it.transfer.target.name}}',
+  CONTENT = `
+  Bonjour, {{it.profile.player.name}}.
+
+  {{@if(it.accepted)}}
+  Nous avons étudié ta contre-proposition et nous acceptons tes conditions.
+  {{#else}}
+  Nous ne pouvons pas accepter tout ce que tu demandes, mais nous sommes prêts à faire un pas vers toi.
+  {{/if}}
+
+  **Détails de l'offre :**
+
+  - Salaire: {{it.wages}}
+
+  - Durée du contrat: {{it.terms.contractYears}} an(s)
+
+  - Place de titulaire garantie: {{@if(it.terms.starterGuarantee)}}Oui{{#else}}Non{{/if}}
+
+  - Clause libératoire: {{@if(it.releaseClause)}}{{it.releaseClause}}{{#else}}Aucune{{/if}}
+
+  Cette offre est valable pendant les 7 prochains jours.
+
+  ---
+
+  <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accepter l'offre</button>
+  <button className="btn btn-ghost" data-ipc-route="/transfer/reject" data-payload="{{it.transfer.id}}">Rejeter l'offre</button>
+  `,
+}
+
+/** @enum */
+export enum CounterOfferWithdrawn {
+  SUBJECT = 'Offre de transfert : {{it.transfer.target.name}}',
+  CONTENT = `
+  Bonjour, {{it.profile.player.name}}.
+
+  Nous sommes trop éloignés sur les conditions et avons décidé de retirer notre offre.
+
+  Bonne continuation pour la suite de ta carrière.
+  `,
+}
+
+/** @enum */
+export enum LoanStarted {
+  SUBJECT = 'Prêt à {{it.loanClub.name}}',
+  CONTENT = `
+  Bonjour, {{it.profile.player.name}}.
+
+  Nous avons conclu un prêt avec **{{it.loanClub.name}}** pour que tu puisses enchaîner les matchs.
+
+  **Détails du prêt :**
+
+  - Club d'accueil : {{it.loanClub.name}} ({{it.tierName}})
+
+  - Date de retour : {{it.recallDate}}
+
+  - Salaire : {{it.loanClub.name}} prend en charge **{{it.loanWages}}** ({{it.wageShare}}%) et nous payons les **{{it.parentWages}}** restants
+
+  Tu reviendras chez nous à la fin du prêt. Profites-en !
+  `,
+}
+
+/** @enum */
+export enum LoanRecalled {
+  SUBJECT = 'Retour de prêt de {{it.loanClub.name}}',
+  CONTENT = `
+  Bonjour, {{it.profile.player.name}}.
+
+  Ton prêt à **{{it.loanClub.name}}** est terminé et tu es de retour à **{{it.team.name}}**.
+
+  Tu commenceras sur le banc pour le moment. Continue à travailler dur et ta chance viendra.
+  `,
+}
@@ -175,6 +175,14 @@ export enum OfferIncoming {
 
   - Stipendio: {{it.transfer.offers[0].wages | currency}}
 
+  {{@if(it.transfer.offers[0].releaseClause)}}
+  - Clausola rescissoria: {{it.transfer.offers[0].releaseClause | currency}}
+
+  {{/if}}
+  {{@if(it.transfer.buyout)}}
+  Abbiamo attivato la clausola rescissoria del tuo contratto con **{{it.transfer.to.name}}**, quindi non possono bloccare questo trasferimento.
+
+  {{/if}}
   ---
 
   <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accept Offer</button>
@@ -275,3 +283,146 @@ export enum WelcomeEmail {
   Buona fortuna, divertiti!
   `,
 }
+
+/** @enum */
+export enum FaceitProLeagueInvite {
+  SUBJECT = 'Invito alla {{it.division}}',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}!
+
+  Sei al **#{{it.member.rank}}** posto in {{it.federation}} nella classifica FACEIT, il che ti vale un posto nella **{{it.division}}** per {{it.month}}.
+
+  Le partite della coda {{it.division}} si giocano solo contro gli altri membri della tua divisione.
+
+  Le squadre seguono da vicino la classifica, quindi fai contare ogni partita!
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchAccepted {
+  SUBJECT = 'Richiesta di cambio ruolo',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}.
+
+  Ne abbiamo parlato e d'ora in poi giocherai come nostro **{{it.role}}**.
+
+  Ti serviranno circa {{it.weeks}} settimane di allenamento per tornare al massimo. Fino ad allora aspettati di essere un passo più lento del solito.
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchRejected {
+  SUBJECT = 'Richiesta di cambio ruolo',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}.
+
+  {{@if(it.reason == 'SNIPER_SLOT_TAKEN')}}
+  Abbiamo già un AWPer titolare e non c'è posto per un secondo in questa formazione.
+  {{#else}}
+  {{@if(it.reason == 'NEEDS_SNIPER')}}
+  Sei l'unico AWPer della nostra formazione titolare e non possiamo permetterci di perderti al fucile.
+  {{#else}}
+  Per ora preferiamo tenerti nel tuo ruolo attuale.
+  {{/if}}
+  {{/if}}
+
+  Sentiti libero di riparlarcene tra qualche settimana.
+  `,
+}
+
+/** @enum */
+export enum AgentWeeklyReport {
+  SUBJECT = 'Aggiornamento settimanale da {{it.agent.name}}',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}.
+
+  Ecco la situazione di questa settimana.
+
+  {{@if(it.pendingOffers > 0)}}
+  Hai **{{it.pendingOffers}}** offerta/e in attesa di risposta. Dai un'occhiata prima che scadano.
+  {{#else}}
+  Nessuna offerta sul tavolo al momento. Sto ancora sentendo i miei contatti in {{it.network}}.
+  {{/if}}
+
+  {{@if(it.profile.team)}}
+  Giochi per **{{it.profile.team.name}}** con uno stipendio di **{{it.wages}}**{{@if(it.contractEnd)}} fino al {{it.contractEnd}}{{/if}}. La nostra commissione è di **{{it.fee}}** ({{it.agent.feePercent}}%).
+  {{#else}}
+  Al momento sei svincolato, quindi mantieni la forma nei pug.
+  {{/if}}
+  `,
+}
+
+/** @enum */
+export enum CounterOfferReply {
+  SUBJECT = 'Offerta di trasferimento per {{it.transfer.target.name}}',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}.
+
+  {{@if(it.accepted)}}
+  Abbiamo valutato la tua controproposta e possiamo accettare le tue condizioni.
+  {{#else}}
+  Non possiamo accettare tutto ciò che chiedi, ma siamo disposti a venirti incontro a metà strada.
+  {{/if}}
+
+  **Dettagli dell'offerta:**
+
+  - Stipendio: {{it.wages}}
+
+  - Durata del contratto: {{it.terms.contractYears}} anno/i
+
+  - Posto da titolare garantito: {{@if(it.terms.starterGuarantee)}}Sì{{#else}}No{{/if}}
+
+  - Clausola rescissoria: {{@if(it.releaseClause)}}{{it.releaseClause}}{{#else}}Nessuna{{/if}}
+
+  Questa offerta è valida per i prossimi 7 giorni.
+
+  ---
+
+  <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accept Offer</button>
+  <button className="btn btn-ghost" data-ipc-route="/transfer/reject" data-payload="{{it.transfer.id}}">Reject Offer</button>
+  `,
+}
+
+/** @enum */
+export enum CounterOfferWithdrawn {
+  SUBJECT = 'Offerta di trasferimento per {{it.transfer.target.name}}',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}.
+
+  Siamo troppo distanti sulle condizioni e abbiamo deciso di ritirare la nostra offerta.
+
+  In bocca al lupo per il resto della tua carriera.
+  `,
+}
+
+/** @enum */
+export enum LoanStarted {
+  SUBJECT = 'Prestito a {{it.loanClub.name}}',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}.
+
+  Abbiamo concordato un prestito con **{{it.loanClub.name}}** così potrai giocare con continuità.
+
+  **Dettagli del prestito:**
+
+  - Squadra: {{it.loanClub.name}} ({{it.tierName}})
+
+  - Data di rientro: {{it.recallDate}}
+
+  - Stipendio: {{it.loanClub.name}} copre **{{it.loanWages}}** ({{it.wageShare}}%) e noi paghiamo i restanti **{{it.parentWages}}**
+
+  Tornerai da noi alla fine del prestito. Sfruttalo al massimo!
+  `,
+}
+
+/** @enum */
+export enum LoanRecalled {
+  SUBJECT = 'Rientro dal prestito a {{it.loanClub.name}}',
+  CONTENT = `
+  Ciao, {{it.profile.player.name}}.
+
+  Il tuo prestito a **{{it.loanClub.name}}** è terminato e sei tornato a **{{it.team.name}}**.
+
+  Per ora partirai dalla panchina. Continua a lavorare sodo e avrai la tua occasione.
+  `,
+}
@@ -175,6 +175,14 @@ export enum OfferIncoming {
 
   - Salário: {{it.transfer.offers[0].wages | currency}}
 
+  {{@if(it.transfer.offers[0].releaseClause)}}
+  - Cláusula de rescisão: {{it.transfer.offers[0].releaseClause | currency}}
+
+  {{/if}}
+  {{@if(it.transfer.buyout)}}
+  Acionamos a cláusula de rescisão do seu contrato com **{{it.transfer.to.name}}**, então eles não podem impedir esta transferência.
+
+  {{/if}}
   ---
 
   <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accept Offer</button>
@@ -275,3 +283,146 @@ export enum WelcomeEmail {
   GL HF!
   `,
 }
+
+/** @enum */
+export enum FaceitProLeagueInvite {
+  SUBJECT = 'Convite para a {{it.division}}',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}!
+
+  Você está em **#{{it.member.rank}}** em {{it.federation}} no ranking da FACEIT, o que garante sua vaga na **{{it.division}}** para {{it.month}}.
+
+  As partidas da fila da {{it.division}} são jogadas apenas contra os outros membros da sua divisão.
+
+  Os times acompanham a classificação de perto, então faça cada partida valer!
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchAccepted {
+  SUBJECT = 'Pedido de mudança de função',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}.
+
+  Conversamos sobre isso e a partir de agora você vai jogar como nosso **{{it.role}}**.
+
+  Conte com cerca de {{it.weeks}} semanas de treino até voltar ao seu melhor nível. Até lá, espere estar um passo atrás do normal.
+  `,
+}
+
+/** @enum */
+export enum RoleSwitchRejected {
+  SUBJECT = 'Pedido de mudança de função',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}.
+
+  {{@if(it.reason == 'SNIPER_SLOT_TAKEN')}}
+  Já temos um AWPer titular e não há espaço para um segundo nesta escalação.
+  {{#else}}
+  {{@if(it.reason == 'NEEDS_SNIPER')}}
+  Você é o único AWPer da nossa escalação titular e não podemos perder você no rifle.
+  {{#else}}
+  Por enquanto preferimos manter você na sua função atual.
+  {{/if}}
+  {{/if}}
+
+  Fique à vontade para voltar a falar disso daqui a algumas semanas.
+  `,
+}
+
+/** @enum */
+export enum AgentWeeklyReport {
+  SUBJECT = 'Atualização semanal de {{it.agent.name}}',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}.
+
+  Veja como estão as coisas esta semana.
+
+  {{@if(it.pendingOffers > 0)}}
+  Você tem **{{it.pendingOffers}}** oferta(s) aguardando resposta. Dê uma olhada antes que expirem.
+  {{#else}}
+  Nenhuma oferta na mesa no momento. Continuo acionando meus contatos em {{it.network}}.
+  {{/if}}
+
+  {{@if(it.profile.team)}}
+  Você joga pela **{{it.profile.team.name}}** com salário de **{{it.wages}}**{{@if(it.contractEnd)}} até {{it.contractEnd}}{{/if}}. Nossa comissão fica em **{{it.fee}}** ({{it.agent.feePercent}}%).
+  {{#else}}
+  No momento você está sem contrato, então mantenha a forma nos pugs.
+  {{/if}}
+  `,
+}
+
+/** @enum */
+export enum CounterOfferReply {
+  SUBJECT = 'Oferta de transferência por {{it.transfer.target.name}}',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}.
+
+  {{@if(it.accepted)}}
+  Analisamos a sua contraproposta e podemos aceitar os seus termos.
+  {{#else}}
+  Não podemos aceitar tudo o que você pediu, mas estamos dispostos a chegar a um meio-termo.
+  {{/if}}
+
+  **Detalhes da oferta:**
+
+  - Salário: {{it.wages}}
+
+  - Duração do contrato: {{it.terms.contractYears}} ano(s)
+
+  - Titularidade garantida: {{@if(it.terms.starterGuarantee)}}Sim{{#else}}Não{{/if}}
+
+  - Cláusula de rescisão: {{@if(it.releaseClause)}}{{it.releaseClause}}{{#else}}Nenhuma{{/if}}
+
+  Esta oferta é válida pelos próximos 7 dias.
+
+  ---
+
+  <button className="btn btn-primary" data-ipc-route="/transfer/accept" data-payload="{{it.transfer.id}}">Accept Offer</button>
+  <button className="btn btn-ghost" data-ipc-route="/transfer/reject" data-payload="{{it.transfer.id}}">Reject Offer</button>
+  `,
+}
+
+/** @enum */
+export enum CounterOfferWithdrawn {
+  SUBJECT = 'Oferta de transferência por {{it.transfer.target.name}}',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}.
+
+  Estamos muito distantes nos termos e decidimos retirar a nossa oferta.
+
+  Boa sorte no resto da sua carreira.
+  `,
+}
+
+/** @enum */
+export enum LoanStarted {
+  SUBJECT = 'Empréstimo para {{it.loanClub.name}}',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}.
+
+  Acertamos um empréstimo com **{{it.loanClub.name}}** para você ganhar minutos em partidas.
+
+  **Detalhes do empréstimo:**
+
+  - Clube: {{it.loanClub.name}} ({{it.tierName}})
+
+  - Data de retorno: {{it.recallDate}}
+
+  - Salário: {{it.loanClub.name}} cobre **{{it.loanWages}}** ({{it.wageShare}}%) e nós pagamos os **{{it.parentWages}}** restantes
+
+  Você volta para nós quando o empréstimo terminar. Aproveite!
+  `,
+}
+
+/** @enum */
+export enum LoanRecalled {
+  SUBJECT = 'Retorno do empréstimo no {{it.loanClub.name}}',
+  CONTENT = `
+  Olá, {{it.profile.player.name}}.
+
+  Seu empréstimo no **{{it.loanClub.name}}** terminou e você está de volta ao **{{it.team.name}}**.
+
+  Por enquanto você começa no banco. Continue trabalhando duro e sua chance vai chegar.
+  `,
+}
@@ -106,6 +106,12 @@ export enum UserRole {
   IGL = 'IGL',
   AWPER = 'AWPER',
 }
+export enum TrainingSession {
+  AIM = 'AIM',
+  DEATHMATCH = 'DEATHMATCH',
+  DEMO_REVIEW = 'DEMO_REVIEW',
+  REST = 'REST',
+}
 export enum PersonalityTemplate {
   LURK = 'LurkPersonality',
   ALURK = 'ALurkPersonality',
@@ -159,7 +165,11 @@ export enum CalendarEntry {
   PLAYER_CONTRACT_EXPIRE = '/player/contract-expire',
   PLAYER_CONTRACT_REVIEW = '/player/contract-review',
   PLAYER_CONTRACT_EXTENSION_EVAL = '/player/contract-extension-eval',
+  PLAYER_ROLE_SWITCH_REVIEW = '/player/role-switch-review',
+  PLAYER_ROLE_TRANSITION_END = '/player/role-transition-end',
+  PLAYER_LOAN_RECALL = '/player/loan-recall',
   TRANSFER_OFFER_EXPIRY_CHECK = '/transfer/offer-expiry-check',
+  TRANSFER_COUNTER_RESPONSE = '/transfer/counter-response',
 }
 
 /**
@@ -291,6 +301,9 @@ export enum LocaleIdentifier {
  * @enum
  */
 export enum IPCRoute {
+  AGENTS_ALL = '/agents/all',
+  AGENTS_RELEASE = '/agents/release',
+  AGENTS_SIGN = '/agents/sign',
   APP_DETECT_GAME = '/app/detect/game',
   APP_DETECT_DEDICATED_SERVER = '/app/detect/dedicated-server',
   APP_DETECT_STEAM = '/app/detect/steam',
@@ -327,6 +340,9 @@ export enum IPCRoute {
   DATABASE_CONNECT = '/database/connect',
   DATABASE_DISCONNECT = '/database/disconnect',
   DATABASE_CURRENT = '/database/current',
+  DEMOS_ALL = '/demos/all',
+  DEMOS_DELETE = '/demos/delete',
+  DEMOS_PLAY = '/demos/play',
   EMAILS_ALL = '/emails/all',
   EMAILS_DELETE = '/emails/delete',
   EMAILS_NEW = '/emails/new',
@@ -340,9 +356,14 @@ export enum IPCRoute {
   ISSUES_FIND = '/issues/find',
   MAP_POOL_FIND = '/mapPool/find',
   MAP_POOL_UPDATE = '/mapPool/update',
+  MATCH_CENTRE_FIND = '/matchCentre/find',
+  MATCH_CENTRE_UPDATE = '/matchCentre/update',
   MAP_POOL_UPDATE_MANY = '/mapPool/updateMany',
   MATCH_FIND = '/match/find',
+  MATCH_FIND_MAP_PROFICIENCY = '/match/find/map-proficiency',
+  MATCH_FIND_PLAYER_GAME_DETAILS = '/match/find/player-game-details',
   MATCH_FIND_VETO_LIST = '/match/find/veto-list',
+  MATCH_FIND_VETO_SELECTION = '/match/find/veto-selection',
   MATCH_UPDATE_MAP_LIST = '/match/update/map-list',
   MATCH_UPDATE_VETO_LIST = '/match/update/veto-list',
   MATCHES_ALL = '/matches/all',
@@ -372,6 +393,7 @@ export enum IPCRoute {
   PLAY_EXHIBITION_TEAMS = '/play/exhibition/teams',
   PLAY_EXHIBITION_PLAYERS = '/play/exhibition/players',
   PLAY_PROGRESS = '/play/progress',
+  PLAY_CHECKPOINT = '/play/checkpoint',
   PLAY_START = '/play/start',
   PLAYERS_ALL = '/players/all',
   PLAYERS_COUNT = '/players/count',
@@ -386,9 +408,17 @@ export enum IPCRoute {
   PLUGINS_START = '/plugins/start',
   PROFILES_CREATE = '/profiles/create',
   PROFILES_CURRENT = '/profiles/current',
+  PROFILES_FINANCES = '/profiles/finances',
+  PROFILES_LOAN = '/profiles/loan',
+  PROFILES_LOAN_STATUS = '/profiles/loan/status',
   PROFILES_NPC_MATCH_STATS_BACKFILL = '/profiles/npc-match-stats/backfill',
   PROFILES_NPC_MATCH_STATS_BACKFILL_PROGRESS = '/profiles/npc-match-stats/backfill-progress',
+  PROFILES_ROLE_SWITCH = '/profiles/role-switch',
+  PROFILES_ROLE_SWITCH_STATUS = '/profiles/role-switch/status',
+  PROFILES_TACTICAL_CALLS = '/profiles/tactical-calls',
   PROFILES_TRAIN = '/profiles/train',
+  PROFILES_TRAINING_SCHEDULE = '/profiles/training/schedule',
+  PROFILES_TRAINING_STATUS = '/profiles/training/status',
   PROFILES_UPDATE = '/profiles/update',
   SAVES_ALL = '/saves/all',
   SAVES_DELETE = '/saves/delete',
@@ -407,6 +437,7 @@ export enum IPCRoute {
   TIERS_ALL = '/tiers/all',
   TRANSFER_ACCEPT = '/transfer/accept',
   TRANSFER_ALL = '/transfer/all',
+  TRANSFER_COUNTER = '/transfer/counter',
   TRANSFER_CREATE = '/transfer/create',
   TRANSFER_REJECT = '/transfer/reject',
   TRANSFER_UPDATE = '/transfer/update',
@@ -474,10 +505,29 @@ export enum MatchStatus {
  * @enum
  */
 export enum PersonaRole {
+  AGENT = 'Agent',
   ASSISTANT = 'Assistant Manager',
+  LEAGUE_ADMIN = 'League Admin',
   MANAGER = 'Manager',
 }
 
+/**
+ * Player rating models.
+ *
+ * Games are stamped with the model that was current
+ * when they were played so older games keep the
+ * ratings they were originally reported with.
+ *
+ * @enum
+ */
+export enum PlayerRatingFormula {
+  // kills, deaths and assists only
+  KD = 1,
+
+  // kpr, dpr, kast, adr, multi-kills and opening kills
+  ROUNDS = 2,
+}
+
 /**
  * Score simulation modes.
  *
@@ -784,6 +834,7 @@ export enum WeaponTemplate {
 export enum WindowIdentifier {
   Landing = 'landing',
   Main = 'main',
+  MatchCentre = 'match-centre',
   Modal = 'modal',
   Splash = 'splash',
   Threading = 'threading',
@@ -1278,6 +1329,8 @@ export const Settings = {
     volume: 0.5,
     musicVolume: 0.25,
     faceitMatchFoundTune: 'whoosh_whip.wav' as string | null,
+    recordDemos: false,
+    demoRetentionDays: 30,
   },
   calendar: {
     calendarDateFormat: CalendarDateFormat.EU,
@@ -1880,6 +1933,118 @@ export const PlayerContractSettings = {
   EXTENSION_PBX_GOOD_TEAM_OK_PLAYER: 55,
   EXTENSION_DECLINE_PBX_EVEN_IF_GOOD: 10,
   REVIEW_MIN_MATCHES_LAST_30_DAYS: 3,
+
+  // Role-specific review criteria which replace the KD thresholds
+  // above once enough rounds of the role's metric are on record
+  ROLE_REVIEW_CRITERIA: {
+    // AWP kills plus opening picks per round
+    [UserRole.AWPER]: {
+      MIN_ROUNDS: 120,
+      BENCH_MIN_BY_TIER: {
+        [TierSlug.LEAGUE_OPEN]: 0.3,
+        [TierSlug.LEAGUE_INTERMEDIATE]: 0.33,
+        [TierSlug.LEAGUE_MAIN]: 0.36,
+        [TierSlug.LEAGUE_ADVANCED]: 0.4,
+        [TierSlug.LEAGUE_PRO]: 0.44,
+      },
+      KICK_MAX_BY_TIER: {
+        [TierSlug.LEAGUE_OPEN]: 0.2,
+        [TierSlug.LEAGUE_INTERMEDIATE]: 0.22,
+        [TierSlug.LEAGUE_MAIN]: 0.25,
+        [TierSlug.LEAGUE_ADVANCED]: 0.28,
+        [TierSlug.LEAGUE_PRO]: 0.32,
+      },
+      EXTENSION_OK_BY_TIER: {
+        [TierSlug.LEAGUE_OPEN]: 0.38,
+        [TierSlug.LEAGUE_INTERMEDIATE]: 0.4,
+        [TierSlug.LEAGUE_MAIN]: 0.44,
+        [TierSlug.LEAGUE_ADVANCED]: 0.48,
+        [TierSlug.LEAGUE_PRO]: 0.52,
+      },
+    },
+    // share of rounds won after a call or a tactical timeout
+    [UserRole.IGL]: {
+      MIN_ROUNDS: 40,
+      BENCH_MIN_BY_TIER: {
+        [TierSlug.LEAGUE_OPEN]: 0.4,
+        [TierSlug.LEAGUE_INTERMEDIATE]: 0.42,
+        [TierSlug.LEAGUE_MAIN]: 0.45,
+        [TierSlug.LEAGUE_ADVANCED]: 0.47,
+        [TierSlug.LEAGUE_PRO]: 0.5,
+      },
+      KICK_MAX_BY_TIER: {
+        [TierSlug.LEAGUE_OPEN]: 0.3,
+        [TierSlug.LEAGUE_INTERMEDIATE]: 0.32,
+        [TierSlug.LEAGUE_MAIN]: 0.35,
+        [TierSlug.LEAGUE_ADVANCED]: 0.38,
+        [TierSlug.LEAGUE_PRO]: 0.4,
+      },
+      EXTENSION_OK_BY_TIER: {
+        [TierSlug.LEAGUE_OPEN]: 0.48,
+        [TierSlug.LEAGUE_INTERMEDIATE]: 0.5,
+        [TierSlug.LEAGUE_MAIN]: 0.52,
+        [TierSlug.LEAGUE_ADVANCED]: 0.54,
+        [TierSlug.LEAGUE_PRO]: 0.56,
+      },
+    },
+  },
+};
+
+export const PlayerRoleSwitchSettings = {
+  // How long the coach takes to answer a request
+  REVIEW_DELAY_DAYS: 2,
+  // How long before the coach hears another request after saying no
+  REQUEST_COOLDOWN_DAYS: 30,
+  // Base chance the coach signs off when the squad allows it
+  ACCEPT_PBX: 70,
+  // The coach keeps a single starting AWPer
+  MAX_STARTER_SNIPERS: 1,
+
+  // Retraining period
+  TRANSITION_DAYS: 42,
+  TRANSITION_XP_PENALTY: 10,
+  // Applied on top of the new role's ROLE_OFFER_TUNING
+  TRANSITION_OFFER_TUNING: {
+    pbxMult: 0.6,
+    cooldownMult: 1.25,
+  },
+};
+
+export const PlayerTrainingSettings = {
+  // Monday first
+  DEFAULT_SCHEDULE: [
+    TrainingSession.AIM,
+    TrainingSession.DEATHMATCH,
+    TrainingSession.DEMO_REVIEW,
+    TrainingSession.AIM,
+    TrainingSession.DEATHMATCH,
+    TrainingSession.REST,
+    TrainingSession.REST,
+  ],
+  // Chance out of one XP point a session is worth and the fatigue it costs
+  SESSIONS: {
+    [TrainingSession.AIM]: { xp: 0.2, fatigue: 12 },
+    [TrainingSession.DEATHMATCH]: { xp: 0.25, fatigue: 15 },
+    [TrainingSession.DEMO_REVIEW]: { xp: 0.15, fatigue: 5 },
+    [TrainingSession.REST]: { xp: 0, fatigue: -25 },
+  } as Record<TrainingSession, { xp: number; fatigue: number }>,
+  // Matchdays replace the session of the day
+  MATCHDAY_FATIGUE: 10,
+  MAX_FATIGUE: 100,
+  // Past this every training day rolls for a burnout
+  BURNOUT_THRESHOLD: 70,
+  BURNOUT_DAYS: 7,
+  // Gains are cut to this while burned out
+  BURNOUT_GAIN_MULT: 0.5,
+  // A deathmatch played for real counts this much more than a scheduled one
+  LIVE_SESSION_MULT: 2.5,
+  LIVE_SESSION_OPTIONS: {
+    gameTime: 10,
+    playerLimit: 10,
+    headshotOnly: false,
+    pistolsOnly: false,
+    forceBuy: false,
+  },
 };
 
 /**
@@ -33,6 +33,65 @@ export function getPlayerRating(kills: number, deaths: number, assists = 0) {
   return ratioScore + impactScore;
 }
 
+/**
+ * The stats needed to rate a single game.
+ *
+ * Games that predate round-level tracking only carry
+ * kills, deaths and assists and no rating version.
+ */
+export type PlayerGameRatingStats = {
+  kills: number;
+  deaths: number;
+  assists: number;
+  ratingVersion?: number | null;
+  rounds?: number | null;
+  kastRounds?: number | null;
+  damage?: number | null;
+  multiKillRounds?: number | null;
+  openingKills?: number | null;
+};
+
+/**
+ * Computes an HLTV 2.0-style player rating from round-level stats.
+ *
+ * Impact is driven by kills per round along with opening kills and
+ * multi-kill rounds. Simulated games carry no damage so their ADR
+ * is estimated from kills and assists.
+ *
+ * @param stats The stats of the game.
+ * @function
+ */
+export function getPlayerRoundRating(stats: PlayerGameRatingStats) {
+  const rounds = Math.max(1, stats.rounds || 0);
+  const kpr = stats.kills / rounds;
+  const dpr = stats.deaths / rounds;
+  const apr = stats.assists / rounds;
+  const kast = ((stats.kastRounds || 0) / rounds) * 100;
+  const adr = (stats.damage ?? stats.kills * 100 + stats.assists * 30) / rounds;
+  const impact =
+    1.55 * kpr +
+    0.42 * apr +
+    1.6 * ((stats.openingKills || 0) / rounds) +
+    1.2 * ((stats.multiKillRounds || 0) / rounds) -
+    0.41;
+
+  return 0.0073 * kast + 0.3591 * kpr - 0.5329 * dpr + 0.2372 * impact + 0.0032 * adr + 0.1587;
+}
+
+/**
+ * Rates a single game with the model it was stamped with.
+ *
+ * @param stats The stats of the game.
+ * @function
+ */
+export function getPlayerGameRating(stats: PlayerGameRatingStats) {
+  if (stats.ratingVersion === Constants.PlayerRatingFormula.ROUNDS && stats.rounds) {
+    return getPlayerRoundRating(stats);
+  }
+
+  return getPlayerRating(stats.kills, stats.deaths, stats.assists);
+}
+
 /**
  * Builds team query from provided filters.
  *